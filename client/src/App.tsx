@@ -21,6 +21,8 @@ const ApplicantsList = lazy(() => import('@/pages/ApplicantsList'))
 const PublicPlayerProfile = lazy(() => import('@/pages/PublicPlayerProfile'))
 const PublicClubProfile = lazy(() => import('@/pages/PublicClubProfile'))
 const MessagesPage = lazy(() => import('@/pages/MessagesPage'))
+const MyApplicationsPage = lazy(() => import('@/pages/MyApplicationsPage'))
+const ScoutPage = lazy(() => import('@/pages/ScoutPage'))
 
 // Loading fallback component
 const PageLoader = () => (
@@ -77,6 +79,8 @@ function App() {
                 <Route path="/community" element={<CommunityPage />} />
                 <Route path="/opportunities" element={<OpportunitiesPage />} />
                 <Route path="/opportunities/:id" element={<OpportunityDetailPage />} />
+                <Route path="/applications" element={<MyApplicationsPage />} />
+                <Route path="/scout" element={<ScoutPage />} />
                 <Route path="/messages" element={<MessagesPage />} />
                 <Route path="/settings" element={<SettingsPage />} />
                 <Route path="/dashboard/profile" element={<DashboardRouter />} />
@@ -1,19 +1,37 @@
-import { MapPin } from 'lucide-react'
+import { useState } from 'react'
+import { MapPin, Loader2, ChevronDown, CheckCircle, XCircle, Target } from 'lucide-react'
 import { useNavigate } from 'react-router-dom'
-import type { VacancyApplicationWithPlayer } from '@/lib/supabase'
+import type { ApplicationStatus, VacancyApplicationWithPlayer } from '@/lib/supabase'
+import { APPLICATION_STAGE_META, getClubMoveTargets } from '@/lib/applications'
+import { getScreeningResult } from '@/lib/screening'
+import { getMatchBadgeClassName, type MatchScore } from '@/lib/matchScore'
 
 interface ApplicantCardProps {
   application: VacancyApplicationWithPlayer
+  match?: MatchScore
+  onStatusChange?: (status: ApplicationStatus) => void
+  onViewDetails?: () => void
+  isUpdating?: boolean
 }
 
-export default function ApplicantCard({ application }: ApplicantCardProps) {
+export default function ApplicantCard({
+  application,
+  match,
+  onStatusChange,
+  onViewDetails,
+  isUpdating = false
+}: ApplicantCardProps) {
   const navigate = useNavigate()
+  const [showBreakdown, setShowBreakdown] = useState(false)
   const { player } = application
   const displayName = player.full_name?.trim() || player.username?.trim() || 'Player'
   const positions = [player.position, player.secondary_position].filter((value, index, self): value is string => {
     if (!value) return false
     return self.findIndex((item) => item === value) === index
   })
+  const moveTargets = getClubMoveTargets(application.status)
+  const screening = getScreeningResult(application.metadata)
+  const failedCount = screening?.answers.filter(answer => !answer.passed).length ?? 0
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString)
@@ -38,8 +56,8 @@ export default function ApplicantCard({ application }: ApplicantCardProps) {
   }
 
   return (
-    <div className="rounded-xl border border-gray-200 bg-white p-4 shadow-sm transition-shadow hover:shadow-md sm:p-6">
-      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:gap-6">
+    <div className="rounded-xl border border-gray-200 bg-white p-4 shadow-sm transition-shadow hover:shadow-md">
+      <div className="flex items-start gap-3">
         {/* Player Photo */}
         <button
           onClick={handleViewProfile}
@@ -49,11 +67,11 @@ export default function ApplicantCard({ application }: ApplicantCardProps) {
             <img
               src={player.avatar_url}
               alt={displayName}
-              className="h-14 w-14 rounded-full object-cover ring-2 ring-gray-200 transition-all group-hover:ring-blue-500 sm:h-16 sm:w-16"
+              className="h-12 w-12 rounded-full object-cover ring-2 ring-gray-200 transition-all group-hover:ring-blue-500"
             />
           ) : (
-            <div className="flex h-14 w-14 items-center justify-center rounded-full bg-gradient-to-br from-blue-500 to-purple-600 ring-2 ring-gray-200 transition-all group-hover:ring-blue-500 sm:h-16 sm:w-16">
-              <span className="text-base font-bold text-white sm:text-lg">
+            <div className="flex h-12 w-12 items-center justify-center rounded-full bg-gradient-to-br from-blue-500 to-purple-600 ring-2 ring-gray-200 transition-all group-hover:ring-blue-500">
+              <span className="text-base font-bold text-white">
                 {getInitials(displayName)}
               </span>
             </div>
@@ -66,33 +84,121 @@ export default function ApplicantCard({ application }: ApplicantCardProps) {
             onClick={handleViewProfile}
             className="text-left group"
           >
-            <h3 className="text-base font-semibold text-gray-900 transition-colors group-hover:text-blue-600 sm:text-lg">
+            <h3 className="truncate text-sm font-semibold text-gray-900 transition-colors group-hover:text-blue-600 sm:text-base">
               {displayName}
             </h3>
           </button>
-          
-          <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-gray-600 sm:text-sm">
+
+          <div className="mt-1 flex flex-wrap items-center gap-x-2 gap-y-1 text-xs text-gray-600">
             {positions.length > 0 ? <span className="font-medium">{positions.join(' • ')}</span> : null}
-            {positions.length > 0 && player.base_location ? <span>•</span> : null}
             {player.base_location ? (
               <div className="flex items-center gap-1">
-                <MapPin className="h-3 w-3 sm:h-3.5 sm:w-3.5" />
-                <span>{player.base_location}</span>
+                <MapPin className="h-3 w-3" />
+                <span className="truncate">{player.base_location}</span>
               </div>
             ) : null}
           </div>
 
-          <div className="mt-2 text-xs text-gray-500 sm:text-sm">
+          <div className="mt-2 text-xs text-gray-500">
             Applied {formatDate(application.applied_at)}
+            {application.status !== 'pending' && (
+              <> · {APPLICATION_STAGE_META[application.status].label} since {formatDate(application.status_changed_at)}</>
+            )}
           </div>
+
+          {screening && (
+            <span
+              className={`mt-2 inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium ${
+                screening.knocked_out ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'
+              }`}
+            >
+              {screening.knocked_out ? (
+                <>
+                  <XCircle className="h-3.5 w-3.5" />
+                  Knocked out · {failedCount} answer{failedCount !== 1 ? 's' : ''}
+                </>
+              ) : (
+                <>
+                  <CheckCircle className="h-3.5 w-3.5" />
+                  Passed screening
+                </>
+              )}
+            </span>
+          )}
         </div>
 
-        {/* View Profile Button */}
+        {match && (
+          <button
+            type="button"
+            onClick={() => setShowBreakdown(prev => !prev)}
+            className={`inline-flex flex-shrink-0 items-center gap-1 rounded-full px-2 py-0.5 text-xs font-semibold ${getMatchBadgeClassName(match.score)}`}
+            aria-expanded={showBreakdown}
+            aria-label={`${match.score}% match, ${showBreakdown ? 'hide' : 'show'} breakdown`}
+          >
+            <Target className="h-3.5 w-3.5" />
+            {match.score}%
+          </button>
+        )}
+      </div>
+
+      {match && showBreakdown && (
+        <ul className="mt-3 space-y-1.5 rounded-lg bg-gray-50 p-3">
+          {match.factors.map(factor => (
+            <li key={factor.key} className="flex items-start justify-between gap-3 text-xs">
+              <span className="min-w-0">
+                <span className="font-medium text-gray-700">{factor.label}</span>
+                <span className="block truncate text-gray-500" title={factor.detail}>
+                  {factor.detail}
+                </span>
+              </span>
+              <span
+                className={`flex-shrink-0 font-medium ${
+                  factor.points === factor.max ? 'text-emerald-700' : factor.points === 0 ? 'text-gray-400' : 'text-gray-700'
+                }`}
+              >
+                {factor.points}/{factor.max}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-4 flex items-center gap-2">
+        {onStatusChange && moveTargets.length > 0 && (
+          <div className="relative flex-1">
+            <label htmlFor={`stage-${application.id}`} className="sr-only">
+              Move {displayName} to stage
+            </label>
+            <select
+              id={`stage-${application.id}`}
+              value={application.status}
+              disabled={isUpdating}
+              onChange={(e) => onStatusChange(e.target.value as ApplicationStatus)}
+              className="w-full appearance-none rounded-lg border border-gray-300 bg-white px-3 py-2 pr-8 text-xs font-medium text-gray-700 transition-colors hover:border-gray-400 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-100 disabled:cursor-not-allowed disabled:opacity-70"
+            >
+              <option value={application.status} disabled>
+                {APPLICATION_STAGE_META[application.status].label}
+              </option>
+              {moveTargets.map((stage) => (
+                <option key={stage} value={stage}>
+                  Move to {APPLICATION_STAGE_META[stage].label}
+                </option>
+              ))}
+            </select>
+            {isUpdating ? (
+              <Loader2 className="pointer-events-none absolute right-2.5 top-1/2 h-3.5 w-3.5 -translate-y-1/2 animate-spin text-gray-400" />
+            ) : (
+              <ChevronDown className="pointer-events-none absolute right-2.5 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-gray-500" />
+            )}
+          </div>
+        )}
+
+        {/* Details / View Profile Button */}
         <button
-          onClick={handleViewProfile}
-          className="inline-flex w-full items-center justify-center rounded-lg border border-blue-200 px-4 py-2 text-sm font-medium text-blue-700 transition-colors hover:bg-blue-50 sm:w-auto sm:px-6 sm:py-2.5"
+          onClick={onViewDetails ?? handleViewProfile}
+          className="inline-flex flex-1 items-center justify-center rounded-lg border border-blue-200 px-3 py-2 text-xs font-medium text-blue-700 transition-colors hover:bg-blue-50"
         >
-          View Profile
+          {onViewDetails ? 'Details' : 'View Profile'}
         </button>
       </div>
     </div>
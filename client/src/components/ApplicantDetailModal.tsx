@@ -0,0 +1,117 @@
+import { MapPin, Flag, CheckCircle, XCircle } from 'lucide-react'
+import { useNavigate } from 'react-router-dom'
+import type { VacancyApplicationWithPlayer } from '@/lib/supabase'
+import { APPLICATION_STAGE_META } from '@/lib/applications'
+import { formatScreeningAnswer, getScreeningResult } from '@/lib/screening'
+import Modal from './Modal'
+import Avatar from './Avatar'
+import ApplicationStatusTimeline from './ApplicationStatusTimeline'
+
+interface ApplicantDetailModalProps {
+  application: VacancyApplicationWithPlayer
+  isOpen: boolean
+  onClose: () => void
+}
+
+export default function ApplicantDetailModal({ application, isOpen, onClose }: ApplicantDetailModalProps) {
+  const navigate = useNavigate()
+  const { player } = application
+  const displayName = player.full_name?.trim() || player.username?.trim() || 'Player'
+  const initials = displayName
+    .split(' ')
+    .map(n => n[0])
+    .join('')
+    .toUpperCase()
+    .slice(0, 2)
+  const stage = APPLICATION_STAGE_META[application.status]
+  const screening = getScreeningResult(application.metadata)
+  const positions = [player.position, player.secondary_position].filter((value, index, self): value is string => {
+    if (!value) return false
+    return self.findIndex((item) => item === value) === index
+  })
+
+  const handleViewProfile = () => {
+    onClose()
+    navigate(player.username ? `/players/${player.username}` : `/players/id/${player.id}`)
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} className="max-w-lg">
+      <div className="p-6">
+        <div className="flex items-start gap-4 pr-10">
+          <Avatar src={player.avatar_url} alt={displayName} initials={initials} size="lg" />
+          <div className="min-w-0 flex-1">
+            <h2 className="truncate text-xl font-bold text-gray-900">{displayName}</h2>
+            <div className="mt-1 flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-gray-600">
+              {positions.length > 0 && <span className="font-medium">{positions.join(' • ')}</span>}
+              {player.base_location && (
+                <span className="flex items-center gap-1">
+                  <MapPin className="h-3.5 w-3.5" />
+                  {player.base_location}
+                </span>
+              )}
+              {player.nationality && (
+                <span className="flex items-center gap-1">
+                  <Flag className="h-3.5 w-3.5" />
+                  {player.nationality}
+                </span>
+              )}
+            </div>
+            <span className={`mt-3 inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-semibold ${stage.badgeClassName}`}>
+              {stage.label}
+            </span>
+          </div>
+        </div>
+
+        <section className="mt-6">
+          <h3 className="mb-2 text-sm font-semibold text-gray-900">Cover letter</h3>
+          {application.cover_letter ? (
+            <p className="whitespace-pre-wrap rounded-xl bg-gray-50 p-4 text-sm leading-relaxed text-gray-700">
+              {application.cover_letter}
+            </p>
+          ) : (
+            <p className="text-sm text-gray-500">No cover letter was included.</p>
+          )}
+        </section>
+
+        {screening && screening.answers.length > 0 && (
+          <section className="mt-6">
+            <h3 className="mb-2 text-sm font-semibold text-gray-900">
+              Screening answers
+              {screening.knocked_out && (
+                <span className="ml-2 rounded-full bg-red-50 px-2 py-0.5 text-xs font-medium text-red-700">Knocked out</span>
+              )}
+            </h3>
+            <ul className="divide-y divide-gray-100 rounded-xl bg-gray-50">
+              {screening.answers.map(answer => (
+                <li key={answer.question_id} className="flex items-start gap-3 p-3">
+                  {answer.passed ? (
+                    <CheckCircle className="mt-0.5 h-4 w-4 flex-shrink-0 text-green-600" aria-label="Passed" />
+                  ) : (
+                    <XCircle className="mt-0.5 h-4 w-4 flex-shrink-0 text-red-600" aria-label="Knockout answer" />
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm text-gray-600">{answer.prompt}</p>
+                    <p className="break-words text-sm font-medium text-gray-900">{formatScreeningAnswer(answer)}</p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <section className="mt-6">
+          <h3 className="mb-3 text-sm font-semibold text-gray-900">Status history</h3>
+          <ApplicationStatusTimeline applicationId={application.id} currentStatus={application.status} />
+        </section>
+
+        <button
+          onClick={handleViewProfile}
+          className="mt-6 inline-flex w-full items-center justify-center rounded-lg border border-blue-200 px-4 py-2.5 text-sm font-medium text-blue-700 transition-colors hover:bg-blue-50"
+        >
+          View Full Profile
+        </button>
+      </div>
+    </Modal>
+  )
+}
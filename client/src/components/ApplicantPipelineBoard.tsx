@@ -0,0 +1,147 @@
+import { useState } from 'react'
+import type { ApplicationStatus, VacancyApplicationWithPlayer } from '@/lib/supabase'
+import { APPLICATION_STAGES, APPLICATION_STAGE_META, getClubMoveTargets } from '@/lib/applications'
+import type { MatchScore } from '@/lib/matchScore'
+import ApplicantCard from './ApplicantCard'
+
+interface ApplicantPipelineBoardProps {
+  applications: VacancyApplicationWithPlayer[]
+  updatingIds: Set<string>
+  matchScores?: Record<string, MatchScore>
+  onMove: (applicationId: string, status: ApplicationStatus) => void
+  onViewDetails: (applicationId: string) => void
+}
+
+const DRAG_DATA_TYPE = 'application/x-playr-application'
+
+/**
+ * Kanban-style board grouping applicants by pipeline stage.
+ * Cards can be dragged between columns or moved with the per-card stage menu.
+ */
+export default function ApplicantPipelineBoard({
+  applications,
+  updatingIds,
+  matchScores,
+  onMove,
+  onViewDetails
+}: ApplicantPipelineBoardProps) {
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+  const [dropTarget, setDropTarget] = useState<ApplicationStatus | null>(null)
+
+  const applicationsByStage = APPLICATION_STAGES.reduce<Record<ApplicationStatus, VacancyApplicationWithPlayer[]>>(
+    (acc, stage) => {
+      acc[stage] = applications.filter((application) => application.status === stage)
+      return acc
+    },
+    {} as Record<ApplicationStatus, VacancyApplicationWithPlayer[]>
+  )
+
+  const handleDragStart = (event: React.DragEvent<HTMLDivElement>, application: VacancyApplicationWithPlayer) => {
+    event.dataTransfer.setData(DRAG_DATA_TYPE, application.id)
+    event.dataTransfer.effectAllowed = 'move'
+    setDraggingId(application.id)
+  }
+
+  const handleDragEnd = () => {
+    setDraggingId(null)
+    setDropTarget(null)
+  }
+
+  const draggedApplication = draggingId ? applications.find((item) => item.id === draggingId) ?? null : null
+
+  // Same targets as the card's stage menu; withdrawal is the applicant's
+  // decision, so that column never accepts drops
+  const canDropInto = (stage: ApplicationStatus) =>
+    draggedApplication !== null && getClubMoveTargets(draggedApplication.status).includes(stage)
+
+  const handleDragOver = (event: React.DragEvent<HTMLElement>, stage: ApplicationStatus) => {
+    if (!event.dataTransfer.types.includes(DRAG_DATA_TYPE) || !canDropInto(stage)) return
+    event.preventDefault()
+    event.dataTransfer.dropEffect = 'move'
+    if (dropTarget !== stage) {
+      setDropTarget(stage)
+    }
+  }
+
+  const handleDrop = (event: React.DragEvent<HTMLElement>, stage: ApplicationStatus) => {
+    event.preventDefault()
+    const applicationId = event.dataTransfer.getData(DRAG_DATA_TYPE)
+    setDraggingId(null)
+    setDropTarget(null)
+
+    if (!applicationId) return
+    const application = applications.find((item) => item.id === applicationId)
+    if (!application || !getClubMoveTargets(application.status).includes(stage)) return
+
+    onMove(applicationId, stage)
+  }
+
+  return (
+    <div className="-mx-4 overflow-x-auto px-4 pb-4 sm:-mx-6 sm:px-6">
+      <div className="flex min-w-max snap-x snap-mandatory gap-4">
+        {APPLICATION_STAGES.map((stage) => {
+          const meta = APPLICATION_STAGE_META[stage]
+          const stageApplications = applicationsByStage[stage]
+          const isDropTarget = dropTarget === stage
+          const isBlocked = Boolean(draggedApplication) && draggedApplication?.status !== stage && !canDropInto(stage)
+
+          return (
+            <section
+              key={stage}
+              aria-label={`${meta.label} applicants`}
+              onDragOver={(event) => handleDragOver(event, stage)}
+              onDragLeave={() => setDropTarget((current) => (current === stage ? null : current))}
+              onDrop={(event) => handleDrop(event, stage)}
+              className={`flex w-72 flex-shrink-0 snap-start flex-col rounded-2xl border bg-gray-100/70 transition-colors ${
+                isDropTarget ? 'border-blue-400 bg-blue-50/70' : 'border-gray-200'
+              } ${isBlocked ? 'opacity-50' : ''}`}
+            >
+              <header className="flex items-center justify-between gap-2 px-4 pb-2 pt-4">
+                <div className="flex items-center gap-2">
+                  <span className={`h-2.5 w-2.5 rounded-full ${meta.accentClassName}`} />
+                  <h2 className="text-sm font-semibold text-gray-900">{meta.label}</h2>
+                  <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${meta.badgeClassName}`}>
+                    {stageApplications.length}
+                  </span>
+                </div>
+              </header>
+              <p className="px-4 pb-3 text-xs text-gray-500">{meta.description}</p>
+
+              <div className="flex min-h-[120px] flex-1 flex-col gap-3 px-3 pb-3">
+                {stageApplications.length === 0 ? (
+                  <div className="flex flex-1 items-center justify-center rounded-xl border-2 border-dashed border-gray-200 p-4 text-center text-xs text-gray-400">
+                    {stage === 'withdrawn' ? 'No withdrawals' : 'Drop applicants here'}
+                  </div>
+                ) : (
+                  stageApplications.map((application) => {
+                    const canDrag = getClubMoveTargets(application.status).length > 0 && !updatingIds.has(application.id)
+
+                    return (
+                      <div
+                        key={application.id}
+                        draggable={canDrag}
+                        onDragStart={(event) => handleDragStart(event, application)}
+                        onDragEnd={handleDragEnd}
+                        className={`${canDrag ? 'cursor-grab active:cursor-grabbing' : ''} ${
+                          draggingId === application.id ? 'opacity-50' : ''
+                        }`}
+                      >
+                        <ApplicantCard
+                          application={application}
+                          match={matchScores?.[application.id]}
+                          isUpdating={updatingIds.has(application.id)}
+                          onStatusChange={(status) => onMove(application.id, status)}
+                          onViewDetails={() => onViewDetails(application.id)}
+                        />
+                      </div>
+                    )
+                  })
+                )}
+              </div>
+            </section>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
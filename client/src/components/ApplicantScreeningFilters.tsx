@@ -0,0 +1,121 @@
+import { useId } from 'react'
+import { SlidersHorizontal } from 'lucide-react'
+import {
+  EMPTY_SCREENING_FILTERS,
+  type ScreeningFilters,
+  type ScreeningOutcomeFilter,
+  type ScreeningQuestion,
+} from '@/lib/screening'
+
+interface ApplicantScreeningFiltersProps {
+  questions: ScreeningQuestion[]
+  filters: ScreeningFilters
+  onChange: (filters: ScreeningFilters) => void
+  matchCount: number
+  totalCount: number
+}
+
+const controlClassName =
+  'w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-700 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-100'
+
+/**
+ * Filters the applicants board by screening outcome and individual answers.
+ */
+export default function ApplicantScreeningFilters({
+  questions,
+  filters,
+  onChange,
+  matchCount,
+  totalCount
+}: ApplicantScreeningFiltersProps) {
+  const baseId = useId()
+  const isFiltered =
+    filters.outcome !== 'all' || Object.values(filters.answers).some(value => value.trim() !== '')
+
+  const setAnswerFilter = (questionId: string, value: string) => {
+    onChange({ ...filters, answers: { ...filters.answers, [questionId]: value } })
+  }
+
+  return (
+    <div className="mb-6 rounded-2xl border border-gray-200 bg-white p-4">
+      <div className="mb-3 flex items-center gap-2">
+        <SlidersHorizontal className="h-4 w-4 text-gray-500" />
+        <h2 className="text-sm font-semibold text-gray-900">Screening</h2>
+        <span className="text-xs text-gray-500">
+          {isFiltered ? `Showing ${matchCount} of ${totalCount}` : `${totalCount} applicant${totalCount !== 1 ? 's' : ''}`}
+        </span>
+        {isFiltered && (
+          <button
+            type="button"
+            onClick={() => onChange(EMPTY_SCREENING_FILTERS)}
+            className="ml-auto text-xs font-medium text-blue-600 hover:text-blue-700"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-4">
+        <div>
+          <label htmlFor={`${baseId}-outcome`} className="mb-1 block text-xs font-medium text-gray-600">
+            Outcome
+          </label>
+          <select
+            id={`${baseId}-outcome`}
+            value={filters.outcome}
+            onChange={(e) => onChange({ ...filters, outcome: e.target.value as ScreeningOutcomeFilter })}
+            className={controlClassName}
+          >
+            <option value="all">All applicants</option>
+            <option value="passed">Passed screening</option>
+            <option value="knocked_out">Knocked out</option>
+          </select>
+        </div>
+
+        {questions.map(question => {
+          const fieldId = `${baseId}-${question.id}`
+          const value = filters.answers[question.id] ?? ''
+
+          return (
+            <div key={question.id}>
+              <label htmlFor={fieldId} className="mb-1 block truncate text-xs font-medium text-gray-600" title={question.prompt}>
+                {question.prompt}
+              </label>
+              {question.type === 'yes_no' || question.type === 'single_choice' ? (
+                <select
+                  id={fieldId}
+                  value={value}
+                  onChange={(e) => setAnswerFilter(question.id, e.target.value)}
+                  className={controlClassName}
+                >
+                  <option value="">Any answer</option>
+                  {question.type === 'yes_no' ? (
+                    <>
+                      <option value="true">Yes</option>
+                      <option value="false">No</option>
+                    </>
+                  ) : (
+                    (question.options ?? []).map(option => (
+                      <option key={option} value={option}>
+                        {option}
+                      </option>
+                    ))
+                  )}
+                </select>
+              ) : (
+                <input
+                  id={fieldId}
+                  type={question.type === 'number' ? 'number' : 'search'}
+                  value={value}
+                  onChange={(e) => setAnswerFilter(question.id, e.target.value)}
+                  placeholder={question.type === 'number' ? 'At least…' : 'Contains…'}
+                  className={controlClassName}
+                />
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
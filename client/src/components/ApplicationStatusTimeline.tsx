@@ -0,0 +1,116 @@
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { supabase } from '@/lib/supabase'
+import type { ApplicationStatus, ApplicationStatusHistory } from '@/lib/supabase'
+import { APPLICATION_STAGE_META } from '@/lib/applications'
+import { logger } from '@/lib/logger'
+import Skeleton from './Skeleton'
+
+interface ApplicationStatusTimelineProps {
+  applicationId: string
+  /** Current status; the trail is refetched whenever it changes */
+  currentStatus: ApplicationStatus
+  /** Hide staff names, e.g. when the applicant is viewing their own trail */
+  hideActors?: boolean
+}
+
+type HistoryEntry = ApplicationStatusHistory & {
+  actor: { full_name: string | null; role: string } | null
+}
+
+export default function ApplicationStatusTimeline({ applicationId, currentStatus, hideActors = false }: ApplicationStatusTimelineProps) {
+  const [entries, setEntries] = useState<HistoryEntry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchHistory = async () => {
+      setIsLoading(true)
+      setError(null)
+
+      const { data, error: historyError } = await supabase
+        .from('application_status_history')
+        .select(`
+          *,
+          actor:changed_by (
+            full_name,
+            role
+          )
+        `)
+        .eq('application_id', applicationId)
+        .order('changed_at', { ascending: false })
+
+      if (cancelled) return
+
+      if (historyError) {
+        logger.error('Error fetching application status history:', historyError)
+        setError('Could not load status history.')
+      } else {
+        setEntries((data ?? []) as HistoryEntry[])
+      }
+      setIsLoading(false)
+    }
+
+    fetchHistory()
+
+    return () => {
+      cancelled = true
+    }
+  }, [applicationId, currentStatus])
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {Array.from({ length: 3 }).map((_, index) => (
+          <div key={index} className="flex items-start gap-3">
+            <Skeleton variant="circular" width={12} height={12} className="mt-1" />
+            <div className="flex-1 space-y-2">
+              <Skeleton width="60%" height={14} />
+              <Skeleton width="40%" height={12} />
+            </div>
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500">No status changes recorded yet.</p>
+  }
+
+  const describeActor = (entry: HistoryEntry) => {
+    if (!entry.actor) return null
+    if (entry.actor.role === 'club') return hideActors ? 'by the club' : `by ${entry.actor.full_name || 'club staff'}`
+    return hideActors ? null : `by ${entry.actor.full_name || 'applicant'}`
+  }
+
+  return (
+    <ol className="relative space-y-4 border-l border-gray-200 pl-5">
+      {entries.map((entry) => {
+        const meta = APPLICATION_STAGE_META[entry.to_status]
+        const actor = describeActor(entry)
+
+        return (
+          <li key={entry.id} className="relative">
+            <span className={`absolute -left-[1.6rem] top-1 h-3 w-3 rounded-full ring-4 ring-white ${meta.accentClassName}`} />
+            <p className="text-sm font-medium text-gray-900">
+              {entry.from_status
+                ? <>Moved from {APPLICATION_STAGE_META[entry.from_status].label} to {meta.label}</>
+                : 'Application submitted'}
+            </p>
+            <p className="mt-0.5 text-xs text-gray-500">
+              {format(new Date(entry.changed_at), 'MMM d, yyyy h:mm a')}
+              {actor ? ` · ${actor}` : ''}
+            </p>
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
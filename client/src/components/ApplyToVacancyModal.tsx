@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useId, useRef, useState } from 'react'
+import { useCallback, useEffect, useId, useMemo, useRef, useState } from 'react'
 import { X } from 'lucide-react'
 import { supabase } from '@/lib/supabase'
 import { useAuthStore } from '@/lib/auth'
@@ -6,6 +6,11 @@ import { useToastStore } from '@/lib/toast'
 import type { Vacancy } from '@/lib/supabase'
 import Button from './Button'
 import { useFocusTrap } from '@/hooks/useFocusTrap'
+import {
+  MAX_SCREENING_TEXT_ANSWER_LENGTH,
+  parseScreeningQuestions,
+  type ScreeningAnswerValue,
+} from '@/lib/screening'
 
 interface ApplyToVacancyModalProps {
   isOpen: boolean
@@ -26,6 +31,17 @@ export default function ApplyToVacancyModal({
   const { addToast } = useToastStore()
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [answers, setAnswers] = useState<Record<string, ScreeningAnswerValue>>({})
+  const screeningQuestions = useMemo(
+    () => parseScreeningQuestions(vacancy.screening_questions),
+    [vacancy.screening_questions]
+  )
+
+  useEffect(() => {
+    if (isOpen) {
+      setAnswers({})
+    }
+  }, [isOpen, vacancy.id])
   const dialogRef = useRef<HTMLDivElement>(null)
   const titleId = useId()
   const descriptionId = useId()
@@ -66,6 +82,18 @@ export default function ApplyToVacancyModal({
 
   if (!isOpen) return null
 
+  const setAnswer = (questionId: string, value: ScreeningAnswerValue | null) => {
+    setAnswers(prev => {
+      const next = { ...prev }
+      if (value === null || value === '') {
+        delete next[questionId]
+      } else {
+        next[questionId] = value
+      }
+      return next
+    })
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     
@@ -74,6 +102,12 @@ export default function ApplyToVacancyModal({
       return
     }
 
+    const unanswered = screeningQuestions.find(question => question.required && answers[question.id] === undefined)
+    if (unanswered) {
+      setError(`Please answer: ${unanswered.prompt}`)
+      return
+    }
+
     setIsSubmitting(true)
     setError(null)
 
@@ -84,6 +118,8 @@ export default function ApplyToVacancyModal({
           vacancy_id: vacancy.id,
           player_id: user.id,
           status: 'pending',
+          // Checked against the knockout rules by apply_screening_answers
+          ...(screeningQuestions.length > 0 && { metadata: { screening: { answers } } }),
         } as never)
 
       if (insertError) {
@@ -93,6 +129,10 @@ export default function ApplyToVacancyModal({
           onSuccess(vacancy.id)
           onClose()
           addToast('Application confirmed!', 'success')
+        } else if (insertError.code === '23514' && insertError.message?.startsWith('Please answer')) {
+          // A required screening answer was missing or invalid
+          onError?.(vacancy.id)
+          setError(insertError.message)
         } else if (insertError.code === '42501' || insertError.message?.includes('row-level security')) {
           // RLS policy blocked the insert - role mismatch
           console.error('❌ Role mismatch - RLS policy blocked application:', insertError)
@@ -179,6 +219,74 @@ export default function ApplyToVacancyModal({
             </div>
           </div>
 
+          {/* Screening Questions */}
+          {screeningQuestions.length > 0 && (
+            <fieldset className="space-y-4">
+              <legend className="text-sm font-semibold text-gray-900 mb-2">Questions from the club</legend>
+              {screeningQuestions.map(question => {
+                const fieldId = `${titleId}-${question.id}`
+                const value = answers[question.id]
+
+                return (
+                  <div key={question.id} className="space-y-2">
+                    <label htmlFor={fieldId} className="block text-sm font-medium text-gray-700">
+                      {question.prompt}
+                      {question.required && <span className="text-red-500 ml-1">*</span>}
+                    </label>
+                    {question.type === 'yes_no' || question.type === 'single_choice' ? (
+                      <select
+                        id={fieldId}
+                        value={value === undefined ? '' : String(value)}
+                        onChange={(e) => {
+                          const selected = e.target.value
+                          if (question.type === 'yes_no') {
+                            setAnswer(question.id, selected === '' ? null : selected === 'true')
+                          } else {
+                            setAnswer(question.id, selected || null)
+                          }
+                        }}
+                        disabled={isSubmitting}
+                        className="w-full px-4 py-2.5 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        <option value="">Select an answer</option>
+                        {question.type === 'yes_no' ? (
+                          <>
+                            <option value="true">Yes</option>
+                            <option value="false">No</option>
+                          </>
+                        ) : (
+                          (question.options ?? []).map(option => (
+                            <option key={option} value={option}>
+                              {option}
+                            </option>
+                          ))
+                        )}
+                      </select>
+                    ) : (
+                      <input
+                        id={fieldId}
+                        type={question.type === 'number' ? 'number' : 'text'}
+                        value={value === undefined ? '' : String(value)}
+                        onChange={(e) => {
+                          const raw = e.target.value
+                          if (question.type === 'number') {
+                            const parsed = Number(raw)
+                            setAnswer(question.id, raw.trim() === '' || !Number.isFinite(parsed) ? null : parsed)
+                          } else {
+                            setAnswer(question.id, raw)
+                          }
+                        }}
+                        maxLength={question.type === 'short_text' ? MAX_SCREENING_TEXT_ANSWER_LENGTH : undefined}
+                        disabled={isSubmitting}
+                        className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    )}
+                  </div>
+                )
+              })}
+            </fieldset>
+          )}
+
           {/* Error Message */}
           {error && (
             <div className="bg-red-50 border border-red-200 rounded-lg p-4">
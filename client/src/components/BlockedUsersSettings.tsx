@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Ban } from 'lucide-react'
+import { useAuthStore } from '@/lib/auth'
+import { useToastStore } from '@/lib/toast'
+import { logger } from '@/lib/logger'
+import { fetchBlockedUsers, unblockUser, type BlockedUser } from '@/lib/moderation'
+import Avatar from './Avatar'
+
+const getAvatarUrl = (avatarUrl: string | null) => {
+  if (!avatarUrl) return null
+  if (avatarUrl.startsWith('http')) return avatarUrl
+  return `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/object/public/avatars/${avatarUrl}`
+}
+
+/**
+ * Settings section listing blocked members, with unblock.
+ */
+export default function BlockedUsersSettings() {
+  const userId = useAuthStore(state => state.user?.id ?? null)
+  const { addToast } = useToastStore()
+  const [blockedUsers, setBlockedUsers] = useState<BlockedUser[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [unblockingId, setUnblockingId] = useState<string | null>(null)
+
+  const loadBlockedUsers = useCallback(async () => {
+    if (!userId) return
+    try {
+      setBlockedUsers(await fetchBlockedUsers(userId))
+    } catch (error) {
+      logger.error('Error fetching blocked users:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [userId])
+
+  useEffect(() => {
+    void loadBlockedUsers()
+  }, [loadBlockedUsers])
+
+  const handleUnblock = async (blocked: BlockedUser) => {
+    if (!userId) return
+    setUnblockingId(blocked.blocked_id)
+    try {
+      await unblockUser(userId, blocked.blocked_id)
+      setBlockedUsers(prev => prev.filter(item => item.blocked_id !== blocked.blocked_id))
+      addToast(`${blocked.profile?.full_name ?? 'Member'} unblocked.`, 'success')
+    } catch (error) {
+      logger.error('Error unblocking user:', error)
+      addToast('Failed to unblock. Please try again.', 'error')
+    } finally {
+      setUnblockingId(null)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="w-10 h-10 bg-gray-100 rounded-lg flex items-center justify-center">
+          <Ban className="w-5 h-5 text-gray-600" />
+        </div>
+        <h2 className="text-xl font-semibold text-gray-900">Blocked Members</h2>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : blockedUsers.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          You haven't blocked anyone. Blocked members can't message you, and you won't see your chats with them.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {blockedUsers.map(blocked => {
+            const name = blocked.profile?.full_name || 'PLAYR member'
+            return (
+              <li key={blocked.blocked_id} className="flex items-center gap-3 py-3">
+                <Avatar
+                  src={getAvatarUrl(blocked.profile?.avatar_url ?? null)}
+                  alt={name}
+                  initials={name.charAt(0).toUpperCase()}
+                  size="sm"
+                />
+                <span className="min-w-0 flex-1">
+                  <span className="block truncate text-sm font-medium text-gray-900">{name}</span>
+                  <span className="block text-xs capitalize text-gray-500">{blocked.profile?.role ?? 'member'}</span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => handleUnblock(blocked)}
+                  disabled={unblockingId !== null}
+                  className="rounded-lg bg-gray-100 px-3 py-1.5 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-200 disabled:opacity-50"
+                >
+                  {unblockingId === blocked.blocked_id ? 'Unblocking...' : 'Unblock'}
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -1,7 +1,7 @@
-import { useState, useEffect, useRef, useCallback, useId } from 'react'
-import { Send, ArrowLeft } from 'lucide-react'
+import { useState, useEffect, useRef, useCallback, useId, useMemo } from 'react'
+import { Send, ArrowLeft, Paperclip, X, FileText, Users, Pencil, Trash2, Smile, Check, CheckCheck, AlertCircle, Clock, WifiOff } from 'lucide-react'
 import { supabase } from '@/lib/supabase'
-import { format } from 'date-fns'
+import { format, formatDistanceToNow } from 'date-fns'
 import { ChatWindowSkeleton } from './Skeleton'
 import { monitor } from '@/lib/monitor'
 import { logger } from '@/lib/logger'
@@ -9,6 +9,49 @@ import { withRetry } from '@/lib/retry'
 import { requestCache, generateCacheKey } from '@/lib/requestCache'
 import { useToastStore } from '@/lib/toast'
 import { useMediaQuery } from '@/hooks/useMediaQuery'
+import { usePresenceStore } from '@/lib/presence'
+import MessageAttachmentList from './MessageAttachmentList'
+import GroupMembersModal from './GroupMembersModal'
+import ConfirmActionModal from './ConfirmActionModal'
+import UserSafetyMenu from './UserSafetyMenu'
+import MessageTemplatePicker from './MessageTemplatePicker'
+import { useAuthStore } from '@/lib/auth'
+import { fetchConversationMembers, type ConversationMember } from '@/lib/conversationMembers'
+import {
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  formatFileSize,
+  parseAttachments,
+  removeMessageAttachments,
+  uploadMessageAttachment,
+  validateAttachment,
+  type MessageAttachment
+} from '@/lib/messageAttachments'
+import {
+  EDIT_WINDOW_MINUTES,
+  REACTION_EMOJIS,
+  canEditMessage,
+  deleteMessage,
+  editMessage,
+  parseReactions,
+  toggleReaction
+} from '@/lib/messageActions'
+import {
+  getDeliveryState,
+  sendMessage,
+  type LocalSendStatus,
+  type MessageDeliveryState,
+  type UnsentMessage
+} from '@/lib/messageDelivery'
+import {
+  deliverOutboxMessage,
+  getOutboxMessages,
+  isNetworkError,
+  putOutboxMessage,
+  removeOutboxMessages,
+  subscribeToOutbox,
+  useOutboxStore
+} from '@/lib/messageOutbox'
 
 type NullableDate = string | null
 
@@ -19,6 +62,21 @@ interface Message {
   content: string
   sent_at: string
   read_at: NullableDate
+  delivered_at?: NullableDate
+  attachments?: unknown
+  edited_at?: NullableDate
+  deleted_at?: NullableDate
+  reactions?: unknown
+  idempotency_key?: string | null
+  // Set only on outgoing messages the server hasn't confirmed yet
+  send_status?: LocalSendStatus
+}
+
+interface PendingAttachment {
+  id: string
+  file: File
+  previewUrl: string | null
+  progress: number
 }
 
 interface ConversationParticipant {
@@ -31,11 +89,14 @@ interface ConversationParticipant {
 
 interface Conversation {
   id: string
-  participant_one_id: string
-  participant_two_id: string
+  participant_one_id: string | null
+  participant_two_id: string | null
   created_at: string
   updated_at: string
   last_message_at: NullableDate
+  is_group?: boolean
+  title?: string | null
+  memberCount?: number
   otherParticipant?: ConversationParticipant
   isPending?: boolean
 }
@@ -43,6 +104,12 @@ interface Conversation {
 const COMPOSER_MIN_HEIGHT = 48
 const COMPOSER_MAX_HEIGHT = 160
 const MESSAGES_PAGE_SIZE = 50
+// Messages loaded on each side of a message opened from search
+const MESSAGE_CONTEXT_SIZE = 25
+const MESSAGE_HIGHLIGHT_MS = 2500
+// Stop announcing after this long without a keystroke
+const TYPING_IDLE_MS = 4000
+const NO_TYPING_USERS: string[] = []
 
 interface ChatWindowProps {
   conversation: Conversation
@@ -51,9 +118,78 @@ interface ChatWindowProps {
   onMessageSent: () => void
   onConversationCreated: (conversation: Conversation) => void
   onConversationRead?: (conversationId: string) => void
+  onConversationUpdated?: (conversationId: string, changes: Partial<Conversation>) => void
+  onLeftConversation?: (conversationId: string) => void
+  focusMessageId?: string | null
+  onFocusHandled?: () => void
 }
 
-export default function ChatWindow({ conversation, currentUserId, onBack, onMessageSent, onConversationCreated, onConversationRead }: ChatWindowProps) {
+const toUnsentMessage = (message: Message & { idempotency_key: string }): UnsentMessage => ({
+  id: message.id,
+  conversation_id: message.conversation_id,
+  sender_id: message.sender_id,
+  content: message.content,
+  attachments: parseAttachments(message.attachments),
+  idempotency_key: message.idempotency_key,
+  sent_at: message.sent_at
+})
+
+function DeliveryIndicator({ state }: { state: MessageDeliveryState }) {
+  if (state === 'failed') return null
+
+  if (state === 'queued') {
+    return (
+      <span className="flex items-center gap-1 text-purple-100">
+        <Clock className="h-3 w-3" aria-hidden="true" />
+        Queued
+      </span>
+    )
+  }
+
+  if (state === 'sending') {
+    return (
+      <span className="flex items-center gap-1 text-purple-100">
+        <svg className="h-3 w-3 animate-spin" viewBox="0 0 24 24">
+          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
+          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+        </svg>
+        Sending
+      </span>
+    )
+  }
+
+  const label = state === 'read' ? 'Read' : state === 'delivered' ? 'Delivered' : 'Sent'
+  const Icon = state === 'sent' ? Check : CheckCheck
+
+  return (
+    <span
+      className={`flex items-center ${state === 'read' ? 'text-white' : 'text-purple-200'}`}
+      title={label}
+    >
+      <Icon className="h-3.5 w-3.5" aria-hidden="true" />
+      <span className="sr-only">{label}</span>
+    </span>
+  )
+}
+
+const describeTyping = (names: string[]) => {
+  if (names.length === 1) return `${names[0]} is typing…`
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`
+  return 'Several people are typing…'
+}
+
+export default function ChatWindow({
+  conversation,
+  currentUserId,
+  onBack,
+  onMessageSent,
+  onConversationCreated,
+  onConversationRead,
+  onConversationUpdated,
+  onLeftConversation,
+  focusMessageId = null,
+  onFocusHandled
+}: ChatWindowProps) {
   const [messages, setMessages] = useState<Message[]>([])
   const [newMessage, setNewMessage] = useState('')
   const [sending, setSending] = useState(false)
@@ -63,6 +199,7 @@ export default function ChatWindow({ conversation, currentUserId, onBack, onMess
   const inputRef = useRef<HTMLTextAreaElement>(null)
   const messagesRef = useRef<Message[]>([])
   const { addToast } = useToastStore()
+  const profile = useAuthStore(state => state.profile)
   const isMobile = useMediaQuery('(max-width: 767px)')
   const scrollContainerRef = useRef<HTMLDivElement>(null)
   const shouldStickToBottomRef = useRef(true)
@@ -74,12 +211,138 @@ export default function ChatWindow({ conversation, currentUserId, onBack, onMess
   const [hasMoreMessages, setHasMoreMessages] = useState(true)
   const [isLoadingMore, setIsLoadingMore] = useState(false)
   const oldestLoadedTimestampRef = useRef<string | null>(null)
+  // Set while the loaded window stops short of the latest message
+  const [hasNewerMessages, setHasNewerMessages] = useState(false)
+  const hasNewerMessagesRef = useRef(false)
+  const newestLoadedTimestampRef = useRef<string | null>(null)
+  const focusMessageIdRef = useRef(focusMessageId)
+  const scrollTargetIdRef = useRef<string | null>(null)
+  const lastMessageIdRef = useRef<string | null>(null)
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null)
+  const [pendingAttachments, setPendingAttachments] = useState<PendingAttachment[]>([])
+  const pendingAttachmentsRef = useRef<PendingAttachment[]>([])
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const typingIdleTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const isGroup = Boolean(conversation.is_group)
+  const [members, setMembers] = useState<ConversationMember[]>([])
+  const [groupTitle, setGroupTitle] = useState(conversation.title ?? '')
+  const [showMembersModal, setShowMembersModal] = useState(false)
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null)
+  // Composer text to restore when an edit is finished or cancelled
+  const draftBeforeEditRef = useRef('')
+  const [activeMessageId, setActiveMessageId] = useState<string | null>(null)
+  const [reactionPickerFor, setReactionPickerFor] = useState<string | null>(null)
+  const [messageToDelete, setMessageToDelete] = useState<Message | null>(null)
+  const [deletingMessage, setDeletingMessage] = useState(false)
+  // Group read marker; direct chats track read_at per message instead
+  const groupLastReadAtRef = useRef<string | null>(null)
+  const otherParticipantId = isGroup
+    ? null
+    : conversation.participant_one_id === currentUserId
+      ? conversation.participant_two_id
+      : conversation.participant_one_id
+  const presenceHidden = usePresenceStore(state => state.hidden)
+  const isOtherOnline = usePresenceStore(state =>
+    otherParticipantId
+      ? Boolean(state.conversations[conversation.id]?.onlineUserIds.includes(otherParticipantId))
+      : false
+  )
+  const typingUserIds = usePresenceStore(
+    state => state.conversations[conversation.id]?.typingUserIds ?? NO_TYPING_USERS
+  )
+  const otherLastSeenAt = usePresenceStore(state =>
+    otherParticipantId ? state.lastSeen[otherParticipantId] : undefined
+  )
+  const fetchLastSeen = usePresenceStore(state => state.fetchLastSeen)
+  const setTyping = usePresenceStore(state => state.setTyping)
+  const watchConversations = usePresenceStore(state => state.watchConversations)
+
+  useEffect(() => {
+    pendingAttachmentsRef.current = pendingAttachments
+  }, [pendingAttachments])
+
+  const discardPendingAttachments = useCallback(() => {
+    pendingAttachmentsRef.current.forEach(item => {
+      if (item.previewUrl) URL.revokeObjectURL(item.previewUrl)
+    })
+    pendingAttachmentsRef.current = []
+    setPendingAttachments([])
+  }, [])
+
+  useEffect(() => {
+    focusMessageIdRef.current = focusMessageId
+  }, [focusMessageId])
+
+  const updateHasNewerMessages = useCallback((value: boolean) => {
+    hasNewerMessagesRef.current = value
+    setHasNewerMessages(value)
+  }, [])
 
   useEffect(() => {
     setHasMoreMessages(true)
     setIsLoadingMore(false)
     oldestLoadedTimestampRef.current = null
-  }, [conversation.id])
+    newestLoadedTimestampRef.current = null
+    updateHasNewerMessages(false)
+    scrollTargetIdRef.current = null
+    lastMessageIdRef.current = null
+    setHighlightedMessageId(null)
+    groupLastReadAtRef.current = null
+    setShowMembersModal(false)
+    setEditingMessage(null)
+    setActiveMessageId(null)
+    setReactionPickerFor(null)
+    setMessageToDelete(null)
+    discardPendingAttachments()
+  }, [conversation.id, discardPendingAttachments, updateHasNewerMessages])
+
+  useEffect(() => {
+    setGroupTitle(conversation.title ?? '')
+  }, [conversation.id, conversation.title])
+
+  const loadMembers = useCallback(async () => {
+    if (!isGroup) {
+      setMembers([])
+      return
+    }
+
+    try {
+      const fetched = await fetchConversationMembers(conversation.id)
+
+      // Removed by an admin while the chat was open
+      if (!fetched.some(member => member.user_id === currentUserId)) {
+        onLeftConversation?.(conversation.id)
+        return
+      }
+
+      setMembers(fetched)
+      onConversationUpdated?.(conversation.id, { memberCount: fetched.length })
+    } catch (error) {
+      logger.error('Error fetching group members:', error)
+    }
+  }, [conversation.id, currentUserId, isGroup, onConversationUpdated, onLeftConversation])
+
+  useEffect(() => {
+    setMembers([])
+    void loadMembers()
+  }, [loadMembers])
+
+  // Other members' read markers, for group read receipts
+  const otherMemberReadTimes = useMemo(
+    () =>
+      members
+        .filter(member => member.user_id !== currentUserId)
+        .map(member => (member.last_read_at ? new Date(member.last_read_at).getTime() : null)),
+    [currentUserId, members]
+  )
+
+  const memberNames = useMemo(
+    () => new Map(members.map(member => [member.user_id, member.profile?.full_name || 'PLAYR member'])),
+    [members]
+  )
+
+  // Release preview object URLs on unmount
+  useEffect(() => discardPendingAttachments, [discardPendingAttachments])
 
   const syncMessagesState = useCallback(
     (next: Message[] | ((prev: Message[]) => Message[])) => {
@@ -97,6 +360,40 @@ export default function ChatWindow({ conversation, currentUserId, onBack, onMess
     []
   )
 
+  const isOnline = useOutboxStore(state => state.online)
+
+  /** Swap a local outgoing message for the stored row */
+  const confirmMessage = useCallback(
+    (localId: string, persisted: Message) => {
+      syncMessagesState(prev =>
+        prev.some(msg => msg.id === localId)
+          ? prev.filter(msg => msg.id !== persisted.id).map(msg => (msg.id === localId ? persisted : msg))
+          : prev.map(msg => (msg.id === persisted.id ? persisted : msg))
+      )
+    },
+    [syncMessagesState]
+  )
+
+  // Outbox replays happen outside this component; mirror them on the bubbles
+  useEffect(
+    () =>
+      subscribeToOutbox(event => {
+        if (event.type === 'sent') {
+          if (event.message.conversation_id === conversation.id) {
+            confirmMessage(event.localId, event.message)
+          }
+          return
+        }
+
+        syncMessagesState(prev =>
+          prev.map(msg =>
+            msg.idempotency_key === event.idempotencyKey && msg.send_status ? { ...msg, send_status: event.status } : msg
+          )
+        )
+      }),
+    [confirmMessage, conversation.id, syncMessagesState]
+  )
+
   const scrollToLatest = useCallback((behavior: ScrollBehavior = 'auto') => {
     const scrollEl = scrollContainerRef.current
     if (scrollEl) {
@@ -115,6 +412,17 @@ export default function ChatWindow({ conversation, currentUserId, onBack, onMess
     return distanceFromBottom <= 96
   }, [])
 
+  // Inserts at the cursor, replacing any selection, within the message limit
+  const handleInsertTemplate = useCallback((text: string) => {
+    const textarea = inputRef.current
+    setNewMessage(prev => {
+      const start = textarea?.selectionStart ?? prev.length
+      const end = textarea?.selectionEnd ?? prev.length
+      return `${prev.slice(0, start)}${text}${prev.slice(end)}`.slice(0, 1000)
+    })
+    requestAnimationFrame(() => textarea?.focus())
+  }, [])
+
   const syncTextareaHeight = useCallback(() => {
     const textarea = inputRef.current
     if (!textarea) {
@@ -129,40 +437,125 @@ export default function ChatWindow({ conversation, currentUserId, onBack, onMess
   }, [])
 
 
+  const fetchLatestPage = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('*')
+      .eq('conversation_id', conversation.id)
+      .order('sent_at', { ascending: false })
+      .limit(MESSAGES_PAGE_SIZE)
+
+    if (error) throw error
+
+    const fetched: Message[] = (data ?? []).reverse()
+    oldestLoadedTimestampRef.current = fetched[0]?.sent_at ?? null
+    newestLoadedTimestampRef.current = fetched[fetched.length - 1]?.sent_at ?? null
+    setHasMoreMessages((data ?? []).length === MESSAGES_PAGE_SIZE)
+    updateHasNewerMessages(false)
+
+    // Outgoing messages still waiting in the outbox
+    const fetchedKeys = new Set(fetched.map(msg => msg.idempotency_key))
+    const outbox = await getOutboxMessages(currentUserId, conversation.id)
+    void removeOutboxMessages(
+      outbox.filter(msg => fetchedKeys.has(msg.idempotency_key)).map(msg => msg.idempotency_key)
+    )
+    const stillUnsent = outbox
+      .filter(msg => !fetchedKeys.has(msg.idempotency_key))
+      .map(({ status, ...msg }): Message => ({
+        ...msg,
+        read_at: null,
+        send_status:
+          messagesRef.current.find(existing => existing.idempotency_key === msg.idempotency_key)?.send_status ??
+          status
+      }))
+
+    return [...fetched, ...stillUnsent]
+  }, [conversation.id, currentUserId, updateHasNewerMessages])
+
+  /**
+   * Load the messages on either side of `messageId` instead of the latest page.
+   * Returns null when the message isn't in this conversation or was deleted.
+   */
+  const fetchMessageContext = useCallback(
+    async (messageId: string): Promise<Message[] | null> => {
+      const { data: target, error: targetError } = await supabase
+        .from('messages')
+        .select('*')
+        .eq('id', messageId)
+        .eq('conversation_id', conversation.id)
+        .is('deleted_at', null)
+        .maybeSingle()
+
+      if (targetError) throw targetError
+      if (!target) return null
+
+      const [before, after] = await Promise.all([
+        supabase
+          .from('messages')
+          .select('*')
+          .eq('conversation_id', conversation.id)
+          .lt('sent_at', target.sent_at)
+          .order('sent_at', { ascending: false })
+          .limit(MESSAGE_CONTEXT_SIZE),
+        supabase
+          .from('messages')
+          .select('*')
+          .eq('conversation_id', conversation.id)
+          .gte('sent_at', target.sent_at)
+          .order('sent_at', { ascending: true })
+          .limit(MESSAGE_CONTEXT_SIZE + 1)
+      ])
+
+      if (before.error) throw before.error
+      if (after.error) throw after.error
+
+      const older = (before.data ?? []).reverse()
+      const newer = (after.data ?? []).slice(0, MESSAGE_CONTEXT_SIZE)
+      const fetched = [...older, ...newer]
+
+      oldestLoadedTimestampRef.current = fetched[0]?.sent_at ?? null
+      newestLoadedTimestampRef.current = fetched[fetched.length - 1]?.sent_at ?? null
+      setHasMoreMessages(older.length === MESSAGE_CONTEXT_SIZE)
+      updateHasNewerMessages((after.data ?? []).length > MESSAGE_CONTEXT_SIZE)
+      scrollTargetIdRef.current = messageId
+      return fetched
+    },
+    [conversation.id, updateHasNewerMessages]
+  )
+
   const fetchMessages = useCallback(async () => {
     if (!conversation.id || conversation.isPending) {
       syncMessagesState([])
       setHasMoreMessages(false)
+      updateHasNewerMessages(false)
       setLoading(false)
       return [] as Message[]
     }
 
     setLoading(true)
     try {
-      const { data, error } = await supabase
-        .from('messages')
-        .select('*')
-        .eq('conversation_id', conversation.id)
-        .order('sent_at', { ascending: false })
-        .limit(MESSAGES_PAGE_SIZE)
-
-      if (error) throw error
-
-      const fetched = (data ?? []).reverse()
+      const focusId = focusMessageIdRef.current
+      const fetched = (focusId ? await fetchMessageContext(focusId) : null) ?? (await fetchLatestPage())
       logger.debug('Fetched messages:', fetched)
       syncMessagesState(fetched)
-      oldestLoadedTimestampRef.current = fetched[0]?.sent_at ?? null
-      setHasMoreMessages((data ?? []).length === MESSAGES_PAGE_SIZE)
       return fetched
     } catch (error) {
       logger.error('Error fetching messages:', error)
       syncMessagesState([])
       setHasMoreMessages(false)
+      updateHasNewerMessages(false)
       return [] as Message[]
     } finally {
       setLoading(false)
     }
-  }, [conversation.id, conversation.isPending, syncMessagesState])
+  }, [
+    conversation.id,
+    conversation.isPending,
+    fetchLatestPage,
+    fetchMessageContext,
+    syncMessagesState,
+    updateHasNewerMessages
+  ])
 
   const markMessagesAsRead = useCallback(
     async (messagesOverride?: Message[], options?: { force?: boolean }): Promise<number> => {
@@ -176,6 +569,41 @@ export default function ChatWindow({ conversation, currentUserId, onBack, onMess
         return 0
       }
 
+      if (isGroup) {
+        const lastReadAt = groupLastReadAtRef.current ? new Date(groupLastReadAtRef.current).getTime() : null
+        const unreadCount = snapshot.filter(
+          msg =>
+            msg.sender_id !== currentUserId &&
+            (lastReadAt === null || new Date(msg.sent_at).getTime() > lastReadAt)
+        ).length
+
+        if (unreadCount === 0) {
+          return 0
+        }
+
+        if (!(options?.force ?? false) && !isViewerAtBottom()) {
+          pendingUnreadRef.current = true
+          return 0
+        }
+
+        const { error } = await supabase.rpc('mark_conversation_read', { p_conversation_id: conversation.id })
+        if (error) {
+          logger.error('Error marking group conversation as read:', error)
+          pendingUnreadRef.current = true
+          return 0
+        }
+
+        groupLastReadAtRef.current = new Date().toISOString()
+        requestCache.invalidate(generateCacheKey('unread_count', { userId: currentUserId }))
+        onConversationRead?.(conversation.id)
+        if (typeof window !== 'undefined' && window.__refreshUnreadBadge) {
+          window.__refreshUnreadBadge()
+        }
+        pendingUnreadRef.current = false
+        setShowNewMessagesIndicator(false)
+        return unreadCount
+      }
+
       const unreadMessages = snapshot.filter(
         msg => msg.sender_id !== currentUserId && !msg.read_at
       )
@@ -264,6 +692,7 @@ export default function ChatWindow({ conversation, currentUserId, onBack, onMess
       conversation.id,
       conversation.isPending,
       currentUserId,
+      isGroup,
       isViewerAtBottom,
       onConversationRead,
       onMessageSent,
@@ -345,13 +774,80 @@ export default function ChatWindow({ conversation, currentUserId, onBack, onMess
     }
   }, [conversation.id, hasMoreMessages, isLoadingMore, syncMessagesState])
 
-  const handleJumpToLatest = useCallback(() => {
-    scrollToLatest('smooth')
+  const loadNewerMessages = useCallback(async () => {
+    if (!conversation.id || isLoadingMore || !hasNewerMessagesRef.current) {
+      return
+    }
+
+    const newestTimestamp = newestLoadedTimestampRef.current
+    if (!newestTimestamp) {
+      updateHasNewerMessages(false)
+      return
+    }
+
+    setIsLoadingMore(true)
+
+    try {
+      const { data, error } = await supabase
+        .from('messages')
+        .select('*')
+        .eq('conversation_id', conversation.id)
+        .gt('sent_at', newestTimestamp)
+        .order('sent_at', { ascending: true })
+        .limit(MESSAGES_PAGE_SIZE)
+
+      if (error) {
+        throw error
+      }
+
+      const newerMessages = data ?? []
+      newestLoadedTimestampRef.current = newerMessages[newerMessages.length - 1]?.sent_at ?? newestTimestamp
+      updateHasNewerMessages(newerMessages.length === MESSAGES_PAGE_SIZE)
+
+      if (!newerMessages.length) {
+        return
+      }
+
+      // Paging forward isn't a new arrival, so don't let it trigger the
+      // own-message auto-scroll
+      lastMessageIdRef.current = newerMessages[newerMessages.length - 1].id
+
+      syncMessagesState(prev => {
+        const existingIds = new Set(prev.map(msg => msg.id))
+        const deduped = newerMessages.filter(msg => !existingIds.has(msg.id))
+        return deduped.length ? [...prev, ...deduped] : prev
+      })
+    } catch (error) {
+      logger.error('Error loading newer messages:', error)
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }, [conversation.id, isLoadingMore, syncMessagesState, updateHasNewerMessages])
+
+  /** Swap a search context window back to the latest page */
+  const loadLatestMessages = useCallback(async () => {
+    try {
+      const fetched = await fetchLatestPage()
+      syncMessagesState(fetched)
+      return fetched
+    } catch (error) {
+      logger.error('Error loading latest messages:', error)
+      return null
+    }
+  }, [fetchLatestPage, syncMessagesState])
+
+  const handleJumpToLatest = useCallback(async () => {
     shouldStickToBottomRef.current = true
     pendingUnreadRef.current = false
     setShowNewMessagesIndicator(false)
+    if (hasNewerMessagesRef.current) {
+      initialScrollSyncPending.current = true
+      await loadLatestMessages()
+    } else {
+      scrollToLatest('smooth')
+    }
     void markMessagesAsRead(undefined, { force: true })
-  }, [markMessagesAsRead, scrollToLatest])
+  }, [loadLatestMessages, markMessagesAsRead, scrollToLatest])
 
   useEffect(() => {
     shouldStickToBottomRef.current = true
@@ -390,11 +886,50 @@ export default function ChatWindow({ conversation, currentUserId, onBack, onMess
     }
   }, [conversation.id, conversation.isPending, currentUserId, fetchMessages, markMessagesAsRead, syncMessagesState])
 
+  const stopTyping = useCallback(() => {
+    if (typingIdleTimeoutRef.current) {
+      clearTimeout(typingIdleTimeoutRef.current)
+      typingIdleTimeoutRef.current = null
+    }
+    setTyping(conversation.id, false)
+  }, [conversation.id, setTyping])
+
+  const notifyTyping = () => {
+    if (presenceHidden || conversation.isPending) {
+      return
+    }
+
+    // The store only re-tracks presence when the typing state changes
+    setTyping(conversation.id, true)
+
+    if (typingIdleTimeoutRef.current) {
+      clearTimeout(typingIdleTimeoutRef.current)
+    }
+    typingIdleTimeoutRef.current = setTimeout(stopTyping, TYPING_IDLE_MS)
+  }
+
+  useEffect(() => {
+    if (!otherParticipantId || conversation.isPending) return
+    void fetchLastSeen([otherParticipantId])
+  }, [conversation.isPending, fetchLastSeen, otherParticipantId])
+
+  // Online and typing state live on the conversation's presence channel,
+  // shared with the conversation list
+  useEffect(() => {
+    if (!conversation.id || conversation.isPending) return
+
+    const release = watchConversations([conversation.id])
+    return () => {
+      stopTyping()
+      release()
+    }
+  }, [conversation.id, conversation.isPending, stopTyping, watchConversations])
+
   useEffect(() => {
     if (!conversation.id || conversation.isPending) return
 
     const channel = supabase
-      .channel(`conversation-${conversation.id}`)
+      .channel(`conversation-messages-${conversation.id}`)
       .on(
         'postgres_changes',
         {
@@ -405,12 +940,27 @@ export default function ChatWindow({ conversation, currentUserId, onBack, onMess
         },
         payload => {
           const newMessage = payload.new as Message
+
+          // The loaded window ends before the latest message; it arrives
+          // when the viewer pages forward or jumps to the latest
+          if (hasNewerMessagesRef.current) {
+            if (newMessage.sender_id !== currentUserId) {
+              pendingUnreadRef.current = true
+              setShowNewMessagesIndicator(true)
+            }
+            return
+          }
+
           let messageAppended = false
 
           syncMessagesState(prev => {
             if (prev.some(msg => msg.id === newMessage.id)) {
               return prev
             }
+            // Our own send, arriving before the insert response
+            if (newMessage.idempotency_key && prev.some(msg => msg.idempotency_key === newMessage.idempotency_key)) {
+              return prev.map(msg => (msg.idempotency_key === newMessage.idempotency_key ? newMessage : msg))
+            }
             messageAppended = true
             return [...prev, newMessage]
           })
@@ -444,6 +994,18 @@ export default function ChatWindow({ conversation, currentUserId, onBack, onMess
           )
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'conversation_participants',
+          filter: `conversation_id=eq.${conversation.id}`
+        },
+        () => {
+          void loadMembers()
+        }
+      )
       .subscribe()
 
     return () => {
@@ -454,6 +1016,7 @@ export default function ChatWindow({ conversation, currentUserId, onBack, onMess
     conversation.isPending,
     currentUserId,
     isViewerAtBottom,
+    loadMembers,
     markMessagesAsRead,
     setShowNewMessagesIndicator,
     syncMessagesState
@@ -579,7 +1142,10 @@ export default function ChatWindow({ conversation, currentUserId, onBack, onMess
       }
 
       const atBottom = isViewerAtBottom()
-      shouldStickToBottomRef.current = atBottom
+      if (atBottom && hasNewerMessages && !isLoadingMore) {
+        void loadNewerMessages()
+      }
+      shouldStickToBottomRef.current = atBottom && !hasNewerMessagesRef.current
 
       if (atBottom) {
         if (showNewMessagesIndicator) {
@@ -617,8 +1183,10 @@ export default function ChatWindow({ conversation, currentUserId, onBack, onMess
   }, [
     conversation.id,
     hasMoreMessages,
+    hasNewerMessages,
     isLoadingMore,
     isViewerAtBottom,
+    loadNewerMessages,
     loadOlderMessages,
     markMessagesAsRead,
     scrollToLatest,
@@ -631,10 +1199,17 @@ export default function ChatWindow({ conversation, currentUserId, onBack, onMess
       return
     }
 
+    // Opening a search result scrolls to that message instead
+    if (scrollTargetIdRef.current) {
+      return
+    }
+
     const lastMessage = messages[messages.length - 1]
-    const isOwnMessage = lastMessage?.sender_id === currentUserId
+    const isNewOwnMessage =
+      lastMessage?.sender_id === currentUserId && lastMessage.id !== lastMessageIdRef.current
+    lastMessageIdRef.current = lastMessage?.id ?? null
     const shouldAutoScroll =
-      initialScrollSyncPending.current || isOwnMessage || shouldStickToBottomRef.current
+      initialScrollSyncPending.current || isNewOwnMessage || shouldStickToBottomRef.current
 
     if (shouldAutoScroll) {
       requestAnimationFrame(() => {
@@ -647,13 +1222,220 @@ export default function ChatWindow({ conversation, currentUserId, onBack, onMess
     }
   }, [messages, currentUserId, scrollToLatest])
 
+  const revealMessage = useCallback((messageId: string) => {
+    scrollTargetIdRef.current = null
+    initialScrollSyncPending.current = false
+    shouldStickToBottomRef.current = false
+    lastMessageIdRef.current = messagesRef.current[messagesRef.current.length - 1]?.id ?? null
+    requestAnimationFrame(() => {
+      document.getElementById(`message-${messageId}`)?.scrollIntoView({ block: 'center' })
+    })
+    setHighlightedMessageId(messageId)
+  }, [])
+
+  useEffect(() => {
+    if (!focusMessageId || loading) {
+      return
+    }
+
+    let cancelled = false
+
+    const focusMessage = async () => {
+      if (!messagesRef.current.some(msg => msg.id === focusMessageId)) {
+        try {
+          const fetched = await fetchMessageContext(focusMessageId)
+          if (cancelled) return
+          if (fetched) {
+            syncMessagesState(fetched)
+          }
+        } catch (error) {
+          logger.error('Error loading message context:', error)
+        }
+      }
+
+      if (cancelled) return
+      if (messagesRef.current.some(msg => msg.id === focusMessageId)) {
+        revealMessage(focusMessageId)
+      } else {
+        scrollTargetIdRef.current = null
+        addToast('That message is no longer available.', 'info')
+      }
+      onFocusHandled?.()
+    }
+
+    void focusMessage()
+
+    return () => {
+      cancelled = true
+    }
+  }, [addToast, fetchMessageContext, focusMessageId, loading, onFocusHandled, revealMessage, syncMessagesState])
+
+  useEffect(() => {
+    if (!highlightedMessageId) return
+    const timeout = setTimeout(() => setHighlightedMessageId(null), MESSAGE_HIGHLIGHT_MS)
+    return () => clearTimeout(timeout)
+  }, [highlightedMessageId])
+
   useEffect(() => {
     syncTextareaHeight()
   }, [conversation.id, newMessage, syncTextareaHeight])
 
+  const handleFilesSelected = (fileList: FileList | null) => {
+    if (!fileList) return
+
+    const files = Array.from(fileList)
+    const available = MAX_ATTACHMENTS_PER_MESSAGE - pendingAttachments.length
+    if (files.length > available) {
+      addToast(`You can attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files per message.`, 'error')
+    }
+
+    const accepted: PendingAttachment[] = []
+    for (const file of files.slice(0, Math.max(available, 0))) {
+      const error = validateAttachment(file)
+      if (error) {
+        addToast(`${file.name}: ${error}`, 'error')
+        continue
+      }
+      accepted.push({
+        id: `${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+        file,
+        previewUrl: file.type.startsWith('image/') ? URL.createObjectURL(file) : null,
+        progress: 0
+      })
+    }
+
+    if (accepted.length > 0) {
+      setPendingAttachments(prev => [...prev, ...accepted])
+    }
+
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ''
+    }
+    inputRef.current?.focus()
+  }
+
+  const handleRemovePendingAttachment = (id: string) => {
+    setPendingAttachments(prev => {
+      const removed = prev.find(item => item.id === id)
+      if (removed?.previewUrl) URL.revokeObjectURL(removed.previewUrl)
+      return prev.filter(item => item.id !== id)
+    })
+  }
+
+  const handleStartEditing = (message: Message) => {
+    if (!editingMessage) {
+      draftBeforeEditRef.current = newMessage
+    }
+    setEditingMessage(message)
+    setNewMessage(message.content)
+    setActiveMessageId(null)
+    setReactionPickerFor(null)
+    inputRef.current?.focus()
+  }
+
+  const handleCancelEditing = () => {
+    setEditingMessage(null)
+    setNewMessage(draftBeforeEditRef.current)
+    draftBeforeEditRef.current = ''
+    inputRef.current?.focus()
+  }
+
+  const handleSaveEdit = async (original: Message) => {
+    const content = newMessage.trim()
+    if (content === original.content) {
+      handleCancelEditing()
+      return
+    }
+    if (!content && parseAttachments(original.attachments).length === 0) {
+      addToast('Message cannot be empty. Delete it instead.', 'error')
+      return
+    }
+    if (!canEditMessage(original, currentUserId)) {
+      addToast(`Messages can only be edited within ${EDIT_WINDOW_MINUTES} minutes of sending.`, 'error')
+      handleCancelEditing()
+      return
+    }
+
+    setSending(true)
+    syncMessagesState(prev =>
+      prev.map(msg => (msg.id === original.id ? { ...msg, content, edited_at: new Date().toISOString() } : msg))
+    )
+
+    try {
+      await editMessage(original.id, content)
+      handleCancelEditing()
+    } catch (error) {
+      logger.error('Error editing message:', error)
+      syncMessagesState(prev => prev.map(msg => (msg.id === original.id ? original : msg)))
+      addToast('Failed to edit message. Please try again.', 'error')
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const handleConfirmDelete = async () => {
+    const target = messageToDelete
+    if (!target) return
+
+    setDeletingMessage(true)
+    try {
+      await deleteMessage(target.id, parseAttachments(target.attachments))
+      syncMessagesState(prev =>
+        prev.map(msg =>
+          msg.id === target.id
+            ? { ...msg, content: '', attachments: [], deleted_at: new Date().toISOString() }
+            : msg
+        )
+      )
+      if (editingMessage?.id === target.id) {
+        handleCancelEditing()
+      }
+      setMessageToDelete(null)
+    } catch (error) {
+      logger.error('Error deleting message:', error)
+      addToast('Failed to delete message. Please try again.', 'error')
+    } finally {
+      setDeletingMessage(false)
+    }
+  }
+
+  const handleToggleReaction = async (message: Message, emoji: string) => {
+    setReactionPickerFor(null)
+    const previous = message.reactions
+    const reactions = parseReactions(previous)
+    const userIds = reactions[emoji] ?? []
+    const reacted = userIds.includes(currentUserId)
+
+    const next = { ...reactions }
+    if (reacted) {
+      const remaining = userIds.filter(id => id !== currentUserId)
+      if (remaining.length > 0) {
+        next[emoji] = remaining
+      } else {
+        delete next[emoji]
+      }
+    } else {
+      next[emoji] = [...userIds, currentUserId]
+    }
+    syncMessagesState(prev => prev.map(msg => (msg.id === message.id ? { ...msg, reactions: next } : msg)))
+
+    try {
+      await toggleReaction(message.id, currentUserId, emoji, reacted)
+    } catch (error) {
+      logger.error('Error updating reaction:', error)
+      syncMessagesState(prev => prev.map(msg => (msg.id === message.id ? { ...msg, reactions: previous } : msg)))
+      addToast('Failed to update reaction. Please try again.', 'error')
+    }
+  }
+
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault()
-    if (!newMessage.trim() || sending) return
+    if (editingMessage) {
+      if (!sending) void handleSaveEdit(editingMessage)
+      return
+    }
+    if ((!newMessage.trim() && pendingAttachments.length === 0) || sending) return
+    stopTyping()
 
     const messageContent = newMessage.trim()
     if (messageContent.length > 1000) {
@@ -663,12 +1445,13 @@ export default function ChatWindow({ conversation, currentUserId, onBack, onMess
 
     setSending(true)
     shouldStickToBottomRef.current = true
-    const otherParticipantId =
-      conversation.participant_one_id === currentUserId
-        ? conversation.participant_two_id
-        : conversation.participant_one_id
 
-    if (!otherParticipantId) {
+    // Sent messages belong after the latest one, not a search context window
+    if (hasNewerMessagesRef.current) {
+      await loadLatestMessages()
+    }
+
+    if (!isGroup && !otherParticipantId) {
       logger.error('Cannot determine recipient for conversation', { conversation })
       setSending(false)
       return
@@ -676,8 +1459,11 @@ export default function ChatWindow({ conversation, currentUserId, onBack, onMess
 
     let activeConversationId: string | null = conversation.isPending ? null : conversation.id
     let newlyCreatedConversation: Conversation | null = null
-    let optimisticId: string | null = null
+    let unsentMessage: UnsentMessage | null = null
     let conversationCreatedForSend = false
+    const attachmentsToSend = pendingAttachments
+    const uploadedAttachments: MessageAttachment[] = []
+    let messageInserted = false
 
     try {
       if (!activeConversationId) {
@@ -743,66 +1529,98 @@ export default function ChatWindow({ conversation, currentUserId, onBack, onMess
         }
       }
 
-      const idempotencyKey = `${currentUserId}-${Date.now()}-${Math.random()}`
-      optimisticId = `optimistic-${idempotencyKey}`
+      for (const item of attachmentsToSend) {
+        const uploaded = await uploadMessageAttachment(activeConversationId, currentUserId, item.file, progress => {
+          setPendingAttachments(prev =>
+            prev.map(pending => (pending.id === item.id ? { ...pending, progress } : pending))
+          )
+        })
+        uploadedAttachments.push(uploaded)
+      }
 
-      const optimisticMessage: Message = {
-        id: optimisticId,
+      const idempotencyKey = `${currentUserId}-${Date.now()}-${Math.random()}`
+      const pending: UnsentMessage = {
+        id: `optimistic-${idempotencyKey}`,
         conversation_id: activeConversationId,
         sender_id: currentUserId,
         content: messageContent,
-        sent_at: new Date().toISOString(),
-        read_at: null
+        attachments: uploadedAttachments,
+        idempotency_key: idempotencyKey,
+        sent_at: new Date().toISOString()
+      }
+      unsentMessage = pending
+
+      // The outbox keeps it until the server confirms it, across reloads and
+      // connection drops. A chat that is still being created has nowhere to
+      // replay into, so that first message skips it.
+      const useOutbox = !newlyCreatedConversation
+      if (useOutbox) {
+        await putOutboxMessage({ ...pending, status: 'queued' })
       }
 
-      syncMessagesState(prev => [...prev, optimisticMessage])
+      const offline = useOutbox && !isOnline
+      syncMessagesState(prev => [...prev, { ...pending, read_at: null, send_status: offline ? 'queued' : 'sending' }])
       setNewMessage('')
+      setPendingAttachments([])
       inputRef.current?.focus()
 
-      const conversationIdForMetrics = activeConversationId
+      if (offline) {
+        attachmentsToSend.forEach(item => {
+          if (item.previewUrl) URL.revokeObjectURL(item.previewUrl)
+        })
+        return
+      }
 
       await monitor.measure(
         'send_message',
         async () => {
-          const result = await withRetry(async () => {
-            const res = await supabase
-              .from('messages')
-              .insert({
-                conversation_id: conversationIdForMetrics,
-                sender_id: currentUserId,
-                content: messageContent,
-                idempotency_key: idempotencyKey
-              })
-              .select()
-
-            if (res.error) throw res.error
-            return res
-          })
-
-          const { data, error } = result
-          if (error) throw error
-
-          if (data && data[0]) {
-            logger.debug('Message sent successfully, replacing optimistic message')
-            const persisted = data[0] as Message
-            syncMessagesState(prev => prev.map(msg => (msg.id === optimisticId ? persisted : msg)))
-          }
+          const persisted = useOutbox ? await deliverOutboxMessage(pending) : await sendMessage(pending)
+          messageInserted = true
+          logger.debug('Message sent successfully, replacing optimistic message')
+          confirmMessage(pending.id, persisted)
         },
-        { conversationId: conversationIdForMetrics }
+        { conversationId: pending.conversation_id }
       )
 
       onMessageSent()
 
+      attachmentsToSend.forEach(item => {
+        if (item.previewUrl) URL.revokeObjectURL(item.previewUrl)
+      })
+
       if (newlyCreatedConversation) {
         onConversationCreated(newlyCreatedConversation)
       }
     } catch (error) {
       logger.error('Error sending message:', error)
-      if (optimisticId) {
-        const finalOptimisticId = optimisticId
-        syncMessagesState(prev => prev.filter(msg => msg.id !== finalOptimisticId))
+      // RLS rejects messages between blocked users
+      const isBlocked = (error as { code?: string })?.code === '42501'
+
+      // Only the insert failed: the outbox kept the message, queued for
+      // replay or marked failed with a retry
+      if (unsentMessage && !newlyCreatedConversation && !isBlocked) {
+        attachmentsToSend.forEach(item => {
+          if (item.previewUrl) URL.revokeObjectURL(item.previewUrl)
+        })
+        if (isNetworkError(error)) {
+          addToast("Connection lost. Your message will send when you're back online.", 'info')
+        } else {
+          addToast('Message not sent. Tap Retry to send it again.', 'error')
+        }
+        return
+      }
+
+      if (unsentMessage) {
+        const discardedMessage = unsentMessage
+        void removeOutboxMessages([discardedMessage.idempotency_key])
+        syncMessagesState(prev => prev.filter(msg => msg.id !== discardedMessage.id))
       }
       setNewMessage(messageContent)
+      setPendingAttachments(attachmentsToSend.map(item => ({ ...item, progress: 0 })))
+
+      if (!messageInserted && uploadedAttachments.length > 0) {
+        void removeMessageAttachments(uploadedAttachments)
+      }
 
       if (conversationCreatedForSend && newlyCreatedConversation) {
         try {
@@ -815,13 +1633,53 @@ export default function ChatWindow({ conversation, currentUserId, onBack, onMess
         }
       }
 
-      addToast('Failed to send message. Please try again.', 'error')
+      if (isBlocked) {
+        addToast("You can't message this member.", 'error')
+      } else {
+        addToast('Failed to send message. Please try again.', 'error')
+      }
     } finally {
       setSending(false)
     }
   }
 
+  const handleRetryMessage = async (message: Message) => {
+    const { idempotency_key: idempotencyKey } = message
+    if (!idempotencyKey) return
+
+    try {
+      const persisted = await deliverOutboxMessage(toUnsentMessage({ ...message, idempotency_key: idempotencyKey }))
+      confirmMessage(message.id, persisted)
+      onMessageSent()
+    } catch (error) {
+      logger.error('Error retrying message:', error)
+      if (isNetworkError(error)) {
+        addToast("Still offline. Your message will send when you're back online.", 'info')
+      } else {
+        addToast(
+          (error as { code?: string })?.code === '42501'
+            ? "You can't message this member."
+            : 'Message still not sent. Please try again.',
+          'error'
+        )
+      }
+    }
+  }
+
+  const handleDiscardMessage = (message: Message) => {
+    if (message.idempotency_key) {
+      void removeOutboxMessages([message.idempotency_key])
+    }
+    syncMessagesState(prev => prev.filter(msg => msg.id !== message.id))
+    void removeMessageAttachments(parseAttachments(message.attachments))
+  }
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Escape' && editingMessage) {
+      e.preventDefault()
+      handleCancelEditing()
+      return
+    }
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
       const syntheticEvent = e as unknown as React.FormEvent
@@ -855,8 +1713,16 @@ export default function ChatWindow({ conversation, currentUserId, onBack, onMess
     )
   }
 
-  const canSend = newMessage.trim().length > 0
+  const canSend = editingMessage
+    ? newMessage.trim().length > 0 || parseAttachments(editingMessage.attachments).length > 0
+    : newMessage.trim().length > 0 || pendingAttachments.length > 0
   const isSendDisabled = !canSend || sending
+  const isOtherTyping = typingUserIds.length > 0
+  const reportableMessages = messages
+    .filter(message => message.sender_id === otherParticipantId && !message.deleted_at)
+    .slice(-20)
+    .reverse()
+  const memberCount = members.length || conversation.memberCount || 0
 
   return (
     <div
@@ -877,7 +1743,11 @@ export default function ChatWindow({ conversation, currentUserId, onBack, onMess
           <ArrowLeft className="h-5 w-5 text-gray-600" />
         </button>
 
-        {avatarUrl ? (
+        {isGroup ? (
+          <div className="flex h-12 w-12 flex-shrink-0 items-center justify-center rounded-full bg-gradient-to-br from-[#6366f1] to-[#8b5cf6] text-white shadow-sm">
+            <Users className="h-6 w-6" aria-hidden="true" />
+          </div>
+        ) : avatarUrl ? (
           <img
             src={avatarUrl}
             alt={conversation.otherParticipant?.full_name}
@@ -889,30 +1759,109 @@ export default function ChatWindow({ conversation, currentUserId, onBack, onMess
           </div>
         )}
 
-        <div className="min-w-0 flex-1">
-          <h2 className="truncate text-lg font-semibold text-gray-900 md:text-xl">
-            {conversation.otherParticipant?.full_name}
-          </h2>
-          <div className="mt-1 flex flex-wrap items-center gap-2 text-sm text-gray-500">
-            <span
-              className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium md:text-sm ${
-                conversation.otherParticipant?.role === 'club'
-                  ? 'bg-orange-50 text-orange-700'
-                  : conversation.otherParticipant?.role === 'coach'
-                  ? 'bg-purple-50 text-purple-700'
-                  : 'bg-blue-50 text-blue-700'
-              }`}
+        {isGroup ? (
+          <>
+            <div className="min-w-0 flex-1">
+              <h2 className="truncate text-lg font-semibold text-gray-900 md:text-xl">{groupTitle}</h2>
+              <div className="mt-1 flex flex-wrap items-center gap-2 text-sm text-gray-500">
+                {isOtherTyping ? (
+                  <span className="italic text-purple-600" aria-live="polite">
+                    {describeTyping(typingUserIds.map(id => (memberNames.get(id) ?? 'Someone').split(' ')[0]))}
+                  </span>
+                ) : (
+                  <span>
+                    {memberCount} {memberCount === 1 ? 'member' : 'members'}
+                  </span>
+                )}
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={() => setShowMembersModal(true)}
+              className="rounded-lg p-2 text-gray-600 transition-colors hover:bg-gray-100"
+              aria-label="Group details"
             >
-              {conversation.otherParticipant?.role === 'club'
-                ? 'Club'
-                : conversation.otherParticipant?.role === 'coach'
-                ? 'Coach'
-                : 'Player'}
-            </span>
+              <Users className="h-5 w-5" />
+            </button>
+          </>
+        ) : (
+          <div className="min-w-0 flex-1">
+            <h2 className="truncate text-lg font-semibold text-gray-900 md:text-xl">
+              {conversation.otherParticipant?.full_name}
+            </h2>
+            <div className="mt-1 flex flex-wrap items-center gap-2 text-sm text-gray-500">
+              <span
+                className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium md:text-sm ${
+                  conversation.otherParticipant?.role === 'club'
+                    ? 'bg-orange-50 text-orange-700'
+                    : conversation.otherParticipant?.role === 'coach'
+                    ? 'bg-purple-50 text-purple-700'
+                    : 'bg-blue-50 text-blue-700'
+                }`}
+              >
+                {conversation.otherParticipant?.role === 'club'
+                  ? 'Club'
+                  : conversation.otherParticipant?.role === 'coach'
+                  ? 'Coach'
+                  : 'Player'}
+              </span>
+              {isOtherTyping ? (
+                <span className="italic text-purple-600" aria-live="polite">typing…</span>
+              ) : isOtherOnline ? (
+                <span className="inline-flex items-center gap-1.5">
+                  <span className="h-2 w-2 rounded-full bg-green-500" aria-hidden="true" />
+                  Online
+                </span>
+              ) : otherLastSeenAt ? (
+                <span>Last seen {formatDistanceToNow(new Date(otherLastSeenAt), { addSuffix: true })}</span>
+              ) : null}
+            </div>
           </div>
-        </div>
+        )}
+
+        {!isGroup && otherParticipantId && (
+          <UserSafetyMenu
+            currentUserId={currentUserId}
+            user={{ id: otherParticipantId, full_name: conversation.otherParticipant?.full_name ?? null }}
+            conversationId={conversation.isPending ? null : conversation.id}
+            messages={reportableMessages}
+            onBlocked={() => onLeftConversation?.(conversation.id)}
+          />
+        )}
       </div>
 
+      {isGroup && showMembersModal && (
+        <GroupMembersModal
+          isOpen
+          conversationId={conversation.id}
+          title={groupTitle}
+          members={members}
+          currentUserId={currentUserId}
+          onClose={() => setShowMembersModal(false)}
+          onMembersChanged={() => void loadMembers()}
+          onTitleChanged={title => {
+            setGroupTitle(title)
+            onConversationUpdated?.(conversation.id, { title })
+          }}
+          onLeft={() => {
+            setShowMembersModal(false)
+            onLeftConversation?.(conversation.id)
+          }}
+        />
+      )}
+
+      <ConfirmActionModal
+        isOpen={messageToDelete !== null}
+        onClose={() => !deletingMessage && setMessageToDelete(null)}
+        onConfirm={() => void handleConfirmDelete()}
+        title="Delete message?"
+        description="This message will be removed for everyone in the conversation."
+        confirmLabel="Delete"
+        confirmTone="danger"
+        confirmLoading={deletingMessage}
+        loadingLabel="Deleting..."
+      />
+
       <div
         ref={scrollContainerRef}
         className={`flex-1 min-h-0 overflow-y-auto overscroll-contain pt-6 pl-4 pr-[calc(1rem+var(--chat-safe-area-right,0px))] md:pl-6 md:pr-[calc(1.5rem+var(--chat-safe-area-right,0px))] ${
@@ -936,42 +1885,202 @@ export default function ChatWindow({ conversation, currentUserId, onBack, onMess
               {messages.map((message, index) => {
                 const isMyMessage = message.sender_id === currentUserId
                 const isPending = message.id.startsWith('optimistic-')
+                const isDeleted = Boolean(message.deleted_at)
+                const deliveryState = isMyMessage
+                  ? getDeliveryState(
+                      message,
+                      isGroup
+                        ? {
+                            readByAll:
+                              otherMemberReadTimes.length > 0 &&
+                              otherMemberReadTimes.every(
+                                readAt => readAt !== null && readAt >= new Date(message.sent_at).getTime()
+                              )
+                          }
+                        : undefined
+                    )
+                  : null
+                const attachments = parseAttachments(message.attachments)
+                const reactions = Object.entries(parseReactions(message.reactions))
+                const canEdit = canEditMessage(message, currentUserId)
+                const showActions = activeMessageId === message.id || reactionPickerFor === message.id
                 const showTimestamp =
                   index === 0 ||
                   new Date(message.sent_at).getTime() - new Date(messages[index - 1].sent_at).getTime() > 300000
+                const showSenderName =
+                  isGroup && !isMyMessage && (showTimestamp || messages[index - 1].sender_id !== message.sender_id)
 
                 return (
-                  <div key={message.id}>
+                  <div key={message.id} id={`message-${message.id}`}>
                     {showTimestamp && (
                       <div className="mb-3 text-center text-xs font-medium uppercase tracking-wide text-gray-400">
                         {format(new Date(message.sent_at), 'MMM d, yyyy h:mm a')}
                       </div>
                     )}
                     <div className={`flex ${isMyMessage ? 'justify-end' : 'justify-start'}`}>
-                      <div
-                        className={`max-w-[75%] rounded-2xl px-4 py-3 text-sm shadow-sm md:max-w-[70%] ${
-                          isMyMessage
-                            ? isPending
-                              ? 'bg-gradient-to-br from-[#6366f1]/70 to-[#8b5cf6]/70 text-white'
-                              : 'bg-gradient-to-br from-[#6366f1] to-[#8b5cf6] text-white'
-                            : 'bg-white text-gray-900'
-                        } ${!isMyMessage ? 'border border-gray-200' : ''}`}
-                      >
-                        <p className="whitespace-pre-wrap break-words leading-relaxed">{message.content}</p>
-                        <div className="mt-2 flex items-center gap-2 text-xs">
-                          <p className={isMyMessage ? 'text-purple-100' : 'text-gray-500'}>
-                            {format(new Date(message.sent_at), 'h:mm a')}
-                          </p>
-                          {isPending && (
-                            <span className="flex items-center gap-1 text-purple-100">
-                              <svg className="h-3 w-3 animate-spin" viewBox="0 0 24 24">
-                                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
-                                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
-                              </svg>
-                              Sending
-                            </span>
+                      <div className="group relative max-w-[75%] md:max-w-[70%]">
+                        {!isPending && !isDeleted && (
+                          <div
+                            className={`absolute top-1/2 z-10 flex -translate-y-1/2 items-center gap-0.5 rounded-full border border-gray-200 bg-white p-0.5 shadow-sm transition-opacity ${
+                              isMyMessage ? 'right-full mr-2' : 'left-full ml-2'
+                            } ${showActions ? 'opacity-100' : 'pointer-events-none opacity-0 group-hover:pointer-events-auto group-hover:opacity-100 focus-within:pointer-events-auto focus-within:opacity-100'}`}
+                          >
+                            <button
+                              type="button"
+                              onClick={() => setReactionPickerFor(current => (current === message.id ? null : message.id))}
+                              className="rounded-full p-1.5 text-gray-500 transition-colors hover:bg-gray-100 hover:text-gray-700"
+                              aria-label="React to message"
+                              aria-expanded={reactionPickerFor === message.id}
+                            >
+                              <Smile className="h-4 w-4" />
+                            </button>
+                            {canEdit && (
+                              <button
+                                type="button"
+                                onClick={() => handleStartEditing(message)}
+                                className="rounded-full p-1.5 text-gray-500 transition-colors hover:bg-gray-100 hover:text-gray-700"
+                                aria-label="Edit message"
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </button>
+                            )}
+                            {isMyMessage && (
+                              <button
+                                type="button"
+                                onClick={() => {
+                                  setActiveMessageId(null)
+                                  setMessageToDelete(message)
+                                }}
+                                className="rounded-full p-1.5 text-gray-500 transition-colors hover:bg-red-50 hover:text-red-600"
+                                aria-label="Delete message"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </button>
+                            )}
+                            {reactionPickerFor === message.id && (
+                              <div
+                                className={`absolute bottom-full mb-2 flex gap-1 rounded-full border border-gray-200 bg-white px-2 py-1 shadow-lg ${
+                                  isMyMessage ? 'right-0' : 'left-0'
+                                }`}
+                                role="group"
+                                aria-label="Reactions"
+                              >
+                                {REACTION_EMOJIS.map(emoji => (
+                                  <button
+                                    key={emoji}
+                                    type="button"
+                                    onClick={() => void handleToggleReaction(message, emoji)}
+                                    className="rounded-full p-1 text-lg leading-none transition-transform hover:scale-125"
+                                    aria-label={`React with ${emoji}`}
+                                  >
+                                    {emoji}
+                                  </button>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        )}
+                        <div
+                          onClick={
+                            isMobile && !isPending && !isDeleted
+                              ? () => setActiveMessageId(current => (current === message.id ? null : message.id))
+                              : undefined
+                          }
+                          className={`rounded-2xl px-4 py-3 text-sm shadow-sm ${
+                            isMyMessage
+                              ? isPending
+                                ? 'bg-gradient-to-br from-[#6366f1]/70 to-[#8b5cf6]/70 text-white'
+                                : 'bg-gradient-to-br from-[#6366f1] to-[#8b5cf6] text-white'
+                              : 'bg-white text-gray-900'
+                          } ${!isMyMessage ? 'border border-gray-200' : ''} ${
+                            highlightedMessageId === message.id ? 'ring-2 ring-yellow-300 ring-offset-2' : ''
+                          }`}
+                        >
+                          {showSenderName && (
+                            <p className="mb-1 text-xs font-semibold text-purple-700">
+                              {memberNames.get(message.sender_id) ?? 'Former member'}
+                            </p>
+                          )}
+                          {isDeleted ? (
+                            <p className={`italic ${isMyMessage ? 'text-purple-100' : 'text-gray-500'}`}>
+                              This message was deleted
+                            </p>
+                          ) : (
+                            <>
+                              {attachments.length > 0 && (
+                                <MessageAttachmentList attachments={attachments} isMine={isMyMessage} />
+                              )}
+                              {message.content && (
+                                <p className="whitespace-pre-wrap break-words leading-relaxed">{message.content}</p>
+                              )}
+                            </>
                           )}
+                          <div className="mt-2 flex items-center gap-2 text-xs">
+                            <p className={isMyMessage ? 'text-purple-100' : 'text-gray-500'}>
+                              {format(new Date(message.sent_at), 'h:mm a')}
+                            </p>
+                            {message.edited_at && !isDeleted && (
+                              <span
+                                className={isMyMessage ? 'text-purple-100' : 'text-gray-500'}
+                                title={`Edited ${format(new Date(message.edited_at), 'MMM d, h:mm a')}`}
+                              >
+                                edited
+                              </span>
+                            )}
+                            {deliveryState && !isDeleted && <DeliveryIndicator state={deliveryState} />}
+                          </div>
                         </div>
+                        {deliveryState === 'failed' && (
+                          <div className="mt-1 flex items-center justify-end gap-2 text-xs text-red-600">
+                            <AlertCircle className="h-3.5 w-3.5" aria-hidden="true" />
+                            <span>Not sent</span>
+                            <button
+                              type="button"
+                              onClick={() => void handleRetryMessage(message)}
+                              className="font-semibold text-purple-700 hover:underline"
+                            >
+                              Retry
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => handleDiscardMessage(message)}
+                              className="font-semibold text-gray-600 hover:underline"
+                            >
+                              Delete
+                            </button>
+                          </div>
+                        )}
+                        {reactions.length > 0 && !isDeleted && (
+                          <div className={`mt-1 flex flex-wrap gap-1 ${isMyMessage ? 'justify-end' : 'justify-start'}`}>
+                            {reactions.map(([emoji, userIds]) => {
+                              const reacted = userIds.includes(currentUserId)
+                              const names = userIds.map(id =>
+                                id === currentUserId
+                                  ? 'You'
+                                  : memberNames.get(id) ?? conversation.otherParticipant?.full_name ?? 'Someone'
+                              )
+
+                              return (
+                                <button
+                                  key={emoji}
+                                  type="button"
+                                  onClick={() => void handleToggleReaction(message, emoji)}
+                                  className={`inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-medium transition-colors ${
+                                    reacted
+                                      ? 'border-purple-300 bg-purple-50 text-purple-700'
+                                      : 'border-gray-200 bg-white text-gray-700 hover:bg-gray-50'
+                                  }`}
+                                  title={names.join(', ')}
+                                  aria-pressed={reacted}
+                                  aria-label={`${emoji} ${userIds.length}, ${names.join(', ')}`}
+                                >
+                                  <span aria-hidden="true">{emoji}</span>
+                                  {userIds.length}
+                                </button>
+                              )
+                            })}
+                          </div>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -979,14 +2088,14 @@ export default function ChatWindow({ conversation, currentUserId, onBack, onMess
               })}
               <div ref={messagesEndRef} />
             </div>
-            {showNewMessagesIndicator && (
+            {(showNewMessagesIndicator || hasNewerMessages) && (
               <div className="sticky bottom-4 flex justify-center pb-2">
                 <button
                   type="button"
-                  onClick={handleJumpToLatest}
+                  onClick={() => void handleJumpToLatest()}
                   className="inline-flex items-center gap-2 rounded-full bg-white/95 px-4 py-2 text-sm font-semibold text-gray-900 shadow-lg ring-1 ring-gray-200 backdrop-blur transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-purple-500 hover:shadow-xl"
                 >
-                  New messages, tap to jump
+                  {showNewMessagesIndicator ? 'New messages, tap to jump' : 'Jump to latest'}
                 </button>
               </div>
             )}
@@ -1003,7 +2112,108 @@ export default function ChatWindow({ conversation, currentUserId, onBack, onMess
             : ''
         }`}
       >
+        {!isOnline && !conversation.isPending && (
+          <div className="mb-3 flex items-center gap-2 rounded-xl bg-amber-50 px-3 py-2 text-xs text-amber-800" role="status">
+            <WifiOff className="h-4 w-4 flex-shrink-0" aria-hidden="true" />
+            You're offline. Messages will send when you reconnect.
+          </div>
+        )}
+        {editingMessage && (
+          <div className="mb-3 flex items-center gap-3 rounded-xl border-l-4 border-purple-400 bg-purple-50 px-3 py-2">
+            <Pencil className="h-4 w-4 flex-shrink-0 text-purple-600" aria-hidden="true" />
+            <div className="min-w-0 flex-1">
+              <p className="text-xs font-semibold text-purple-700">Editing message</p>
+              <p className="truncate text-xs text-gray-600">{editingMessage.content || 'Attachment'}</p>
+            </div>
+            <button
+              type="button"
+              onClick={handleCancelEditing}
+              disabled={sending}
+              className="rounded-full p-1 text-gray-500 transition-colors hover:bg-purple-100 hover:text-gray-700 disabled:opacity-50"
+              aria-label="Cancel editing"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+        {pendingAttachments.length > 0 && (
+          <ul className="mb-3 flex flex-wrap gap-2" aria-label="Attachments">
+            {pendingAttachments.map(item => (
+              <li
+                key={item.id}
+                className="relative flex w-44 items-center gap-2 overflow-hidden rounded-xl border border-gray-200 bg-white p-2 pr-8"
+              >
+                {item.previewUrl ? (
+                  <img src={item.previewUrl} alt="" className="h-10 w-10 flex-shrink-0 rounded-lg object-cover" />
+                ) : (
+                  <div className="flex h-10 w-10 flex-shrink-0 items-center justify-center rounded-lg bg-gray-100">
+                    <FileText className="h-5 w-5 text-gray-500" />
+                  </div>
+                )}
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-xs font-medium text-gray-900">{item.file.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {sending ? `${item.progress}%` : formatFileSize(item.file.size)}
+                  </p>
+                </div>
+                {!sending && (
+                  <button
+                    type="button"
+                    onClick={() => handleRemovePendingAttachment(item.id)}
+                    className="absolute right-1.5 top-1.5 rounded-full p-1 text-gray-400 transition-colors hover:bg-gray-100 hover:text-gray-600"
+                    aria-label={`Remove ${item.file.name}`}
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                )}
+                {sending && (
+                  <progress
+                    value={item.progress}
+                    max={100}
+                    className="absolute bottom-0 left-0 h-1 w-full appearance-none [&::-webkit-progress-bar]:bg-gray-100 [&::-webkit-progress-value]:bg-[#6366f1] [&::-moz-progress-bar]:bg-[#6366f1]"
+                  />
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
         <div className="flex items-end gap-3 md:gap-4">
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={ATTACHMENT_ACCEPT}
+            onChange={e => handleFilesSelected(e.target.files)}
+            className="hidden"
+            aria-hidden="true"
+            tabIndex={-1}
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={sending || Boolean(editingMessage) || pendingAttachments.length >= MAX_ATTACHMENTS_PER_MESSAGE}
+            className="flex h-12 w-12 flex-shrink-0 items-center justify-center rounded-xl text-gray-500 transition-colors hover:bg-gray-100 hover:text-gray-700 disabled:cursor-not-allowed disabled:opacity-50"
+            aria-label="Attach files"
+          >
+            <Paperclip className="h-5 w-5" aria-hidden="true" />
+          </button>
+          {profile?.role === 'club' && !editingMessage && (
+            <MessageTemplatePicker
+              currentUserId={currentUserId}
+              clubName={profile.full_name}
+              recipient={
+                !isGroup && otherParticipantId
+                  ? {
+                      id: otherParticipantId,
+                      full_name: conversation.otherParticipant?.full_name ?? null,
+                      role: conversation.otherParticipant?.role ?? null
+                    }
+                  : null
+              }
+              disabled={sending}
+              onInsert={handleInsertTemplate}
+            />
+          )}
           <div className="relative flex-1">
             <label htmlFor={textareaId} className="sr-only">
               Message
@@ -1014,9 +2224,15 @@ export default function ChatWindow({ conversation, currentUserId, onBack, onMess
               onChange={e => {
                 setNewMessage(e.target.value)
                 syncTextareaHeight()
+                if (e.target.value.trim() && !editingMessage) {
+                  notifyTyping()
+                } else {
+                  stopTyping()
+                }
               }}
+              onBlur={stopTyping}
               onKeyDown={handleKeyDown}
-              placeholder="Type a message..."
+              placeholder={editingMessage ? 'Edit your message...' : 'Type a message...'}
               rows={1}
               maxLength={1000}
               id={textareaId}
@@ -1035,7 +2251,7 @@ export default function ChatWindow({ conversation, currentUserId, onBack, onMess
             type="submit"
             disabled={isSendDisabled}
             className="flex h-12 w-12 items-center justify-center rounded-xl bg-gradient-to-br from-[#6366f1] to-[#8b5cf6] text-white shadow-lg transition-all duration-200 hover:shadow-xl focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-purple-300 disabled:cursor-not-allowed disabled:opacity-60"
-            aria-label="Send message"
+            aria-label={editingMessage ? 'Save edit' : 'Send message'}
           >
             {sending ? (
               <svg className="h-5 w-5 animate-spin" viewBox="0 0 24 24" aria-hidden="true">
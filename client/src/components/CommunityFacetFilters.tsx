@@ -0,0 +1,263 @@
+import { useState } from 'react'
+import { X } from 'lucide-react'
+import {
+  AGE_BUCKETS,
+  AVAILABILITY_OPTIONS,
+  FACET_FILTER_KEYS,
+  GENDER_LABELS,
+  type CommunityFacets,
+  type CommunityFilters,
+  type FacetCount,
+  type ListFacet,
+} from '@/lib/community'
+
+interface CommunityFacetFiltersProps {
+  facets: CommunityFacets
+  filters: CommunityFilters
+  onToggle: (facet: ListFacet, value: string) => void
+  /** Set non-list filters (age range, EU passport, primary position only) */
+  onChange: (patch: Partial<CommunityFilters>) => void
+  onClear: () => void
+  /** When false only the active filter chips are shown */
+  showFacets?: boolean
+}
+
+const FACET_GROUPS: { facet: Exclude<ListFacet, 'role'>; label: string }[] = [
+  { facet: 'position', label: 'Position' },
+  { facet: 'gender', label: 'Gender' },
+  { facet: 'availability', label: 'Availability' },
+  { facet: 'league', label: 'League' },
+  { facet: 'nationality', label: 'Nationality' },
+  { facet: 'passport', label: 'Passport' },
+  { facet: 'location', label: 'Location' },
+]
+
+const COLLAPSED_VALUE_COUNT = 6
+
+const isSelected = (filters: CommunityFilters, facet: ListFacet, value: string) =>
+  (filters[FACET_FILTER_KEYS[facet]] as string[]).some(item => item.toLowerCase() === value.toLowerCase())
+
+const formatValue = (facet: ListFacet, value: string) => {
+  if (facet === 'gender') return GENDER_LABELS[value.toLowerCase()] ?? value
+  if (facet === 'availability') return AVAILABILITY_OPTIONS.find(option => option.value === value)?.label ?? value
+  return value
+}
+
+const formatAgeRange = (min: number | null, max: number | null) => {
+  if (min !== null && max !== null) return min === max ? `${min}` : `${min}–${max}`
+  if (min !== null) return `${min}+`
+  return `Up to ${max}`
+}
+
+const parseAge = (value: string) => {
+  const age = parseInt(value, 10)
+  return Number.isNaN(age) ? null : Math.max(age, 0)
+}
+
+interface FacetPillProps {
+  label: string
+  count: number
+  selected: boolean
+  onClick: () => void
+}
+
+function FacetPill({ label, count, selected, onClick }: FacetPillProps) {
+  return (
+    <button
+      onClick={onClick}
+      aria-pressed={selected}
+      className={`flex items-center gap-1.5 rounded-full px-3 py-1 text-sm transition-colors ${
+        selected
+          ? 'bg-gradient-to-r from-[#6366f1] to-[#8b5cf6] text-white'
+          : 'border border-gray-300 bg-white text-gray-700 hover:border-purple-300'
+      }`}
+    >
+      {label}
+      <span className={selected ? 'text-white/80' : 'text-gray-400'}>{count}</span>
+    </button>
+  )
+}
+
+/**
+ * Facet pills with match counts plus chips for the active filters.
+ * Role is rendered separately by CommunityPage as the main chip row.
+ */
+export default function CommunityFacetFilters({
+  facets,
+  filters,
+  onToggle,
+  onChange,
+  onClear,
+  showFacets = true,
+}: CommunityFacetFiltersProps) {
+  const [expanded, setExpanded] = useState<Partial<Record<ListFacet, boolean>>>({})
+
+  const activeChips: { key: string; label: string; value: string; onRemove: () => void }[] = FACET_GROUPS.flatMap(
+    ({ facet, label }) =>
+      (filters[FACET_FILTER_KEYS[facet]] as string[]).map(value => ({
+        key: `${facet}-${value}`,
+        label,
+        value: formatValue(facet, value),
+        onRemove: () => onToggle(facet, value),
+      }))
+  )
+
+  if (filters.ageMin !== null || filters.ageMax !== null) {
+    activeChips.push({
+      key: 'age',
+      label: 'Age',
+      value: formatAgeRange(filters.ageMin, filters.ageMax),
+      onRemove: () => onChange({ ageMin: null, ageMax: null }),
+    })
+  }
+
+  if (filters.euPassport) {
+    activeChips.push({
+      key: 'eu-passport',
+      label: 'Passport',
+      value: 'EU passport holder',
+      onRemove: () => onChange({ euPassport: false }),
+    })
+  }
+
+  const ageCounts = new Map(facets.age.map(item => [item.value, item.count]))
+  const euPassportCount = facets.eu_passport[0]?.count ?? 0
+
+  const renderValues = (facet: Exclude<ListFacet, 'role'>, values: FacetCount[]) => {
+    const isExpanded = expanded[facet] ?? false
+    const visibleValues = isExpanded ? values : values.slice(0, COLLAPSED_VALUE_COUNT)
+
+    return (
+      <div className="flex flex-wrap gap-2">
+        {visibleValues.map(({ value, count }) => (
+          <FacetPill
+            key={value}
+            label={formatValue(facet, value)}
+            count={count}
+            selected={isSelected(filters, facet, value)}
+            onClick={() => onToggle(facet, value)}
+          />
+        ))}
+        {values.length > COLLAPSED_VALUE_COUNT && (
+          <button
+            onClick={() => setExpanded(prev => ({ ...prev, [facet]: !isExpanded }))}
+            className="px-2 py-1 text-sm font-medium text-purple-600 hover:text-purple-700"
+          >
+            {isExpanded ? 'Show less' : `+${values.length - COLLAPSED_VALUE_COUNT} more`}
+          </button>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {activeChips.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {activeChips.map(chip => (
+            <button
+              key={chip.key}
+              onClick={chip.onRemove}
+              className="flex items-center gap-1.5 rounded-full bg-purple-50 px-3 py-1.5 text-sm font-medium text-purple-700 hover:bg-purple-100 transition-colors"
+              aria-label={`Remove ${chip.label} filter ${chip.value}`}
+            >
+              <span className="text-purple-400">{chip.label}:</span>
+              {chip.value}
+              <X className="w-3.5 h-3.5" />
+            </button>
+          ))}
+          <button
+            onClick={onClear}
+            className="px-2 py-1.5 text-sm font-medium text-gray-600 hover:text-gray-900 transition-colors"
+          >
+            Clear all
+          </button>
+        </div>
+      )}
+
+      {showFacets && (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-4">
+          {FACET_GROUPS.map(({ facet, label }) => {
+            const values = facets[facet]
+
+            return (
+              <div key={facet} className="rounded-xl border border-gray-200 bg-white p-4">
+                <h3 className="mb-3 text-sm font-semibold text-gray-900">{label}</h3>
+                {values.length === 0 && facet !== 'passport' ? (
+                  <p className="text-sm text-gray-400">No options</p>
+                ) : (
+                  renderValues(facet, values)
+                )}
+
+                {facet === 'position' && (
+                  <label className="mt-3 flex items-center gap-2 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={filters.primaryPositionOnly}
+                      onChange={(e) => onChange({ primaryPositionOnly: e.target.checked })}
+                      className="h-4 w-4 rounded border-gray-300 text-[#6366f1] focus:ring-[#6366f1]"
+                    />
+                    Primary position only
+                  </label>
+                )}
+
+                {facet === 'passport' && (
+                  <div className={values.length > 0 ? 'mt-3 border-t border-gray-100 pt-3' : ''}>
+                    <FacetPill
+                      label="EU passport holder"
+                      count={euPassportCount}
+                      selected={filters.euPassport}
+                      onClick={() => onChange({ euPassport: !filters.euPassport })}
+                    />
+                  </div>
+                )}
+              </div>
+            )
+          })}
+
+          <div className="rounded-xl border border-gray-200 bg-white p-4">
+            <h3 className="mb-3 text-sm font-semibold text-gray-900">Age</h3>
+            <div className="flex flex-wrap gap-2">
+              {AGE_BUCKETS.map(bucket => {
+                const selected = filters.ageMin === bucket.min && filters.ageMax === bucket.max
+
+                return (
+                  <FacetPill
+                    key={bucket.value}
+                    label={bucket.label}
+                    count={ageCounts.get(bucket.value) ?? 0}
+                    selected={selected}
+                    onClick={() =>
+                      onChange(selected ? { ageMin: null, ageMax: null } : { ageMin: bucket.min, ageMax: bucket.max })
+                    }
+                  />
+                )
+              })}
+            </div>
+            <div className="mt-3 flex items-center gap-2">
+              <input
+                type="number"
+                min={0}
+                value={filters.ageMin ?? ''}
+                onChange={(e) => onChange({ ageMin: parseAge(e.target.value) })}
+                placeholder="Min"
+                aria-label="Minimum age"
+                className="w-20 rounded-lg border border-gray-300 px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+              <span className="text-sm text-gray-400">to</span>
+              <input
+                type="number"
+                min={0}
+                value={filters.ageMax ?? ''}
+                onChange={(e) => onChange({ ageMax: parseAge(e.target.value) })}
+                placeholder="Max"
+                aria-label="Maximum age"
+                className="w-20 rounded-lg border border-gray-300 px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
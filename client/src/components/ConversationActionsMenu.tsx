@@ -0,0 +1,101 @@
+import { useEffect, useRef, useState } from 'react'
+import { Archive, ArchiveRestore, Bell, BellOff, Mail, MailOpen, MoreHorizontal, Pin, PinOff } from 'lucide-react'
+import type { ConversationStateChanges } from '@/lib/conversationState'
+
+interface ConversationActionsMenuProps {
+  isArchived: boolean
+  isPinned: boolean
+  isMuted: boolean
+  isUnread: boolean
+  onUpdate: (changes: ConversationStateChanges) => void
+}
+
+/**
+ * Per-conversation "More" menu in the inbox: pin, mute, mark unread and
+ * archive, each only for the current user.
+ */
+export default function ConversationActionsMenu({
+  isArchived,
+  isPinned,
+  isMuted,
+  isUnread,
+  onUpdate
+}: ConversationActionsMenuProps) {
+  const [menuOpen, setMenuOpen] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setMenuOpen(false)
+      }
+    }
+
+    if (menuOpen) {
+      document.addEventListener('mousedown', handleClickOutside)
+      return () => document.removeEventListener('mousedown', handleClickOutside)
+    }
+  }, [menuOpen])
+
+  const actions = [
+    {
+      label: isPinned ? 'Unpin' : 'Pin',
+      icon: isPinned ? PinOff : Pin,
+      changes: { pinned: !isPinned }
+    },
+    {
+      label: isMuted ? 'Unmute' : 'Mute',
+      icon: isMuted ? Bell : BellOff,
+      changes: { muted: !isMuted }
+    },
+    {
+      label: isUnread ? 'Mark as read' : 'Mark as unread',
+      icon: isUnread ? MailOpen : Mail,
+      changes: { markedUnread: !isUnread }
+    },
+    {
+      label: isArchived ? 'Unarchive' : 'Archive',
+      icon: isArchived ? ArchiveRestore : Archive,
+      changes: { archived: !isArchived }
+    }
+  ]
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        type="button"
+        onClick={() => setMenuOpen(open => !open)}
+        className="rounded-full p-1.5 text-gray-500 transition-colors hover:bg-gray-200 hover:text-gray-700"
+        aria-label="Conversation options"
+        aria-haspopup="true"
+        aria-expanded={menuOpen}
+      >
+        <MoreHorizontal className="h-4 w-4" />
+      </button>
+
+      {menuOpen && (
+        <div
+          className="absolute right-0 z-50 mt-1 w-44 rounded-lg border border-gray-200 bg-white py-1 shadow-lg"
+          role="menu"
+          aria-orientation="vertical"
+        >
+          {actions.map(action => (
+            <button
+              key={action.label}
+              type="button"
+              onClick={() => {
+                setMenuOpen(false)
+                onUpdate(action.changes)
+              }}
+              className="flex w-full items-center gap-2 px-4 py-2 text-left text-sm text-gray-700 transition-colors hover:bg-gray-50"
+              role="menuitem"
+            >
+              <action.icon className="h-4 w-4" />
+              {action.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
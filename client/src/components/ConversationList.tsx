@@ -1,12 +1,20 @@
+import { useEffect } from 'react'
 import { formatDistanceToNow } from 'date-fns'
+import { BellOff, Pin, Users } from 'lucide-react'
+import { usePresenceStore } from '@/lib/presence'
+import type { ConversationStateChanges } from '@/lib/conversationState'
+import ConversationActionsMenu from './ConversationActionsMenu'
 
 interface Conversation {
   id: string
-  participant_one_id: string
-  participant_two_id: string
+  participant_one_id: string | null
+  participant_two_id: string | null
   created_at: string
   updated_at: string
   last_message_at: string | null
+  is_group?: boolean
+  title?: string | null
+  memberCount?: number
   otherParticipant?: {
     id: string
     full_name: string
@@ -18,8 +26,14 @@ interface Conversation {
     content: string
     sent_at: string
     sender_id: string
+    sender_name?: string | null
   }
   unreadCount?: number
+  isArchived?: boolean
+  isPinned?: boolean
+  isMuted?: boolean
+  isMarkedUnread?: boolean
+  isPending?: boolean
 }
 
 interface ConversationListProps {
@@ -28,6 +42,7 @@ interface ConversationListProps {
   onSelectConversation: (conversationId: string) => void
   currentUserId: string
   variant?: 'default' | 'compact'
+  onUpdateState?: (conversationId: string, changes: ConversationStateChanges) => void
 }
 
 export default function ConversationList({
@@ -35,9 +50,35 @@ export default function ConversationList({
   selectedConversationId,
   onSelectConversation,
   currentUserId,
-  variant = 'default'
+  variant = 'default',
+  onUpdateState
 }: ConversationListProps) {
   const isCompact = variant === 'compact'
+  const presence = usePresenceStore(state => state.conversations)
+  const lastSeen = usePresenceStore(state => state.lastSeen)
+  const fetchLastSeen = usePresenceStore(state => state.fetchLastSeen)
+  const watchConversations = usePresenceStore(state => state.watchConversations)
+
+  const conversationKey = conversations
+    .filter(conversation => !conversation.isPending)
+    .map(conversation => conversation.id)
+    .sort()
+    .join(',')
+
+  const participantKey = conversations
+    .map(conversation => conversation.otherParticipant?.id)
+    .filter((id): id is string => Boolean(id))
+    .join(',')
+
+  useEffect(() => {
+    if (!participantKey) return
+    void fetchLastSeen(participantKey.split(','))
+  }, [fetchLastSeen, participantKey])
+
+  useEffect(() => {
+    if (!conversationKey) return
+    return watchConversations(conversationKey.split(','))
+  }, [conversationKey, watchConversations])
 
   const getAvatarUrl = (avatarUrl: string | null) => {
     if (!avatarUrl) return null
@@ -55,9 +96,22 @@ export default function ConversationList({
       {conversations.map((conversation) => {
         const isSelected = conversation.id === selectedConversationId
         const avatarUrl = getAvatarUrl(conversation.otherParticipant?.avatar_url || null)
-        const isUnread = (conversation.unreadCount || 0) > 0
+        const isUnread = (conversation.unreadCount || 0) > 0 || Boolean(conversation.isMarkedUnread)
+        const showActions = Boolean(onUpdateState && !conversation.isPending)
         const isSentByMe = conversation.lastMessage?.sender_id === currentUserId
-        const buttonClasses = `w-full flex items-start gap-3 ${isCompact ? 'px-3 py-3' : 'p-4'} transition-colors ${
+        const isGroup = Boolean(conversation.is_group)
+        const otherId = isGroup ? undefined : conversation.otherParticipant?.id
+        const conversationPresence = presence[conversation.id]
+        const isOnline = !!otherId && Boolean(conversationPresence?.onlineUserIds.includes(otherId))
+        const isTyping = (conversationPresence?.typingUserIds.length ?? 0) > 0
+        const lastSeenAt = otherId ? lastSeen[otherId] : undefined
+        const displayName = isGroup ? conversation.title : conversation.otherParticipant?.full_name
+        const senderLabel = isSentByMe
+          ? 'You'
+          : isGroup
+            ? conversation.lastMessage?.sender_name?.split(' ')[0]
+            : null
+        const buttonClasses = `w-full flex items-start gap-3 ${isCompact ? 'px-3 py-3' : 'p-4'} ${showActions ? 'pr-12' : ''} transition-colors ${
           isSelected
             ? isCompact
               ? 'bg-gray-100 hover:bg-gray-100'
@@ -66,74 +120,120 @@ export default function ConversationList({
         }`
 
         return (
-          <button
-            key={conversation.id}
-            onClick={() => onSelectConversation(conversation.id)}
-            className={buttonClasses}
-          >
-            {/* Avatar */}
-            <div className="relative flex-shrink-0">
-              {avatarUrl ? (
-                <img
-                  src={avatarUrl}
-                  alt={conversation.otherParticipant?.full_name}
-                  className="w-12 h-12 rounded-full object-cover"
-                />
-              ) : (
-                <div className="w-12 h-12 rounded-full bg-gradient-to-br from-purple-400 to-purple-600 flex items-center justify-center text-white font-semibold text-lg">
-                  {conversation.otherParticipant?.full_name?.charAt(0).toUpperCase()}
-                </div>
-              )}
-              {/* Online indicator - placeholder for future feature */}
-              {/* <div className="absolute bottom-0 right-0 w-3 h-3 bg-green-500 border-2 border-white rounded-full"></div> */}
-            </div>
-
-            {/* Conversation Info */}
-            <div className="flex-1 min-w-0 text-left">
-              <div className="flex items-center justify-between mb-1">
-                <div className="flex items-center gap-2">
-                  <h3
-                    className={`font-semibold text-gray-900 truncate ${isUnread ? 'font-bold' : ''} ${
-                      isCompact ? 'text-sm' : ''
-                    }`}
+          <div key={conversation.id} className="group relative">
+            <button
+              onClick={() => onSelectConversation(conversation.id)}
+              className={buttonClasses}
+            >
+              {/* Avatar */}
+              <div className="relative flex-shrink-0">
+                {isGroup ? (
+                  <div className="w-12 h-12 rounded-full bg-gradient-to-br from-[#6366f1] to-[#8b5cf6] flex items-center justify-center text-white">
+                    <Users className="w-6 h-6" aria-hidden="true" />
+                  </div>
+                ) : avatarUrl ? (
+                  <img
+                    src={avatarUrl}
+                    alt={conversation.otherParticipant?.full_name}
+                    className="w-12 h-12 rounded-full object-cover"
+                  />
+                ) : (
+                  <div className="w-12 h-12 rounded-full bg-gradient-to-br from-purple-400 to-purple-600 flex items-center justify-center text-white font-semibold text-lg">
+                    {conversation.otherParticipant?.full_name?.charAt(0).toUpperCase()}
+                  </div>
+                )}
+                {isOnline ? (
+                  <div
+                    className="absolute bottom-0 right-0 w-3 h-3 bg-green-500 border-2 border-white rounded-full"
+                    title="Online"
                   >
-                    {conversation.otherParticipant?.full_name}
-                  </h3>
-                  <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
-                    conversation.otherParticipant?.role === 'club'
-                      ? 'bg-orange-50 text-orange-700'
-                      : conversation.otherParticipant?.role === 'coach'
-                      ? 'bg-purple-50 text-purple-700'
-                      : 'bg-blue-50 text-blue-700'
-                  }`}>
-                    {conversation.otherParticipant?.role === 'club' 
-                      ? 'Club' 
-                      : conversation.otherParticipant?.role === 'coach'
-                      ? 'Coach'
-                      : 'Player'}
+                    <span className="sr-only">Online</span>
+                  </div>
+                ) : lastSeenAt ? (
+                  <span className="sr-only">
+                    Last seen {formatDistanceToNow(new Date(lastSeenAt), { addSuffix: true })}
                   </span>
-                </div>
-                {conversation.last_message_at && (
-                  <span className="text-xs text-gray-500 flex-shrink-0">
-                    {formatDistanceToNow(new Date(conversation.last_message_at), { addSuffix: true })}
-                  </span>
-                )}
+                ) : null}
               </div>
 
-              {/* Last Message Preview */}
-              {conversation.lastMessage && (
-                <div className="flex items-center justify-between">
-                  <p className={`text-sm truncate ${isUnread ? 'text-gray-900 font-medium' : 'text-gray-600'}`}>
-                    {isSentByMe && <span className="text-gray-500">You: </span>}
-                    {truncateMessage(conversation.lastMessage.content)}
-                  </p>
-                  {isUnread && (
-                    <span className="ml-2 w-2 h-2 bg-purple-600 rounded-full flex-shrink-0"></span>
+              {/* Conversation Info */}
+              <div className="flex-1 min-w-0 text-left">
+                <div className="flex items-center justify-between mb-1">
+                  <div className="flex items-center gap-2">
+                    <h3
+                      className={`font-semibold text-gray-900 truncate ${isUnread ? 'font-bold' : ''} ${
+                        isCompact ? 'text-sm' : ''
+                      }`}
+                    >
+                      {displayName}
+                    </h3>
+                    {conversation.isPinned && (
+                      <Pin className="h-3.5 w-3.5 flex-shrink-0 text-gray-400" aria-label="Pinned" />
+                    )}
+                    {conversation.isMuted && (
+                      <BellOff className="h-3.5 w-3.5 flex-shrink-0 text-gray-400" aria-label="Muted" />
+                    )}
+                    {isGroup ? (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                        Group · {conversation.memberCount ?? 0}
+                      </span>
+                    ) : (
+                      <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+                        conversation.otherParticipant?.role === 'club'
+                          ? 'bg-orange-50 text-orange-700'
+                          : conversation.otherParticipant?.role === 'coach'
+                          ? 'bg-purple-50 text-purple-700'
+                          : 'bg-blue-50 text-blue-700'
+                      }`}>
+                        {conversation.otherParticipant?.role === 'club' 
+                          ? 'Club' 
+                          : conversation.otherParticipant?.role === 'coach'
+                          ? 'Coach'
+                          : 'Player'}
+                      </span>
+                    )}
+                  </div>
+                  {conversation.last_message_at && (
+                    <span className="text-xs text-gray-500 flex-shrink-0">
+                      {formatDistanceToNow(new Date(conversation.last_message_at), { addSuffix: true })}
+                    </span>
                   )}
                 </div>
-              )}
-            </div>
-          </button>
+
+                {/* Last Message Preview */}
+                {(conversation.lastMessage || isTyping) && (
+                  <div className="flex items-center justify-between">
+                    {isTyping ? (
+                      <p className="text-sm truncate italic text-purple-600">typing…</p>
+                    ) : (
+                      <p className={`text-sm truncate ${isUnread ? 'text-gray-900 font-medium' : 'text-gray-600'}`}>
+                        {senderLabel && <span className="text-gray-500">{senderLabel}: </span>}
+                        {truncateMessage(conversation.lastMessage?.content ?? '')}
+                      </p>
+                    )}
+                    {isUnread && (
+                      <span
+                        className={`ml-2 w-2 h-2 rounded-full flex-shrink-0 ${
+                          conversation.isMuted ? 'bg-gray-400' : 'bg-purple-600'
+                        }`}
+                      ></span>
+                    )}
+                  </div>
+                )}
+              </div>
+            </button>
+            {showActions && onUpdateState && (
+              <div className="absolute right-2 top-1/2 -translate-y-1/2 md:opacity-0 md:group-hover:opacity-100 md:focus-within:opacity-100">
+                <ConversationActionsMenu
+                  isArchived={Boolean(conversation.isArchived)}
+                  isPinned={Boolean(conversation.isPinned)}
+                  isMuted={Boolean(conversation.isMuted)}
+                  isUnread={isUnread}
+                  onUpdate={changes => onUpdateState(conversation.id, changes)}
+                />
+              </div>
+            )}
+          </div>
         )
       })}
     </div>
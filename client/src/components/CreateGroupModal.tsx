@@ -0,0 +1,117 @@
+import { useState } from 'react'
+import { logger } from '@/lib/logger'
+import { useToastStore } from '@/lib/toast'
+import {
+  MAX_GROUP_MEMBERS,
+  MAX_GROUP_TITLE_LENGTH,
+  createGroupConversation,
+  type MemberProfile
+} from '@/lib/conversationMembers'
+import Modal from './Modal'
+import Input from './Input'
+import Button from './Button'
+import MemberPicker from './MemberPicker'
+
+interface CreateGroupModalProps {
+  isOpen: boolean
+  currentUserId: string
+  onClose: () => void
+  onCreated: (conversationId: string) => void
+}
+
+/**
+ * Starts a named group chat, e.g. club staff or a trial squad.
+ * The creator becomes the group's admin.
+ */
+export default function CreateGroupModal({ isOpen, currentUserId, onClose, onCreated }: CreateGroupModalProps) {
+  const { addToast } = useToastStore()
+  const [title, setTitle] = useState('')
+  const [members, setMembers] = useState<MemberProfile[]>([])
+  const [error, setError] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleClose = () => {
+    if (isSaving) return
+    setTitle('')
+    setMembers([])
+    setError('')
+    onClose()
+  }
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+
+    if (!title.trim()) {
+      setError('Please give the group a name')
+      return
+    }
+    if (members.length === 0) {
+      setError('Add at least one member')
+      return
+    }
+
+    setIsSaving(true)
+    setError('')
+
+    try {
+      const conversationId = await createGroupConversation(title, members.map(member => member.id))
+      addToast('Group created.', 'success')
+      setTitle('')
+      setMembers([])
+      onCreated(conversationId)
+    } catch (createError) {
+      logger.error('Error creating group conversation:', createError)
+      setError('Failed to create group. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose}>
+      <form onSubmit={handleSubmit} className="p-6 space-y-5">
+        <div className="pr-8">
+          <h2 className="text-xl font-bold text-gray-900">New group</h2>
+          <p className="mt-1 text-sm text-gray-600">Message several people at once, like your staff or a trial squad.</p>
+        </div>
+
+        <Input
+          label="Group name"
+          value={title}
+          onChange={e => setTitle(e.target.value)}
+          maxLength={MAX_GROUP_TITLE_LENGTH}
+          placeholder="e.g. U21 trial group"
+          required
+          autoFocus
+        />
+
+        <div className="space-y-2">
+          <p className="block text-sm font-medium text-gray-700">Members</p>
+          <MemberPicker
+            selected={members}
+            onChange={setMembers}
+            excludeIds={[currentUserId]}
+            maxSelected={MAX_GROUP_MEMBERS - 1}
+            disabled={isSaving}
+          />
+        </div>
+
+        {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+
+        <div className="flex items-center gap-3">
+          <Button
+            type="button"
+            onClick={handleClose}
+            disabled={isSaving}
+            className="flex-1 bg-gray-100 text-gray-700 hover:bg-gray-200"
+          >
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isSaving} className="flex-1">
+            {isSaving ? 'Creating...' : 'Create Group'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  )
+}
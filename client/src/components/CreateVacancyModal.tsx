@@ -2,8 +2,15 @@ import { useCallback, useEffect, useId, useRef, useState } from 'react'
 import { X, Plus, Home, Car, Globe as GlobeIcon, Plane, Utensils, Briefcase, Shield, GraduationCap, CreditCard, Trophy } from 'lucide-react'
 import { supabase } from '../lib/supabase'
 import { useAuthStore } from '../lib/auth'
-import type { Vacancy, VacancyInsert } from '../lib/supabase'
+import type { Json, Vacancy, VacancyInsert } from '../lib/supabase'
 import Button from './Button'
+import ScreeningQuestionsEditor from './ScreeningQuestionsEditor'
+import {
+  normalizeScreeningQuestions,
+  parseScreeningQuestions,
+  validateScreeningQuestions,
+  type ScreeningQuestion,
+} from '@/lib/screening'
 import { useFocusTrap } from '@/hooks/useFocusTrap'
 import { useToastStore } from '@/lib/toast'
 
@@ -55,6 +62,9 @@ export default function CreateVacancyModal({ isOpen, onClose, onSuccess, editing
 
   const [formData, setFormData] = useState<Partial<VacancyInsert>>(buildInitialFormData(editingVacancy))
 
+  const [screeningQuestions, setScreeningQuestions] = useState<ScreeningQuestion[]>(
+    parseScreeningQuestions(editingVacancy?.screening_questions)
+  )
   const [newRequirement, setNewRequirement] = useState('')
   const [newCustomBenefit, setNewCustomBenefit] = useState('')
   const dialogRef = useRef<HTMLDivElement>(null)
@@ -88,6 +98,7 @@ export default function CreateVacancyModal({ isOpen, onClose, onSuccess, editing
   useEffect(() => {
     if (isOpen) {
       setFormData(buildInitialFormData(editingVacancy))
+      setScreeningQuestions(parseScreeningQuestions(editingVacancy?.screening_questions))
       setErrors({})
       setNewRequirement('')
       setNewCustomBenefit('')
@@ -193,6 +204,8 @@ export default function CreateVacancyModal({ isOpen, onClose, onSuccess, editing
     }
     if (!formData.location_city?.trim()) newErrors.location_city = 'City is required'
     if (!formData.location_country?.trim()) newErrors.location_country = 'Country is required'
+    const screeningError = validateScreeningQuestions(screeningQuestions)
+    if (screeningError) newErrors.screening_questions = screeningError
 
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
@@ -231,6 +244,7 @@ export default function CreateVacancyModal({ isOpen, onClose, onSuccess, editing
         application_deadline: formData.application_deadline || null,
         contact_email: formData.contact_email || null,
         contact_phone: formData.contact_phone || null,
+        screening_questions: normalizeScreeningQuestions(screeningQuestions) as unknown as Json,
       }
 
       if (editingVacancy) {
@@ -591,6 +605,29 @@ export default function CreateVacancyModal({ isOpen, onClose, onSuccess, editing
             </div>
           </section>
 
+          {/* Screening Questions */}
+          <section className="border-t border-gray-200 pt-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">Screening Questions</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              Ask applicants a few structured questions. Knockout answers are flagged on the applicants board, not rejected.
+            </p>
+
+            <ScreeningQuestionsEditor
+              questions={screeningQuestions}
+              onChange={(questions) => {
+                setScreeningQuestions(questions)
+                if (errors.screening_questions) {
+                  setErrors(prev => {
+                    const updated = { ...prev }
+                    delete updated.screening_questions
+                    return updated
+                  })
+                }
+              }}
+              error={errors.screening_questions}
+            />
+          </section>
+
           {/* Benefits Package */}
           <section className="border-t border-gray-200 pt-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">Benefits Package</h3>
@@ -9,6 +9,7 @@ import { optimizeImage, validateImage } from '@/lib/imageOptimization'
 import { useFocusTrap } from '@/hooks/useFocusTrap'
 import { invalidateProfile } from '@/lib/profile'
 import { useToastStore } from '@/lib/toast'
+import { AVAILABILITY_OPTIONS } from '@/lib/community'
 
 interface EditProfileModalProps {
   isOpen: boolean
@@ -39,6 +40,7 @@ export default function EditProfileModal({ isOpen, onClose, role }: EditProfileM
     current_club: profile?.current_club || '',
     year_founded: profile?.year_founded?.toString() || '',
     league_division: profile?.league_division || '',
+    availability: profile?.availability || '',
     website: profile?.website || '',
     contact_email: profile?.contact_email || '',
     club_bio: profile?.club_bio || '',
@@ -148,6 +150,8 @@ export default function EditProfileModal({ isOpen, onClose, role }: EditProfileM
       optimisticUpdate.passport_1 = formData.passport_1 || null
       optimisticUpdate.passport_2 = formData.passport_2 || null
       optimisticUpdate.current_club = formData.current_club || null
+      optimisticUpdate.league_division = formData.league_division || null
+      optimisticUpdate.availability = formData.availability || null
       optimisticUpdate.bio = formData.bio || null
     } else if (role === 'coach') {
       optimisticUpdate.nationality = formData.nationality
@@ -155,6 +159,7 @@ export default function EditProfileModal({ isOpen, onClose, role }: EditProfileM
       optimisticUpdate.date_of_birth = formData.date_of_birth || null
       optimisticUpdate.passport_1 = formData.passport_1 || null
       optimisticUpdate.passport_2 = formData.passport_2 || null
+      optimisticUpdate.availability = formData.availability || null
       optimisticUpdate.bio = formData.bio || null
       optimisticUpdate.contact_email = formData.contact_email || null
     } else if (role === 'club') {
@@ -416,6 +421,33 @@ export default function EditProfileModal({ isOpen, onClose, role }: EditProfileM
                   placeholder="e.g., Holcombe Hockey Club"
                 />
 
+                <Input
+                  label="Current League/Division (Optional)"
+                  type="text"
+                  value={formData.league_division}
+                  onChange={(e) => setFormData({ ...formData, league_division: e.target.value })}
+                  placeholder="e.g., England Hockey Premier Division"
+                />
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2" htmlFor="player-availability">
+                    Availability (Optional)
+                  </label>
+                  <select
+                    id="player-availability"
+                    value={formData.availability}
+                    onChange={(e) => setFormData({ ...formData, availability: e.target.value })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#6366f1] focus:border-transparent"
+                  >
+                    <option value="">Not specified</option>
+                    {AVAILABILITY_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2" htmlFor="player-bio">
                     About Me (Optional)
@@ -474,6 +506,25 @@ export default function EditProfileModal({ isOpen, onClose, role }: EditProfileM
                   onChange={(e) => setFormData({ ...formData, passport_2: e.target.value })}
                 />
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2" htmlFor="coach-availability-edit">
+                    Availability (Optional)
+                  </label>
+                  <select
+                    id="coach-availability-edit"
+                    value={formData.availability}
+                    onChange={(e) => setFormData({ ...formData, availability: e.target.value })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#6366f1] focus:border-transparent"
+                  >
+                    <option value="">Not specified</option>
+                    {AVAILABILITY_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
                 <Input
                   label="Contact Email (Optional)"
                   type="email"
@@ -0,0 +1,224 @@
+import { useState } from 'react'
+import { LogOut, UserMinus } from 'lucide-react'
+import { logger } from '@/lib/logger'
+import { useToastStore } from '@/lib/toast'
+import {
+  MAX_GROUP_MEMBERS,
+  MAX_GROUP_TITLE_LENGTH,
+  addConversationMembers,
+  removeConversationMember,
+  renameGroupConversation,
+  type ConversationMember,
+  type MemberProfile
+} from '@/lib/conversationMembers'
+import Modal from './Modal'
+import Button from './Button'
+import Avatar from './Avatar'
+import MemberPicker from './MemberPicker'
+
+interface GroupMembersModalProps {
+  isOpen: boolean
+  conversationId: string
+  title: string
+  members: ConversationMember[]
+  currentUserId: string
+  onClose: () => void
+  onMembersChanged: () => void
+  onTitleChanged: (title: string) => void
+  onLeft: () => void
+}
+
+const getAvatarUrl = (avatarUrl: string | null) => {
+  if (!avatarUrl) return null
+  if (avatarUrl.startsWith('http')) return avatarUrl
+  return `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/object/public/avatars/${avatarUrl}`
+}
+
+/**
+ * Group chat details: admins can rename the group and add or remove members;
+ * everyone can leave.
+ */
+export default function GroupMembersModal({
+  isOpen,
+  conversationId,
+  title,
+  members,
+  currentUserId,
+  onClose,
+  onMembersChanged,
+  onTitleChanged,
+  onLeft
+}: GroupMembersModalProps) {
+  const { addToast } = useToastStore()
+  const [draftTitle, setDraftTitle] = useState(title)
+  const [toAdd, setToAdd] = useState<MemberProfile[]>([])
+  const [busy, setBusy] = useState<string | null>(null)
+
+  const isAdmin = members.some(member => member.user_id === currentUserId && member.role === 'admin')
+  const memberIds = members.map(member => member.user_id)
+
+  const handleRename = async (event: React.FormEvent) => {
+    event.preventDefault()
+    const trimmed = draftTitle.trim()
+    if (!trimmed || trimmed === title) return
+
+    setBusy('rename')
+    try {
+      await renameGroupConversation(conversationId, trimmed)
+      onTitleChanged(trimmed)
+      addToast('Group renamed.', 'success')
+    } catch (error) {
+      logger.error('Error renaming group:', error)
+      addToast('Failed to rename group. Please try again.', 'error')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleAdd = async () => {
+    if (toAdd.length === 0) return
+
+    setBusy('add')
+    try {
+      const added = await addConversationMembers(conversationId, toAdd.map(profile => profile.id))
+      setToAdd([])
+      onMembersChanged()
+      addToast(added === 1 ? 'Member added.' : `${added} members added.`, 'success')
+    } catch (error) {
+      logger.error('Error adding group members:', error)
+      addToast('Failed to add members. Please try again.', 'error')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleRemove = async (member: ConversationMember) => {
+    setBusy(member.user_id)
+    try {
+      await removeConversationMember(conversationId, member.user_id)
+      onMembersChanged()
+      addToast(`${member.profile?.full_name ?? 'Member'} removed from the group.`, 'success')
+    } catch (error) {
+      logger.error('Error removing group member:', error)
+      addToast('Failed to remove member. Please try again.', 'error')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleLeave = async () => {
+    setBusy('leave')
+    try {
+      await removeConversationMember(conversationId, currentUserId)
+      addToast('You left the group.', 'success')
+      onLeft()
+    } catch (error) {
+      logger.error('Error leaving group:', error)
+      addToast('Failed to leave group. Please try again.', 'error')
+      setBusy(null)
+    }
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={() => !busy && onClose()} className="max-w-lg">
+      <div className="p-6 space-y-6">
+        <div className="pr-8">
+          <h2 className="text-xl font-bold text-gray-900">Group details</h2>
+          <p className="mt-1 text-sm text-gray-600">
+            {members.length} {members.length === 1 ? 'member' : 'members'}
+          </p>
+        </div>
+
+        {isAdmin && (
+          <form onSubmit={handleRename} className="flex items-end gap-2">
+            <label className="flex-1 space-y-2">
+              <span className="block text-sm font-medium text-gray-700">Group name</span>
+              <input
+                value={draftTitle}
+                onChange={e => setDraftTitle(e.target.value)}
+                maxLength={MAX_GROUP_TITLE_LENGTH}
+                disabled={busy !== null}
+                className="w-full rounded-lg border border-gray-200 bg-gray-50 px-4 py-2 focus:border-transparent focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+            </label>
+            <Button
+              type="submit"
+              size="sm"
+              disabled={busy !== null || !draftTitle.trim() || draftTitle.trim() === title}
+              className="py-2"
+            >
+              {busy === 'rename' ? 'Saving...' : 'Rename'}
+            </Button>
+          </form>
+        )}
+
+        <ul className="divide-y divide-gray-100 rounded-lg border border-gray-200">
+          {members.map(member => {
+            const name = member.profile?.full_name || 'PLAYR member'
+            const isSelf = member.user_id === currentUserId
+
+            return (
+              <li key={member.user_id} className="flex items-center gap-3 px-3 py-2">
+                <Avatar
+                  src={getAvatarUrl(member.profile?.avatar_url ?? null)}
+                  alt={name}
+                  initials={name.charAt(0).toUpperCase()}
+                  size="sm"
+                />
+                <span className="min-w-0 flex-1">
+                  <span className="block truncate text-sm font-medium text-gray-900">
+                    {name}
+                    {isSelf && <span className="text-gray-500"> (you)</span>}
+                  </span>
+                  <span className="block text-xs capitalize text-gray-500">{member.profile?.role ?? 'member'}</span>
+                </span>
+                {member.role === 'admin' && (
+                  <span className="rounded-full bg-purple-50 px-2 py-0.5 text-xs font-medium text-purple-700">Admin</span>
+                )}
+                {isAdmin && !isSelf && (
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(member)}
+                    disabled={busy !== null}
+                    className="rounded p-1 text-gray-400 transition-colors hover:bg-red-50 hover:text-red-600 disabled:opacity-50"
+                    aria-label={`Remove ${name} from the group`}
+                  >
+                    <UserMinus className="h-4 w-4" />
+                  </button>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+
+        {isAdmin && (
+          <div className="space-y-3">
+            <p className="text-sm font-medium text-gray-700">Add members</p>
+            <MemberPicker
+              selected={toAdd}
+              onChange={setToAdd}
+              excludeIds={memberIds}
+              maxSelected={MAX_GROUP_MEMBERS - members.length}
+              disabled={busy !== null}
+            />
+            {toAdd.length > 0 && (
+              <Button type="button" onClick={handleAdd} disabled={busy !== null} className="w-full">
+                {busy === 'add' ? 'Adding...' : `Add ${toAdd.length} ${toAdd.length === 1 ? 'member' : 'members'}`}
+              </Button>
+            )}
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={handleLeave}
+          disabled={busy !== null}
+          className="inline-flex items-center gap-2 text-sm font-medium text-red-600 transition-colors hover:text-red-700 disabled:opacity-50"
+        >
+          <LogOut className="h-4 w-4" />
+          {busy === 'leave' ? 'Leaving...' : 'Leave group'}
+        </button>
+      </div>
+    </Modal>
+  )
+}
@@ -1,7 +1,8 @@
 import { useState, useEffect, useRef } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { MessageCircle, LogOut, Users, Briefcase, LayoutDashboard, Settings } from 'lucide-react'
+import { MessageCircle, LogOut, Users, Briefcase, LayoutDashboard, Settings, FileText, Binoculars } from 'lucide-react'
 import { Avatar, NotificationBadge } from '@/components'
+import NotificationBell from './NotificationBell'
 import { useAuthStore } from '@/lib/auth'
 import { useUnreadMessages } from '@/hooks/useUnreadMessages'
 import { useToastStore } from '@/lib/toast'
@@ -151,6 +152,8 @@ export default function Header() {
                     <span>Dashboard</span>
                   </div>
                 </button>
+
+                <NotificationBell />
                 
                 {/* Avatar Dropdown */}
                 <div className="relative" ref={dropdownRef}>
@@ -175,6 +178,32 @@ export default function Header() {
                       role="menu"
                       aria-orientation="vertical"
                     >
+                      {(profile.role === 'player' || profile.role === 'coach') && (
+                        <button
+                          onClick={() => {
+                            setDropdownOpen(false)
+                            navigate('/applications')
+                          }}
+                          className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 transition-colors flex items-center gap-2"
+                          role="menuitem"
+                        >
+                          <FileText className="w-4 h-4" />
+                          My Applications
+                        </button>
+                      )}
+                      {profile.role === 'club' && (
+                        <button
+                          onClick={() => {
+                            setDropdownOpen(false)
+                            navigate('/scout')
+                          }}
+                          className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 transition-colors flex items-center gap-2"
+                          role="menuitem"
+                        >
+                          <Binoculars className="w-4 h-4" />
+                          Scout Players
+                        </button>
+                      )}
                       <button
                         onClick={() => {
                           setDropdownOpen(false)
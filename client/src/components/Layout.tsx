@@ -2,6 +2,8 @@ import type { ReactNode } from 'react'
 import { useLocation } from 'react-router-dom'
 import Footer from './Footer'
 import MobileBottomNav from './MobileBottomNav'
+import { usePresence } from '@/hooks/usePresence'
+import { useMessageOutbox } from '@/hooks/useMessageOutbox'
 
 interface LayoutProps {
   children: ReactNode
@@ -12,6 +14,8 @@ const HIDDEN_FOOTER_PREFIXES = ['/messages', '/onboarding', '/auth', '/dashboard
 
 export default function Layout({ children, className = '' }: LayoutProps) {
   const location = useLocation()
+  usePresence()
+  useMessageOutbox()
   const shouldHideFooter = HIDDEN_FOOTER_PREFIXES.some(prefix =>
     location.pathname.startsWith(prefix)
   )
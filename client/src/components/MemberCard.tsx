@@ -5,6 +5,7 @@ import { Avatar } from '@/components'
 import { useAuthStore } from '@/lib/auth'
 import { supabase } from '@/lib/supabase'
 import { useToastStore } from '@/lib/toast'
+import { AVAILABILITY_OPTIONS } from '@/lib/community'
 import { formatDistanceToNow } from 'date-fns'
 
 interface MemberCardProps {
@@ -17,6 +18,7 @@ interface MemberCardProps {
   position: string | null
   secondary_position: string | null
   current_team: string | null
+  availability?: string | null
   created_at: string
 }
 
@@ -30,6 +32,7 @@ export default function MemberCard({
   position,
   secondary_position,
   current_team,
+  availability,
   created_at,
 }: MemberCardProps) {
   const navigate = useNavigate()
@@ -99,6 +102,9 @@ export default function MemberCard({
     }
   }
 
+  const availabilityLabel =
+    role !== 'club' ? AVAILABILITY_OPTIONS.find(option => option.value === availability)?.label : undefined
+
   // Format join date
   const joinedText = formatDistanceToNow(new Date(created_at), { addSuffix: true })
 
@@ -127,6 +133,15 @@ export default function MemberCard({
           >
             {role}
           </span>
+          {availabilityLabel && (
+            <span
+              className={`ml-1.5 inline-block px-2 py-1 rounded-full text-xs font-medium ${
+                availability === 'not_available' ? 'bg-gray-100 text-gray-600' : 'bg-emerald-100 text-emerald-700'
+              }`}
+            >
+              {availabilityLabel}
+            </span>
+          )}
         </div>
       </div>
 
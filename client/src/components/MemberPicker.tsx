@@ -0,0 +1,139 @@
+import { useEffect, useState } from 'react'
+import { Search, X } from 'lucide-react'
+import { logger } from '@/lib/logger'
+import { searchMemberProfiles, type MemberProfile } from '@/lib/conversationMembers'
+import Avatar from './Avatar'
+
+interface MemberPickerProps {
+  selected: MemberProfile[]
+  onChange: (selected: MemberProfile[]) => void
+  /** Profiles that can't be picked, e.g. the current user or existing members */
+  excludeIds: string[]
+  maxSelected: number
+  disabled?: boolean
+}
+
+const getAvatarUrl = (avatarUrl: string | null) => {
+  if (!avatarUrl) return null
+  if (avatarUrl.startsWith('http')) return avatarUrl
+  return `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/object/public/avatars/${avatarUrl}`
+}
+
+/**
+ * Name search with selected chips, used to pick members for group chats.
+ */
+export default function MemberPicker({ selected, onChange, excludeIds, maxSelected, disabled = false }: MemberPickerProps) {
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<MemberProfile[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+
+  const excludeKey = [...excludeIds, ...selected.map(profile => profile.id)].join(',')
+
+  useEffect(() => {
+    if (query.trim().length < 2) {
+      setResults([])
+      return
+    }
+
+    let cancelled = false
+    const timeout = setTimeout(async () => {
+      setIsSearching(true)
+      try {
+        const profiles = await searchMemberProfiles(query, excludeKey ? excludeKey.split(',') : [])
+        if (!cancelled) setResults(profiles)
+      } catch (error) {
+        logger.error('Error searching members:', error)
+        if (!cancelled) setResults([])
+      } finally {
+        if (!cancelled) setIsSearching(false)
+      }
+    }, 250)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [excludeKey, query])
+
+  const limitReached = selected.length >= maxSelected
+
+  const handleSelect = (profile: MemberProfile) => {
+    if (limitReached) return
+    onChange([...selected, profile])
+    setQuery('')
+    setResults([])
+  }
+
+  return (
+    <div className="space-y-3">
+      {selected.length > 0 && (
+        <ul className="flex flex-wrap gap-2" aria-label="Selected members">
+          {selected.map(profile => (
+            <li
+              key={profile.id}
+              className="inline-flex items-center gap-1.5 rounded-full bg-purple-50 py-1 pl-3 pr-1.5 text-sm font-medium text-purple-700"
+            >
+              {profile.full_name}
+              <button
+                type="button"
+                onClick={() => onChange(selected.filter(item => item.id !== profile.id))}
+                disabled={disabled}
+                className="rounded-full p-0.5 hover:bg-purple-100 disabled:opacity-50"
+                aria-label={`Remove ${profile.full_name}`}
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+        <input
+          type="search"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          disabled={disabled || limitReached}
+          placeholder={limitReached ? 'Member limit reached' : 'Search people by name...'}
+          aria-label="Search people to add"
+          className="w-full rounded-lg border border-gray-200 bg-gray-50 py-2 pl-10 pr-4 focus:border-transparent focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-60"
+        />
+      </div>
+
+      {query.trim().length >= 2 && (
+        <div className="max-h-56 overflow-y-auto rounded-lg border border-gray-200">
+          {isSearching && results.length === 0 ? (
+            <p className="p-3 text-sm text-gray-500">Searching...</p>
+          ) : results.length === 0 ? (
+            <p className="p-3 text-sm text-gray-500">No people found</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {results.map(profile => (
+                <li key={profile.id}>
+                  <button
+                    type="button"
+                    onClick={() => handleSelect(profile)}
+                    disabled={disabled || limitReached}
+                    className="flex w-full items-center gap-3 px-3 py-2 text-left transition-colors hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    <Avatar
+                      src={getAvatarUrl(profile.avatar_url)}
+                      alt={profile.full_name}
+                      initials={profile.full_name.charAt(0).toUpperCase()}
+                      size="sm"
+                    />
+                    <span className="min-w-0 flex-1">
+                      <span className="block truncate text-sm font-medium text-gray-900">{profile.full_name}</span>
+                      <span className="block text-xs capitalize text-gray-500">{profile.role}</span>
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
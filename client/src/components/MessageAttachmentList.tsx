@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react'
+import { Download, FileText, Film } from 'lucide-react'
+import { logger } from '@/lib/logger'
+import { useToastStore } from '@/lib/toast'
+import {
+  formatFileSize,
+  getAttachmentDownloadUrl,
+  getAttachmentUrls,
+  isImageAttachment,
+  isVideoAttachment,
+  type MessageAttachment,
+} from '@/lib/messageAttachments'
+
+interface MessageAttachmentListProps {
+  attachments: MessageAttachment[]
+  isMine: boolean
+}
+
+/**
+ * Inline previews for message attachments: image thumbnails that open the
+ * full image, playable videos and download cards for documents.
+ */
+export default function MessageAttachmentList({ attachments, isMine }: MessageAttachmentListProps) {
+  const { addToast } = useToastStore()
+  const [urls, setUrls] = useState<Record<string, string>>({})
+
+  const previewPaths = attachments.flatMap(attachment => {
+    if (isImageAttachment(attachment)) return [attachment.thumbnail_path ?? attachment.path, attachment.path]
+    if (isVideoAttachment(attachment)) return [attachment.path]
+    return []
+  })
+  const previewKey = previewPaths.join('|')
+
+  useEffect(() => {
+    if (!previewKey) return
+
+    let cancelled = false
+    getAttachmentUrls(previewKey.split('|')).then(result => {
+      if (!cancelled) setUrls(result)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [previewKey])
+
+  const handleDownload = async (attachment: MessageAttachment) => {
+    try {
+      const url = await getAttachmentDownloadUrl(attachment)
+      const link = document.createElement('a')
+      link.href = url
+      link.rel = 'noopener'
+      link.click()
+    } catch (error) {
+      logger.error('Error downloading attachment:', error)
+      addToast('Failed to download file. Please try again.', 'error')
+    }
+  }
+
+  const images = attachments.filter(isImageAttachment)
+  const others = attachments.filter(attachment => !isImageAttachment(attachment))
+
+  return (
+    <div className="mb-2 flex flex-col gap-2">
+      {images.length > 0 && (
+        <div className={`grid gap-1.5 ${images.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+          {images.map(attachment => {
+            const previewUrl = urls[attachment.thumbnail_path ?? attachment.path]
+            const fullUrl = urls[attachment.path]
+
+            return (
+              <div key={attachment.path} className="group relative overflow-hidden rounded-xl bg-black/5">
+                <a
+                  href={fullUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  aria-label={`Open ${attachment.name}`}
+                  className="block"
+                >
+                  {previewUrl ? (
+                    <img
+                      src={previewUrl}
+                      alt={attachment.name}
+                      loading="lazy"
+                      className="h-40 w-full object-cover md:h-48"
+                    />
+                  ) : (
+                    <div className="h-40 w-full animate-pulse bg-gray-200 md:h-48" />
+                  )}
+                </a>
+                <button
+                  type="button"
+                  onClick={() => handleDownload(attachment)}
+                  className="absolute right-2 top-2 rounded-full bg-black/50 p-1.5 text-white opacity-0 transition-opacity hover:bg-black/70 focus-visible:opacity-100 group-hover:opacity-100"
+                  aria-label={`Download ${attachment.name}`}
+                >
+                  <Download className="h-4 w-4" />
+                </button>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {others.map(attachment =>
+        isVideoAttachment(attachment) && urls[attachment.path] ? (
+          <div key={attachment.path} className="overflow-hidden rounded-xl bg-black">
+            <video src={urls[attachment.path]} controls preload="metadata" className="max-h-64 w-full" />
+          </div>
+        ) : (
+          <button
+            key={attachment.path}
+            type="button"
+            onClick={() => handleDownload(attachment)}
+            className={`flex items-center gap-3 rounded-xl px-3 py-2 text-left transition-colors ${
+              isMine ? 'bg-white/15 hover:bg-white/25' : 'bg-gray-100 hover:bg-gray-200'
+            }`}
+          >
+            {isVideoAttachment(attachment) ? (
+              <Film className="h-5 w-5 flex-shrink-0" />
+            ) : (
+              <FileText className="h-5 w-5 flex-shrink-0" />
+            )}
+            <span className="min-w-0 flex-1">
+              <span className="block truncate font-medium">{attachment.name}</span>
+              <span className={`block text-xs ${isMine ? 'text-purple-100' : 'text-gray-500'}`}>
+                {formatFileSize(attachment.size)}
+              </span>
+            </span>
+            <Download className="h-4 w-4 flex-shrink-0" />
+          </button>
+        )
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,186 @@
+import { useEffect, useState } from 'react'
+import { format, isThisYear, isToday } from 'date-fns'
+import { Users } from 'lucide-react'
+import { logger } from '@/lib/logger'
+import {
+  MESSAGE_SEARCH_MIN_LENGTH,
+  searchMessages,
+  splitSnippet,
+  type MessageSearchHit
+} from '@/lib/messageSearch'
+
+interface MessageSearchResultsProps {
+  query: string
+  currentUserId: string
+  selectedMessageId: string | null
+  onSelectHit: (hit: MessageSearchHit) => void
+}
+
+const getAvatarUrl = (avatarUrl: string | null) => {
+  if (!avatarUrl) return null
+  if (avatarUrl.startsWith('http')) return avatarUrl
+  return `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/object/public/avatars/${avatarUrl}`
+}
+
+const formatHitDate = (sentAt: string) => {
+  const date = new Date(sentAt)
+  if (isToday(date)) return format(date, 'h:mm a')
+  if (isThisYear(date)) return format(date, 'MMM d')
+  return format(date, 'MMM d, yyyy')
+}
+
+/**
+ * Message content matches for the Messages search box, shown under the
+ * matching conversations.
+ */
+export default function MessageSearchResults({
+  query,
+  currentUserId,
+  selectedMessageId,
+  onSelectHit
+}: MessageSearchResultsProps) {
+  const [hits, setHits] = useState<MessageSearchHit[]>([])
+  const [total, setTotal] = useState(0)
+  const [isSearching, setIsSearching] = useState(false)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const [error, setError] = useState(false)
+
+  const trimmedQuery = query.trim()
+
+  useEffect(() => {
+    if (trimmedQuery.length < MESSAGE_SEARCH_MIN_LENGTH) {
+      setHits([])
+      setTotal(0)
+      return
+    }
+
+    let cancelled = false
+    const timeout = setTimeout(async () => {
+      setIsSearching(true)
+      setError(false)
+      try {
+        const result = await searchMessages(trimmedQuery)
+        if (cancelled) return
+        setHits(result.hits)
+        setTotal(result.total)
+      } catch (searchError) {
+        logger.error('Error searching messages:', searchError)
+        if (!cancelled) {
+          setHits([])
+          setTotal(0)
+          setError(true)
+        }
+      } finally {
+        if (!cancelled) setIsSearching(false)
+      }
+    }, 300)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [trimmedQuery])
+
+  const handleLoadMore = async () => {
+    setIsLoadingMore(true)
+    try {
+      const result = await searchMessages(trimmedQuery, hits.length)
+      setHits(prev => {
+        const existingIds = new Set(prev.map(hit => hit.message_id))
+        return [...prev, ...result.hits.filter(hit => !existingIds.has(hit.message_id))]
+      })
+      setTotal(result.total)
+    } catch (searchError) {
+      logger.error('Error loading more message results:', searchError)
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }
+
+  if (trimmedQuery.length < MESSAGE_SEARCH_MIN_LENGTH) {
+    return null
+  }
+
+  return (
+    <section aria-label="Messages matching your search" className="border-t border-gray-100">
+      <h2 className="px-4 pb-2 pt-4 text-xs font-semibold uppercase tracking-wide text-gray-500">
+        Messages{total > 0 && ` · ${total}`}
+      </h2>
+
+      {isSearching && hits.length === 0 ? (
+        <p className="px-4 pb-4 text-sm text-gray-500">Searching messages...</p>
+      ) : error ? (
+        <p className="px-4 pb-4 text-sm text-red-600">Message search failed. Please try again.</p>
+      ) : hits.length === 0 ? (
+        <p className="px-4 pb-4 text-sm text-gray-500">No messages match "{trimmedQuery}"</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {hits.map(hit => {
+            const avatarUrl = getAvatarUrl(hit.other_participant_avatar)
+            const name = hit.is_group ? hit.conversation_title : hit.other_participant_name
+            const senderLabel = hit.sender_id === currentUserId
+              ? 'You'
+              : hit.is_group
+                ? hit.sender_name?.split(' ')[0]
+                : null
+
+            return (
+              <li key={hit.message_id}>
+                <button
+                  type="button"
+                  onClick={() => onSelectHit(hit)}
+                  className={`flex w-full items-start gap-3 px-4 py-3 text-left transition-colors ${
+                    hit.message_id === selectedMessageId ? 'bg-purple-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  {hit.is_group ? (
+                    <div className="flex h-10 w-10 flex-shrink-0 items-center justify-center rounded-full bg-gradient-to-br from-[#6366f1] to-[#8b5cf6] text-white">
+                      <Users className="h-5 w-5" aria-hidden="true" />
+                    </div>
+                  ) : avatarUrl ? (
+                    <img src={avatarUrl} alt="" className="h-10 w-10 flex-shrink-0 rounded-full object-cover" />
+                  ) : (
+                    <div className="flex h-10 w-10 flex-shrink-0 items-center justify-center rounded-full bg-gradient-to-br from-purple-400 to-purple-600 font-semibold text-white">
+                      {name?.charAt(0).toUpperCase()}
+                    </div>
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <div className="mb-0.5 flex items-center justify-between gap-2">
+                      <p className="truncate text-sm font-semibold text-gray-900">{name}</p>
+                      <span className="flex-shrink-0 text-xs text-gray-500">{formatHitDate(hit.sent_at)}</span>
+                    </div>
+                    <p className="line-clamp-2 text-sm text-gray-600">
+                      {senderLabel && <span className="text-gray-500">{senderLabel}: </span>}
+                      {splitSnippet(hit.snippet).map((part, index) =>
+                        part.highlighted ? (
+                          <mark key={index} className="rounded bg-yellow-100 px-0.5 text-gray-900">
+                            {part.text}
+                          </mark>
+                        ) : (
+                          <span key={index}>{part.text}</span>
+                        )
+                      )}
+                    </p>
+                  </div>
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      {hits.length > 0 && hits.length < total && (
+        <div className="px-4 py-3">
+          <button
+            type="button"
+            onClick={handleLoadMore}
+            disabled={isLoadingMore}
+            className="w-full rounded-lg border border-gray-200 px-4 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50 disabled:opacity-50"
+          >
+            {isLoadingMore ? 'Loading...' : 'Show more messages'}
+          </button>
+        </div>
+      )}
+    </section>
+  )
+}
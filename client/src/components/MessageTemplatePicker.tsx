@@ -0,0 +1,148 @@
+import { useEffect, useRef, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Loader2, MessageSquareText } from 'lucide-react'
+import type { MessageTemplate } from '@/lib/supabase'
+import { logger } from '@/lib/logger'
+import {
+  fetchLatestApplicationVacancyTitle,
+  fetchMessageTemplates,
+  fillTemplate,
+  type TemplateValues,
+} from '@/lib/messageTemplates'
+
+interface MessageTemplatePickerProps {
+  currentUserId: string
+  clubName: string | null
+  // The other member of a direct chat; variables about them stay unfilled in groups
+  recipient: { id: string; full_name: string | null; role: string | null } | null
+  disabled?: boolean
+  onInsert: (text: string) => void
+}
+
+/**
+ * Composer button listing the user's saved replies (managed in Settings).
+ * Picking one fills in its variables from the conversation.
+ */
+export default function MessageTemplatePicker({
+  currentUserId,
+  clubName,
+  recipient,
+  disabled,
+  onInsert
+}: MessageTemplatePickerProps) {
+  const [menuOpen, setMenuOpen] = useState(false)
+  // null until first opened
+  const [templates, setTemplates] = useState<MessageTemplate[] | null>(null)
+  const [vacancyTitle, setVacancyTitle] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+  const recipientId = recipient?.id ?? null
+  const recipientIsPlayer = recipient?.role === 'player'
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setMenuOpen(false)
+      }
+    }
+
+    if (menuOpen) {
+      document.addEventListener('mousedown', handleClickOutside)
+      return () => document.removeEventListener('mousedown', handleClickOutside)
+    }
+  }, [menuOpen])
+
+  useEffect(() => {
+    setVacancyTitle(null)
+    if (!menuOpen || !recipientId || !recipientIsPlayer) return
+
+    let cancelled = false
+    fetchLatestApplicationVacancyTitle(currentUserId, recipientId)
+      .then(title => {
+        if (!cancelled) setVacancyTitle(title)
+      })
+      .catch(error => logger.error('Error fetching vacancy for template:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [currentUserId, menuOpen, recipientId, recipientIsPlayer])
+
+  const handleToggle = async () => {
+    const opening = !menuOpen
+    setMenuOpen(opening)
+    if (!opening || templates !== null) return
+
+    setIsLoading(true)
+    try {
+      setTemplates(await fetchMessageTemplates(currentUserId))
+    } catch (error) {
+      logger.error('Error fetching message templates:', error)
+      setTemplates([])
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleSelect = (template: MessageTemplate) => {
+    const values: TemplateValues = {
+      first_name: recipient?.full_name?.trim().split(/\s+/)[0] ?? null,
+      vacancy_title: vacancyTitle,
+      club_name: clubName
+    }
+    onInsert(fillTemplate(template.content, values))
+    setMenuOpen(false)
+  }
+
+  return (
+    <div className="relative flex-shrink-0" ref={menuRef}>
+      <button
+        type="button"
+        onClick={handleToggle}
+        disabled={disabled}
+        className="flex h-12 w-12 items-center justify-center rounded-xl text-gray-500 transition-colors hover:bg-gray-100 hover:text-gray-700 disabled:cursor-not-allowed disabled:opacity-50"
+        aria-label="Insert template"
+        aria-haspopup="menu"
+        aria-expanded={menuOpen}
+      >
+        <MessageSquareText className="h-5 w-5" aria-hidden="true" />
+      </button>
+
+      {menuOpen && (
+        <div
+          role="menu"
+          className="absolute bottom-full left-0 z-20 mb-2 w-72 overflow-hidden rounded-xl border border-gray-200 bg-white py-1 shadow-lg"
+        >
+          {isLoading || templates === null ? (
+            <div className="flex items-center gap-2 px-4 py-3 text-sm text-gray-500">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading...
+            </div>
+          ) : templates.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-gray-500">
+              No templates yet.{' '}
+              <Link to="/settings" className="font-medium text-[#6366f1] hover:text-[#8b5cf6]">
+                Create one in Settings
+              </Link>
+            </p>
+          ) : (
+            <div className="max-h-72 overflow-y-auto">
+              {templates.map(template => (
+                <button
+                  key={template.id}
+                  type="button"
+                  role="menuitem"
+                  onClick={() => handleSelect(template)}
+                  className="block w-full px-4 py-2 text-left transition-colors hover:bg-gray-50"
+                >
+                  <span className="block truncate text-sm font-medium text-gray-900">{template.title}</span>
+                  <span className="block truncate text-xs text-gray-500">{template.content}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
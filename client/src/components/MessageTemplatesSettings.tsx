@@ -0,0 +1,269 @@
+import { useCallback, useEffect, useId, useRef, useState } from 'react'
+import { MessageSquareText, Pencil, Plus, Trash2 } from 'lucide-react'
+import type { MessageTemplate } from '@/lib/supabase'
+import { useAuthStore } from '@/lib/auth'
+import { useToastStore } from '@/lib/toast'
+import { logger } from '@/lib/logger'
+import {
+  MAX_MESSAGE_TEMPLATES,
+  MAX_TEMPLATE_CONTENT_LENGTH,
+  MAX_TEMPLATE_TITLE_LENGTH,
+  TEMPLATE_VARIABLES,
+  createMessageTemplate,
+  deleteMessageTemplate,
+  fetchMessageTemplates,
+  templateToken,
+  updateMessageTemplate,
+  type TemplateVariable,
+} from '@/lib/messageTemplates'
+import Modal from './Modal'
+import Input from './Input'
+import Button from './Button'
+
+/**
+ * Settings section for saved chat replies, inserted from the composer in
+ * ChatWindow.
+ */
+export default function MessageTemplatesSettings() {
+  const userId = useAuthStore(state => state.user?.id ?? null)
+  const { addToast } = useToastStore()
+  const [templates, setTemplates] = useState<MessageTemplate[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [editorOpen, setEditorOpen] = useState(false)
+  // null while creating a new template
+  const [editingTemplate, setEditingTemplate] = useState<MessageTemplate | null>(null)
+  const [title, setTitle] = useState('')
+  const [content, setContent] = useState('')
+  const [formError, setFormError] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+  const contentRef = useRef<HTMLTextAreaElement>(null)
+  const contentFieldId = useId()
+
+  const loadTemplates = useCallback(async () => {
+    if (!userId) return
+    try {
+      setTemplates(await fetchMessageTemplates(userId))
+    } catch (error) {
+      logger.error('Error fetching message templates:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [userId])
+
+  useEffect(() => {
+    void loadTemplates()
+  }, [loadTemplates])
+
+  const openEditor = (template: MessageTemplate | null) => {
+    setEditingTemplate(template)
+    setTitle(template?.title ?? '')
+    setContent(template?.content ?? '')
+    setFormError('')
+    setEditorOpen(true)
+  }
+
+  const closeEditor = useCallback(() => {
+    if (!isSaving) setEditorOpen(false)
+  }, [isSaving])
+
+  // Inserts the placeholder at the cursor rather than at the end
+  const insertVariable = (key: TemplateVariable) => {
+    const token = templateToken(key)
+    const textarea = contentRef.current
+    const start = textarea?.selectionStart ?? content.length
+    const end = textarea?.selectionEnd ?? content.length
+    const next = `${content.slice(0, start)}${token}${content.slice(end)}`
+    if (next.length > MAX_TEMPLATE_CONTENT_LENGTH) return
+
+    setContent(next)
+    requestAnimationFrame(() => {
+      textarea?.focus()
+      textarea?.setSelectionRange(start + token.length, start + token.length)
+    })
+  }
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!userId) return
+
+    if (!title.trim()) {
+      setFormError('Please give this template a name')
+      return
+    }
+    if (!content.trim()) {
+      setFormError('Template text cannot be empty')
+      return
+    }
+
+    setIsSaving(true)
+    setFormError('')
+
+    try {
+      if (editingTemplate) {
+        const updated = await updateMessageTemplate(editingTemplate.id, { title, content })
+        setTemplates(prev =>
+          prev
+            .map(item => (item.id === updated.id ? updated : item))
+            .sort((a, b) => a.title.localeCompare(b.title))
+        )
+        addToast('Template updated.', 'success')
+      } else {
+        const created = await createMessageTemplate(userId, { title, content })
+        setTemplates(prev => [...prev, created].sort((a, b) => a.title.localeCompare(b.title)))
+        addToast('Template saved.', 'success')
+      }
+      setEditorOpen(false)
+    } catch (error) {
+      logger.error('Error saving message template:', error)
+      const isDuplicate = (error as { code?: string })?.code === '23505'
+      setFormError(isDuplicate ? 'You already have a template with this name' : 'Failed to save template. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (template: MessageTemplate) => {
+    setDeletingId(template.id)
+    try {
+      await deleteMessageTemplate(template.id)
+      setTemplates(prev => prev.filter(item => item.id !== template.id))
+      addToast('Template deleted.', 'success')
+    } catch (error) {
+      logger.error('Error deleting message template:', error)
+      addToast('Failed to delete template. Please try again.', 'error')
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  const limitReached = templates.length >= MAX_MESSAGE_TEMPLATES
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="w-10 h-10 bg-emerald-50 rounded-lg flex items-center justify-center">
+          <MessageSquareText className="w-5 h-5 text-emerald-600" />
+        </div>
+        <h2 className="flex-1 text-xl font-semibold text-gray-900">Message Templates</h2>
+        <button
+          type="button"
+          onClick={() => openEditor(null)}
+          disabled={limitReached}
+          className="flex items-center gap-1 text-sm font-medium text-[#6366f1] hover:text-[#8b5cf6] disabled:cursor-not-allowed disabled:text-gray-400"
+          title={limitReached ? `You can save up to ${MAX_MESSAGE_TEMPLATES} templates` : undefined}
+        >
+          <Plus className="w-4 h-4" />
+          New template
+        </button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : templates.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Save replies you send often, like asking for a highlight video or sharing trial dates, and insert them from
+          any chat.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {templates.map(template => (
+            <li key={template.id} className="flex items-start gap-3 py-3">
+              <span className="min-w-0 flex-1">
+                <span className="block truncate text-sm font-medium text-gray-900">{template.title}</span>
+                <span className="line-clamp-2 text-sm text-gray-500">{template.content}</span>
+              </span>
+              <button
+                type="button"
+                onClick={() => openEditor(template)}
+                disabled={deletingId === template.id}
+                className="rounded p-1.5 text-gray-400 transition-colors hover:bg-gray-100 hover:text-gray-600 disabled:opacity-50"
+                aria-label={`Edit template ${template.title}`}
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(template)}
+                disabled={deletingId === template.id}
+                className="rounded p-1.5 text-gray-400 transition-colors hover:bg-red-50 hover:text-red-600 disabled:opacity-50"
+                aria-label={`Delete template ${template.title}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Modal isOpen={editorOpen} onClose={closeEditor}>
+        <form onSubmit={handleSave} className="p-6 space-y-5">
+          <div className="pr-8">
+            <h2 className="text-xl font-bold text-gray-900">{editingTemplate ? 'Edit template' : 'New template'}</h2>
+            <p className="mt-1 text-sm text-gray-600">
+              Variables are filled in from the conversation when you insert the template.
+            </p>
+          </div>
+
+          <Input
+            label="Name"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            maxLength={MAX_TEMPLATE_TITLE_LENGTH}
+            placeholder="e.g. Ask for highlight video"
+            required
+            autoFocus
+          />
+
+          <div className="space-y-2">
+            <label htmlFor={contentFieldId} className="block text-sm font-medium text-gray-700">
+              Message
+              <span className="text-red-500 ml-1">*</span>
+            </label>
+            <textarea
+              ref={contentRef}
+              id={contentFieldId}
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              rows={5}
+              maxLength={MAX_TEMPLATE_CONTENT_LENGTH}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#6366f1] focus:border-transparent resize-none"
+              placeholder="Hi {{first_name}}, thanks for applying to {{vacancy_title}}. Could you send us your highlight video?"
+            />
+            <div className="flex flex-wrap items-center gap-2">
+              {TEMPLATE_VARIABLES.map(variable => (
+                <button
+                  key={variable.key}
+                  type="button"
+                  onClick={() => insertVariable(variable.key)}
+                  className="rounded-full border border-gray-200 px-3 py-1 text-xs font-medium text-gray-700 transition-colors hover:bg-gray-100"
+                >
+                  + {variable.label}
+                </button>
+              ))}
+              <span className="ml-auto text-xs text-gray-400">
+                {content.length}/{MAX_TEMPLATE_CONTENT_LENGTH}
+              </span>
+            </div>
+          </div>
+
+          {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+          <div className="flex items-center gap-3">
+            <Button
+              type="button"
+              onClick={closeEditor}
+              disabled={isSaving}
+              className="flex-1 bg-gray-100 text-gray-700 hover:bg-gray-200"
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving} className="flex-1">
+              {isSaving ? 'Saving...' : 'Save Template'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  )
+}
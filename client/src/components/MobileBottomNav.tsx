@@ -1,8 +1,9 @@
 import { useEffect, useState, useRef } from 'react'
 import { useNavigate, useLocation } from 'react-router-dom'
-import { Users, Briefcase, MessageCircle, LayoutDashboard, Settings, LogOut } from 'lucide-react'
+import { Users, Briefcase, MessageCircle, LayoutDashboard, Settings, LogOut, FileText, Binoculars } from 'lucide-react'
 import { useAuthStore } from '@/lib/auth'
 import { Avatar, NotificationBadge } from '@/components'
+import NotificationBell from './NotificationBell'
 import { useUnreadMessages } from '@/hooks/useUnreadMessages'
 import { useToastStore } from '@/lib/toast'
 
@@ -150,7 +151,7 @@ export default function MobileBottomNav() {
               <button
                 key={item.id}
                 onClick={() => navigate(item.path)}
-                className={`flex flex-col items-center justify-center min-w-[64px] min-h-[48px] py-1 px-3 rounded-xl transition-all duration-200 ${
+                className={`flex flex-col items-center justify-center min-w-[56px] min-h-[48px] py-1 px-2 rounded-xl transition-all duration-200 ${
                   active 
                     ? 'text-[#6366f1]' 
                     : 'text-gray-600 active:bg-gray-100'
@@ -184,11 +185,13 @@ export default function MobileBottomNav() {
             )
           })}
 
+          <NotificationBell variant="bottom-nav" />
+
           {/* Profile Avatar with Menu */}
           <div className="relative" ref={profileMenuRef}>
             <button
               onClick={() => setProfileMenuOpen(!profileMenuOpen)}
-              className={`flex flex-col items-center justify-center min-w-[64px] min-h-[48px] py-1 px-3 rounded-xl transition-all duration-200 ${
+              className={`flex flex-col items-center justify-center min-w-[56px] min-h-[48px] py-1 px-2 rounded-xl transition-all duration-200 ${
                 profileMenuOpen || location.pathname === '/dashboard/profile'
                   ? 'text-[#6366f1]'
                   : 'text-gray-600 active:bg-gray-100'
@@ -229,6 +232,32 @@ export default function MobileBottomNav() {
                 role="menu"
                 aria-orientation="vertical"
               >
+                {(profile.role === 'player' || profile.role === 'coach') && (
+                  <button
+                    onClick={() => {
+                      setProfileMenuOpen(false)
+                      navigate('/applications')
+                    }}
+                    className="w-full text-left px-4 py-3 text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors flex items-center gap-3"
+                    role="menuitem"
+                  >
+                    <FileText className="w-5 h-5" />
+                    My Applications
+                  </button>
+                )}
+                {profile.role === 'club' && (
+                  <button
+                    onClick={() => {
+                      setProfileMenuOpen(false)
+                      navigate('/scout')
+                    }}
+                    className="w-full text-left px-4 py-3 text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors flex items-center gap-3"
+                    role="menuitem"
+                  >
+                    <Binoculars className="w-5 h-5" />
+                    Scout Players
+                  </button>
+                )}
                 <button
                   onClick={() => {
                     setProfileMenuOpen(false)
@@ -0,0 +1,138 @@
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { format } from 'date-fns'
+import { MapPin, Calendar, ChevronDown, XCircle } from 'lucide-react'
+import type { VacancyApplicationWithVacancy } from '@/lib/supabase'
+import { APPLICATION_STAGE_META, canWithdrawApplication } from '@/lib/applications'
+import Avatar from './Avatar'
+import ApplicationStatusTimeline from './ApplicationStatusTimeline'
+
+interface MyApplicationCardProps {
+  application: VacancyApplicationWithVacancy
+  onWithdraw: () => void
+  isWithdrawing?: boolean
+}
+
+/**
+ * An application as seen by the applicant: vacancy, club, current stage,
+ * what was sent and how it has moved through the club's pipeline.
+ */
+export default function MyApplicationCard({ application, onWithdraw, isWithdrawing = false }: MyApplicationCardProps) {
+  const navigate = useNavigate()
+  const [isExpanded, setIsExpanded] = useState(false)
+  const { vacancy } = application
+  const club = vacancy.club
+  const clubName = club?.full_name?.trim() || 'Unknown Club'
+  const clubInitials = clubName
+    .split(' ')
+    .map(n => n[0])
+    .join('')
+    .toUpperCase()
+    .slice(0, 2)
+  const stage = APPLICATION_STAGE_META[application.status]
+  const isVacancyOpen = vacancy.status === 'open'
+  const location = [vacancy.location_city, vacancy.location_country].filter(Boolean).join(', ')
+
+  const handleClubClick = () => {
+    if (!club) return
+    navigate(club.username ? `/clubs/${club.username}` : `/clubs/id/${club.id}`)
+  }
+
+  return (
+    <article className="rounded-2xl border border-gray-200 bg-white shadow-sm">
+      <div className="flex flex-col gap-4 p-5 sm:flex-row sm:items-start">
+        <button onClick={handleClubClick} className="flex-shrink-0 self-start" aria-label={`View ${clubName}`}>
+          <Avatar src={club?.avatar_url} alt={clubName} initials={clubInitials} size="md" />
+        </button>
+
+        <div className="min-w-0 flex-1">
+          <div className="flex flex-wrap items-start justify-between gap-2">
+            <div className="min-w-0">
+              {isVacancyOpen ? (
+                <button
+                  onClick={() => navigate(`/opportunities/${vacancy.id}`)}
+                  className="text-left text-lg font-semibold text-gray-900 hover:text-blue-600 transition-colors"
+                >
+                  {vacancy.title}
+                </button>
+              ) : (
+                <h2 className="text-lg font-semibold text-gray-900">{vacancy.title}</h2>
+              )}
+              <button
+                onClick={handleClubClick}
+                className="block text-sm font-medium text-gray-600 hover:text-gray-900 transition-colors"
+              >
+                {clubName}
+              </button>
+            </div>
+            <span className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-semibold ${stage.badgeClassName}`}>
+              {stage.label}
+            </span>
+          </div>
+
+          <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-500">
+            <span className="capitalize">
+              {vacancy.opportunity_type}
+              {vacancy.opportunity_type === 'player' && vacancy.position ? ` • ${vacancy.position}` : ''}
+            </span>
+            {location && (
+              <span className="flex items-center gap-1">
+                <MapPin className="h-3.5 w-3.5" />
+                {location}
+              </span>
+            )}
+            <span className="flex items-center gap-1">
+              <Calendar className="h-3.5 w-3.5" />
+              Applied {format(new Date(application.applied_at), 'MMM d, yyyy')}
+            </span>
+            {!isVacancyOpen && (
+              <span className="rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-600">
+                Vacancy closed
+              </span>
+            )}
+          </div>
+
+          <div className="mt-4 flex flex-wrap items-center gap-3">
+            <button
+              onClick={() => setIsExpanded(prev => !prev)}
+              className="inline-flex items-center gap-1 text-sm font-medium text-blue-600 hover:text-blue-700 transition-colors"
+              aria-expanded={isExpanded}
+            >
+              {isExpanded ? 'Hide details' : 'Show details'}
+              <ChevronDown className={`h-4 w-4 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+            </button>
+            {canWithdrawApplication(application.status) && (
+              <button
+                onClick={onWithdraw}
+                disabled={isWithdrawing}
+                className="inline-flex items-center gap-1 text-sm font-medium text-red-600 hover:text-red-700 transition-colors disabled:opacity-50"
+              >
+                <XCircle className="h-4 w-4" />
+                {isWithdrawing ? 'Withdrawing...' : 'Withdraw'}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {isExpanded && (
+        <div className="grid gap-6 border-t border-gray-100 p-5 md:grid-cols-2">
+          <section>
+            <h3 className="mb-2 text-sm font-semibold text-gray-900">Cover letter</h3>
+            {application.cover_letter ? (
+              <p className="whitespace-pre-wrap rounded-xl bg-gray-50 p-4 text-sm leading-relaxed text-gray-700">
+                {application.cover_letter}
+              </p>
+            ) : (
+              <p className="text-sm text-gray-500">No cover letter was included.</p>
+            )}
+          </section>
+          <section>
+            <h3 className="mb-3 text-sm font-semibold text-gray-900">Status history</h3>
+            <ApplicationStatusTimeline applicationId={application.id} currentStatus={application.status} hideActors />
+          </section>
+        </div>
+      )}
+    </article>
+  )
+}
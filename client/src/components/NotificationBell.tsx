@@ -0,0 +1,193 @@
+import { useEffect, useRef, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { formatDistanceToNow } from 'date-fns'
+import { Bell, Bookmark, CalendarX, Clock, Eye, FileText, Inbox, Loader2, MessageCircle, Settings, X } from 'lucide-react'
+import type { AppNotification, NotificationType } from '@/lib/supabase'
+import { useNotifications } from '@/hooks/useNotifications'
+import NotificationBadge from './NotificationBadge'
+
+interface NotificationBellProps {
+  /** Header opens the panel below the bell; the bottom nav opens it above */
+  variant?: 'header' | 'bottom-nav'
+}
+
+const TYPE_ICONS: Record<NotificationType, React.ComponentType<{ className?: string }>> = {
+  application_received: Inbox,
+  application_status_changed: FileText,
+  vacancy_closing_soon: Clock,
+  vacancy_closed: CalendarX,
+  new_message: MessageCircle,
+  profile_viewed: Eye,
+  saved_search_match: Bookmark,
+}
+
+const messageCount = (notification: AppNotification) => {
+  const data = notification.data
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return 1
+  return typeof data.message_count === 'number' ? data.message_count : 1
+}
+
+export default function NotificationBell({ variant = 'header' }: NotificationBellProps) {
+  const navigate = useNavigate()
+  const { items, unreadCount, loading, markRead, markAllRead, remove } = useNotifications()
+  const [open, setOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Close panel when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false)
+      }
+    }
+
+    if (open) {
+      document.addEventListener('mousedown', handleClickOutside)
+      return () => document.removeEventListener('mousedown', handleClickOutside)
+    }
+  }, [open])
+
+  const handleSelect = (notification: AppNotification) => {
+    void markRead(notification.id)
+    setOpen(false)
+    if (notification.link) {
+      navigate(notification.link)
+    }
+  }
+
+  const isBottomNav = variant === 'bottom-nav'
+
+  return (
+    <div className="relative" ref={containerRef}>
+      {isBottomNav ? (
+        <button
+          onClick={() => setOpen(!open)}
+          className={`flex flex-col items-center justify-center min-w-[56px] min-h-[48px] py-1 px-2 rounded-xl transition-all duration-200 ${
+            open ? 'text-[#6366f1]' : 'text-gray-600 active:bg-gray-100'
+          }`}
+          aria-label="Notifications"
+          aria-haspopup="true"
+          aria-expanded={open}
+        >
+          <div className={`relative flex items-center justify-center w-7 h-7 mb-0.5 transition-transform duration-200 ${
+            open ? 'scale-110' : 'scale-100'
+          }`}>
+            <Bell className={`w-6 h-6 transition-all duration-200 ${open ? 'stroke-[2.5]' : 'stroke-[2]'}`} />
+            <NotificationBadge count={unreadCount} />
+          </div>
+          <span className={`text-[10px] font-medium transition-all duration-200 ${open ? 'opacity-100' : 'opacity-0'}`}>
+            Alerts
+          </span>
+        </button>
+      ) : (
+        <button
+          onClick={() => setOpen(!open)}
+          className="relative text-gray-700 hover:text-gray-900 transition-colors"
+          aria-label="Notifications"
+          aria-haspopup="true"
+          aria-expanded={open}
+        >
+          <Bell className="w-5 h-5" />
+          <NotificationBadge count={unreadCount} />
+        </button>
+      )}
+
+      {open && (
+        <div
+          className={
+            isBottomNav
+              ? 'fixed left-2 right-2 bottom-24 max-h-[70vh] bg-white rounded-xl shadow-2xl border border-gray-200/50 z-50 flex flex-col animate-slide-in-up'
+              : 'absolute right-0 mt-3 w-96 max-h-[32rem] bg-white rounded-lg shadow-lg border border-gray-200 z-50 flex flex-col'
+          }
+          role="dialog"
+          aria-label="Notifications"
+        >
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+            <h2 className="text-sm font-semibold text-gray-900">Notifications</h2>
+            <div className="flex items-center gap-3">
+              {unreadCount > 0 && (
+                <button
+                  onClick={() => void markAllRead()}
+                  className="text-xs font-medium text-[#6366f1] hover:text-[#8b5cf6] transition-colors"
+                >
+                  Mark all read
+                </button>
+              )}
+              <button
+                onClick={() => {
+                  setOpen(false)
+                  navigate('/settings')
+                }}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+                aria-label="Notification settings"
+                title="Notification settings"
+              >
+                <Settings className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          <div className="overflow-y-auto">
+            {loading && items.length === 0 ? (
+              <div className="flex items-center justify-center gap-2 py-8 text-sm text-gray-500">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Loading...
+              </div>
+            ) : items.length === 0 ? (
+              <div className="py-10 px-6 text-center">
+                <Bell className="w-8 h-8 text-gray-300 mx-auto mb-2" />
+                <p className="text-sm text-gray-500">You're all caught up.</p>
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {items.map(notification => {
+                  const Icon = TYPE_ICONS[notification.type]
+                  const isUnread = !notification.read_at
+                  const count = notification.type === 'new_message' ? messageCount(notification) : 1
+
+                  return (
+                    <li
+                      key={notification.id}
+                      className={`group flex items-start gap-3 px-4 py-3 transition-colors ${
+                        isUnread ? 'bg-indigo-50/60 hover:bg-indigo-50' : 'hover:bg-gray-50'
+                      }`}
+                    >
+                      <div className={`mt-0.5 flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full ${
+                        isUnread ? 'bg-[#6366f1]/10 text-[#6366f1]' : 'bg-gray-100 text-gray-500'
+                      }`}>
+                        <Icon className="w-4 h-4" />
+                      </div>
+                      <button
+                        onClick={() => handleSelect(notification)}
+                        className="min-w-0 flex-1 text-left"
+                      >
+                        <span className={`block text-sm ${isUnread ? 'font-semibold text-gray-900' : 'text-gray-700'}`}>
+                          {notification.title}
+                          {count > 1 && <span className="font-normal text-gray-500"> ({count})</span>}
+                        </span>
+                        {notification.body && (
+                          <span className="block truncate text-sm text-gray-500">{notification.body}</span>
+                        )}
+                        <span className="block mt-0.5 text-xs text-gray-400">
+                          {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                        </span>
+                      </button>
+                      {isUnread && <span className="mt-2 h-2 w-2 flex-shrink-0 rounded-full bg-[#6366f1]" aria-label="Unread" />}
+                      <button
+                        onClick={() => void remove(notification.id)}
+                        className="p-1 rounded text-gray-300 hover:text-gray-600 hover:bg-gray-100 transition-colors md:opacity-0 md:group-hover:opacity-100"
+                        aria-label="Dismiss notification"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
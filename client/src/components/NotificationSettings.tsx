@@ -0,0 +1,194 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Bell, Loader2 } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import type { NotificationType } from '@/lib/supabase'
+import { useAuthStore } from '@/lib/auth'
+import { useToastStore } from '@/lib/toast'
+import { logger } from '@/lib/logger'
+import Toggle from './Toggle'
+import {
+  EMAIL_NOTIFICATION_TYPES,
+  MESSAGE_DIGEST_OPTIONS,
+  NOTIFICATION_TYPES,
+  NOTIFICATION_TYPE_META,
+  type MessageDigestInterval,
+} from '@/lib/notifications'
+
+interface Preferences {
+  muted_types: NotificationType[]
+  email_muted_types: NotificationType[]
+  message_digest_interval: MessageDigestInterval
+}
+
+const DEFAULT_PREFERENCES: Preferences = {
+  muted_types: [],
+  email_muted_types: [],
+  message_digest_interval: 'hourly',
+}
+
+const toggleIn = (list: NotificationType[], type: NotificationType) =>
+  list.includes(type) ? list.filter(item => item !== type) : [...list, type]
+
+/**
+ * Settings section for muting notifications per type, in-app and by email.
+ * In-app mutes are honoured by create_notification, email mutes by the
+ * enqueue_email trigger helper and the send-email-notifications function.
+ */
+export default function NotificationSettings() {
+  const { user, profile } = useAuthStore()
+  const { addToast } = useToastStore()
+  const [preferences, setPreferences] = useState<Preferences>(DEFAULT_PREFERENCES)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const fetchPreferences = useCallback(async () => {
+    if (!user) return
+
+    try {
+      const { data, error } = await supabase
+        .from('notification_preferences')
+        .select('muted_types, email_muted_types, message_digest_interval')
+        .eq('user_id', user.id)
+        .maybeSingle()
+
+      if (error) throw error
+      if (data) {
+        setPreferences({
+          muted_types: data.muted_types,
+          email_muted_types: data.email_muted_types,
+          message_digest_interval: data.message_digest_interval === 'daily' ? 'daily' : 'hourly',
+        })
+      }
+    } catch (error) {
+      logger.error('Error fetching notification preferences:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    fetchPreferences()
+  }, [fetchPreferences])
+
+  const savePreferences = async (next: Preferences) => {
+    if (!user) return
+
+    const previous = preferences
+    setPreferences(next)
+    setIsSaving(true)
+
+    try {
+      const { error } = await supabase
+        .from('notification_preferences')
+        .upsert({ user_id: user.id, ...next }, { onConflict: 'user_id' })
+
+      if (error) throw error
+    } catch (error) {
+      logger.error('Error updating notification preferences:', error)
+      setPreferences(previous)
+      addToast('Failed to update notification settings. Please try again.', 'error')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // Only clubs receive applications
+  const visibleTypes = NOTIFICATION_TYPES.filter(
+    type => type !== 'application_received' || profile?.role === 'club'
+  )
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="w-10 h-10 bg-amber-50 rounded-lg flex items-center justify-center">
+          <Bell className="w-5 h-5 text-amber-600" />
+        </div>
+        <h2 className="text-xl font-semibold text-gray-900">Notifications</h2>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">Choose what you hear about, in the app and by email.</p>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading...
+        </div>
+      ) : (
+        <>
+          <div className="flex justify-end gap-6 pb-2 text-xs font-medium uppercase tracking-wide text-gray-500">
+            <span className="w-11 text-center">In-app</span>
+            <span className="w-11 text-center">Email</span>
+          </div>
+          <ul className="divide-y divide-gray-100">
+            {visibleTypes.map(type => {
+              const meta = NOTIFICATION_TYPE_META[type]
+              const hasEmail = EMAIL_NOTIFICATION_TYPES.includes(type)
+
+              return (
+                <li key={type} className="flex items-center justify-between gap-4 py-3">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{meta.label}</p>
+                    <p className="text-sm text-gray-500">{meta.description}</p>
+                  </div>
+                  <div className="flex items-center gap-6">
+                    <Toggle
+                      enabled={!preferences.muted_types.includes(type)}
+                      disabled={isSaving}
+                      label={`${meta.label} in-app notifications`}
+                      onToggle={() =>
+                        savePreferences({ ...preferences, muted_types: toggleIn(preferences.muted_types, type) })
+                      }
+                    />
+                    {hasEmail ? (
+                      <Toggle
+                        enabled={!preferences.email_muted_types.includes(type)}
+                        disabled={isSaving}
+                        label={`${meta.label} emails`}
+                        onToggle={() =>
+                          savePreferences({
+                            ...preferences,
+                            email_muted_types: toggleIn(preferences.email_muted_types, type),
+                          })
+                        }
+                      />
+                    ) : (
+                      <span className="w-11 text-center text-sm text-gray-300" aria-hidden="true">—</span>
+                    )}
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+
+          {!preferences.email_muted_types.includes('new_message') && (
+            <div className="mt-4 flex flex-col gap-2 rounded-lg bg-gray-50 p-4 sm:flex-row sm:items-center sm:justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-900">Message emails</p>
+                <p className="text-sm text-gray-500">New messages are collected into one email. Messages you've read are left out.</p>
+              </div>
+              <select
+                value={preferences.message_digest_interval}
+                onChange={(e) =>
+                  savePreferences({
+                    ...preferences,
+                    message_digest_interval: e.target.value as MessageDigestInterval,
+                  })
+                }
+                disabled={isSaving}
+                className="px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#6366f1] disabled:opacity-50"
+              >
+                {MESSAGE_DIGEST_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <p className="mt-4 text-xs text-gray-500">
+            Saved search emails also need the email digest turned on for each saved search.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,55 @@
+import { useState } from 'react'
+import { Eye } from 'lucide-react'
+import { usePresenceStore } from '@/lib/presence'
+import { useToastStore } from '@/lib/toast'
+import { logger } from '@/lib/logger'
+import Toggle from './Toggle'
+
+/**
+ * Settings section for chat activity status. Hiding it stops the member
+ * appearing online, showing a last seen time or sending typing indicators.
+ */
+export default function PrivacySettings() {
+  const hidden = usePresenceStore(state => state.hidden)
+  const setHidden = usePresenceStore(state => state.setHidden)
+  const { addToast } = useToastStore()
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleToggle = async () => {
+    setIsSaving(true)
+    try {
+      await setHidden(!hidden)
+    } catch (error) {
+      logger.error('Error updating presence settings:', error)
+      addToast('Failed to update privacy settings. Please try again.', 'error')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="w-10 h-10 bg-emerald-50 rounded-lg flex items-center justify-center">
+          <Eye className="w-5 h-5 text-emerald-600" />
+        </div>
+        <h2 className="text-xl font-semibold text-gray-900">Privacy</h2>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="text-sm font-medium text-gray-900">Show activity status</p>
+          <p className="text-sm text-gray-500">
+            Let the people you message see when you're online, when you were last active and when you're typing.
+          </p>
+        </div>
+        <Toggle
+          enabled={!hidden}
+          disabled={isSaving}
+          label="Show activity status"
+          onToggle={handleToggle}
+        />
+      </div>
+    </div>
+  )
+}
@@ -1,23 +1,37 @@
-import { useEffect, useRef, useCallback } from 'react'
+import { useEffect, useRef, useCallback, useId, useState } from 'react'
 import { X, CheckCircle, AlertCircle } from 'lucide-react'
+import { format } from 'date-fns'
 import Button from './Button'
 import { useFocusTrap } from '@/hooks/useFocusTrap'
 
 interface PublishConfirmationModalProps {
   isOpen: boolean
   onClose: () => void
-  onConfirm: () => void
+  /** Called with the scheduled publish time (ISO), or null to publish now */
+  onConfirm: (scheduledPublishAt: string | null) => void
   vacancyTitle: string
+  /** Existing schedule of the draft, if any */
+  scheduledPublishAt?: string | null
   isLoading?: boolean
 }
 
+// datetime-local inputs work in local time without seconds
+const toLocalInputValue = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm")
+
 export default function PublishConfirmationModal({
   isOpen,
   onClose,
   onConfirm,
   vacancyTitle,
+  scheduledPublishAt = null,
   isLoading = false,
 }: PublishConfirmationModalProps) {
+  const [mode, setMode] = useState<'now' | 'schedule'>(scheduledPublishAt ? 'schedule' : 'now')
+  const [scheduleValue, setScheduleValue] = useState(
+    scheduledPublishAt ? toLocalInputValue(new Date(scheduledPublishAt)) : ''
+  )
+  const [scheduleError, setScheduleError] = useState('')
+  const scheduleInputId = useId()
   const dialogRef = useRef<HTMLDivElement>(null)
   const confirmButtonRef = useRef<HTMLButtonElement | null>(null)
   const closeButtonRef = useRef<HTMLButtonElement | null>(null)
@@ -33,8 +47,25 @@ export default function PublishConfirmationModal({
     if (isLoading) {
       return
     }
-    onConfirm()
-  }, [isLoading, onConfirm])
+
+    if (mode === 'now') {
+      onConfirm(null)
+      return
+    }
+
+    const scheduledAt = scheduleValue ? new Date(scheduleValue) : null
+    if (!scheduledAt || Number.isNaN(scheduledAt.getTime())) {
+      setScheduleError('Choose when to publish')
+      return
+    }
+    if (scheduledAt.getTime() <= Date.now()) {
+      setScheduleError('Choose a time in the future')
+      return
+    }
+
+    setScheduleError('')
+    onConfirm(scheduledAt.toISOString())
+  }, [isLoading, mode, onConfirm, scheduleValue])
 
   useFocusTrap({ containerRef: dialogRef, isActive: isOpen, initialFocusRef: confirmButtonRef })
 
@@ -106,17 +137,76 @@ export default function PublishConfirmationModal({
                 </h3>
                 <ul className="text-sm text-amber-800 space-y-1">
                   <li>• This opportunity will be visible to all players globally</li>
-                  <li>• Players will be able to apply immediately</li>
+                  <li>
+                    {mode === 'schedule'
+                      ? '• Players will be able to apply from the scheduled time'
+                      : '• Players will be able to apply immediately'}
+                  </li>
                   <li>• You can edit or close it anytime after publishing</li>
+                  <li>• It closes automatically once its application deadline has passed</li>
                 </ul>
               </div>
             </div>
           </div>
 
-          <div className="bg-gray-50 rounded-lg p-4">
+          <div className="bg-gray-50 rounded-lg p-4 mb-4">
             <p className="text-sm text-gray-600 mb-1">Publishing opportunity:</p>
             <p className="font-semibold text-gray-900">{vacancyTitle}</p>
           </div>
+
+          <fieldset className="space-y-2">
+            <legend className="sr-only">When to publish</legend>
+            <label className="flex items-center gap-3 cursor-pointer">
+              <input
+                type="radio"
+                name="publish-mode"
+                checked={mode === 'now'}
+                onChange={() => {
+                  setMode('now')
+                  setScheduleError('')
+                }}
+                disabled={isLoading}
+                className="w-4 h-4 text-green-600"
+              />
+              <span className="text-sm font-medium text-gray-900">Publish now</span>
+            </label>
+            <label className="flex items-center gap-3 cursor-pointer">
+              <input
+                type="radio"
+                name="publish-mode"
+                checked={mode === 'schedule'}
+                onChange={() => setMode('schedule')}
+                disabled={isLoading}
+                className="w-4 h-4 text-green-600"
+              />
+              <span className="text-sm font-medium text-gray-900">Schedule for later</span>
+            </label>
+            {mode === 'schedule' && (
+              <div className="pl-7 space-y-1">
+                <label htmlFor={scheduleInputId} className="sr-only">
+                  Publish at
+                </label>
+                <input
+                  id={scheduleInputId}
+                  type="datetime-local"
+                  value={scheduleValue}
+                  min={toLocalInputValue(new Date())}
+                  onChange={(e) => {
+                    setScheduleValue(e.target.value)
+                    setScheduleError('')
+                  }}
+                  disabled={isLoading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  aria-invalid={scheduleError ? 'true' : undefined}
+                />
+                {scheduleError ? (
+                  <p className="text-xs text-red-600">{scheduleError}</p>
+                ) : (
+                  <p className="text-xs text-gray-500">Published within 15 minutes of this time. It stays a draft until then.</p>
+                )}
+              </div>
+            )}
+          </fieldset>
         </div>
 
         {/* Actions */}
@@ -137,8 +227,10 @@ export default function PublishConfirmationModal({
             {isLoading ? (
               <span className="flex items-center justify-center gap-2">
                 <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                Publishing...
+                {mode === 'schedule' ? 'Scheduling...' : 'Publishing...'}
               </span>
+            ) : mode === 'schedule' ? (
+              'Schedule'
             ) : (
               'Publish Now'
             )}
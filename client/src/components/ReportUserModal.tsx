@@ -0,0 +1,232 @@
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { logger } from '@/lib/logger'
+import { useToastStore } from '@/lib/toast'
+import {
+  MAX_REPORT_DETAILS_LENGTH,
+  MAX_REPORT_EXCERPTS,
+  REPORT_REASONS,
+  blockUser,
+  reportUser,
+  type ReportReason
+} from '@/lib/moderation'
+import Modal from './Modal'
+import Button from './Button'
+
+export interface ReportableMessage {
+  id: string
+  content: string
+  sent_at: string
+}
+
+interface ReportUserModalProps {
+  isOpen: boolean
+  currentUserId: string
+  reportedUser: { id: string; full_name: string | null }
+  /** Set when reporting from a chat, so excerpts can be attached */
+  conversationId?: string | null
+  /** Recent messages from the reported user to pick excerpts from */
+  messages?: ReportableMessage[]
+  onClose: () => void
+  onBlocked?: () => void
+}
+
+/**
+ * Report a member to the moderation team, optionally quoting their messages
+ * and blocking them in the same step.
+ */
+export default function ReportUserModal({
+  isOpen,
+  currentUserId,
+  reportedUser,
+  conversationId = null,
+  messages = [],
+  onClose,
+  onBlocked
+}: ReportUserModalProps) {
+  const { addToast } = useToastStore()
+  const [reason, setReason] = useState<ReportReason | null>(null)
+  const [details, setDetails] = useState('')
+  const [selectedMessageIds, setSelectedMessageIds] = useState<string[]>([])
+  const [alsoBlock, setAlsoBlock] = useState(false)
+  const [error, setError] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const name = reportedUser.full_name || 'this member'
+
+  const handleClose = () => {
+    if (isSubmitting) return
+    setReason(null)
+    setDetails('')
+    setSelectedMessageIds([])
+    setAlsoBlock(false)
+    setError('')
+    onClose()
+  }
+
+  const toggleMessage = (messageId: string) => {
+    setSelectedMessageIds(prev =>
+      prev.includes(messageId)
+        ? prev.filter(id => id !== messageId)
+        : prev.length < MAX_REPORT_EXCERPTS
+          ? [...prev, messageId]
+          : prev
+    )
+  }
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+
+    if (!reason) {
+      setError('Please choose a reason')
+      return
+    }
+    if (reason === 'other' && !details.trim()) {
+      setError('Please tell us what happened')
+      return
+    }
+
+    setIsSubmitting(true)
+    setError('')
+
+    try {
+      await reportUser({
+        reportedUserId: reportedUser.id,
+        reason,
+        details,
+        conversationId,
+        messageIds: selectedMessageIds
+      })
+
+      if (alsoBlock) {
+        await blockUser(currentUserId, reportedUser.id)
+      }
+
+      addToast(alsoBlock ? `Report sent and ${name} blocked.` : 'Report sent. Thanks for letting us know.', 'success')
+      setReason(null)
+      setDetails('')
+      setSelectedMessageIds([])
+      setAlsoBlock(false)
+      onClose()
+      if (alsoBlock) onBlocked?.()
+    } catch (submitError) {
+      logger.error('Error reporting user:', submitError)
+      const message = (submitError as { message?: string })?.message ?? ''
+      setError(message.includes('Too many reports') ? message : 'Failed to send report. Please try again.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} className="max-w-lg">
+      <form onSubmit={handleSubmit} className="p-6 space-y-5">
+        <div className="pr-8">
+          <h2 className="text-xl font-bold text-gray-900">Report {name}</h2>
+          <p className="mt-1 text-sm text-gray-600">
+            Reports are confidential. We won't tell {name} who reported them.
+          </p>
+        </div>
+
+        <fieldset className="space-y-2">
+          <legend className="mb-2 block text-sm font-medium text-gray-700">What's the problem?</legend>
+          {REPORT_REASONS.map(option => (
+            <label
+              key={option.value}
+              className={`flex cursor-pointer items-start gap-3 rounded-lg border px-3 py-2 transition-colors ${
+                reason === option.value ? 'border-purple-300 bg-purple-50' : 'border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              <input
+                type="radio"
+                name="report-reason"
+                value={option.value}
+                checked={reason === option.value}
+                onChange={() => setReason(option.value)}
+                disabled={isSubmitting}
+                className="mt-1 text-purple-600 focus:ring-purple-500"
+              />
+              <span>
+                <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                <span className="block text-xs text-gray-500">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </fieldset>
+
+        <div className="space-y-2">
+          <label htmlFor="report-details" className="block text-sm font-medium text-gray-700">
+            Details {reason !== 'other' && <span className="font-normal text-gray-500">(optional)</span>}
+          </label>
+          <textarea
+            id="report-details"
+            value={details}
+            onChange={e => setDetails(e.target.value)}
+            maxLength={MAX_REPORT_DETAILS_LENGTH}
+            rows={3}
+            disabled={isSubmitting}
+            placeholder="Anything that helps us understand what happened"
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#6366f1] focus:border-transparent resize-none"
+          />
+        </div>
+
+        {messages.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-700">
+              Include messages <span className="font-normal text-gray-500">(up to {MAX_REPORT_EXCERPTS})</span>
+            </p>
+            <ul className="max-h-48 divide-y divide-gray-100 overflow-y-auto rounded-lg border border-gray-200">
+              {messages.map(message => (
+                <li key={message.id}>
+                  <label className="flex cursor-pointer items-start gap-3 px-3 py-2 hover:bg-gray-50">
+                    <input
+                      type="checkbox"
+                      checked={selectedMessageIds.includes(message.id)}
+                      onChange={() => toggleMessage(message.id)}
+                      disabled={
+                        isSubmitting ||
+                        (!selectedMessageIds.includes(message.id) && selectedMessageIds.length >= MAX_REPORT_EXCERPTS)
+                      }
+                      className="mt-1 rounded text-purple-600 focus:ring-purple-500"
+                    />
+                    <span className="min-w-0 flex-1">
+                      <span className="block text-xs text-gray-500">{format(new Date(message.sent_at), 'MMM d, h:mm a')}</span>
+                      <span className="block truncate text-sm text-gray-900">{message.content || 'Attachment'}</span>
+                    </span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <label className="flex items-center gap-3 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={alsoBlock}
+            onChange={e => setAlsoBlock(e.target.checked)}
+            disabled={isSubmitting}
+            className="rounded text-purple-600 focus:ring-purple-500"
+          />
+          Also block {name}
+        </label>
+
+        {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+
+        <div className="flex items-center gap-3">
+          <Button
+            type="button"
+            onClick={handleClose}
+            disabled={isSubmitting}
+            className="flex-1 bg-gray-100 text-gray-700 hover:bg-gray-200"
+          >
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isSubmitting} className="flex-1">
+            {isSubmitting ? 'Sending...' : 'Send Report'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  )
+}
@@ -0,0 +1,269 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Bookmark, Mail, MailX, Trash2, Loader2 } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import type { SavedSearch } from '@/lib/supabase'
+import { useAuthStore } from '@/lib/auth'
+import { useToastStore } from '@/lib/toast'
+import { logger } from '@/lib/logger'
+import { describeFilters, parseStoredFilters, type FiltersState } from '@/lib/opportunities'
+import Modal from './Modal'
+import Input from './Input'
+import Button from './Button'
+
+interface SavedSearchesPanelProps {
+  filters: FiltersState
+  onApply: (filters: FiltersState) => void
+}
+
+const MAX_SAVED_SEARCHES = 10
+const MAX_NAME_LENGTH = 80
+
+/**
+ * Saved Opportunities searches. Publishing a vacancy that matches one
+ * creates a notification for its owner (see notify_saved_search_matches).
+ */
+export default function SavedSearchesPanel({ filters, onApply }: SavedSearchesPanelProps) {
+  const { user } = useAuthStore()
+  const { addToast } = useToastStore()
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [showSaveModal, setShowSaveModal] = useState(false)
+  const [name, setName] = useState('')
+  const [emailDigest, setEmailDigest] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [saveError, setSaveError] = useState('')
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const fetchSavedSearches = useCallback(async () => {
+    if (!user) return
+
+    try {
+      const { data, error } = await supabase
+        .from('saved_searches')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      setSavedSearches(data ?? [])
+    } catch (error) {
+      logger.error('Error fetching saved searches:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    fetchSavedSearches()
+  }, [fetchSavedSearches])
+
+  const openSaveModal = () => {
+    setName(describeFilters(filters).slice(0, MAX_NAME_LENGTH))
+    setEmailDigest(false)
+    setSaveError('')
+    setShowSaveModal(true)
+  }
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!user) return
+
+    const trimmedName = name.trim()
+    if (!trimmedName) {
+      setSaveError('Please give this search a name')
+      return
+    }
+
+    setIsSaving(true)
+    setSaveError('')
+
+    try {
+      const { data, error } = await supabase
+        .from('saved_searches')
+        .insert({
+          user_id: user.id,
+          name: trimmedName,
+          filters: { ...filters, location: filters.location.trim() },
+          email_digest: emailDigest,
+        })
+        .select('*')
+        .single()
+
+      if (error) throw error
+
+      setSavedSearches(prev => [data, ...prev])
+      setShowSaveModal(false)
+      addToast("Search saved. We'll let you know when new opportunities match.", 'success')
+    } catch (error) {
+      logger.error('Error saving search:', error)
+      const isDuplicate = (error as { code?: string })?.code === '23505'
+      setSaveError(isDuplicate ? 'You already have a saved search with this name' : 'Failed to save search. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const toggleEmailDigest = async (savedSearch: SavedSearch) => {
+    setBusyId(savedSearch.id)
+
+    try {
+      const { error } = await supabase
+        .from('saved_searches')
+        .update({ email_digest: !savedSearch.email_digest })
+        .eq('id', savedSearch.id)
+
+      if (error) throw error
+
+      setSavedSearches(prev =>
+        prev.map(item => (item.id === savedSearch.id ? { ...item, email_digest: !savedSearch.email_digest } : item))
+      )
+      addToast(savedSearch.email_digest ? 'Email digest turned off.' : 'Email digest turned on.', 'success')
+    } catch (error) {
+      logger.error('Error updating saved search:', error)
+      addToast('Failed to update saved search. Please try again.', 'error')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDelete = async (savedSearch: SavedSearch) => {
+    setBusyId(savedSearch.id)
+
+    try {
+      const { error } = await supabase
+        .from('saved_searches')
+        .delete()
+        .eq('id', savedSearch.id)
+
+      if (error) throw error
+
+      setSavedSearches(prev => prev.filter(item => item.id !== savedSearch.id))
+    } catch (error) {
+      logger.error('Error deleting saved search:', error)
+      addToast('Failed to delete saved search. Please try again.', 'error')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (!user) return null
+
+  const limitReached = savedSearches.length >= MAX_SAVED_SEARCHES
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <span className="block text-sm font-medium text-gray-700">Saved Searches</span>
+        <button
+          onClick={openSaveModal}
+          disabled={limitReached}
+          className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 font-medium disabled:text-gray-400 disabled:cursor-not-allowed"
+          title={limitReached ? `You can save up to ${MAX_SAVED_SEARCHES} searches` : 'Save the current filters'}
+        >
+          <Bookmark className="w-4 h-4" />
+          Save
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading...
+        </div>
+      ) : savedSearches.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Save these filters to get notified when a matching opportunity is published.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {savedSearches.map(savedSearch => {
+            const savedFilters = parseStoredFilters(savedSearch.filters)
+            const isBusy = busyId === savedSearch.id
+
+            return (
+              <li key={savedSearch.id} className="flex items-start gap-2 rounded-lg border border-gray-200 p-2">
+                <button
+                  onClick={() => onApply(savedFilters)}
+                  className="min-w-0 flex-1 text-left"
+                  title="Apply this search"
+                >
+                  <span className="block truncate text-sm font-medium text-gray-900">{savedSearch.name}</span>
+                  <span className="block truncate text-xs text-gray-500">{describeFilters(savedFilters)}</span>
+                </button>
+                <button
+                  onClick={() => toggleEmailDigest(savedSearch)}
+                  disabled={isBusy}
+                  className={`p-1 rounded transition-colors disabled:opacity-50 ${
+                    savedSearch.email_digest ? 'text-blue-600 hover:bg-blue-50' : 'text-gray-400 hover:bg-gray-100'
+                  }`}
+                  aria-label={savedSearch.email_digest ? 'Turn off email digest' : 'Turn on email digest'}
+                  title={savedSearch.email_digest ? 'Email digest on' : 'Email digest off'}
+                >
+                  {savedSearch.email_digest ? <Mail className="w-4 h-4" /> : <MailX className="w-4 h-4" />}
+                </button>
+                <button
+                  onClick={() => handleDelete(savedSearch)}
+                  disabled={isBusy}
+                  className="p-1 rounded text-gray-400 hover:bg-red-50 hover:text-red-600 transition-colors disabled:opacity-50"
+                  aria-label={`Delete saved search ${savedSearch.name}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      <Modal isOpen={showSaveModal} onClose={() => !isSaving && setShowSaveModal(false)}>
+        <form onSubmit={handleSave} className="p-6 space-y-5">
+          <div className="pr-8">
+            <h2 className="text-xl font-bold text-gray-900">Save search</h2>
+            <p className="mt-1 text-sm text-gray-600">{describeFilters(filters)}</p>
+          </div>
+
+          <Input
+            label="Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={MAX_NAME_LENGTH}
+            error={saveError || undefined}
+            required
+            autoFocus
+          />
+
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={emailDigest}
+              onChange={(e) => setEmailDigest(e.target.checked)}
+              className="mt-0.5 w-4 h-4 text-blue-600 rounded"
+            />
+            <span className="text-sm text-gray-700">
+              Also email me a digest of new matches
+              <span className="block text-xs text-gray-500">In-app notifications can be muted in Settings.</span>
+            </span>
+          </label>
+
+          <div className="flex items-center gap-3">
+            <Button
+              type="button"
+              onClick={() => setShowSaveModal(false)}
+              disabled={isSaving}
+              className="flex-1 bg-gray-100 text-gray-700 hover:bg-gray-200"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={isSaving}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 text-white"
+            >
+              {isSaving ? 'Saving...' : 'Save Search'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  )
+}
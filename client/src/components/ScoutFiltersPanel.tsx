@@ -0,0 +1,171 @@
+import { Video } from 'lucide-react'
+import { POSITIONS } from '@/lib/opportunities'
+import { LEAGUE_LEVELS, hasScoutFilters, type ScoutFilters } from '@/lib/scouting'
+
+interface ScoutFiltersPanelProps {
+  filters: ScoutFilters
+  onChange: (patch: Partial<ScoutFilters>) => void
+  onClear: () => void
+}
+
+const parseAge = (value: string) => {
+  const age = parseInt(value, 10)
+  return Number.isNaN(age) ? null : Math.max(age, 0)
+}
+
+const inputClassName =
+  'w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500'
+
+function FilterPill({ label, selected, onClick }: { label: string; selected: boolean; onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      aria-pressed={selected}
+      className={`rounded-full px-3 py-1 text-sm capitalize transition-colors ${
+        selected
+          ? 'bg-gradient-to-r from-[#6366f1] to-[#8b5cf6] text-white'
+          : 'border border-gray-300 bg-white text-gray-700 hover:border-purple-300'
+      }`}
+    >
+      {label}
+    </button>
+  )
+}
+
+/** Scouting criteria for the club talent search */
+export default function ScoutFiltersPanel({ filters, onChange, onClear }: ScoutFiltersPanelProps) {
+  const togglePosition = (position: string) => {
+    onChange({
+      positions: filters.positions.includes(position)
+        ? filters.positions.filter(item => item !== position)
+        : [...filters.positions, position],
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
+        <div className="rounded-xl border border-gray-200 bg-white p-4">
+          <h3 className="mb-3 text-sm font-semibold text-gray-900">Position</h3>
+          <div className="flex flex-wrap gap-2">
+            {POSITIONS.map(position => (
+              <FilterPill
+                key={position}
+                label={position}
+                selected={filters.positions.includes(position)}
+                onClick={() => togglePosition(position)}
+              />
+            ))}
+          </div>
+        </div>
+
+        <div className="rounded-xl border border-gray-200 bg-white p-4">
+          <h3 className="mb-3 text-sm font-semibold text-gray-900">Age</h3>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={0}
+              value={filters.ageMin ?? ''}
+              onChange={(e) => onChange({ ageMin: parseAge(e.target.value) })}
+              placeholder="Min"
+              aria-label="Minimum age"
+              className="w-20 rounded-lg border border-gray-300 px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+            <span className="text-sm text-gray-400">to</span>
+            <input
+              type="number"
+              min={0}
+              value={filters.ageMax ?? ''}
+              onChange={(e) => onChange({ ageMax: parseAge(e.target.value) })}
+              placeholder="Max"
+              aria-label="Maximum age"
+              className="w-20 rounded-lg border border-gray-300 px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+          </div>
+        </div>
+
+        <div className="rounded-xl border border-gray-200 bg-white p-4">
+          <h3 className="mb-3 text-sm font-semibold text-gray-900">Nationality & passports</h3>
+          <div className="space-y-2">
+            <input
+              type="text"
+              value={filters.nationality}
+              onChange={(e) => onChange({ nationality: e.target.value })}
+              placeholder="Nationality"
+              aria-label="Nationality"
+              className={inputClassName}
+            />
+            <input
+              type="text"
+              value={filters.passport}
+              onChange={(e) => onChange({ passport: e.target.value })}
+              placeholder="Passport country"
+              aria-label="Passport country"
+              className={inputClassName}
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={filters.euPassport}
+                onChange={(e) => onChange({ euPassport: e.target.checked })}
+                className="h-4 w-4 rounded border-gray-300 text-[#6366f1] focus:ring-[#6366f1]"
+              />
+              EU passport holder
+            </label>
+          </div>
+        </div>
+
+        <div className="rounded-xl border border-gray-200 bg-white p-4 lg:col-span-2">
+          <h3 className="mb-3 text-sm font-semibold text-gray-900">League history</h3>
+          <input
+            type="text"
+            value={filters.league}
+            onChange={(e) => onChange({ league: e.target.value })}
+            placeholder="League played in, current or past"
+            aria-label="League"
+            className={inputClassName}
+          />
+          <div className="mt-3 flex flex-wrap gap-2">
+            {LEAGUE_LEVELS.map(level => {
+              const selected = filters.minLeagueLevel === level.value
+
+              return (
+                <FilterPill
+                  key={level.value}
+                  label={level.label}
+                  selected={selected}
+                  onClick={() => onChange({ minLeagueLevel: selected ? null : level.value })}
+                />
+              )
+            })}
+          </div>
+        </div>
+
+        <div className="rounded-xl border border-gray-200 bg-white p-4">
+          <h3 className="mb-3 text-sm font-semibold text-gray-900">Media</h3>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={filters.hasHighlightVideo}
+              onChange={(e) => onChange({ hasHighlightVideo: e.target.checked })}
+              className="h-4 w-4 rounded border-gray-300 text-[#6366f1] focus:ring-[#6366f1]"
+            />
+            <Video className="h-4 w-4 text-gray-400" />
+            Has a highlight video
+          </label>
+        </div>
+      </div>
+
+      {hasScoutFilters(filters) && (
+        <div className="flex justify-end">
+          <button
+            onClick={onClear}
+            className="px-2 py-1.5 text-sm font-medium text-gray-600 hover:text-gray-900 transition-colors"
+          >
+            Clear all
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
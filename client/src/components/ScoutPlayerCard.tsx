@@ -0,0 +1,135 @@
+import { useNavigate } from 'react-router-dom'
+import { MessageCircle, Trophy, User, Video } from 'lucide-react'
+import { Avatar } from '@/components'
+import { AVAILABILITY_OPTIONS } from '@/lib/community'
+import type { ScoutPlayer, ShortlistWithPlayers } from '@/lib/scouting'
+import ShortlistPicker from './ShortlistPicker'
+
+interface ScoutPlayerCardProps {
+  player: ScoutPlayer
+  shortlists: ShortlistWithPlayers[]
+  onToggleShortlist: (shortlistId: string, playerId: string) => Promise<void>
+  onCreateShortlist: (name: string, playerId: string) => Promise<boolean>
+}
+
+const toTitleCase = (str: string) =>
+  str
+    .split(' ')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join(' ')
+
+export default function ScoutPlayerCard({
+  player,
+  shortlists,
+  onToggleShortlist,
+  onCreateShortlist,
+}: ScoutPlayerCardProps) {
+  const navigate = useNavigate()
+
+  const positions = [player.position, player.secondary_position].filter(
+    (value, index, self): value is string => Boolean(value) && self.indexOf(value) === index
+  )
+  const passports = [player.passport_1, player.passport_2].filter((value): value is string => Boolean(value))
+  const availabilityLabel = AVAILABILITY_OPTIONS.find(option => option.value === player.availability)?.label
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-6 hover:shadow-lg transition-shadow">
+      <div className="flex items-center gap-4 mb-4">
+        <Avatar
+          src={player.avatar_url}
+          initials={player.full_name ? player.full_name.split(' ').map(n => n[0]).join('') : '?'}
+          size="lg"
+        />
+        <div className="flex-1 min-w-0">
+          <h3 className="font-semibold text-gray-900 truncate">{player.full_name}</h3>
+          <div className="flex flex-wrap gap-1.5">
+            {player.age > 0 && (
+              <span className="inline-block px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-700">
+                {player.age} yrs
+              </span>
+            )}
+            {availabilityLabel && (
+              <span
+                className={`inline-block px-2 py-1 rounded-full text-xs font-medium ${
+                  player.availability === 'not_available' ? 'bg-gray-100 text-gray-600' : 'bg-emerald-100 text-emerald-700'
+                }`}
+              >
+                {availabilityLabel}
+              </span>
+            )}
+            {player.has_highlight_video && (
+              <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-700">
+                <Video className="w-3 h-3" />
+                Highlights
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-2 mb-4 text-sm text-gray-600">
+        {positions.length > 0 && (
+          <div className="flex items-start gap-2">
+            <span className="font-medium text-gray-500">Position:</span>
+            <span>{positions.map(toTitleCase).join(' • ')}</span>
+          </div>
+        )}
+
+        {player.nationality && (
+          <div className="flex items-start gap-2">
+            <span className="font-medium text-gray-500">Nationality:</span>
+            <span>{player.nationality}</span>
+          </div>
+        )}
+
+        {passports.length > 0 && (
+          <div className="flex items-start gap-2">
+            <span className="font-medium text-gray-500">Passports:</span>
+            <span>{passports.join(', ')}</span>
+          </div>
+        )}
+
+        {player.current_club && (
+          <div className="flex items-start gap-2">
+            <span className="font-medium text-gray-500">Current team:</span>
+            <span>{toTitleCase(player.current_club)}</span>
+          </div>
+        )}
+
+        {player.top_league && (
+          <div className="flex items-start gap-2">
+            <Trophy className="w-4 h-4 mt-0.5 flex-shrink-0 text-amber-500" />
+            <span>
+              <span className="sr-only">Highest league played: </span>
+              {player.top_league}
+            </span>
+          </div>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => navigate(`/messages?new=${player.id}`)}
+          className="flex-1 flex items-center justify-center gap-2 px-4 py-2 min-h-[44px] rounded-lg bg-gradient-to-r from-[#6366f1] to-[#8b5cf6] text-white text-sm font-medium hover:opacity-90 transition-opacity"
+        >
+          <MessageCircle className="w-4 h-4" />
+          <span>Message</span>
+        </button>
+        <button
+          onClick={() => navigate(`/players/id/${player.id}`)}
+          className="flex items-center justify-center gap-2 px-4 py-2 min-h-[44px] rounded-lg border border-gray-300 text-gray-700 text-sm font-medium hover:bg-gray-50 transition-colors"
+          aria-label={`View ${player.full_name || 'player'}'s profile`}
+        >
+          <User className="w-4 h-4" />
+          <span>View</span>
+        </button>
+        <ShortlistPicker
+          playerId={player.id}
+          shortlists={shortlists}
+          onToggle={onToggleShortlist}
+          onCreate={onCreateShortlist}
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,246 @@
+import { useId } from 'react'
+import { Plus, Trash2, X } from 'lucide-react'
+import {
+  MAX_SCREENING_OPTIONS,
+  MAX_SCREENING_PROMPT_LENGTH,
+  MAX_SCREENING_QUESTIONS,
+  SCREENING_QUESTION_TYPES,
+  createScreeningQuestion,
+  type ScreeningKnockout,
+  type ScreeningQuestion,
+  type ScreeningQuestionType,
+} from '@/lib/screening'
+
+interface ScreeningQuestionsEditorProps {
+  questions: ScreeningQuestion[]
+  onChange: (questions: ScreeningQuestion[]) => void
+  error?: string
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-[#10b981] focus:border-transparent'
+
+const parseBound = (value: string): number | null => {
+  if (value.trim() === '') return null
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+/**
+ * Screening question builder for CreateVacancyModal. Answers are checked
+ * against the knockout rules by apply_screening_answers when a player applies.
+ */
+export default function ScreeningQuestionsEditor({ questions, onChange, error }: ScreeningQuestionsEditorProps) {
+  const baseId = useId()
+
+  const updateQuestion = (id: string, changes: Partial<ScreeningQuestion>) => {
+    onChange(questions.map(question => (question.id === id ? { ...question, ...changes } : question)))
+  }
+
+  const updateKnockout = (question: ScreeningQuestion, changes: Partial<ScreeningKnockout> | null) => {
+    updateQuestion(question.id, { knockout: changes ? { ...question.knockout, ...changes } : null })
+  }
+
+  const changeType = (question: ScreeningQuestion, type: ScreeningQuestionType) => {
+    updateQuestion(question.id, {
+      type,
+      options: type === 'single_choice' ? question.options ?? ['', ''] : undefined,
+      knockout: null,
+    })
+  }
+
+  const updateOption = (question: ScreeningQuestion, index: number, value: string) => {
+    const previous = question.options?.[index]
+    const options = (question.options ?? []).map((option, i) => (i === index ? value : option))
+    // Keep the accepted list pointing at the renamed option
+    const accepted = question.knockout?.accepted?.map(option => (option === previous ? value : option))
+    updateQuestion(question.id, { options, knockout: accepted ? { ...question.knockout, accepted } : question.knockout })
+  }
+
+  const removeOption = (question: ScreeningQuestion, index: number) => {
+    const removed = question.options?.[index]
+    const options = (question.options ?? []).filter((_, i) => i !== index)
+    const accepted = question.knockout?.accepted?.filter(option => option !== removed)
+    updateQuestion(question.id, { options, knockout: accepted ? { ...question.knockout, accepted } : question.knockout })
+  }
+
+  const toggleAccepted = (question: ScreeningQuestion, option: string) => {
+    const accepted = question.knockout?.accepted ?? []
+    updateKnockout(question, {
+      accepted: accepted.includes(option) ? accepted.filter(item => item !== option) : [...accepted, option],
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      {questions.length === 0 && (
+        <p className="text-sm text-gray-500 italic py-2">
+          e.g., "Do you hold an EU passport?" or "Years at national league level?" Applicants must answer before applying.
+        </p>
+      )}
+
+      {questions.map((question, index) => {
+        const fieldId = `${baseId}-${question.id}`
+        const options = question.options ?? []
+
+        return (
+          <div key={question.id} className="rounded-lg border border-gray-200 bg-gray-50 p-4 space-y-3">
+            <div className="flex items-center gap-3">
+              <span className="text-sm font-semibold text-gray-900">Question {index + 1}</span>
+              <label className="sr-only" htmlFor={`${fieldId}-type`}>
+                Answer type
+              </label>
+              <select
+                id={`${fieldId}-type`}
+                value={question.type}
+                onChange={(e) => changeType(question, e.target.value as ScreeningQuestionType)}
+                className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-[#10b981] focus:border-transparent"
+              >
+                {SCREENING_QUESTION_TYPES.map(type => (
+                  <option key={type.value} value={type.value}>
+                    {type.label}
+                  </option>
+                ))}
+              </select>
+              <label className="ml-auto flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={question.required}
+                  onChange={(e) => updateQuestion(question.id, { required: e.target.checked })}
+                  className="w-4 h-4 rounded text-[#10b981]"
+                />
+                Required
+              </label>
+              <button
+                type="button"
+                onClick={() => onChange(questions.filter(item => item.id !== question.id))}
+                className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                aria-label={`Remove question ${index + 1}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div>
+              <label className="sr-only" htmlFor={`${fieldId}-prompt`}>
+                Question
+              </label>
+              <input
+                id={`${fieldId}-prompt`}
+                type="text"
+                value={question.prompt}
+                onChange={(e) => updateQuestion(question.id, { prompt: e.target.value })}
+                maxLength={MAX_SCREENING_PROMPT_LENGTH}
+                className={`${inputClassName} bg-white`}
+                placeholder={question.type === 'number' ? 'e.g. Years at national league level?' : 'e.g. Do you hold an EU passport?'}
+              />
+            </div>
+
+            {question.type === 'single_choice' && (
+              <div className="space-y-2">
+                <p className="text-xs font-medium text-gray-600">
+                  Options · tick the answers that pass, or leave all unticked for no knockout
+                </p>
+                {options.map((option, optionIndex) => (
+                  <div key={optionIndex} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={Boolean(option.trim()) && (question.knockout?.accepted ?? []).includes(option)}
+                      onChange={() => toggleAccepted(question, option)}
+                      disabled={!option.trim()}
+                      className="w-4 h-4 rounded text-[#10b981]"
+                      aria-label={`Option ${optionIndex + 1} passes`}
+                    />
+                    <input
+                      type="text"
+                      value={option}
+                      onChange={(e) => updateOption(question, optionIndex, e.target.value)}
+                      maxLength={80}
+                      className={`${inputClassName} bg-white`}
+                      placeholder={`Option ${optionIndex + 1}`}
+                      aria-label={`Option ${optionIndex + 1}`}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeOption(question, optionIndex)}
+                      className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                      aria-label={`Remove option ${optionIndex + 1}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                {options.length < MAX_SCREENING_OPTIONS && (
+                  <button
+                    type="button"
+                    onClick={() => updateQuestion(question.id, { options: [...options, ''] })}
+                    className="flex items-center gap-1 text-sm font-medium text-[#10b981] hover:text-emerald-700"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add option
+                  </button>
+                )}
+              </div>
+            )}
+
+            {question.type === 'yes_no' && (
+              <div className="flex items-center gap-2">
+                <label className="text-xs font-medium text-gray-600" htmlFor={`${fieldId}-knockout`}>
+                  Knockout
+                </label>
+                <select
+                  id={`${fieldId}-knockout`}
+                  value={typeof question.knockout?.expected === 'boolean' ? String(question.knockout.expected) : ''}
+                  onChange={(e) =>
+                    updateKnockout(question, e.target.value === '' ? null : { expected: e.target.value === 'true' })
+                  }
+                  className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-[#10b981] focus:border-transparent"
+                >
+                  <option value="">None</option>
+                  <option value="true">Must answer Yes</option>
+                  <option value="false">Must answer No</option>
+                </select>
+              </div>
+            )}
+
+            {question.type === 'number' && (
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-xs font-medium text-gray-600">Knockout unless between</span>
+                <input
+                  type="number"
+                  value={question.knockout?.min ?? ''}
+                  onChange={(e) => updateKnockout(question, { min: parseBound(e.target.value) })}
+                  className="w-24 px-3 py-1.5 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-[#10b981] focus:border-transparent"
+                  placeholder="Min"
+                  aria-label="Minimum to pass"
+                />
+                <span className="text-xs text-gray-500">and</span>
+                <input
+                  type="number"
+                  value={question.knockout?.max ?? ''}
+                  onChange={(e) => updateKnockout(question, { max: parseBound(e.target.value) })}
+                  className="w-24 px-3 py-1.5 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-[#10b981] focus:border-transparent"
+                  placeholder="Max"
+                  aria-label="Maximum to pass"
+                />
+              </div>
+            )}
+          </div>
+        )
+      })}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {questions.length < MAX_SCREENING_QUESTIONS && (
+        <button
+          type="button"
+          onClick={() => onChange([...questions, createScreeningQuestion()])}
+          className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2"
+        >
+          <Plus className="w-4 h-4" />
+          Add Question
+        </button>
+      )}
+    </div>
+  )
+}
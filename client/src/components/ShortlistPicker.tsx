@@ -0,0 +1,141 @@
+import { useEffect, useRef, useState, type FormEvent } from 'react'
+import { Bookmark, BookmarkCheck, Check, Loader2, Plus } from 'lucide-react'
+import { MAX_SHORTLIST_NAME_LENGTH, type ShortlistWithPlayers } from '@/lib/scouting'
+
+interface ShortlistPickerProps {
+  playerId: string
+  shortlists: ShortlistWithPlayers[]
+  onToggle: (shortlistId: string, playerId: string) => Promise<void>
+  /** Creates a list and adds the player to it; resolves false when that failed */
+  onCreate: (name: string, playerId: string) => Promise<boolean>
+}
+
+/**
+ * Button on a scouted player listing the club's shortlists; ticking one adds
+ * or removes the player, and a new list can be started from here.
+ */
+export default function ShortlistPicker({ playerId, shortlists, onToggle, onCreate }: ShortlistPickerProps) {
+  const [menuOpen, setMenuOpen] = useState(false)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [newName, setNewName] = useState('')
+  const [isCreating, setIsCreating] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  const savedCount = shortlists.filter(list => list.player_ids.includes(playerId)).length
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setMenuOpen(false)
+      }
+    }
+
+    if (menuOpen) {
+      document.addEventListener('mousedown', handleClickOutside)
+      return () => document.removeEventListener('mousedown', handleClickOutside)
+    }
+  }, [menuOpen])
+
+  const handleToggle = async (shortlistId: string) => {
+    setPendingId(shortlistId)
+    try {
+      await onToggle(shortlistId, playerId)
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const handleCreate = async (event: FormEvent) => {
+    event.preventDefault()
+    if (!newName.trim()) return
+
+    setIsCreating(true)
+    try {
+      if (await onCreate(newName, playerId)) setNewName('')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        type="button"
+        onClick={() => setMenuOpen(open => !open)}
+        className={`flex items-center justify-center gap-2 px-4 py-2 min-h-[44px] rounded-lg border text-sm font-medium transition-colors ${
+          savedCount > 0
+            ? 'border-purple-300 bg-purple-50 text-purple-700 hover:bg-purple-100'
+            : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+        }`}
+        aria-haspopup="menu"
+        aria-expanded={menuOpen}
+        aria-label={savedCount > 0 ? `Saved to ${savedCount} shortlist${savedCount === 1 ? '' : 's'}` : 'Add to shortlist'}
+      >
+        {savedCount > 0 ? <BookmarkCheck className="w-4 h-4" /> : <Bookmark className="w-4 h-4" />}
+        <span>{savedCount > 0 ? 'Saved' : 'Save'}</span>
+      </button>
+
+      {menuOpen && (
+        <div
+          role="menu"
+          className="absolute bottom-full right-0 z-20 mb-2 w-64 overflow-hidden rounded-xl border border-gray-200 bg-white py-1 shadow-lg"
+        >
+          {shortlists.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-gray-500">No shortlists yet. Name your first one below.</p>
+          ) : (
+            <div className="max-h-60 overflow-y-auto">
+              {shortlists.map(list => {
+                const checked = list.player_ids.includes(playerId)
+
+                return (
+                  <button
+                    key={list.id}
+                    type="button"
+                    role="menuitemcheckbox"
+                    aria-checked={checked}
+                    onClick={() => handleToggle(list.id)}
+                    disabled={pendingId !== null}
+                    className="flex w-full items-center gap-3 px-4 py-2 text-left text-sm text-gray-700 transition-colors hover:bg-gray-50 disabled:opacity-60"
+                  >
+                    <span
+                      className={`flex h-4 w-4 flex-shrink-0 items-center justify-center rounded border ${
+                        checked ? 'border-[#6366f1] bg-[#6366f1] text-white' : 'border-gray-300'
+                      }`}
+                    >
+                      {pendingId === list.id ? (
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                      ) : (
+                        checked && <Check className="h-3 w-3" />
+                      )}
+                    </span>
+                    <span className="truncate">{list.name}</span>
+                  </button>
+                )
+              })}
+            </div>
+          )}
+
+          <form onSubmit={handleCreate} className="flex items-center gap-2 border-t border-gray-100 px-3 py-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              maxLength={MAX_SHORTLIST_NAME_LENGTH}
+              placeholder="New shortlist"
+              aria-label="New shortlist name"
+              className="min-w-0 flex-1 rounded-lg border border-gray-300 px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+            <button
+              type="submit"
+              disabled={isCreating || !newName.trim()}
+              className="flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-lg bg-[#6366f1] text-white transition-opacity hover:opacity-90 disabled:opacity-50"
+              aria-label="Create shortlist"
+            >
+              {isCreating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  )
+}
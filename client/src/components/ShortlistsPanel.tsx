@@ -0,0 +1,402 @@
+import { useEffect, useState, type FormEvent } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Check, Loader2, MessageCircle, Pencil, Plus, Trash2, User, X } from 'lucide-react'
+import { Avatar } from '@/components'
+import ConfirmActionModal from './ConfirmActionModal'
+import Skeleton from './Skeleton'
+import { logger } from '@/lib/logger'
+import { useToastStore } from '@/lib/toast'
+import {
+  MAX_SHORTLIST_NAME_LENGTH,
+  MAX_SHORTLIST_NOTE_LENGTH,
+  fetchShortlistEntries,
+  updateShortlistNote,
+  type ShortlistEntry,
+  type ShortlistWithPlayers,
+} from '@/lib/scouting'
+
+interface ShortlistsPanelProps {
+  shortlists: ShortlistWithPlayers[]
+  onCreate: (name: string) => Promise<ShortlistWithPlayers | null>
+  onRename: (shortlistId: string, name: string) => Promise<boolean>
+  onDelete: (shortlistId: string) => Promise<boolean>
+  onRemovePlayer: (shortlistId: string, playerId: string) => Promise<boolean>
+  onFindPlayers: () => void
+}
+
+const formatPositions = (entry: ShortlistEntry) =>
+  [entry.player.position, entry.player.secondary_position]
+    .filter((value, index, self): value is string => Boolean(value) && self.indexOf(value) === index)
+    .join(' • ')
+
+interface ShortlistEntryRowProps {
+  entry: ShortlistEntry
+  onNoteSaved: (note: string | null) => void
+  onRemove: () => Promise<void>
+}
+
+function ShortlistEntryRow({ entry, onNoteSaved, onRemove }: ShortlistEntryRowProps) {
+  const navigate = useNavigate()
+  const { addToast } = useToastStore()
+  const [note, setNote] = useState(entry.note ?? '')
+  const [isSaving, setIsSaving] = useState(false)
+  const [isRemoving, setIsRemoving] = useState(false)
+  const { player } = entry
+  const isDirty = note.trim() !== (entry.note ?? '')
+
+  const handleSaveNote = async () => {
+    setIsSaving(true)
+    try {
+      await updateShortlistNote(entry.shortlist_id, entry.player_id, note)
+      onNoteSaved(note.trim() || null)
+      addToast('Note saved.', 'success')
+    } catch (error) {
+      logger.error('Error saving shortlist note:', error)
+      addToast('Failed to save note. Please try again.', 'error')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRemove = async () => {
+    setIsRemoving(true)
+    try {
+      await onRemove()
+    } finally {
+      setIsRemoving(false)
+    }
+  }
+
+  return (
+    <li className="rounded-xl border border-gray-200 bg-white p-4">
+      <div className="flex items-start gap-3">
+        <Avatar
+          src={player.avatar_url}
+          initials={player.full_name ? player.full_name.split(' ').map(n => n[0]).join('') : '?'}
+          size="md"
+        />
+        <div className="min-w-0 flex-1">
+          <h3 className="truncate font-semibold text-gray-900">{player.full_name}</h3>
+          <p className="truncate text-sm capitalize text-gray-600">
+            {[formatPositions(entry), player.current_club, player.nationality].filter(Boolean).join(' · ')}
+          </p>
+        </div>
+        <div className="flex flex-shrink-0 gap-1">
+          <button
+            onClick={() => navigate(`/messages?new=${player.id}`)}
+            className="flex h-9 w-9 items-center justify-center rounded-lg text-[#6366f1] transition-colors hover:bg-purple-50"
+            aria-label={`Message ${player.full_name ?? 'player'}`}
+          >
+            <MessageCircle className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => navigate(`/players/id/${player.id}`)}
+            className="flex h-9 w-9 items-center justify-center rounded-lg text-gray-600 transition-colors hover:bg-gray-100"
+            aria-label={`View ${player.full_name ?? 'player'}'s profile`}
+          >
+            <User className="h-4 w-4" />
+          </button>
+          <button
+            onClick={handleRemove}
+            disabled={isRemoving}
+            className="flex h-9 w-9 items-center justify-center rounded-lg text-gray-500 transition-colors hover:bg-red-50 hover:text-red-600 disabled:opacity-50"
+            aria-label={`Remove ${player.full_name ?? 'player'} from shortlist`}
+          >
+            {isRemoving ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-3">
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          rows={2}
+          maxLength={MAX_SHORTLIST_NOTE_LENGTH}
+          placeholder="Private note, only your club can see it"
+          aria-label={`Note on ${player.full_name ?? 'player'}`}
+          className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#6366f1] focus:border-transparent resize-none"
+        />
+        {isDirty && (
+          <div className="mt-2 flex justify-end gap-2">
+            <button
+              onClick={() => setNote(entry.note ?? '')}
+              disabled={isSaving}
+              className="px-3 py-1.5 text-sm font-medium text-gray-600 hover:text-gray-900 transition-colors"
+            >
+              Discard
+            </button>
+            <button
+              onClick={handleSaveNote}
+              disabled={isSaving}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-[#6366f1] rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save note'}
+            </button>
+          </div>
+        )}
+      </div>
+    </li>
+  )
+}
+
+/**
+ * The club's named shortlists: pick a list to review its players, keep
+ * private notes on each, and message them straight from here.
+ */
+export default function ShortlistsPanel({
+  shortlists,
+  onCreate,
+  onRename,
+  onDelete,
+  onRemovePlayer,
+  onFindPlayers,
+}: ShortlistsPanelProps) {
+  const { addToast } = useToastStore()
+  const [selectedId, setSelectedId] = useState<string | null>(shortlists[0]?.id ?? null)
+  const [entries, setEntries] = useState<ShortlistEntry[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [newName, setNewName] = useState('')
+  const [isCreating, setIsCreating] = useState(false)
+  const [renameDraft, setRenameDraft] = useState<string | null>(null)
+  const [isRenaming, setIsRenaming] = useState(false)
+  const [confirmDelete, setConfirmDelete] = useState(false)
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  const selected = shortlists.find(list => list.id === selectedId) ?? shortlists[0] ?? null
+  const selectedListId = selected?.id ?? null
+
+  useEffect(() => {
+    setRenameDraft(null)
+    setEntries([])
+    if (!selectedListId) return
+
+    let cancelled = false
+    setIsLoading(true)
+    fetchShortlistEntries(selectedListId)
+      .then(rows => {
+        if (!cancelled) setEntries(rows)
+      })
+      .catch(error => {
+        logger.error('Error fetching shortlist players:', error)
+        if (!cancelled) addToast('Failed to load shortlist. Please try again.', 'error')
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [selectedListId, addToast])
+
+  const handleCreate = async (event: FormEvent) => {
+    event.preventDefault()
+    if (!newName.trim()) return
+
+    setIsCreating(true)
+    try {
+      const created = await onCreate(newName)
+      if (created) {
+        setNewName('')
+        setSelectedId(created.id)
+      }
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleRename = async (event: FormEvent) => {
+    event.preventDefault()
+    if (!selected || renameDraft === null || !renameDraft.trim()) return
+
+    setIsRenaming(true)
+    try {
+      if (await onRename(selected.id, renameDraft)) setRenameDraft(null)
+    } finally {
+      setIsRenaming(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!selected) return
+
+    setIsDeleting(true)
+    try {
+      if (await onDelete(selected.id)) {
+        setConfirmDelete(false)
+        setSelectedId(null)
+      }
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  const handleRemovePlayer = async (entry: ShortlistEntry) => {
+    if (await onRemovePlayer(entry.shortlist_id, entry.player_id)) {
+      setEntries(prev => prev.filter(item => item.player_id !== entry.player_id))
+    }
+  }
+
+  return (
+    <div className="grid grid-cols-1 gap-6 md:grid-cols-[16rem_1fr]">
+      <aside className="space-y-3">
+        {shortlists.length > 0 && (
+          <nav className="space-y-1" aria-label="Shortlists">
+            {shortlists.map(list => (
+              <button
+                key={list.id}
+                onClick={() => setSelectedId(list.id)}
+                aria-current={list.id === selectedListId ? 'true' : undefined}
+                className={`flex w-full items-center justify-between gap-2 rounded-lg px-3 py-2 text-left text-sm font-medium transition-colors ${
+                  list.id === selectedListId
+                    ? 'bg-purple-50 text-purple-700'
+                    : 'text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                <span className="truncate">{list.name}</span>
+                <span className="text-xs text-gray-400">{list.player_ids.length}</span>
+              </button>
+            ))}
+          </nav>
+        )}
+
+        <form onSubmit={handleCreate} className="flex items-center gap-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            maxLength={MAX_SHORTLIST_NAME_LENGTH}
+            placeholder="New shortlist"
+            aria-label="New shortlist name"
+            className="min-w-0 flex-1 rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+          <button
+            type="submit"
+            disabled={isCreating || !newName.trim()}
+            className="flex h-9 w-9 flex-shrink-0 items-center justify-center rounded-lg bg-[#6366f1] text-white transition-opacity hover:opacity-90 disabled:opacity-50"
+            aria-label="Create shortlist"
+          >
+            {isCreating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+          </button>
+        </form>
+      </aside>
+
+      <section>
+        {!selected ? (
+          <div className="rounded-2xl border border-gray-200 bg-white p-10 text-center">
+            <h2 className="mb-2 text-lg font-semibold text-gray-900">No shortlists yet</h2>
+            <p className="mb-6 text-sm text-gray-600">
+              Create a shortlist, or save players to one straight from the search results.
+            </p>
+            <button
+              onClick={onFindPlayers}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Find Players
+            </button>
+          </div>
+        ) : (
+          <>
+            <div className="mb-4 flex items-center gap-2">
+              {renameDraft !== null ? (
+                <form onSubmit={handleRename} className="flex flex-1 items-center gap-2">
+                  <input
+                    type="text"
+                    value={renameDraft}
+                    onChange={(e) => setRenameDraft(e.target.value)}
+                    maxLength={MAX_SHORTLIST_NAME_LENGTH}
+                    aria-label="Shortlist name"
+                    autoFocus
+                    className="min-w-0 flex-1 rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  />
+                  <button
+                    type="submit"
+                    disabled={isRenaming || !renameDraft.trim()}
+                    className="flex h-9 w-9 items-center justify-center rounded-lg text-emerald-600 transition-colors hover:bg-emerald-50 disabled:opacity-50"
+                    aria-label="Save name"
+                  >
+                    {isRenaming ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setRenameDraft(null)}
+                    className="flex h-9 w-9 items-center justify-center rounded-lg text-gray-500 transition-colors hover:bg-gray-100"
+                    aria-label="Cancel rename"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </form>
+              ) : (
+                <>
+                  <h2 className="min-w-0 flex-1 truncate text-xl font-semibold text-gray-900">{selected.name}</h2>
+                  <button
+                    onClick={() => setRenameDraft(selected.name)}
+                    className="flex h-9 w-9 items-center justify-center rounded-lg text-gray-500 transition-colors hover:bg-gray-100"
+                    aria-label="Rename shortlist"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => setConfirmDelete(true)}
+                    className="flex h-9 w-9 items-center justify-center rounded-lg text-gray-500 transition-colors hover:bg-red-50 hover:text-red-600"
+                    aria-label="Delete shortlist"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </>
+              )}
+            </div>
+
+            {isLoading ? (
+              <div className="space-y-3">
+                {Array.from({ length: 3 }).map((_, index) => (
+                  <div key={index} className="flex gap-3 rounded-xl border border-gray-200 bg-white p-4">
+                    <Skeleton variant="circular" width={40} height={40} />
+                    <div className="flex-1 space-y-2">
+                      <Skeleton width="40%" height={16} />
+                      <Skeleton width="60%" height={14} />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : entries.length === 0 ? (
+              <p className="rounded-2xl border border-gray-200 bg-white p-8 text-center text-sm text-gray-600">
+                No players on this shortlist yet. Save players from the search results to track them here.
+              </p>
+            ) : (
+              <ul className="space-y-3">
+                {entries.map(entry => (
+                  <ShortlistEntryRow
+                    key={entry.player_id}
+                    entry={entry}
+                    onNoteSaved={note =>
+                      setEntries(prev =>
+                        prev.map(item => (item.player_id === entry.player_id ? { ...item, note } : item))
+                      )
+                    }
+                    onRemove={() => handleRemovePlayer(entry)}
+                  />
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </section>
+
+      <ConfirmActionModal
+        isOpen={confirmDelete}
+        onClose={() => setConfirmDelete(false)}
+        onConfirm={handleDelete}
+        confirmLabel="Delete Shortlist"
+        confirmTone="danger"
+        confirmLoading={isDeleting}
+        loadingLabel="Deleting..."
+        title="Delete this shortlist?"
+        description="The list and your private notes on its players will be deleted. Players are not notified."
+        icon={<Trash2 className="h-6 w-6" />}
+        body={selected ? <p className="text-sm font-medium text-gray-900">{selected.name}</p> : undefined}
+      />
+    </div>
+  )
+}
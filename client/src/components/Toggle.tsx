@@ -0,0 +1,29 @@
+interface ToggleProps {
+  enabled: boolean
+  disabled: boolean
+  label: string
+  onToggle: () => void
+}
+
+/** Accessible on/off switch used in settings lists */
+export default function Toggle({ enabled, disabled, label, onToggle }: ToggleProps) {
+  return (
+    <button
+      type="button"
+      role="switch"
+      aria-checked={enabled}
+      aria-label={label}
+      onClick={onToggle}
+      disabled={disabled}
+      className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors disabled:opacity-50 ${
+        enabled ? 'bg-[#6366f1]' : 'bg-gray-300'
+      }`}
+    >
+      <span
+        className={`inline-block h-5 w-5 transform rounded-full bg-white shadow transition-transform ${
+          enabled ? 'translate-x-5' : 'translate-x-0.5'
+        }`}
+      />
+    </button>
+  )
+}
@@ -0,0 +1,175 @@
+import { useEffect, useRef, useState } from 'react'
+import { Ban, Flag, MoreHorizontal } from 'lucide-react'
+import { logger } from '@/lib/logger'
+import { useToastStore } from '@/lib/toast'
+import { blockUser, fetchIsBlocked, unblockUser } from '@/lib/moderation'
+import ConfirmActionModal from './ConfirmActionModal'
+import ReportUserModal, { type ReportableMessage } from './ReportUserModal'
+
+interface UserSafetyMenuProps {
+  currentUserId: string
+  user: { id: string; full_name: string | null }
+  conversationId?: string | null
+  messages?: ReportableMessage[]
+  onBlocked?: () => void
+  buttonClassName?: string
+}
+
+/**
+ * "More" menu with Report and Block/Unblock, shown on public profiles and in
+ * direct chats.
+ */
+export default function UserSafetyMenu({
+  currentUserId,
+  user,
+  conversationId,
+  messages,
+  onBlocked,
+  buttonClassName = 'rounded-lg p-2 text-gray-600 transition-colors hover:bg-gray-100'
+}: UserSafetyMenuProps) {
+  const { addToast } = useToastStore()
+  const [menuOpen, setMenuOpen] = useState(false)
+  const [isBlocked, setIsBlocked] = useState(false)
+  const [showReportModal, setShowReportModal] = useState(false)
+  const [showBlockConfirm, setShowBlockConfirm] = useState(false)
+  const [isUpdatingBlock, setIsUpdatingBlock] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  const name = user.full_name || 'this member'
+
+  useEffect(() => {
+    let cancelled = false
+    fetchIsBlocked(currentUserId, user.id)
+      .then(blocked => {
+        if (!cancelled) setIsBlocked(blocked)
+      })
+      .catch(error => logger.error('Error fetching block status:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [currentUserId, user.id])
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setMenuOpen(false)
+      }
+    }
+
+    if (menuOpen) {
+      document.addEventListener('mousedown', handleClickOutside)
+      return () => document.removeEventListener('mousedown', handleClickOutside)
+    }
+  }, [menuOpen])
+
+  const handleBlock = async () => {
+    setIsUpdatingBlock(true)
+    try {
+      await blockUser(currentUserId, user.id)
+      setIsBlocked(true)
+      setShowBlockConfirm(false)
+      addToast(`${name} blocked.`, 'success')
+      onBlocked?.()
+    } catch (error) {
+      logger.error('Error blocking user:', error)
+      addToast('Failed to block. Please try again.', 'error')
+    } finally {
+      setIsUpdatingBlock(false)
+    }
+  }
+
+  const handleUnblock = async () => {
+    setIsUpdatingBlock(true)
+    try {
+      await unblockUser(currentUserId, user.id)
+      setIsBlocked(false)
+      addToast(`${name} unblocked.`, 'success')
+    } catch (error) {
+      logger.error('Error unblocking user:', error)
+      addToast('Failed to unblock. Please try again.', 'error')
+    } finally {
+      setIsUpdatingBlock(false)
+    }
+  }
+
+  return (
+    <>
+      <div className="relative" ref={menuRef}>
+        <button
+          type="button"
+          onClick={() => setMenuOpen(open => !open)}
+          className={buttonClassName}
+          aria-label="More options"
+          aria-haspopup="true"
+          aria-expanded={menuOpen}
+        >
+          <MoreHorizontal className="h-5 w-5" />
+        </button>
+
+        {menuOpen && (
+          <div
+            className="absolute right-0 z-50 mt-2 w-48 rounded-lg border border-gray-200 bg-white py-1 shadow-lg"
+            role="menu"
+            aria-orientation="vertical"
+          >
+            <button
+              type="button"
+              onClick={() => {
+                setMenuOpen(false)
+                setShowReportModal(true)
+              }}
+              className="flex w-full items-center gap-2 px-4 py-2 text-left text-sm text-gray-700 transition-colors hover:bg-gray-50"
+              role="menuitem"
+            >
+              <Flag className="h-4 w-4" />
+              Report
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setMenuOpen(false)
+                if (isBlocked) {
+                  void handleUnblock()
+                } else {
+                  setShowBlockConfirm(true)
+                }
+              }}
+              disabled={isUpdatingBlock}
+              className="flex w-full items-center gap-2 px-4 py-2 text-left text-sm text-red-600 transition-colors hover:bg-red-50 disabled:opacity-50"
+              role="menuitem"
+            >
+              <Ban className="h-4 w-4" />
+              {isBlocked ? 'Unblock' : 'Block'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <ReportUserModal
+        isOpen={showReportModal}
+        currentUserId={currentUserId}
+        reportedUser={user}
+        conversationId={conversationId}
+        messages={messages}
+        onClose={() => setShowReportModal(false)}
+        onBlocked={() => {
+          setIsBlocked(true)
+          onBlocked?.()
+        }}
+      />
+
+      <ConfirmActionModal
+        isOpen={showBlockConfirm}
+        onClose={() => setShowBlockConfirm(false)}
+        onConfirm={() => void handleBlock()}
+        title={`Block ${name}?`}
+        description="You won't be able to message each other, and your chat with them will be hidden. They won't be told. You can unblock them from Settings."
+        confirmLabel="Block"
+        confirmTone="danger"
+        confirmLoading={isUpdatingBlock}
+        loadingLabel="Blocking..."
+      />
+    </>
+  )
+}
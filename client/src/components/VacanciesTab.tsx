@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react'
-import { Plus, Edit2, Copy, Archive, MapPin, Calendar, Users, Eye, Rocket, Trash2, Loader2 } from 'lucide-react'
+import { Plus, Edit2, Copy, Archive, MapPin, Calendar, Clock, Users, Eye, Rocket, Trash2, Loader2 } from 'lucide-react'
 import { useNavigate } from 'react-router-dom'
 import { supabase } from '../lib/supabase'
 import { useAuthStore } from '../lib/auth'
@@ -202,7 +202,7 @@ export default function VacanciesTab({ profileId, readOnly = false, triggerCreat
     setActionLoading({ id: vacancy.id, action: 'duplicate' })
     try {
       // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      const { id, created_at, updated_at, published_at, closed_at, ...duplicateData } = vacancy
+      const { id, created_at, updated_at, published_at, closed_at, scheduled_publish_at, ...duplicateData } = vacancy
       
       const newVacancy = {
         ...duplicateData,
@@ -253,14 +253,19 @@ export default function VacanciesTab({ profileId, readOnly = false, triggerCreat
     setShowPublishModal(true)
   }
 
-  const handlePublish = async () => {
+  const handlePublish = async (scheduledPublishAt: string | null) => {
   if (actionLoading || !vacancyToPublish) return
     
   setActionLoading({ id: vacancyToPublish.id, action: 'publish' })
     try {
+      // Scheduled drafts stay drafts until process_vacancy_schedule publishes them
       const { error } = await supabase
         .from('vacancies')
-        .update({ status: 'open', published_at: new Date().toISOString() } as never)
+        .update(
+          (scheduledPublishAt
+            ? { scheduled_publish_at: scheduledPublishAt }
+            : { status: 'open', published_at: new Date().toISOString() }) as never
+        )
         .eq('id', vacancyToPublish.id)
 
       if (error) throw error
@@ -270,7 +275,12 @@ export default function VacanciesTab({ profileId, readOnly = false, triggerCreat
       // Close modal and show success toast
       setShowPublishModal(false)
       setVacancyToPublish(null)
-      addToast('Vacancy published successfully!', 'success')
+      addToast(
+        scheduledPublishAt
+          ? `Vacancy scheduled to publish on ${formatDateTime(scheduledPublishAt)}.`
+          : 'Vacancy published successfully!',
+        'success'
+      )
     } catch (error) {
       console.error('Error publishing vacancy:', error)
       addToast('Failed to publish vacancy. Please try again.', 'error')
@@ -279,6 +289,28 @@ export default function VacanciesTab({ profileId, readOnly = false, triggerCreat
     }
   }
 
+  const handleCancelSchedule = async (vacancyId: string) => {
+    if (actionLoading) return
+
+    setActionLoading({ id: vacancyId, action: 'publish' })
+    try {
+      const { error } = await supabase
+        .from('vacancies')
+        .update({ scheduled_publish_at: null } as never)
+        .eq('id', vacancyId)
+
+      if (error) throw error
+
+      await fetchVacancies()
+      addToast('Scheduled publishing cancelled.', 'success')
+    } catch (error) {
+      console.error('Error cancelling scheduled publish:', error)
+      addToast('Failed to cancel the schedule. Please try again.', 'error')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
   const handleDeleteClick = (vacancy: Vacancy) => {
     setVacancyToDelete(vacancy)
     setShowDeleteModal(true)
@@ -340,6 +372,11 @@ export default function VacanciesTab({ profileId, readOnly = false, triggerCreat
     return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
   }
 
+  const formatDateTime = (dateString: string) => {
+    const date = new Date(dateString)
+    return date.toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' })
+  }
+
   if (isLoading) {
     return (
       <div className="space-y-6">
@@ -507,7 +544,7 @@ export default function VacanciesTab({ profileId, readOnly = false, triggerCreat
               )}
 
               {/* Draft Warning Message */}
-              {!readOnly && vacancy.status === 'draft' && (
+              {!readOnly && vacancy.status === 'draft' && !vacancy.scheduled_publish_at && (
                 <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 mb-4">
                   <p className="text-xs text-amber-800 font-medium">
                     ⚠️ This opportunity is <strong>not visible to players</strong>. Click "Publish" to make it live.
@@ -515,6 +552,25 @@ export default function VacanciesTab({ profileId, readOnly = false, triggerCreat
                 </div>
               )}
 
+              {/* Scheduled Publish Message */}
+              {!readOnly && vacancy.status === 'draft' && vacancy.scheduled_publish_at && (
+                <div className="flex items-center justify-between gap-3 bg-blue-50 border border-blue-200 rounded-lg p-3 mb-4">
+                  <p className="flex items-center gap-2 text-xs text-blue-800 font-medium">
+                    <Clock className="w-4 h-4 flex-shrink-0" />
+                    <span>
+                      Scheduled to publish on <strong>{formatDateTime(vacancy.scheduled_publish_at)}</strong>
+                    </span>
+                  </p>
+                  <button
+                    onClick={() => handleCancelSchedule(vacancy.id)}
+                    disabled={Boolean(actionLoading)}
+                    className="text-xs font-semibold text-blue-700 hover:text-blue-900 disabled:opacity-50"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+
               {/* Apply Button - Public View */}
               {readOnly && vacancy.status === 'open' && (
                 <div className="pt-4 border-t border-gray-200">
@@ -739,6 +795,7 @@ export default function VacanciesTab({ profileId, readOnly = false, triggerCreat
           }}
           onConfirm={handlePublish}
           vacancyTitle={vacancyToPublish.title}
+          scheduledPublishAt={vacancyToPublish.scheduled_publish_at}
           isLoading={actionLoading?.id === vacancyToPublish.id && actionLoading.action === 'publish'}
         />
       )}
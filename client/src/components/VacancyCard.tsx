@@ -1,6 +1,7 @@
-import { MapPin, Calendar, Clock, Eye, Home, Car, Globe as GlobeIcon, Plane, Utensils, Briefcase, Shield, GraduationCap } from 'lucide-react'
+import { MapPin, Calendar, Clock, Eye, Target, Home, Car, Globe as GlobeIcon, Plane, Utensils, Briefcase, Shield, GraduationCap } from 'lucide-react'
 import { useNavigate } from 'react-router-dom'
 import type { Vacancy } from '../lib/supabase'
+import { getMatchBadgeClassName } from '../lib/matchScore'
 import { Avatar } from './index'
 import Button from './Button'
 
@@ -12,6 +13,8 @@ interface VacancyCardProps {
   onViewDetails: () => void
   onApply?: () => void
   hasApplied?: boolean
+  /** Viewer's fit for this vacancy (0-100), from vacancy_recommendation_scores */
+  matchScore?: number | null
 }
 
 const BENEFIT_ICONS: Record<string, React.ComponentType<{ className?: string }>> = {
@@ -32,7 +35,8 @@ export default function VacancyCard({
   clubId,
   onViewDetails,
   onApply,
-  hasApplied = false
+  hasApplied = false,
+  matchScore = null
 }: VacancyCardProps) {
   const navigate = useNavigate()
 
@@ -134,6 +138,15 @@ export default function VacancyCard({
             {getPriorityLabel(vacancy.priority)}
           </span>
         )}
+        {typeof matchScore === 'number' && (
+          <span
+            className={`inline-flex h-7 items-center gap-1 rounded-full px-3 text-xs font-semibold ${getMatchBadgeClassName(matchScore)}`}
+            title="How well this opportunity fits your profile"
+          >
+            <Target className="h-3.5 w-3.5" />
+            {matchScore}% match
+          </span>
+        )}
       </div>
 
       {/* Title */}
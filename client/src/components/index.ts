@@ -8,6 +8,7 @@ export { default as Footer } from './Footer'
 export { default as Layout } from './Layout'
 export { default as MobileBottomNav } from './MobileBottomNav'
 export { default as NotificationBadge } from './NotificationBadge'
+export { default as Toggle } from './Toggle'
 export { default as EditProfileModal } from './EditProfileModal'
 export { default as DeleteAccountModal } from './DeleteAccountModal'
 export { default as MemberCard } from './MemberCard'
@@ -0,0 +1,20 @@
+import { useEffect } from 'react'
+import { useAuthStore } from '@/lib/auth'
+import { useOutboxStore } from '@/lib/messageOutbox'
+
+/** Replays the signed-in user's queued messages on start-up and reconnect */
+export function useMessageOutbox() {
+  const userId = useAuthStore(state => state.user?.id ?? null)
+  const initialize = useOutboxStore(state => state.initialize)
+  const reset = useOutboxStore(state => state.reset)
+
+  useEffect(() => {
+    void initialize(userId)
+
+    return () => {
+      if (!userId) {
+        reset()
+      }
+    }
+  }, [initialize, reset, userId])
+}
@@ -0,0 +1,27 @@
+import { useEffect } from 'react'
+import { useAuthStore } from '@/lib/auth'
+import { useNotificationsStore } from '@/lib/notifications'
+
+export function useNotifications() {
+  const userId = useAuthStore(state => state.user?.id ?? null)
+  const items = useNotificationsStore(state => state.items)
+  const unreadCount = useNotificationsStore(state => state.unreadCount)
+  const loading = useNotificationsStore(state => state.loading)
+  const initialize = useNotificationsStore(state => state.initialize)
+  const markRead = useNotificationsStore(state => state.markRead)
+  const markAllRead = useNotificationsStore(state => state.markAllRead)
+  const remove = useNotificationsStore(state => state.remove)
+  const reset = useNotificationsStore(state => state.reset)
+
+  useEffect(() => {
+    void initialize(userId)
+
+    return () => {
+      if (!userId) {
+        reset()
+      }
+    }
+  }, [initialize, reset, userId])
+
+  return { items, unreadCount, loading, markRead, markAllRead, remove }
+}
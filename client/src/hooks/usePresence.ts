@@ -0,0 +1,20 @@
+import { useEffect } from 'react'
+import { useAuthStore } from '@/lib/auth'
+import { usePresenceStore } from '@/lib/presence'
+
+/** Loads the signed-in user's presence settings and keeps their last seen time fresh */
+export function usePresence() {
+  const userId = useAuthStore(state => state.user?.id ?? null)
+  const initialize = usePresenceStore(state => state.initialize)
+  const reset = usePresenceStore(state => state.reset)
+
+  useEffect(() => {
+    void initialize(userId)
+
+    return () => {
+      if (!userId) {
+        reset()
+      }
+    }
+  }, [initialize, reset, userId])
+}
@@ -0,0 +1,104 @@
+import type { ApplicationStatus } from './supabase'
+
+interface ApplicationStageMeta {
+  label: string
+  description: string
+  badgeClassName: string
+  accentClassName: string
+}
+
+/**
+ * Pipeline stages in the order they appear on the applicant board.
+ * Mirrors the application_status enum in the database.
+ */
+export const APPLICATION_STAGES: ApplicationStatus[] = [
+  'pending',
+  'reviewed',
+  'shortlisted',
+  'interview',
+  'accepted',
+  'rejected',
+  'withdrawn',
+]
+
+export const APPLICATION_STAGE_META: Record<ApplicationStatus, ApplicationStageMeta> = {
+  pending: {
+    label: 'New',
+    description: 'Waiting for review',
+    badgeClassName: 'bg-gray-100 text-gray-700',
+    accentClassName: 'bg-gray-400',
+  },
+  reviewed: {
+    label: 'Reviewed',
+    description: 'Profile checked by staff',
+    badgeClassName: 'bg-blue-50 text-blue-700',
+    accentClassName: 'bg-blue-500',
+  },
+  shortlisted: {
+    label: 'Shortlisted',
+    description: 'Strong candidates',
+    badgeClassName: 'bg-purple-50 text-purple-700',
+    accentClassName: 'bg-purple-500',
+  },
+  interview: {
+    label: 'Interview',
+    description: 'Trial or call scheduled',
+    badgeClassName: 'bg-amber-50 text-amber-700',
+    accentClassName: 'bg-amber-500',
+  },
+  accepted: {
+    label: 'Accepted',
+    description: 'Offer made',
+    badgeClassName: 'bg-green-50 text-green-700',
+    accentClassName: 'bg-green-500',
+  },
+  rejected: {
+    label: 'Rejected',
+    description: 'Not moving forward',
+    badgeClassName: 'bg-red-50 text-red-700',
+    accentClassName: 'bg-red-500',
+  },
+  withdrawn: {
+    label: 'Withdrawn',
+    description: 'Withdrawn by applicant',
+    badgeClassName: 'bg-gray-100 text-gray-500',
+    accentClassName: 'bg-gray-300',
+  },
+}
+
+/**
+ * Stages a club can move an applicant into.
+ * Withdrawal is reserved for the applicant themselves.
+ */
+export const CLUB_MOVABLE_STAGES: ApplicationStatus[] = APPLICATION_STAGES.filter(
+  (stage) => stage !== 'withdrawn'
+)
+
+/**
+ * Allowed stage transitions. Mirrors public.is_valid_application_transition,
+ * which rejects anything else at the database level.
+ */
+export const APPLICATION_TRANSITIONS: Record<ApplicationStatus, ApplicationStatus[]> = {
+  pending: ['reviewed', 'shortlisted', 'interview', 'accepted', 'rejected', 'withdrawn'],
+  reviewed: ['shortlisted', 'interview', 'accepted', 'rejected', 'withdrawn'],
+  shortlisted: ['reviewed', 'interview', 'accepted', 'rejected', 'withdrawn'],
+  interview: ['reviewed', 'shortlisted', 'accepted', 'rejected', 'withdrawn'],
+  accepted: ['interview', 'rejected', 'withdrawn'],
+  rejected: ['reviewed', 'shortlisted', 'interview'],
+  withdrawn: [],
+}
+
+export const canTransitionApplication = (from: ApplicationStatus, to: ApplicationStatus): boolean =>
+  APPLICATION_TRANSITIONS[from].includes(to)
+
+/**
+ * Stages a club may move an application into from its current stage.
+ */
+export const getClubMoveTargets = (from: ApplicationStatus): ApplicationStatus[] =>
+  CLUB_MOVABLE_STAGES.filter((stage) => canTransitionApplication(from, stage))
+
+/**
+ * Whether the applicant can still pull out of an application.
+ */
+export const canWithdrawApplication = (status: ApplicationStatus): boolean =>
+  canTransitionApplication(status, 'withdrawn')
@@ -7,6 +7,7 @@ import { requestCache, generateCacheKey } from './requestCache'
 import { monitor } from './monitor'
 import { logger } from './logger'
 import { useUnreadStore } from './unread'
+import { usePresenceStore } from './presence'
 
 interface AuthState {
   user: User | null
@@ -163,6 +164,12 @@ const clearLocalSession = async (reason: string, options?: ClearSessionOptions)
     logger.error('[AUTH_STORE] Failed to reset unread store during sign-out', { unreadResetError })
   }
 
+  try {
+    usePresenceStore.getState().reset()
+  } catch (presenceResetError) {
+    logger.error('[AUTH_STORE] Failed to reset presence store during sign-out', { presenceResetError })
+  }
+
   if (localStorageAvailable()) {
     try {
       window.localStorage.removeItem('playr-auth')
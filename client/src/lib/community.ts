@@ -0,0 +1,176 @@
+import { supabase } from './supabase'
+import type { Database } from './database.types'
+
+export type CommunityRole = 'player' | 'coach' | 'club'
+
+/** Structured Community filters; stored as jsonb keys by search_profiles */
+export interface CommunityFilters {
+  roles: CommunityRole[]
+  positions: string[]
+  /** Match `positions` against the primary position only */
+  primaryPositionOnly: boolean
+  genders: string[]
+  ageMin: number | null
+  ageMax: number | null
+  nationalities: string[]
+  passports: string[]
+  /** At least one passport from an EU member state */
+  euPassport: boolean
+  leagues: string[]
+  availability: string[]
+  locations: string[]
+}
+
+export type CommunityFacet =
+  | 'role'
+  | 'position'
+  | 'gender'
+  | 'age'
+  | 'nationality'
+  | 'passport'
+  | 'eu_passport'
+  | 'league'
+  | 'availability'
+  | 'location'
+
+/** Facets whose values toggle in and out of a list filter */
+export type ListFacet = Exclude<CommunityFacet, 'age' | 'eu_passport'>
+
+type ListFilterKey = {
+  [K in keyof CommunityFilters]: CommunityFilters[K] extends string[] ? K : never
+}[keyof CommunityFilters]
+
+export const DEFAULT_COMMUNITY_FILTERS: CommunityFilters = {
+  roles: [],
+  positions: [],
+  primaryPositionOnly: false,
+  genders: [],
+  ageMin: null,
+  ageMax: null,
+  nationalities: [],
+  passports: [],
+  euPassport: false,
+  leagues: [],
+  availability: [],
+  locations: [],
+}
+
+/** Which CommunityFilters key each list facet narrows */
+export const FACET_FILTER_KEYS: Record<ListFacet, ListFilterKey> = {
+  role: 'roles',
+  position: 'positions',
+  gender: 'genders',
+  nationality: 'nationalities',
+  passport: 'passports',
+  league: 'leagues',
+  availability: 'availability',
+  location: 'locations',
+}
+
+export type ProfileAvailability = 'available' | 'open_to_offers' | 'not_available'
+
+export const AVAILABILITY_OPTIONS: { value: ProfileAvailability; label: string }[] = [
+  { value: 'available', label: 'Available now' },
+  { value: 'open_to_offers', label: 'Open to offers' },
+  { value: 'not_available', label: 'Not available' },
+]
+
+/** Normalised gender groups returned by the gender facet */
+export const GENDER_LABELS: Record<string, string> = {
+  men: 'Men',
+  women: 'Women',
+  other: 'Other',
+}
+
+/** Age facet buckets; keys match profile_age_bucket() */
+export const AGE_BUCKETS: { value: string; label: string; min: number | null; max: number | null }[] = [
+  { value: 'under_21', label: 'Under 21', min: null, max: 20 },
+  { value: '21_25', label: '21–25', min: 21, max: 25 },
+  { value: '26_30', label: '26–30', min: 26, max: 30 },
+  { value: '31_35', label: '31–35', min: 31, max: 35 },
+  { value: '36_plus', label: '36+', min: 36, max: null },
+]
+
+type SearchProfilesRow = Database['public']['Functions']['search_profiles']['Returns'][number]
+
+export type CommunityMember = Omit<SearchProfilesRow, 'role'> & { role: CommunityRole }
+
+export interface FacetCount {
+  value: string
+  count: number
+}
+
+export type CommunityFacets = Record<CommunityFacet, FacetCount[]>
+
+export const emptyFacets = (): CommunityFacets => ({
+  role: [],
+  position: [],
+  gender: [],
+  age: [],
+  nationality: [],
+  passport: [],
+  eu_passport: [],
+  league: [],
+  availability: [],
+  location: [],
+})
+
+/** Number of active filters other than role, for the Filters button badge */
+export const countFacetFilters = (filters: CommunityFilters) =>
+  filters.positions.length +
+  filters.genders.length +
+  (filters.ageMin !== null || filters.ageMax !== null ? 1 : 0) +
+  filters.nationalities.length +
+  filters.passports.length +
+  (filters.euPassport ? 1 : 0) +
+  filters.leagues.length +
+  filters.availability.length +
+  filters.locations.length
+
+export const hasActiveFilters = (filters: CommunityFilters) =>
+  filters.roles.length > 0 || countFacetFilters(filters) > 0
+
+/**
+ * Fetch one page of Community members ranked by relevance to `query`
+ * (newest first without a query).
+ */
+export async function searchProfiles(
+  query: string,
+  filters: CommunityFilters,
+  offset: number,
+  limit: number
+): Promise<{ members: CommunityMember[]; total: number }> {
+  const { data, error } = await supabase.rpc('search_profiles', {
+    p_query: query.trim() || undefined,
+    p_filters: { ...filters },
+    p_limit: limit,
+    p_offset: offset,
+  })
+
+  if (error) throw error
+
+  const members = (data ?? []) as CommunityMember[]
+  return {
+    members,
+    // Every row carries the overall count; an empty page past the end has none
+    total: members[0]?.total_count ?? offset,
+  }
+}
+
+/** Facet counts for the current query and filters */
+export async function fetchProfileFacets(query: string, filters: CommunityFilters): Promise<CommunityFacets> {
+  const { data, error } = await supabase.rpc('search_profile_facets', {
+    p_query: query.trim() || undefined,
+    p_filters: { ...filters },
+  })
+
+  if (error) throw error
+
+  const facets = emptyFacets()
+  for (const row of data ?? []) {
+    if (row.facet in facets) {
+      facets[row.facet as CommunityFacet].push({ value: row.value, count: row.count })
+    }
+  }
+  return facets
+}
@@ -0,0 +1,106 @@
+import { supabase } from './supabase'
+
+export const MAX_GROUP_MEMBERS = 50
+export const MAX_GROUP_TITLE_LENGTH = 80
+
+export interface MemberProfile {
+  id: string
+  full_name: string
+  username: string | null
+  avatar_url: string | null
+  role: 'player' | 'coach' | 'club'
+}
+
+export interface ConversationMember {
+  user_id: string
+  role: 'admin' | 'member'
+  joined_at: string
+  last_read_at: string | null
+  profile: MemberProfile | null
+}
+
+const PROFILE_COLUMNS = 'id, full_name, username, avatar_url, role'
+
+export async function fetchConversationMembers(conversationId: string): Promise<ConversationMember[]> {
+  const { data, error } = await supabase
+    .from('conversation_participants')
+    .select(`user_id, role, joined_at, last_read_at, profile:profiles!conversation_participants_user_id_fkey(${PROFILE_COLUMNS})`)
+    .eq('conversation_id', conversationId)
+    .order('joined_at', { ascending: true })
+
+  if (error) throw error
+
+  return (data ?? []).map(row => ({
+    user_id: row.user_id,
+    role: row.role === 'admin' ? 'admin' : 'member',
+    joined_at: row.joined_at,
+    last_read_at: row.last_read_at,
+    profile: row.profile as MemberProfile | null,
+  }))
+}
+
+/** Completed profiles matching a name, for picking group members */
+export async function searchMemberProfiles(query: string, excludeIds: string[]): Promise<MemberProfile[]> {
+  const term = query.trim().replace(/[%_,()]/g, '')
+  if (term.length < 2) return []
+
+  let request = supabase
+    .from('profiles')
+    .select(PROFILE_COLUMNS)
+    .eq('onboarding_completed', true)
+    .or(`full_name.ilike.%${term}%,username.ilike.%${term}%`)
+    .order('full_name', { ascending: true })
+    .limit(8)
+
+  if (excludeIds.length > 0) {
+    request = request.not('id', 'in', `(${excludeIds.join(',')})`)
+  }
+
+  const { data, error } = await request
+  if (error) throw error
+
+  return (data ?? []).map(profile => ({
+    ...profile,
+    full_name: profile.full_name ?? '',
+    role: (profile.role ?? 'player') as MemberProfile['role'],
+  }))
+}
+
+export async function createGroupConversation(title: string, memberIds: string[]): Promise<string> {
+  const { data, error } = await supabase.rpc('create_group_conversation', {
+    p_title: title.trim(),
+    p_member_ids: memberIds,
+  })
+
+  if (error) throw error
+  return data
+}
+
+export async function addConversationMembers(conversationId: string, userIds: string[]): Promise<number> {
+  const { data, error } = await supabase.rpc('add_conversation_members', {
+    p_conversation_id: conversationId,
+    p_user_ids: userIds,
+  })
+
+  if (error) throw error
+  return data ?? 0
+}
+
+/** Removing yourself leaves the group */
+export async function removeConversationMember(conversationId: string, userId: string): Promise<void> {
+  const { error } = await supabase.rpc('remove_conversation_member', {
+    p_conversation_id: conversationId,
+    p_user_id: userId,
+  })
+
+  if (error) throw error
+}
+
+export async function renameGroupConversation(conversationId: string, title: string): Promise<void> {
+  const { error } = await supabase.rpc('rename_group_conversation', {
+    p_conversation_id: conversationId,
+    p_title: title.trim(),
+  })
+
+  if (error) throw error
+}
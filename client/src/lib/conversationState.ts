@@ -0,0 +1,25 @@
+import { supabase } from './supabase'
+
+/** The current user's own organisation of a conversation */
+export interface ConversationStateChanges {
+  archived?: boolean
+  pinned?: boolean
+  muted?: boolean
+  markedUnread?: boolean
+}
+
+/** Updates only the parts of the state that are given */
+export async function updateConversationState(
+  conversationId: string,
+  changes: ConversationStateChanges
+): Promise<void> {
+  const { error } = await supabase.rpc('set_conversation_state', {
+    p_conversation_id: conversationId,
+    p_archived: changes.archived,
+    p_pinned: changes.pinned,
+    p_muted: changes.muted,
+    p_marked_unread: changes.markedUnread,
+  })
+
+  if (error) throw error
+}
@@ -39,6 +39,48 @@ export type Database = {
   }
   public: {
     Tables: {
+      application_status_history: {
+        Row: {
+          application_id: string
+          changed_at: string
+          changed_by: string | null
+          from_status: Database["public"]["Enums"]["application_status"] | null
+          id: string
+          to_status: Database["public"]["Enums"]["application_status"]
+        }
+        Insert: {
+          application_id: string
+          changed_at?: string
+          changed_by?: string | null
+          from_status?: Database["public"]["Enums"]["application_status"] | null
+          id?: string
+          to_status: Database["public"]["Enums"]["application_status"]
+        }
+        Update: {
+          application_id?: string
+          changed_at?: string
+          changed_by?: string | null
+          from_status?: Database["public"]["Enums"]["application_status"] | null
+          id?: string
+          to_status?: Database["public"]["Enums"]["application_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "application_status_history_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "vacancy_applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "application_status_history_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       club_media: {
         Row: {
           alt_text: string | null
@@ -89,35 +131,112 @@ export type Database = {
           },
         ]
       }
+      conversation_participants: {
+        Row: {
+          added_by: string | null
+          archived_at: string | null
+          conversation_id: string
+          joined_at: string
+          last_read_at: string | null
+          marked_unread: boolean
+          muted_at: string | null
+          pinned_at: string | null
+          role: string
+          user_id: string
+        }
+        Insert: {
+          added_by?: string | null
+          archived_at?: string | null
+          conversation_id: string
+          joined_at?: string
+          last_read_at?: string | null
+          marked_unread?: boolean
+          muted_at?: string | null
+          pinned_at?: string | null
+          role?: string
+          user_id: string
+        }
+        Update: {
+          added_by?: string | null
+          archived_at?: string | null
+          conversation_id?: string
+          joined_at?: string
+          last_read_at?: string | null
+          marked_unread?: boolean
+          muted_at?: string | null
+          pinned_at?: string | null
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_participants_added_by_fkey"
+            columns: ["added_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_participants_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_participants_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       conversations: {
         Row: {
           created_at: string
+          created_by: string | null
           id: string
+          is_group: boolean
           last_message_at: string | null
-          participant_one_id: string
-          participant_two_id: string
+          participant_one_id: string | null
+          participant_two_id: string | null
+          title: string | null
           updated_at: string
           version: number
         }
         Insert: {
           created_at?: string
+          created_by?: string | null
           id?: string
+          is_group?: boolean
           last_message_at?: string | null
-          participant_one_id: string
-          participant_two_id: string
+          participant_one_id?: string | null
+          participant_two_id?: string | null
+          title?: string | null
           updated_at?: string
           version?: number
         }
         Update: {
           created_at?: string
+          created_by?: string | null
           id?: string
+          is_group?: boolean
           last_message_at?: string | null
-          participant_one_id?: string
-          participant_two_id?: string
+          participant_one_id?: string | null
+          participant_two_id?: string | null
+          title?: string | null
           updated_at?: string
           version?: number
         }
         Relationships: [
+          {
+            foreignKeyName: "conversations_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "conversations_participant_one_id_fkey"
             columns: ["participant_one_id"]
@@ -134,6 +253,56 @@ export type Database = {
           },
         ]
       }
+      email_outbox: {
+        Row: {
+          attempts: number
+          created_at: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          payload: Json
+          send_after: string
+          sent_at: string | null
+          status: string
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          payload?: Json
+          send_after?: string
+          sent_at?: string | null
+          status?: string
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          payload?: Json
+          send_after?: string
+          sent_at?: string | null
+          status?: string
+          type?: Database["public"]["Enums"]["notification_type"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_outbox_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       gallery_photos: {
         Row: {
           created_at: string | null
@@ -155,30 +324,116 @@ export type Database = {
         }
         Relationships: []
       }
+      message_reactions: {
+        Row: {
+          created_at: string
+          emoji: string
+          message_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          emoji: string
+          message_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          emoji?: string
+          message_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_reactions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_reactions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_templates: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          id?: string
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_templates_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
+          attachments: Json
           content: string
           conversation_id: string
+          deleted_at: string | null
+          delivered_at: string | null
+          edited_at: string | null
           id: string
           idempotency_key: string | null
+          reactions: Json
           read_at: string | null
           sender_id: string
           sent_at: string
         }
         Insert: {
+          attachments?: Json
           content: string
           conversation_id: string
+          deleted_at?: string | null
+          delivered_at?: string | null
+          edited_at?: string | null
           id?: string
           idempotency_key?: string | null
+          reactions?: Json
           read_at?: string | null
           sender_id: string
           sent_at?: string
         }
         Update: {
+          attachments?: Json
           content?: string
           conversation_id?: string
+          deleted_at?: string | null
+          delivered_at?: string | null
+          edited_at?: string | null
           id?: string
           idempotency_key?: string | null
+          reactions?: Json
           read_at?: string | null
           sender_id?: string
           sent_at?: string
@@ -200,6 +455,82 @@ export type Database = {
           },
         ]
       }
+      notification_preferences: {
+        Row: {
+          email_muted_types: Database["public"]["Enums"]["notification_type"][]
+          message_digest_interval: string
+          muted_types: Database["public"]["Enums"]["notification_type"][]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          email_muted_types?: Database["public"]["Enums"]["notification_type"][]
+          message_digest_interval?: string
+          muted_types?: Database["public"]["Enums"]["notification_type"][]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          email_muted_types?: Database["public"]["Enums"]["notification_type"][]
+          message_digest_interval?: string
+          muted_types?: Database["public"]["Enums"]["notification_type"][]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_preferences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          data: Json
+          id: string
+          link: string | null
+          read_at: string | null
+          title: string
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          data?: Json
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title: string
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          data?: Json
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title?: string
+          type?: Database["public"]["Enums"]["notification_type"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       playing_history: {
         Row: {
           achievements: string[] | null
@@ -239,8 +570,45 @@ export type Database = {
         }
         Relationships: []
       }
+      profile_views: {
+        Row: {
+          id: string
+          profile_id: string
+          viewed_at: string
+          viewer_id: string
+        }
+        Insert: {
+          id?: string
+          profile_id: string
+          viewed_at?: string
+          viewer_id: string
+        }
+        Update: {
+          id?: string
+          profile_id?: string
+          viewed_at?: string
+          viewer_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profile_views_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profile_views_viewer_id_fkey"
+            columns: ["viewer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
+          availability: string | null
           avatar_url: string | null
           base_location: string | null
           bio: string | null
@@ -270,6 +638,7 @@ export type Database = {
           year_founded: number | null
         }
         Insert: {
+          availability?: string | null
           avatar_url?: string | null
           base_location?: string | null
           bio?: string | null
@@ -299,6 +668,7 @@ export type Database = {
           year_founded?: number | null
         }
         Update: {
+          availability?: string | null
           avatar_url?: string | null
           base_location?: string | null
           bio?: string | null
@@ -329,6 +699,293 @@ export type Database = {
         }
         Relationships: []
       }
+      saved_search_matches: {
+        Row: {
+          email_queued: boolean
+          emailed_at: string | null
+          id: string
+          matched_at: string
+          saved_search_id: string
+          user_id: string
+          vacancy_id: string
+        }
+        Insert: {
+          email_queued?: boolean
+          emailed_at?: string | null
+          id?: string
+          matched_at?: string
+          saved_search_id: string
+          user_id: string
+          vacancy_id: string
+        }
+        Update: {
+          email_queued?: boolean
+          emailed_at?: string | null
+          id?: string
+          matched_at?: string
+          saved_search_id?: string
+          user_id?: string
+          vacancy_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_search_matches_saved_search_id_fkey"
+            columns: ["saved_search_id"]
+            isOneToOne: false
+            referencedRelation: "saved_searches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "saved_search_matches_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "saved_search_matches_vacancy_id_fkey"
+            columns: ["vacancy_id"]
+            isOneToOne: false
+            referencedRelation: "vacancies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_searches: {
+        Row: {
+          created_at: string
+          email_digest: boolean
+          filters: Json
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          email_digest?: boolean
+          filters?: Json
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          email_digest?: boolean
+          filters?: Json
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_searches_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scout_shortlist_players: {
+        Row: {
+          added_at: string
+          note: string | null
+          player_id: string
+          shortlist_id: string
+          updated_at: string
+        }
+        Insert: {
+          added_at?: string
+          note?: string | null
+          player_id: string
+          shortlist_id: string
+          updated_at?: string
+        }
+        Update: {
+          added_at?: string
+          note?: string | null
+          player_id?: string
+          shortlist_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scout_shortlist_players_player_id_fkey"
+            columns: ["player_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scout_shortlist_players_shortlist_id_fkey"
+            columns: ["shortlist_id"]
+            isOneToOne: false
+            referencedRelation: "scout_shortlists"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scout_shortlists: {
+        Row: {
+          club_id: string
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          club_id: string
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          club_id?: string
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scout_shortlists_club_id_fkey"
+            columns: ["club_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_blocks: {
+        Row: {
+          blocked_id: string
+          blocker_id: string
+          created_at: string
+        }
+        Insert: {
+          blocked_id: string
+          blocker_id: string
+          created_at?: string
+        }
+        Update: {
+          blocked_id?: string
+          blocker_id?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_blocks_blocked_id_fkey"
+            columns: ["blocked_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_blocks_blocker_id_fkey"
+            columns: ["blocker_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_presence: {
+        Row: {
+          hide_presence: boolean
+          last_seen_at: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          hide_presence?: boolean
+          last_seen_at?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          hide_presence?: boolean
+          last_seen_at?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_presence_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_reports: {
+        Row: {
+          conversation_id: string | null
+          created_at: string
+          details: string | null
+          id: string
+          message_excerpts: Json
+          reason: string
+          reported_user_id: string
+          reporter_id: string
+          resolution_note: string | null
+          reviewed_at: string | null
+          status: string
+        }
+        Insert: {
+          conversation_id?: string | null
+          created_at?: string
+          details?: string | null
+          id?: string
+          message_excerpts?: Json
+          reason: string
+          reported_user_id: string
+          reporter_id: string
+          resolution_note?: string | null
+          reviewed_at?: string | null
+          status?: string
+        }
+        Update: {
+          conversation_id?: string | null
+          created_at?: string
+          details?: string | null
+          id?: string
+          message_excerpts?: Json
+          reason?: string
+          reported_user_id?: string
+          reporter_id?: string
+          resolution_note?: string | null
+          reviewed_at?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_reports_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_reports_reported_user_id_fkey"
+            columns: ["reported_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_reports_reporter_id_fkey"
+            columns: ["reporter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       vacancies: {
         Row: {
           application_deadline: string | null
@@ -350,6 +1007,8 @@ export type Database = {
           priority: Database["public"]["Enums"]["vacancy_priority"] | null
           published_at: string | null
           requirements: string[] | null
+          scheduled_publish_at: string | null
+          screening_questions: Json
           start_date: string | null
           status: Database["public"]["Enums"]["vacancy_status"] | null
           title: string
@@ -376,6 +1035,8 @@ export type Database = {
           priority?: Database["public"]["Enums"]["vacancy_priority"] | null
           published_at?: string | null
           requirements?: string[] | null
+          scheduled_publish_at?: string | null
+          screening_questions?: Json
           start_date?: string | null
           status?: Database["public"]["Enums"]["vacancy_status"] | null
           title: string
@@ -402,6 +1063,8 @@ export type Database = {
           priority?: Database["public"]["Enums"]["vacancy_priority"] | null
           published_at?: string | null
           requirements?: string[] | null
+          scheduled_publish_at?: string | null
+          screening_questions?: Json
           start_date?: string | null
           status?: Database["public"]["Enums"]["vacancy_status"] | null
           title?: string
@@ -426,6 +1089,7 @@ export type Database = {
           metadata: Json | null
           player_id: string
           status: Database["public"]["Enums"]["application_status"]
+          status_changed_at: string
           updated_at: string
           vacancy_id: string
         }
@@ -436,6 +1100,7 @@ export type Database = {
           metadata?: Json | null
           player_id: string
           status?: Database["public"]["Enums"]["application_status"]
+          status_changed_at?: string
           updated_at?: string
           vacancy_id: string
         }
@@ -446,6 +1111,7 @@ export type Database = {
           metadata?: Json | null
           player_id?: string
           status?: Database["public"]["Enums"]["application_status"]
+          status_changed_at?: string
           updated_at?: string
           vacancy_id?: string
         }
@@ -468,6 +1134,24 @@ export type Database = {
       }
     }
     Views: {
+      moderation_queue: {
+        Row: {
+          conversation_id: string | null
+          created_at: string | null
+          details: string | null
+          message_excerpts: Json | null
+          open_report_count: number | null
+          reason: string | null
+          report_id: string | null
+          reported_user_id: string | null
+          reported_user_name: string | null
+          reported_user_role: string | null
+          reporter_id: string | null
+          reporter_name: string | null
+          status: string | null
+        }
+        Relationships: []
+      }
       user_unread_counts: {
         Row: {
           unread_count: number | null
@@ -485,6 +1169,32 @@ export type Database = {
     }
     Functions: {
       acquire_profile_lock: { Args: { profile_id: string }; Returns: boolean }
+      add_conversation_members: {
+        Args: { p_conversation_id: string; p_user_ids: string[] }
+        Returns: number
+      }
+      claim_email_outbox: {
+        Args: { p_limit?: number }
+        Returns: {
+          attempts: number
+          created_at: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          payload: Json
+          send_after: string
+          sent_at: string | null
+          status: string
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "email_outbox"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
       complete_user_profile: {
         Args: {
           p_base_location: string
@@ -537,6 +1247,10 @@ export type Database = {
           isSetofReturn: false
         }
       }
+      create_group_conversation: {
+        Args: { p_member_ids: string[]; p_title: string }
+        Returns: string
+      }
       create_profile_for_new_user: {
         Args: { user_email: string; user_id: string; user_role?: string }
         Returns: {
@@ -590,16 +1304,46 @@ export type Database = {
           user_id: string
         }[]
       }
+      get_application_match_scores: {
+        Args: { p_vacancy_id: string }
+        Returns: {
+          application_id: string
+          breakdown: Json
+          score: number
+        }[]
+      }
+      get_last_seen: {
+        Args: { p_user_ids: string[] }
+        Returns: {
+          last_seen_at: string
+          user_id: string
+        }[]
+      }
+      get_unread_message_recipients: {
+        Args: { p_message_ids: string[]; p_user_ids: string[] }
+        Returns: {
+          message_id: string
+          user_id: string
+        }[]
+      }
       get_user_conversations: {
         Args: { p_limit?: number; p_user_id: string }
         Returns: {
           conversation_created_at: string
           conversation_id: string
           conversation_last_message_at: string
+          conversation_title: string
           conversation_updated_at: string
+          is_archived: boolean
+          is_group: boolean
+          is_marked_unread: boolean
+          is_muted: boolean
+          is_pinned: boolean
           last_message_content: string
           last_message_sender_id: string
+          last_message_sender_name: string
           last_message_sent_at: string
+          member_count: number
           other_participant_avatar: string
           other_participant_id: string
           other_participant_name: string
@@ -608,6 +1352,40 @@ export type Database = {
           unread_count: number
         }[]
       }
+      is_conversation_admin: {
+        Args: { p_conversation_id: string; p_user_id: string }
+        Returns: boolean
+      }
+      is_email_muted: {
+        Args: {
+          p_type: Database["public"]["Enums"]["notification_type"]
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      is_notification_muted: {
+        Args: {
+          p_type: Database["public"]["Enums"]["notification_type"]
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      is_valid_application_transition: {
+        Args: {
+          p_from: Database["public"]["Enums"]["application_status"]
+          p_to: Database["public"]["Enums"]["application_status"]
+        }
+        Returns: boolean
+      }
+      mark_conversation_read: {
+        Args: { p_conversation_id: string }
+        Returns: undefined
+      }
+      mark_messages_delivered: {
+        Args: { p_conversation_id?: string }
+        Returns: number
+      }
+      record_profile_view: { Args: { p_profile_id: string }; Returns: boolean }
       recover_zombie_accounts: {
         Args: never
         Returns: {
@@ -616,10 +1394,183 @@ export type Database = {
         }[]
       }
       release_profile_lock: { Args: { profile_id: string }; Returns: boolean }
+      remove_conversation_member: {
+        Args: { p_conversation_id: string; p_user_id: string }
+        Returns: undefined
+      }
+      rename_group_conversation: {
+        Args: { p_conversation_id: string; p_title: string }
+        Returns: undefined
+      }
+      report_user: {
+        Args: {
+          p_conversation_id?: string
+          p_details?: string
+          p_message_ids?: string[]
+          p_reason: string
+          p_reported_user_id: string
+        }
+        Returns: string
+      }
+      search_messages: {
+        Args: { p_limit?: number; p_offset?: number; p_query: string }
+        Returns: {
+          conversation_id: string
+          conversation_title: string
+          is_group: boolean
+          message_id: string
+          other_participant_avatar: string
+          other_participant_id: string
+          other_participant_name: string
+          other_participant_role: string
+          rank: number
+          sender_id: string
+          sender_name: string
+          sent_at: string
+          snippet: string
+          total_count: number
+        }[]
+      }
+      search_profile_facets: {
+        Args: { p_filters?: Json; p_query?: string }
+        Returns: {
+          count: number
+          facet: string
+          value: string
+        }[]
+      }
+      search_profiles: {
+        Args: {
+          p_filters?: Json
+          p_limit?: number
+          p_offset?: number
+          p_query?: string
+        }
+        Returns: {
+          availability: string
+          avatar_url: string
+          base_location: string
+          created_at: string
+          current_club: string
+          full_name: string
+          id: string
+          nationality: string
+          position: string
+          rank: number
+          role: string
+          secondary_position: string
+          total_count: number
+          username: string
+        }[]
+      }
+      search_scout_players: {
+        Args: { p_filters?: Json; p_limit?: number; p_offset?: number }
+        Returns: {
+          age: number
+          availability: string
+          avatar_url: string
+          base_location: string
+          current_club: string
+          full_name: string
+          has_highlight_video: boolean
+          id: string
+          nationality: string
+          passport_1: string
+          passport_2: string
+          position: string
+          secondary_position: string
+          top_league: string
+          top_league_level: number
+          total_count: number
+          username: string
+        }[]
+      }
+      search_vacancies: {
+        Args: {
+          p_benefits?: string[]
+          p_cursor_created_at?: string
+          p_cursor_deadline?: string
+          p_cursor_id?: string
+          p_cursor_priority?: Database["public"]["Enums"]["vacancy_priority"]
+          p_cursor_score?: number
+          p_cursor_start_date?: string
+          p_gender?: Database["public"]["Enums"]["vacancy_gender"]
+          p_limit?: number
+          p_location?: string
+          p_opportunity_type?: Database["public"]["Enums"]["opportunity_type"]
+          p_positions?: string[]
+          p_priority?: Database["public"]["Enums"]["vacancy_priority"]
+          p_sort?: string
+          p_start_date?: string
+        }
+        Returns: {
+            application_deadline: string | null
+            benefits: string[] | null
+            closed_at: string | null
+            club_id: string
+            contact_email: string | null
+            contact_phone: string | null
+            created_at: string | null
+            custom_benefits: string[] | null
+            description: string | null
+            duration_text: string | null
+            gender: Database["public"]["Enums"]["vacancy_gender"] | null
+            id: string
+            location_city: string
+            location_country: string
+            opportunity_type: Database["public"]["Enums"]["opportunity_type"]
+            position: Database["public"]["Enums"]["vacancy_position"] | null
+            priority: Database["public"]["Enums"]["vacancy_priority"] | null
+            published_at: string | null
+            requirements: string[] | null
+            scheduled_publish_at: string | null
+            screening_questions: Json
+            start_date: string | null
+            status: Database["public"]["Enums"]["vacancy_status"] | null
+            title: string
+            updated_at: string | null
+            version: number
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "vacancies"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      set_conversation_state: {
+        Args: {
+          p_archived?: boolean
+          p_conversation_id: string
+          p_marked_unread?: boolean
+          p_muted?: boolean
+          p_pinned?: boolean
+        }
+        Returns: undefined
+      }
+      touch_last_seen: { Args: never; Returns: undefined }
+      user_applied_to_vacancy: {
+        Args: { p_vacancy_id: string }
+        Returns: boolean
+      }
       user_in_conversation: {
         Args: { p_conversation_id: string; p_user_id: string }
         Returns: boolean
       }
+      vacancy_matches_filters: {
+        Args: {
+          p_filters: Json
+          p_vacancy: Database["public"]["Tables"]["vacancies"]["Row"]
+        }
+        Returns: boolean
+      }
+      vacancy_recommendation_scores: {
+        Args: { p_vacancy_ids?: string[] }
+        Returns: {
+          score: number
+          vacancy_id: string
+        }[]
+      }
     }
     Enums: {
       application_status:
@@ -630,6 +1581,14 @@ export type Database = {
         | "accepted"
         | "rejected"
         | "withdrawn"
+      notification_type:
+        | "saved_search_match"
+        | "application_received"
+        | "application_status_changed"
+        | "vacancy_closing_soon"
+        | "new_message"
+        | "profile_viewed"
+        | "vacancy_closed"
       opportunity_type: "player" | "coach"
       vacancy_gender: "Men" | "Women"
       vacancy_position: "goalkeeper" | "defender" | "midfielder" | "forward"
@@ -774,6 +1733,15 @@ export const Constants = {
         "rejected",
         "withdrawn",
       ],
+      notification_type: [
+        "saved_search_match",
+        "application_received",
+        "application_status_changed",
+        "vacancy_closing_soon",
+        "new_message",
+        "profile_viewed",
+        "vacancy_closed",
+      ],
       opportunity_type: ["player", "coach"],
       vacancy_gender: ["Men", "Women"],
       vacancy_position: ["goalkeeper", "defender", "midfielder", "forward"],
@@ -0,0 +1,51 @@
+import { supabase } from './supabase'
+import type { Json } from './supabase'
+
+export type MatchFactorKey = 'position' | 'eligibility' | 'gender' | 'experience' | 'requirements'
+
+/** One scored factor, as built by vacancy_match_breakdown */
+export interface MatchFactor {
+  key: MatchFactorKey
+  label: string
+  points: number
+  max: number
+  detail: string
+}
+
+export interface MatchScore {
+  /** Share of the available points earned, 0-100 */
+  score: number
+  factors: MatchFactor[]
+}
+
+export type ApplicantSortOrder = 'newest' | 'match'
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+export function parseMatchScore(value: Json | null | undefined): MatchScore | null {
+  if (!isRecord(value) || typeof value.score !== 'number' || !Array.isArray(value.factors)) return null
+
+  return {
+    score: value.score,
+    factors: value.factors.filter(isRecord) as unknown as MatchFactor[],
+  }
+}
+
+/** Match scores for every application to one of the club's vacancies, keyed by application id */
+export async function fetchApplicationMatchScores(vacancyId: string): Promise<Record<string, MatchScore>> {
+  const { data, error } = await supabase.rpc('get_application_match_scores', { p_vacancy_id: vacancyId })
+  if (error) throw error
+
+  return (data ?? []).reduce<Record<string, MatchScore>>((acc, row) => {
+    const match = parseMatchScore(row.breakdown)
+    if (match) acc[row.application_id] = match
+    return acc
+  }, {})
+}
+
+export function getMatchBadgeClassName(score: number): string {
+  if (score >= 75) return 'bg-emerald-50 text-emerald-700'
+  if (score >= 50) return 'bg-amber-50 text-amber-700'
+  return 'bg-gray-100 text-gray-600'
+}
@@ -0,0 +1,77 @@
+import { supabase } from './supabase'
+import { removeMessageAttachments, type MessageAttachment } from './messageAttachments'
+
+/** Matches the edit window enforced by the guard_message_changes trigger */
+export const EDIT_WINDOW_MINUTES = 15
+
+export const REACTION_EMOJIS = ['👍', '❤️', '😂', '😮', '😢', '🔥'] as const
+
+/** messages.reactions: emoji -> user ids, in the order they reacted */
+export type MessageReactions = Record<string, string[]>
+
+/** Parse messages.reactions, dropping anything malformed */
+export function parseReactions(value: unknown): MessageReactions {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return {}
+
+  const result: MessageReactions = {}
+  for (const [emoji, userIds] of Object.entries(value)) {
+    if (!Array.isArray(userIds)) continue
+    const ids = userIds.filter((id): id is string => typeof id === 'string')
+    if (ids.length > 0) result[emoji] = ids
+  }
+  return result
+}
+
+export function canEditMessage(
+  message: { sender_id: string; sent_at: string; deleted_at?: string | null },
+  userId: string,
+  now = Date.now()
+): boolean {
+  if (message.sender_id !== userId || message.deleted_at) return false
+  return now - new Date(message.sent_at).getTime() < EDIT_WINDOW_MINUTES * 60 * 1000
+}
+
+export async function editMessage(messageId: string, content: string): Promise<void> {
+  const { error } = await supabase
+    .from('messages')
+    .update({ content })
+    .eq('id', messageId)
+
+  if (error) throw error
+}
+
+/**
+ * Soft-deletes a message. The database clears its content and attachments;
+ * the uploaded files are removed afterwards.
+ */
+export async function deleteMessage(messageId: string, attachments: MessageAttachment[]): Promise<void> {
+  const { error } = await supabase
+    .from('messages')
+    .update({ deleted_at: new Date().toISOString() })
+    .eq('id', messageId)
+
+  if (error) throw error
+
+  await removeMessageAttachments(attachments)
+}
+
+/** Adds the reaction, or removes it if the user already reacted with it */
+export async function toggleReaction(messageId: string, userId: string, emoji: string, reacted: boolean): Promise<void> {
+  if (reacted) {
+    const { error } = await supabase
+      .from('message_reactions')
+      .delete()
+      .eq('message_id', messageId)
+      .eq('user_id', userId)
+      .eq('emoji', emoji)
+
+    if (error) throw error
+    return
+  }
+
+  const { error } = await supabase
+    .from('message_reactions')
+    .insert({ message_id: messageId, user_id: userId, emoji })
+
+  if (error) throw error
+}
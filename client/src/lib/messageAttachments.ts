@@ -0,0 +1,228 @@
+import { supabase } from './supabase'
+import { logger } from './logger'
+import { optimizeImage } from './imageOptimization'
+
+export const MESSAGE_ATTACHMENTS_BUCKET = 'message-attachments'
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5
+export const MAX_ATTACHMENT_SIZE_MB = 25
+
+/** Stored in messages.attachments (a type alias so it is assignable to Json) */
+export type MessageAttachment = {
+  path: string
+  thumbnail_path: string | null
+  name: string
+  mime_type: string
+  size: number
+  width: number | null
+  height: number | null
+}
+
+const ALLOWED_MIME_TYPES = [
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'text/plain',
+  'video/mp4',
+  'video/quicktime',
+  'video/webm',
+]
+
+/** Accept attribute for the composer file input */
+export const ATTACHMENT_ACCEPT = ['image/*', ...ALLOWED_MIME_TYPES].join(',')
+
+const SIGNED_URL_TTL_SECONDS = 60 * 60
+
+export const isImageAttachment = (attachment: Pick<MessageAttachment, 'mime_type'>) =>
+  attachment.mime_type.startsWith('image/')
+
+export const isVideoAttachment = (attachment: Pick<MessageAttachment, 'mime_type'>) =>
+  attachment.mime_type.startsWith('video/')
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+/** Parse messages.attachments, dropping anything malformed */
+export function parseAttachments(value: unknown): MessageAttachment[] {
+  if (!Array.isArray(value)) return []
+  return value.filter(
+    (item): item is MessageAttachment =>
+      typeof item === 'object' && item !== null && typeof item.path === 'string' && typeof item.name === 'string'
+  )
+}
+
+export function validateAttachment(file: File): string | null {
+  if (!file.type.startsWith('image/') && !ALLOWED_MIME_TYPES.includes(file.type)) {
+    return 'File type not supported. Send images, videos, PDFs or documents.'
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE_MB * 1024 * 1024) {
+    return `File is too large (${formatFileSize(file.size)}). Maximum ${MAX_ATTACHMENT_SIZE_MB} MB.`
+  }
+  if (!file.name || file.name.length > 255) {
+    return 'Invalid file name'
+  }
+  return null
+}
+
+const sanitizeFileName = (name: string) =>
+  name.normalize('NFKD').replace(/[^\w.-]+/g, '_').replace(/_+/g, '_').slice(-100) || 'file'
+
+const readImageSize = (file: File) =>
+  new Promise<{ width: number; height: number } | null>(resolve => {
+    const url = URL.createObjectURL(file)
+    const img = new Image()
+    img.onload = () => {
+      resolve({ width: img.naturalWidth, height: img.naturalHeight })
+      URL.revokeObjectURL(url)
+    }
+    img.onerror = () => {
+      resolve(null)
+      URL.revokeObjectURL(url)
+    }
+    img.src = url
+  })
+
+/**
+ * Upload through a signed upload URL with XHR; supabase-js storage uploads
+ * don't report progress.
+ */
+async function uploadWithProgress(path: string, file: Blob, onProgress?: (fraction: number) => void) {
+  const { data, error } = await supabase.storage.from(MESSAGE_ATTACHMENTS_BUCKET).createSignedUploadUrl(path)
+  if (error || !data) throw error ?? new Error('Failed to create upload URL')
+
+  const body = new FormData()
+  body.append('cacheControl', '3600')
+  body.append('', file)
+
+  await new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+    xhr.open('PUT', data.signedUrl)
+    xhr.setRequestHeader('apikey', import.meta.env.VITE_SUPABASE_ANON_KEY)
+    xhr.setRequestHeader('x-upsert', 'false')
+    xhr.upload.onprogress = event => {
+      if (event.lengthComputable) {
+        onProgress?.(event.loaded / event.total)
+      }
+    }
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress?.(1)
+        resolve()
+      } else {
+        reject(new Error(`Upload failed with status ${xhr.status}`))
+      }
+    }
+    xhr.onerror = () => reject(new Error('Network error during upload'))
+    xhr.send(body)
+  })
+}
+
+/**
+ * Upload one file for a message. Images are optimized and get a small
+ * thumbnail for inline previews; other files are uploaded as-is.
+ */
+export async function uploadMessageAttachment(
+  conversationId: string,
+  userId: string,
+  file: File,
+  onProgress?: (percent: number) => void
+): Promise<MessageAttachment> {
+  const folder = `${conversationId}/${userId}`
+  const baseName = `${Date.now()}_${Math.random().toString(36).substring(2, 8)}_${sanitizeFileName(file.name)}`
+  const canOptimize = file.type.startsWith('image/') && file.type !== 'image/gif' && file.type !== 'image/svg+xml'
+
+  const uploadFile = canOptimize ? await optimizeImage(file, { maxWidth: 2000, maxHeight: 2000, maxSizeMB: 2 }) : file
+  const optimizedThumbnail = canOptimize
+    ? await optimizeImage(file, { maxWidth: 320, maxHeight: 320, maxSizeMB: 0.1, quality: 0.7 })
+    : null
+  // optimizeImage hands back the original file when it fails
+  const thumbnail = optimizedThumbnail && optimizedThumbnail !== file ? optimizedThumbnail : null
+  const dimensions = file.type.startsWith('image/') ? await readImageSize(uploadFile) : null
+
+  const path = `${folder}/${baseName}`
+  const thumbnailPath = thumbnail ? `${folder}/thumb_${baseName.replace(/\.[^.]+$/, '')}.jpg` : null
+
+  // The thumbnail is small; count the main file for almost all of the progress
+  await uploadWithProgress(path, uploadFile, fraction => onProgress?.(Math.round(fraction * (thumbnail ? 90 : 100))))
+  if (thumbnail && thumbnailPath) {
+    await uploadWithProgress(thumbnailPath, thumbnail)
+    onProgress?.(100)
+  }
+
+  return {
+    path,
+    thumbnail_path: thumbnailPath,
+    name: file.name,
+    mime_type: uploadFile.type || file.type || 'application/octet-stream',
+    size: uploadFile.size,
+    width: dimensions?.width ?? null,
+    height: dimensions?.height ?? null,
+  }
+}
+
+/** Best-effort cleanup of uploads whose message was never sent or was deleted */
+export async function removeMessageAttachments(attachments: MessageAttachment[]) {
+  const paths = attachments.flatMap(attachment =>
+    attachment.thumbnail_path ? [attachment.path, attachment.thumbnail_path] : [attachment.path]
+  )
+  if (paths.length === 0) return
+
+  const { error } = await supabase.storage.from(MESSAGE_ATTACHMENTS_BUCKET).remove(paths)
+  if (error) {
+    logger.error('Failed to remove message attachments', error)
+  }
+}
+
+const signedUrlCache = new Map<string, { url: string; expiresAt: number }>()
+
+/**
+ * Signed view URLs for attachment objects, cached until shortly before they
+ * expire. Missing or forbidden paths are left out of the result.
+ */
+export async function getAttachmentUrls(paths: string[]): Promise<Record<string, string>> {
+  const now = Date.now()
+  const result: Record<string, string> = {}
+  const missing: string[] = []
+
+  for (const path of new Set(paths)) {
+    const cached = signedUrlCache.get(path)
+    if (cached && cached.expiresAt > now) {
+      result[path] = cached.url
+    } else {
+      missing.push(path)
+    }
+  }
+
+  if (missing.length > 0) {
+    const { data, error } = await supabase.storage
+      .from(MESSAGE_ATTACHMENTS_BUCKET)
+      .createSignedUrls(missing, SIGNED_URL_TTL_SECONDS)
+
+    if (error) {
+      logger.error('Failed to sign message attachment URLs', error)
+    }
+
+    for (const item of data ?? []) {
+      if (item.path && item.signedUrl) {
+        result[item.path] = item.signedUrl
+        signedUrlCache.set(item.path, { url: item.signedUrl, expiresAt: now + (SIGNED_URL_TTL_SECONDS - 60) * 1000 })
+      }
+    }
+  }
+
+  return result
+}
+
+/** Short-lived URL that downloads the file under its original name */
+export async function getAttachmentDownloadUrl(attachment: MessageAttachment): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from(MESSAGE_ATTACHMENTS_BUCKET)
+    .createSignedUrl(attachment.path, 60, { download: attachment.name })
+
+  if (error || !data) throw error ?? new Error('Failed to create download URL')
+  return data.signedUrl
+}
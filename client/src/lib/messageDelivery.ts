@@ -0,0 +1,84 @@
+import { supabase } from './supabase'
+import { logger } from './logger'
+import { withRetry } from './retry'
+import type { MessageAttachment } from './messageAttachments'
+import type { Database } from './database.types'
+
+type MessageRow = Database['public']['Tables']['messages']['Row']
+
+/** Lifecycle of an outgoing message, as shown on its bubble */
+export type MessageDeliveryState = 'queued' | 'sending' | 'sent' | 'delivered' | 'read' | 'failed'
+
+/** Client-only status of a message that hasn't been confirmed by the server */
+export type LocalSendStatus = 'queued' | 'sending' | 'failed'
+
+/** An outgoing message, kept in the outbox until the server confirms it */
+export interface UnsentMessage {
+  id: string
+  conversation_id: string
+  sender_id: string
+  content: string
+  attachments: MessageAttachment[]
+  idempotency_key: string
+  sent_at: string
+}
+
+export function getDeliveryState(
+  message: { send_status?: LocalSendStatus; read_at: string | null; delivered_at?: string | null },
+  options?: { readByAll?: boolean }
+): MessageDeliveryState {
+  if (message.send_status) return message.send_status
+  // Groups are read once every other member has read past the message
+  if (options?.readByAll ?? Boolean(message.read_at)) return 'read'
+  if (message.delivered_at) return 'delivered'
+  return 'sent'
+}
+
+/**
+ * Inserts an outgoing message, retrying transient failures. The idempotency
+ * key makes a repeat safe: if an earlier attempt already landed, the stored
+ * row is returned instead of a duplicate.
+ */
+export async function sendMessage(message: UnsentMessage): Promise<MessageRow> {
+  try {
+    const { data } = await withRetry(async () => {
+      const res = await supabase
+        .from('messages')
+        .insert({
+          conversation_id: message.conversation_id,
+          sender_id: message.sender_id,
+          content: message.content,
+          attachments: message.attachments,
+          idempotency_key: message.idempotency_key
+        })
+        .select()
+        .single()
+
+      if (res.error) throw res.error
+      return res
+    })
+
+    return data
+  } catch (error) {
+    if ((error as { code?: string })?.code !== '23505') throw error
+
+    const { data: existing, error: existingError } = await supabase
+      .from('messages')
+      .select('*')
+      .eq('idempotency_key', message.idempotency_key)
+      .maybeSingle()
+
+    if (existingError) throw existingError
+    if (!existing) throw error
+    return existing
+  }
+}
+
+/** Stamps delivered_at on messages the current user has received */
+export async function markMessagesDelivered(conversationId?: string): Promise<void> {
+  const { error } = await supabase.rpc('mark_messages_delivered', { p_conversation_id: conversationId })
+
+  if (error) {
+    logger.error('Error marking messages as delivered:', error)
+  }
+}
@@ -0,0 +1,268 @@
+import { create } from 'zustand'
+import { logger } from './logger'
+import { parseAttachments } from './messageAttachments'
+import { sendMessage, type UnsentMessage } from './messageDelivery'
+import type { Database } from './database.types'
+
+type MessageRow = Database['public']['Tables']['messages']['Row']
+
+const DB_NAME = 'playr-outbox'
+const DB_VERSION = 1
+const STORE_NAME = 'messages'
+// How long to wait before replaying again when the server was unreachable
+// but the browser still reports being online
+const REPLAY_RETRY_MS = 30 * 1000
+
+/** queued: replayed automatically when online. failed: rejected, needs a manual retry */
+export type OutboxStatus = 'queued' | 'failed'
+
+export type OutboxMessage = UnsentMessage & { status: OutboxStatus }
+
+export type OutboxEvent =
+  | { type: 'status'; idempotencyKey: string; status: OutboxStatus | 'sending' }
+  | { type: 'sent'; localId: string; message: MessageRow }
+
+const listeners = new Set<(event: OutboxEvent) => void>()
+
+const emit = (event: OutboxEvent) => {
+  listeners.forEach(listener => listener(event))
+}
+
+/** Listen for outbox sends finishing or changing state; returns an unsubscribe */
+export function subscribeToOutbox(listener: (event: OutboxEvent) => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine
+
+/** Failures worth replaying later, as opposed to the server rejecting the message */
+export function isNetworkError(error: unknown): boolean {
+  if (!isOnline()) return true
+  const message = String((error as { message?: unknown })?.message ?? '').toLowerCase()
+  return message.includes('failed to fetch') || message.includes('network') || message.includes('load failed')
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+let replayTimeout: ReturnType<typeof setTimeout> | null = null
+
+const scheduleReplay = () => {
+  if (replayTimeout) return
+  replayTimeout = setTimeout(() => {
+    replayTimeout = null
+    void useOutboxStore.getState().flush()
+  }, REPLAY_RETRY_MS)
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'))
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'idempotency_key' })
+        store.createIndex('sender_id', 'sender_id')
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+
+  return dbPromise
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode)
+    const request = run(transaction.objectStore(STORE_NAME))
+    transaction.oncomplete = () => resolve(request ? request.result : undefined)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+/** Outgoing messages of `userId` waiting in the outbox, oldest first */
+export async function getOutboxMessages(userId: string, conversationId?: string): Promise<OutboxMessage[]> {
+  try {
+    const rows = await withStore<OutboxMessage[]>('readonly', store =>
+      store.index('sender_id').getAll(IDBKeyRange.only(userId))
+    )
+    return (rows ?? [])
+      .filter(row => !conversationId || row.conversation_id === conversationId)
+      .map(row => ({ ...row, attachments: parseAttachments(row.attachments) }))
+      .sort((a, b) => a.sent_at.localeCompare(b.sent_at))
+  } catch (error) {
+    logger.warn('[OUTBOX] Failed to read queued messages', error)
+    return []
+  }
+}
+
+export async function putOutboxMessage(message: OutboxMessage): Promise<void> {
+  try {
+    await withStore('readwrite', store => {
+      store.put(message)
+    })
+  } catch (error) {
+    logger.warn('[OUTBOX] Failed to queue message', error)
+  }
+}
+
+export async function removeOutboxMessages(idempotencyKeys: string[]): Promise<void> {
+  if (idempotencyKeys.length === 0) return
+  try {
+    await withStore('readwrite', store => {
+      idempotencyKeys.forEach(key => store.delete(key))
+    })
+  } catch (error) {
+    logger.warn('[OUTBOX] Failed to remove sent messages', error)
+  }
+}
+
+/** Drops everything `userId` still has in the outbox, so it isn't replayed for the next user */
+export async function clearOutboxMessages(userId: string): Promise<void> {
+  try {
+    await withStore('readwrite', store => {
+      const request = store.index('sender_id').openKeyCursor(IDBKeyRange.only(userId))
+      request.onsuccess = () => {
+        const cursor = request.result
+        if (!cursor) return
+        store.delete(cursor.primaryKey)
+        cursor.continue()
+      }
+    })
+  } catch (error) {
+    logger.warn('[OUTBOX] Failed to clear queued messages', error)
+  }
+}
+
+/**
+ * Sends a message that is already in the outbox. On success it leaves the
+ * outbox; on failure it stays, queued for replay when the failure was the
+ * network, otherwise failed. Either way listeners hear about it.
+ */
+export async function deliverOutboxMessage(message: UnsentMessage): Promise<MessageRow> {
+  emit({ type: 'status', idempotencyKey: message.idempotency_key, status: 'sending' })
+
+  try {
+    const persisted = await sendMessage(message)
+    await removeOutboxMessages([message.idempotency_key])
+    emit({ type: 'sent', localId: message.id, message: persisted })
+    return persisted
+  } catch (error) {
+    const status: OutboxStatus = isNetworkError(error) ? 'queued' : 'failed'
+    await putOutboxMessage({ ...message, status })
+    emit({ type: 'status', idempotencyKey: message.idempotency_key, status })
+    if (status === 'queued') {
+      scheduleReplay()
+    }
+    throw error
+  }
+}
+
+interface OutboxState {
+  userId: string | null
+  online: boolean
+  flushing: boolean
+  initialize: (userId: string | null) => Promise<void>
+  flush: () => Promise<void>
+  reset: () => void
+}
+
+let handleOnline: (() => void) | null = null
+let handleOffline: (() => void) | null = null
+
+const detachConnectivityListeners = () => {
+  if (typeof window === 'undefined') return
+  if (handleOnline) window.removeEventListener('online', handleOnline)
+  if (handleOffline) window.removeEventListener('offline', handleOffline)
+  handleOnline = null
+  handleOffline = null
+}
+
+/**
+ * Replays queued messages for the signed-in user on start-up and whenever the
+ * browser comes back online. The idempotency key on each message means a
+ * replay of something the server already stored can't duplicate it.
+ */
+export const useOutboxStore = create<OutboxState>((set, get) => ({
+  userId: null,
+  online: isOnline(),
+  flushing: false,
+
+  // Signing out discards the user's unsent messages; on a shared device the
+  // next person to sign in must not replay them
+  reset: () => {
+    const { userId } = get()
+    detachConnectivityListeners()
+    if (replayTimeout) {
+      clearTimeout(replayTimeout)
+      replayTimeout = null
+    }
+    set({ userId: null, flushing: false })
+    if (userId) {
+      void clearOutboxMessages(userId)
+    }
+  },
+
+  flush: async () => {
+    const { userId, flushing } = get()
+    if (!userId || flushing || !isOnline()) return
+
+    set({ flushing: true })
+    try {
+      const queued = (await getOutboxMessages(userId)).filter(message => message.status === 'queued')
+      for (const message of queued) {
+        // Signed out mid-replay
+        if (get().userId !== userId) break
+        try {
+          await deliverOutboxMessage(message)
+        } catch (error) {
+          logger.warn('[OUTBOX] Replay failed', error)
+          // Still offline; the rest would fail the same way
+          if (isNetworkError(error)) break
+        }
+      }
+    } finally {
+      set({ flushing: false })
+    }
+  },
+
+  initialize: async (userId: string | null) => {
+    if (!userId) {
+      get().reset()
+      return
+    }
+
+    if (get().userId === userId) return
+
+    // Another account signed in without a sign-out in between
+    if (get().userId) {
+      get().reset()
+    }
+    set({ userId, online: isOnline() })
+
+    if (typeof window !== 'undefined') {
+      handleOnline = () => {
+        set({ online: true })
+        void get().flush()
+      }
+      handleOffline = () => set({ online: false })
+      window.addEventListener('online', handleOnline)
+      window.addEventListener('offline', handleOffline)
+    }
+
+    await get().flush()
+  },
+}))
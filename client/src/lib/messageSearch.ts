@@ -0,0 +1,49 @@
+import { supabase } from './supabase'
+import type { Database } from './database.types'
+
+export const MESSAGE_SEARCH_MIN_LENGTH = 2
+export const MESSAGE_SEARCH_PAGE_SIZE = 20
+
+export type MessageSearchHit = Database['public']['Functions']['search_messages']['Returns'][number]
+
+export interface SnippetPart {
+  text: string
+  highlighted: boolean
+}
+
+/**
+ * Fetch one page of messages matching `query` across the user's
+ * conversations, newest first.
+ */
+export async function searchMessages(
+  query: string,
+  offset = 0,
+  limit = MESSAGE_SEARCH_PAGE_SIZE
+): Promise<{ hits: MessageSearchHit[]; total: number }> {
+  const { data, error } = await supabase.rpc('search_messages', {
+    p_query: query.trim(),
+    p_limit: limit,
+    p_offset: offset,
+  })
+
+  if (error) throw error
+
+  const hits = data ?? []
+  return {
+    hits,
+    // Every row carries the overall count; an empty page past the end has none
+    total: hits[0]?.total_count ?? offset,
+  }
+}
+
+/** Split a search_messages snippet on its <mark> tags so it can be rendered as text */
+export function splitSnippet(snippet: string): SnippetPart[] {
+  return snippet
+    .split(/(<mark>.*?<\/mark>)/g)
+    .filter(Boolean)
+    .map(part =>
+      part.startsWith('<mark>') && part.endsWith('</mark>')
+        ? { text: part.slice(6, -7), highlighted: true }
+        : { text: part, highlighted: false }
+    )
+}
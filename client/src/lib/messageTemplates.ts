@@ -0,0 +1,96 @@
+import { supabase } from './supabase'
+import type { MessageTemplate } from './supabase'
+
+export type TemplateVariable = 'first_name' | 'vacancy_title' | 'club_name'
+
+export const TEMPLATE_VARIABLES: { key: TemplateVariable; label: string }[] = [
+  { key: 'first_name', label: 'Player first name' },
+  { key: 'vacancy_title', label: 'Vacancy title' },
+  { key: 'club_name', label: 'Club name' },
+]
+
+/** Matches the message_templates constraints */
+export const MAX_TEMPLATE_TITLE_LENGTH = 80
+export const MAX_TEMPLATE_CONTENT_LENGTH = 1000
+export const MAX_MESSAGE_TEMPLATES = 30
+
+export type TemplateValues = Partial<Record<TemplateVariable, string | null>>
+
+export interface MessageTemplateInput {
+  title: string
+  content: string
+}
+
+export const templateToken = (key: TemplateVariable) => `{{${key}}}`
+
+/**
+ * Replaces {{variable}} placeholders. Variables without a value are left in
+ * place so the sender can see what still needs filling in.
+ */
+export function fillTemplate(content: string, values: TemplateValues): string {
+  return content.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => {
+    const value = values[key as TemplateVariable]?.trim()
+    return value ? value : match
+  })
+}
+
+export async function fetchMessageTemplates(userId: string): Promise<MessageTemplate[]> {
+  const { data, error } = await supabase
+    .from('message_templates')
+    .select('*')
+    .eq('user_id', userId)
+    .order('title', { ascending: true })
+
+  if (error) throw error
+  return data ?? []
+}
+
+export async function createMessageTemplate(userId: string, input: MessageTemplateInput): Promise<MessageTemplate> {
+  const { data, error } = await supabase
+    .from('message_templates')
+    .insert({ user_id: userId, title: input.title.trim(), content: input.content.trim() })
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+export async function updateMessageTemplate(id: string, input: MessageTemplateInput): Promise<MessageTemplate> {
+  const { data, error } = await supabase
+    .from('message_templates')
+    .update({ title: input.title.trim(), content: input.content.trim() })
+    .eq('id', id)
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+export async function deleteMessageTemplate(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('message_templates')
+    .delete()
+    .eq('id', id)
+
+  if (error) throw error
+}
+
+/**
+ * Title of the most recent vacancy of this club the player applied to, used
+ * for {{vacancy_title}} when the club messages an applicant.
+ */
+export async function fetchLatestApplicationVacancyTitle(clubId: string, playerId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('vacancy_applications')
+    .select('applied_at, vacancy:vacancies!inner(title, club_id)')
+    .eq('player_id', playerId)
+    .eq('vacancy.club_id', clubId)
+    .order('applied_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+  return (data?.vacancy as { title: string } | null)?.title ?? null
+}
@@ -0,0 +1,91 @@
+import { supabase } from './supabase'
+import type { MemberProfile } from './conversationMembers'
+
+export type ReportReason = 'spam' | 'harassment' | 'inappropriate' | 'impersonation' | 'scam' | 'other'
+
+export const REPORT_REASONS: { value: ReportReason; label: string; description: string }[] = [
+  { value: 'spam', label: 'Spam', description: 'Unsolicited promotion or repeated messages' },
+  { value: 'harassment', label: 'Harassment or bullying', description: 'Threats, insults or unwanted contact' },
+  { value: 'inappropriate', label: 'Inappropriate content', description: 'Offensive, sexual or violent content' },
+  { value: 'impersonation', label: 'Fake profile', description: 'Pretending to be someone else or a club' },
+  { value: 'scam', label: 'Scam or fraud', description: 'Asking for money, fake trials or agency fees' },
+  { value: 'other', label: 'Something else', description: 'Tell us what happened below' },
+]
+
+/** Matches the limit enforced by report_user */
+export const MAX_REPORT_EXCERPTS = 10
+export const MAX_REPORT_DETAILS_LENGTH = 1000
+
+export interface BlockedUser {
+  blocked_id: string
+  created_at: string
+  profile: MemberProfile | null
+}
+
+export interface ReportInput {
+  reportedUserId: string
+  reason: ReportReason
+  details?: string
+  conversationId?: string | null
+  messageIds?: string[]
+}
+
+/** Whether the current user has blocked this user */
+export async function fetchIsBlocked(blockerId: string, userId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('user_blocks')
+    .select('blocked_id')
+    .eq('blocker_id', blockerId)
+    .eq('blocked_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return Boolean(data)
+}
+
+export async function fetchBlockedUsers(blockerId: string): Promise<BlockedUser[]> {
+  const { data, error } = await supabase
+    .from('user_blocks')
+    .select('blocked_id, created_at, profile:profiles!user_blocks_blocked_id_fkey(id, full_name, username, avatar_url, role)')
+    .eq('blocker_id', blockerId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+
+  return (data ?? []).map(row => ({
+    blocked_id: row.blocked_id,
+    created_at: row.created_at,
+    profile: row.profile as MemberProfile | null,
+  }))
+}
+
+export async function blockUser(blockerId: string, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('user_blocks')
+    .upsert({ blocker_id: blockerId, blocked_id: userId }, { onConflict: 'blocker_id,blocked_id', ignoreDuplicates: true })
+
+  if (error) throw error
+}
+
+export async function unblockUser(blockerId: string, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('user_blocks')
+    .delete()
+    .eq('blocker_id', blockerId)
+    .eq('blocked_id', userId)
+
+  if (error) throw error
+}
+
+export async function reportUser({ reportedUserId, reason, details, conversationId, messageIds }: ReportInput): Promise<string> {
+  const { data, error } = await supabase.rpc('report_user', {
+    p_reported_user_id: reportedUserId,
+    p_reason: reason,
+    p_details: details?.trim() || undefined,
+    p_conversation_id: conversationId ?? undefined,
+    p_message_ids: messageIds?.slice(0, MAX_REPORT_EXCERPTS) ?? [],
+  })
+
+  if (error) throw error
+  return data
+}
@@ -0,0 +1,253 @@
+import { create } from 'zustand'
+import type { RealtimeChannel } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import type { AppNotification, NotificationType } from './supabase'
+import { logger } from './logger'
+
+interface NotificationTypeMeta {
+  label: string
+  description: string
+}
+
+/**
+ * Notification types in the order they appear in Settings.
+ * Mirrors the notification_type enum in the database.
+ */
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  'application_received',
+  'application_status_changed',
+  'vacancy_closing_soon',
+  'vacancy_closed',
+  'new_message',
+  'profile_viewed',
+  'saved_search_match',
+]
+
+export const NOTIFICATION_TYPE_META: Record<NotificationType, NotificationTypeMeta> = {
+  application_received: {
+    label: 'New applications',
+    description: 'Someone applies to one of your vacancies',
+  },
+  application_status_changed: {
+    label: 'Application updates',
+    description: 'An application you sent moves stage, or an applicant withdraws',
+  },
+  vacancy_closing_soon: {
+    label: 'Closing soon',
+    description: 'A vacancy you posted or matched is about to close',
+  },
+  vacancy_closed: {
+    label: 'Vacancy closed',
+    description: 'A vacancy you posted or applied to closes at its deadline',
+  },
+  new_message: {
+    label: 'Messages',
+    description: 'You receive a new message',
+  },
+  profile_viewed: {
+    label: 'Profile views',
+    description: 'Someone looks at your profile',
+  },
+  saved_search_match: {
+    label: 'Saved search matches',
+    description: 'A new opportunity matches one of your saved searches',
+  },
+}
+
+/** Types the send-email-notifications edge function has templates for */
+export const EMAIL_NOTIFICATION_TYPES: NotificationType[] = [
+  'application_received',
+  'application_status_changed',
+  'new_message',
+  'saved_search_match',
+]
+
+export type MessageDigestInterval = 'hourly' | 'daily'
+
+export const MESSAGE_DIGEST_OPTIONS: { value: MessageDigestInterval; label: string }[] = [
+  { value: 'hourly', label: 'At most once an hour' },
+  { value: 'daily', label: 'Once a day' },
+]
+
+export const NOTIFICATIONS_PAGE_SIZE = 30
+
+interface NotificationsState {
+  items: AppNotification[]
+  unreadCount: number
+  loading: boolean
+  userId: string | null
+  channel: RealtimeChannel | null
+  initialize: (userId: string | null) => Promise<void>
+  refresh: () => Promise<void>
+  markRead: (id: string) => Promise<void>
+  markAllRead: () => Promise<void>
+  remove: (id: string) => Promise<void>
+  reset: () => void
+}
+
+let refreshTimeout: ReturnType<typeof setTimeout> | null = null
+
+const countUnread = (items: AppNotification[]) => items.filter(item => !item.read_at).length
+
+const fetchUnreadTotal = async (userId: string): Promise<number> => {
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('read_at', null)
+
+  if (error) throw error
+  return count ?? 0
+}
+
+export const useNotificationsStore = create<NotificationsState>((set, get) => ({
+  items: [],
+  unreadCount: 0,
+  loading: false,
+  userId: null,
+  channel: null,
+
+  reset: () => {
+    const { channel } = get()
+    if (channel) {
+      supabase.removeChannel(channel)
+    }
+    if (refreshTimeout) {
+      clearTimeout(refreshTimeout)
+      refreshTimeout = null
+    }
+    set({ items: [], unreadCount: 0, loading: false, userId: null, channel: null })
+  },
+
+  refresh: async () => {
+    const { userId } = get()
+    if (!userId) return
+
+    set({ loading: true })
+
+    try {
+      const [{ data, error }, unreadCount] = await Promise.all([
+        supabase
+          .from('notifications')
+          .select('*')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false })
+          .limit(NOTIFICATIONS_PAGE_SIZE),
+        fetchUnreadTotal(userId),
+      ])
+
+      if (error) throw error
+      set({ items: data ?? [], unreadCount })
+    } catch (error) {
+      logger.error('[NOTIFICATIONS] Failed to fetch notifications:', error)
+    } finally {
+      set({ loading: false })
+    }
+  },
+
+  markRead: async (id: string) => {
+    const target = get().items.find(item => item.id === id)
+    if (!target || target.read_at) return
+
+    const readAt = new Date().toISOString()
+    set(state => ({
+      items: state.items.map(item => (item.id === id ? { ...item, read_at: readAt } : item)),
+      unreadCount: Math.max(0, state.unreadCount - 1),
+    }))
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .eq('id', id)
+
+    if (error) {
+      logger.error('[NOTIFICATIONS] Failed to mark notification read:', error)
+      await get().refresh()
+    }
+  },
+
+  markAllRead: async () => {
+    const { userId } = get()
+    if (!userId || get().unreadCount === 0) return
+
+    const readAt = new Date().toISOString()
+    set(state => ({
+      items: state.items.map(item => (item.read_at ? item : { ...item, read_at: readAt })),
+      unreadCount: 0,
+    }))
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .eq('user_id', userId)
+      .is('read_at', null)
+
+    if (error) {
+      logger.error('[NOTIFICATIONS] Failed to mark all notifications read:', error)
+      await get().refresh()
+    }
+  },
+
+  remove: async (id: string) => {
+    const previous = get().items
+    const items = previous.filter(item => item.id !== id)
+    const removedUnread = countUnread(previous) - countUnread(items)
+    set(state => ({ items, unreadCount: Math.max(0, state.unreadCount - removedUnread) }))
+
+    const { error } = await supabase
+      .from('notifications')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      logger.error('[NOTIFICATIONS] Failed to delete notification:', error)
+      await get().refresh()
+    }
+  },
+
+  initialize: async (userId: string | null) => {
+    const { userId: currentUserId, channel: existingChannel } = get()
+
+    if (!userId) {
+      get().reset()
+      return
+    }
+
+    if (currentUserId === userId && existingChannel) {
+      return
+    }
+
+    if (existingChannel) {
+      await supabase.removeChannel(existingChannel)
+    }
+    set({ userId, channel: null })
+    await get().refresh()
+
+    // Header and MobileBottomNav both initialize; only subscribe once
+    if (get().channel || get().userId !== userId) {
+      return
+    }
+
+    // Inserts and updates both matter: message notifications are collapsed
+    // into an existing row by the database trigger
+    const channel = supabase
+      .channel(`notifications-${userId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'notifications',
+        filter: `user_id=eq.${userId}`
+      }, () => {
+        if (refreshTimeout) {
+          clearTimeout(refreshTimeout)
+        }
+
+        refreshTimeout = setTimeout(() => {
+          void get().refresh()
+        }, 250)
+      })
+      .subscribe()
+
+    set({ channel })
+  }
+}))
@@ -0,0 +1,275 @@
+import { supabase } from './supabase'
+import type { Database, Json } from './database.types'
+import type { Vacancy } from './supabase'
+
+export interface FiltersState {
+  opportunityType: 'all' | 'player' | 'coach'
+  position: string[]
+  gender: 'all' | 'Men' | 'Women'
+  location: string
+  startDate: 'all' | 'immediate' | 'specific'
+  benefits: string[]
+  priority: 'all' | 'high' | 'medium' | 'low'
+}
+
+export type OpportunitySort = 'newest' | 'deadline' | 'start_date' | 'priority' | 'recommended'
+
+export const DEFAULT_FILTERS: FiltersState = {
+  opportunityType: 'all',
+  position: [],
+  gender: 'all',
+  location: '',
+  startDate: 'all',
+  benefits: [],
+  priority: 'all',
+}
+
+export const POSITIONS = ['goalkeeper', 'defender', 'midfielder', 'forward']
+export const BENEFITS = ['housing', 'car', 'visa', 'flights', 'meals', 'job', 'insurance', 'education', 'bonuses', 'equipment']
+
+export const SORT_OPTIONS: { value: OpportunitySort; label: string }[] = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'deadline', label: 'Deadline soonest' },
+  { value: 'start_date', label: 'Start date' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'recommended', label: 'Best match' },
+]
+
+// Ranked against the viewer's own profile, so only offered to players and coaches
+export const canSortByMatch = (role: string | null | undefined) => role === 'player' || role === 'coach'
+
+export const RECOMMENDED_LIMIT = 4
+
+export const OPPORTUNITIES_PAGE_SIZE = 20
+
+export type OpportunityViewMode = 'grid' | 'list'
+
+export interface OpportunityQuery {
+  filters: FiltersState
+  sortBy: OpportunitySort
+  viewMode: OpportunityViewMode
+}
+
+const OPPORTUNITY_TYPES: FiltersState['opportunityType'][] = ['all', 'player', 'coach']
+const GENDERS: FiltersState['gender'][] = ['all', 'Men', 'Women']
+const START_DATES: FiltersState['startDate'][] = ['all', 'immediate', 'specific']
+const PRIORITIES: FiltersState['priority'][] = ['all', 'high', 'medium', 'low']
+
+// Hand-typed links often get the case wrong (gender=women), so match loosely
+const pickOne = <T extends string>(value: string | null, allowed: readonly T[], fallback: T): T =>
+  allowed.find(item => item.toLowerCase() === value?.trim().toLowerCase()) ?? fallback
+
+const pickMany = (value: string | null, allowed: readonly string[]): string[] =>
+  value
+    ? Array.from(new Set(value.split(',').map(item => item.trim().toLowerCase()))).filter(item => allowed.includes(item))
+    : []
+
+/**
+ * Serialise the Opportunities page state into query-string form.
+ * Defaults are left out so an unfiltered page keeps a clean URL, e.g.
+ * ?type=player&position=goalkeeper&location=Netherlands&benefits=housing
+ */
+export const serializeOpportunityQuery = ({ filters, sortBy, viewMode }: OpportunityQuery): URLSearchParams => {
+  const params = new URLSearchParams()
+
+  if (filters.opportunityType !== 'all') params.set('type', filters.opportunityType)
+  if (filters.position.length > 0) params.set('position', filters.position.join(','))
+  if (filters.gender !== 'all') params.set('gender', filters.gender)
+  if (filters.location.trim()) params.set('location', filters.location.trim())
+  if (filters.startDate !== 'all') params.set('start', filters.startDate)
+  if (filters.benefits.length > 0) params.set('benefits', filters.benefits.join(','))
+  if (filters.priority !== 'all') params.set('priority', filters.priority)
+  if (sortBy !== 'newest') params.set('sort', sortBy)
+  if (viewMode !== 'grid') params.set('view', viewMode)
+
+  return params
+}
+
+/**
+ * Inverse of serializeOpportunityQuery. Unknown or malformed values fall back
+ * to defaults so hand-edited or outdated links still open a usable page.
+ */
+export const parseOpportunityQuery = (params: URLSearchParams): OpportunityQuery => {
+  const opportunityType = pickOne(params.get('type'), OPPORTUNITY_TYPES, DEFAULT_FILTERS.opportunityType)
+  // Position and gender only apply to player opportunities (see updateFilter)
+  const appliesToPlayers = opportunityType !== 'coach'
+
+  return {
+    filters: {
+      opportunityType,
+      position: appliesToPlayers ? pickMany(params.get('position'), POSITIONS) : [],
+      gender: appliesToPlayers ? pickOne(params.get('gender'), GENDERS, DEFAULT_FILTERS.gender) : 'all',
+      location: params.get('location')?.trim() ?? '',
+      startDate: pickOne(params.get('start'), START_DATES, DEFAULT_FILTERS.startDate),
+      benefits: pickMany(params.get('benefits'), BENEFITS),
+      priority: pickOne(params.get('priority'), PRIORITIES, DEFAULT_FILTERS.priority),
+    },
+    sortBy: pickOne(params.get('sort'), SORT_OPTIONS.map(option => option.value), 'newest'),
+    viewMode: pickOne<OpportunityViewMode>(params.get('view'), ['grid', 'list'], 'grid'),
+  }
+}
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1)
+
+/**
+ * Short human-readable summary of active filters, e.g.
+ * "Player · Goalkeeper · Netherlands · Housing"
+ */
+export const describeFilters = (filters: FiltersState): string => {
+  const parts: string[] = []
+
+  if (filters.opportunityType !== 'all') parts.push(capitalize(filters.opportunityType))
+  if (filters.position.length > 0) parts.push(filters.position.map(capitalize).join(', '))
+  if (filters.gender !== 'all') parts.push(filters.gender)
+  if (filters.location.trim()) parts.push(filters.location.trim())
+  if (filters.startDate === 'immediate') parts.push('Immediate start')
+  if (filters.startDate === 'specific') parts.push('Scheduled start')
+  if (filters.benefits.length > 0) parts.push(filters.benefits.map(capitalize).join(', '))
+  if (filters.priority !== 'all') parts.push(`${capitalize(filters.priority)} priority`)
+
+  return parts.length > 0 ? parts.join(' · ') : 'All opportunities'
+}
+
+/**
+ * Read filters stored as jsonb (saved searches), dropping anything the
+ * current FiltersState no longer understands.
+ */
+export const parseStoredFilters = (value: Json): FiltersState => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return DEFAULT_FILTERS
+  const raw = value as Record<string, unknown>
+  const asString = (key: keyof FiltersState) => (typeof raw[key] === 'string' ? (raw[key] as string) : '')
+  const asList = (key: keyof FiltersState) =>
+    Array.isArray(raw[key]) ? (raw[key] as unknown[]).filter((item): item is string => typeof item === 'string') : []
+
+  const stored = {
+    opportunityType: asString('opportunityType'),
+    position: asList('position'),
+    gender: asString('gender'),
+    location: asString('location'),
+    startDate: asString('startDate'),
+    benefits: asList('benefits'),
+    priority: asString('priority'),
+  } as FiltersState
+  return parseOpportunityQuery(
+    serializeOpportunityQuery({ filters: stored, sortBy: 'newest', viewMode: 'grid' })
+  ).filters
+}
+
+export interface OpportunityClub {
+  id: string
+  full_name: string | null
+  avatar_url: string | null
+}
+
+/** match_score is the viewer's fit (0-100), NULL when it does not apply to them */
+export type ScoredVacancy = Vacancy & { match_score?: number | null }
+
+export type VacancyWithClub = ScoredVacancy & { club: OpportunityClub | null }
+
+type SearchVacanciesArgs = Database['public']['Functions']['search_vacancies']['Args']
+
+/**
+ * Translate UI filter state into search_vacancies arguments.
+ * 'all' and empty values are omitted so the RPC treats them as "no filter".
+ */
+export const buildSearchArgs = (filters: FiltersState, sortBy: OpportunitySort): SearchVacanciesArgs => {
+  const args: SearchVacanciesArgs = { p_sort: sortBy }
+
+  if (filters.opportunityType !== 'all') args.p_opportunity_type = filters.opportunityType
+  if (filters.position.length > 0) args.p_positions = filters.position
+  if (filters.gender !== 'all') args.p_gender = filters.gender
+  if (filters.location.trim()) args.p_location = filters.location.trim()
+  if (filters.startDate !== 'all') args.p_start_date = filters.startDate
+  if (filters.benefits.length > 0) args.p_benefits = filters.benefits
+  if (filters.priority !== 'all') args.p_priority = filters.priority
+
+  return args
+}
+
+/**
+ * Keyset cursor for the page after `last`. Only the columns the active sort
+ * orders by are needed; NULL columns are resolved server-side.
+ */
+const buildCursorArgs = (last: ScoredVacancy, sortBy: OpportunitySort): SearchVacanciesArgs => {
+  const args: SearchVacanciesArgs = { p_cursor_id: last.id }
+
+  if (last.created_at) args.p_cursor_created_at = last.created_at
+  if (sortBy === 'deadline' && last.application_deadline) args.p_cursor_deadline = last.application_deadline
+  if (sortBy === 'start_date' && last.start_date) args.p_cursor_start_date = last.start_date
+  if (sortBy === 'priority' && last.priority) args.p_cursor_priority = last.priority
+  if (sortBy === 'recommended' && typeof last.match_score === 'number') args.p_cursor_score = last.match_score
+
+  return args
+}
+
+interface SearchVacanciesOptions {
+  /** Last vacancy of the previous page, to continue after it */
+  after?: ScoredVacancy | null
+  pageSize?: number
+  /** Attach the viewer's match_score; only players and coaches have one */
+  withScores?: boolean
+}
+
+/**
+ * The signed-in player's or coach's match scores for a page of vacancies,
+ * fetched in one call. Vacancies that don't apply to them are left out.
+ */
+async function fetchMatchScores(vacancyIds: string[]): Promise<Map<string, number>> {
+  if (vacancyIds.length === 0) return new Map()
+
+  const { data, error } = await supabase.rpc('vacancy_recommendation_scores', { p_vacancy_ids: vacancyIds })
+  if (error) throw error
+
+  return new Map((data ?? []).map(row => [row.vacancy_id, row.score]))
+}
+
+/**
+ * Fetch one page of open vacancies matching the filters.
+ * Pass the last vacancy of the previous page as `after` to continue.
+ */
+export async function searchVacancies(
+  filters: FiltersState,
+  sortBy: OpportunitySort,
+  { after, pageSize = OPPORTUNITIES_PAGE_SIZE, withScores = sortBy === 'recommended' }: SearchVacanciesOptions = {}
+): Promise<{ vacancies: VacancyWithClub[]; hasMore: boolean }> {
+  const { data, error } = await supabase
+    .rpc('search_vacancies', {
+      ...buildSearchArgs(filters, sortBy),
+      ...(after ? buildCursorArgs(after, sortBy) : {}),
+      // One extra row tells us whether another page exists
+      p_limit: pageSize + 1,
+    })
+    .select(`
+      *,
+      club:profiles!vacancies_club_id_fkey(
+        id,
+        full_name,
+        avatar_url
+      )
+    `)
+
+  if (error) throw error
+
+  const rows = (data ?? []) as unknown as VacancyWithClub[]
+  const vacancies = rows.slice(0, pageSize)
+  if (withScores) {
+    const scores = await fetchMatchScores(vacancies.map(vacancy => vacancy.id))
+    vacancies.forEach(vacancy => {
+      vacancy.match_score = scores.get(vacancy.id) ?? null
+    })
+  }
+
+  return {
+    vacancies,
+    hasMore: rows.length > pageSize,
+  }
+}
+
+/**
+ * Best-fitting open vacancies for the signed-in player or coach, leaving out
+ * ones they already applied to. Vacancies that don't fit at all are dropped.
+ */
+export async function fetchRecommendedVacancies(limit: number = RECOMMENDED_LIMIT): Promise<VacancyWithClub[]> {
+  const { vacancies } = await searchVacancies(DEFAULT_FILTERS, 'recommended', { pageSize: limit })
+  return vacancies.filter(vacancy => (vacancy.match_score ?? 0) > 0)
+}
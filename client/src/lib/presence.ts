@@ -0,0 +1,259 @@
+import { create } from 'zustand'
+import type { RealtimeChannel } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import { logger } from './logger'
+
+const HEARTBEAT_INTERVAL_MS = 2 * 60 * 1000
+
+interface PresencePayload {
+  online_at: string
+  typing: boolean
+}
+
+/** Who else is on a conversation's channel right now */
+export interface ConversationPresence {
+  onlineUserIds: string[]
+  typingUserIds: string[]
+}
+
+interface PresenceState {
+  userId: string | null
+  /** The current user's privacy setting; hidden users are never tracked */
+  hidden: boolean
+  /** Presence on each joined conversation channel, by conversation id */
+  conversations: Record<string, ConversationPresence>
+  lastSeen: Record<string, string>
+  initialize: (userId: string | null) => Promise<void>
+  setHidden: (hidden: boolean) => Promise<void>
+  /** Join the presence channels of these conversations; returns a release function */
+  watchConversations: (conversationIds: string[]) => () => void
+  setTyping: (conversationId: string, typing: boolean) => void
+  fetchLastSeen: (userIds: string[]) => Promise<void>
+  reset: () => void
+}
+
+let heartbeatInterval: ReturnType<typeof setInterval> | null = null
+let typingConversationId: string | null = null
+// Nothing is tracked until the user's hide_presence setting has loaded
+let settingsLoaded = false
+const channels = new Map<string, RealtimeChannel>()
+// Several components can watch the same conversation (list and open chat)
+const watchCounts = new Map<string, number>()
+
+const touchLastSeen = async () => {
+  if (typeof document !== 'undefined' && document.visibilityState === 'hidden') return
+
+  const { error } = await supabase.rpc('touch_last_seen')
+  if (error) {
+    logger.error('[PRESENCE] Failed to update last seen:', error)
+  }
+}
+
+const trackPresence = (conversationId: string, channel: RealtimeChannel) =>
+  channel.track({
+    online_at: new Date().toISOString(),
+    typing: typingConversationId === conversationId,
+  } satisfies PresencePayload)
+
+/**
+ * Online status and typing indicators, scoped to each conversation on its
+ * `conversation-${id}` presence channel, so members only ever see the people
+ * they talk to. Every signed-in member tracks themselves on the channels of
+ * the conversations they have on screen (unless they hide their presence).
+ * Last seen times come from the database for members who are offline.
+ */
+export const usePresenceStore = create<PresenceState>((set, get) => {
+  const leaveConversation = (conversationId: string) => {
+    const channel = channels.get(conversationId)
+    if (channel) {
+      supabase.removeChannel(channel)
+      channels.delete(conversationId)
+    }
+    if (typingConversationId === conversationId) {
+      typingConversationId = null
+    }
+    set(state => {
+      const conversations = { ...state.conversations }
+      delete conversations[conversationId]
+      return { conversations }
+    })
+  }
+
+  const joinConversation = (conversationId: string, userId: string) => {
+    const channel = supabase.channel(`conversation-${conversationId}`, {
+      config: { presence: { key: userId } },
+    })
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const presenceState = channel.presenceState<PresencePayload>()
+        const onlineUserIds = Object.keys(presenceState).filter(key => key !== userId)
+
+        set(state => ({
+          conversations: {
+            ...state.conversations,
+            [conversationId]: {
+              onlineUserIds,
+              typingUserIds: onlineUserIds.filter(key => presenceState[key].some(entry => entry.typing)),
+            },
+          },
+        }))
+      })
+      .subscribe(status => {
+        if (status === 'SUBSCRIBED' && settingsLoaded && !get().hidden) {
+          void trackPresence(conversationId, channel)
+        }
+      })
+
+    channels.set(conversationId, channel)
+  }
+
+  return {
+    userId: null,
+    hidden: false,
+    conversations: {},
+    lastSeen: {},
+
+    reset: () => {
+      channels.forEach(channel => {
+        supabase.removeChannel(channel)
+      })
+      channels.clear()
+      if (heartbeatInterval) {
+        clearInterval(heartbeatInterval)
+        heartbeatInterval = null
+      }
+      typingConversationId = null
+      settingsLoaded = false
+      set({ userId: null, hidden: false, conversations: {}, lastSeen: {} })
+    },
+
+    setHidden: async (hidden: boolean) => {
+      const { userId, hidden: previous } = get()
+      if (!userId) return
+
+      set({ hidden })
+
+      const { error } = await supabase
+        .from('user_presence')
+        .upsert({ user_id: userId, hide_presence: hidden }, { onConflict: 'user_id' })
+
+      if (error) {
+        set({ hidden: previous })
+        throw error
+      }
+
+      if (hidden) {
+        typingConversationId = null
+      }
+      if (!settingsLoaded) return
+      await Promise.all(
+        Array.from(channels, ([conversationId, channel]) =>
+          hidden ? channel.untrack() : trackPresence(conversationId, channel)
+        )
+      )
+    },
+
+    watchConversations: (conversationIds: string[]) => {
+      const { userId } = get()
+      const ids = Array.from(new Set(conversationIds))
+
+      for (const conversationId of ids) {
+        watchCounts.set(conversationId, (watchCounts.get(conversationId) ?? 0) + 1)
+        if (userId && !channels.has(conversationId)) {
+          joinConversation(conversationId, userId)
+        }
+      }
+
+      return () => {
+        for (const conversationId of ids) {
+          const count = (watchCounts.get(conversationId) ?? 0) - 1
+          if (count > 0) {
+            watchCounts.set(conversationId, count)
+          } else {
+            watchCounts.delete(conversationId)
+            // Effects re-run cleanup-then-setup; keep the channel if it is watched again right away
+            setTimeout(() => {
+              if (!watchCounts.has(conversationId)) leaveConversation(conversationId)
+            }, 0)
+          }
+        }
+      }
+    },
+
+    setTyping: (conversationId: string, typing: boolean) => {
+      const next = typing ? conversationId : typingConversationId === conversationId ? null : typingConversationId
+      if (next === typingConversationId) return
+
+      typingConversationId = next
+      const channel = channels.get(conversationId)
+      if (!channel || !settingsLoaded || get().hidden) return
+
+      void trackPresence(conversationId, channel)
+    },
+
+    fetchLastSeen: async (userIds: string[]) => {
+      if (!get().userId || userIds.length === 0) return
+
+      const { data, error } = await supabase.rpc('get_last_seen', { p_user_ids: userIds })
+      if (error) {
+        logger.error('[PRESENCE] Failed to fetch last seen:', error)
+        return
+      }
+
+      set(state => ({
+        lastSeen: {
+          ...state.lastSeen,
+          ...Object.fromEntries((data ?? []).map(row => [row.user_id, row.last_seen_at])),
+        },
+      }))
+    },
+
+    initialize: async (userId: string | null) => {
+      if (!userId) {
+        get().reset()
+        return
+      }
+
+      if (get().userId === userId) {
+        return
+      }
+
+      get().reset()
+      set({ userId })
+      // Conversations watched before sign-in finished
+      watchCounts.forEach((_count, conversationId) => joinConversation(conversationId, userId))
+
+      const { data: settings, error } = await supabase
+        .from('user_presence')
+        .select('hide_presence')
+        .eq('user_id', userId)
+        .maybeSingle()
+
+      if (error) {
+        logger.error('[PRESENCE] Failed to fetch presence settings:', error)
+      }
+
+      if (get().userId !== userId) {
+        return
+      }
+
+      const hidden = settings?.hide_presence ?? false
+      settingsLoaded = true
+      set({ hidden })
+      if (!hidden) {
+        channels.forEach((channel, conversationId) => {
+          void trackPresence(conversationId, channel)
+        })
+      }
+
+      void touchLastSeen()
+      if (heartbeatInterval) {
+        clearInterval(heartbeatInterval)
+      }
+      heartbeatInterval = setInterval(() => {
+        void touchLastSeen()
+      }, HEARTBEAT_INTERVAL_MS)
+    },
+  }
+})
@@ -0,0 +1,200 @@
+import { supabase } from './supabase'
+import type { Database } from './database.types'
+import type { Profile, ScoutShortlist, ScoutShortlistPlayer } from './supabase'
+
+/** Scout search filters; stored as jsonb keys by search_scout_players */
+export interface ScoutFilters {
+  /** Name, username or current club */
+  query: string
+  positions: string[]
+  ageMin: number | null
+  ageMax: number | null
+  nationality: string
+  passport: string
+  /** At least one passport from an EU member state */
+  euPassport: boolean
+  /** Matches the current league or any playing_history entry */
+  league: string
+  /** Lowest league_level() reached in the current league or playing history */
+  minLeagueLevel: number | null
+  hasHighlightVideo: boolean
+}
+
+export const DEFAULT_SCOUT_FILTERS: ScoutFilters = {
+  query: '',
+  positions: [],
+  ageMin: null,
+  ageMax: null,
+  nationality: '',
+  passport: '',
+  euPassport: false,
+  league: '',
+  minLeagueLevel: null,
+  hasHighlightVideo: false,
+}
+
+/** Tiers returned by league_level() */
+export const LEAGUE_LEVELS: { value: number; label: string }[] = [
+  { value: 4, label: 'International' },
+  { value: 3, label: 'Top flight' },
+  { value: 2, label: 'Second tier' },
+  { value: 1, label: 'Any league played' },
+]
+
+export const SCOUT_PAGE_SIZE = 24
+
+/** Matches the scout_shortlists / scout_shortlist_players constraints */
+export const MAX_SHORTLIST_NAME_LENGTH = 60
+export const MAX_SHORTLIST_NOTE_LENGTH = 2000
+
+export type ScoutPlayer = Database['public']['Functions']['search_scout_players']['Returns'][number]
+
+export type ShortlistWithPlayers = ScoutShortlist & { player_ids: string[] }
+
+export type ShortlistEntry = ScoutShortlistPlayer & {
+  player: Pick<
+    Profile,
+    | 'id'
+    | 'full_name'
+    | 'username'
+    | 'avatar_url'
+    | 'position'
+    | 'secondary_position'
+    | 'nationality'
+    | 'base_location'
+    | 'current_club'
+    | 'highlight_video_url'
+  >
+}
+
+export const hasScoutFilters = (filters: ScoutFilters) =>
+  filters.query.trim() !== '' ||
+  filters.positions.length > 0 ||
+  filters.ageMin !== null ||
+  filters.ageMax !== null ||
+  filters.nationality.trim() !== '' ||
+  filters.passport.trim() !== '' ||
+  filters.euPassport ||
+  filters.league.trim() !== '' ||
+  filters.minLeagueLevel !== null ||
+  filters.hasHighlightVideo
+
+/** Fetch one page of players for club scouting, strongest league history first */
+export async function searchScoutPlayers(
+  filters: ScoutFilters,
+  offset: number,
+  limit: number = SCOUT_PAGE_SIZE
+): Promise<{ players: ScoutPlayer[]; total: number }> {
+  const { data, error } = await supabase.rpc('search_scout_players', {
+    p_filters: { ...filters },
+    p_limit: limit,
+    p_offset: offset,
+  })
+
+  if (error) throw error
+
+  const players = data ?? []
+  return {
+    players,
+    // Every row carries the overall count; an empty page past the end has none
+    total: players[0]?.total_count ?? offset,
+  }
+}
+
+export async function fetchShortlists(clubId: string): Promise<ShortlistWithPlayers[]> {
+  const { data, error } = await supabase
+    .from('scout_shortlists')
+    .select('*, scout_shortlist_players(player_id)')
+    .eq('club_id', clubId)
+    .order('name', { ascending: true })
+
+  if (error) throw error
+
+  return (data ?? []).map(({ scout_shortlist_players: players, ...shortlist }) => ({
+    ...shortlist,
+    player_ids: players.map(entry => entry.player_id),
+  }))
+}
+
+export async function createShortlist(clubId: string, name: string): Promise<ShortlistWithPlayers> {
+  const { data, error } = await supabase
+    .from('scout_shortlists')
+    .insert({ club_id: clubId, name: name.trim() })
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return { ...data, player_ids: [] }
+}
+
+export async function renameShortlist(id: string, name: string): Promise<void> {
+  const { error } = await supabase
+    .from('scout_shortlists')
+    .update({ name: name.trim() })
+    .eq('id', id)
+
+  if (error) throw error
+}
+
+export async function deleteShortlist(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('scout_shortlists')
+    .delete()
+    .eq('id', id)
+
+  if (error) throw error
+}
+
+export async function addToShortlist(shortlistId: string, playerId: string): Promise<void> {
+  const { error } = await supabase
+    .from('scout_shortlist_players')
+    .insert({ shortlist_id: shortlistId, player_id: playerId })
+
+  if (error) throw error
+}
+
+export async function removeFromShortlist(shortlistId: string, playerId: string): Promise<void> {
+  const { error } = await supabase
+    .from('scout_shortlist_players')
+    .delete()
+    .eq('shortlist_id', shortlistId)
+    .eq('player_id', playerId)
+
+  if (error) throw error
+}
+
+/** Players on a shortlist with their private notes, most recently added first */
+export async function fetchShortlistEntries(shortlistId: string): Promise<ShortlistEntry[]> {
+  const { data, error } = await supabase
+    .from('scout_shortlist_players')
+    .select(`
+      *,
+      player:profiles!scout_shortlist_players_player_id_fkey (
+        id,
+        full_name,
+        username,
+        avatar_url,
+        position,
+        secondary_position,
+        nationality,
+        base_location,
+        current_club,
+        highlight_video_url
+      )
+    `)
+    .eq('shortlist_id', shortlistId)
+    .order('added_at', { ascending: false })
+
+  if (error) throw error
+  return (data ?? []) as ShortlistEntry[]
+}
+
+export async function updateShortlistNote(shortlistId: string, playerId: string, note: string): Promise<void> {
+  const { error } = await supabase
+    .from('scout_shortlist_players')
+    .update({ note: note.trim() || null })
+    .eq('shortlist_id', shortlistId)
+    .eq('player_id', playerId)
+
+  if (error) throw error
+}
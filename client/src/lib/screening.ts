@@ -0,0 +1,222 @@
+import type { Json } from './supabase'
+import { generateId } from './utils'
+
+export type ScreeningQuestionType = 'yes_no' | 'single_choice' | 'number' | 'short_text'
+
+/**
+ * Knockout rule for a question. An answer that breaks the rule marks the
+ * application as knocked out; it is still submitted so the club can decide.
+ */
+export interface ScreeningKnockout {
+  /** yes_no: the answer required to pass */
+  expected?: boolean
+  /** single_choice: options that pass; anything else knocks out */
+  accepted?: string[]
+  /** number: inclusive bounds */
+  min?: number | null
+  max?: number | null
+}
+
+export interface ScreeningQuestion {
+  id: string
+  type: ScreeningQuestionType
+  prompt: string
+  required: boolean
+  /** single_choice only */
+  options?: string[]
+  knockout?: ScreeningKnockout | null
+}
+
+export type ScreeningAnswerValue = boolean | number | string
+
+/** One answer as stored on the application by apply_screening_answers */
+export interface ScreeningAnswer {
+  question_id: string
+  prompt: string
+  type: ScreeningQuestionType
+  value: ScreeningAnswerValue | null
+  passed: boolean
+}
+
+export interface ScreeningResult {
+  answers: ScreeningAnswer[]
+  knocked_out: boolean
+}
+
+export const SCREENING_QUESTION_TYPES: { value: ScreeningQuestionType; label: string }[] = [
+  { value: 'yes_no', label: 'Yes / No' },
+  { value: 'single_choice', label: 'Single choice' },
+  { value: 'number', label: 'Number' },
+  { value: 'short_text', label: 'Short text' },
+]
+
+/** Matches the checks in the vacancies_screening_questions constraint */
+export const MAX_SCREENING_QUESTIONS = 10
+export const MAX_SCREENING_OPTIONS = 10
+export const MAX_SCREENING_PROMPT_LENGTH = 200
+export const MAX_SCREENING_TEXT_ANSWER_LENGTH = 300
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const QUESTION_TYPES = SCREENING_QUESTION_TYPES.map(type => type.value)
+
+/** Reads vacancies.screening_questions, dropping anything malformed */
+export function parseScreeningQuestions(value: Json | null | undefined): ScreeningQuestion[] {
+  if (!Array.isArray(value)) return []
+
+  return value.flatMap(item => {
+    if (!isRecord(item) || typeof item.id !== 'string' || typeof item.prompt !== 'string') return []
+    if (!QUESTION_TYPES.includes(item.type as ScreeningQuestionType)) return []
+
+    const knockout = isRecord(item.knockout) ? (item.knockout as ScreeningKnockout) : null
+    return [
+      {
+        id: item.id,
+        type: item.type as ScreeningQuestionType,
+        prompt: item.prompt,
+        required: item.required !== false,
+        options: Array.isArray(item.options) ? item.options.filter((o): o is string => typeof o === 'string') : undefined,
+        knockout,
+      },
+    ]
+  })
+}
+
+/** Reads the screening block of vacancy_applications.metadata */
+export function getScreeningResult(metadata: Json | null | undefined): ScreeningResult | null {
+  if (!isRecord(metadata) || !isRecord(metadata.screening)) return null
+  const screening = metadata.screening
+  if (!Array.isArray(screening.answers)) return null
+
+  return {
+    answers: screening.answers.filter(isRecord) as unknown as ScreeningAnswer[],
+    knocked_out: screening.knocked_out === true,
+  }
+}
+
+export function hasKnockout(question: ScreeningQuestion): boolean {
+  const knockout = question.knockout
+  if (!knockout) return false
+  switch (question.type) {
+    case 'yes_no':
+      return typeof knockout.expected === 'boolean'
+    case 'single_choice':
+      return Boolean(knockout.accepted?.length)
+    case 'number':
+      return typeof knockout.min === 'number' || typeof knockout.max === 'number'
+    default:
+      return false
+  }
+}
+
+export function formatScreeningAnswer(answer: Pick<ScreeningAnswer, 'type' | 'value'>): string {
+  if (answer.value === null || answer.value === '') return 'No answer'
+  if (answer.type === 'yes_no') return answer.value === true ? 'Yes' : 'No'
+  return String(answer.value)
+}
+
+export const createScreeningQuestion = (type: ScreeningQuestionType = 'yes_no'): ScreeningQuestion => ({
+  id: generateId(),
+  type,
+  prompt: '',
+  required: true,
+  options: type === 'single_choice' ? [] : undefined,
+  knockout: null,
+})
+
+/**
+ * Returns an error message for the first invalid question, or null. Mirrors
+ * the validation done by the database when the vacancy is saved.
+ */
+export function validateScreeningQuestions(questions: ScreeningQuestion[]): string | null {
+  if (questions.length > MAX_SCREENING_QUESTIONS) {
+    return `You can add up to ${MAX_SCREENING_QUESTIONS} screening questions`
+  }
+
+  for (const [index, question] of questions.entries()) {
+    const label = `Question ${index + 1}`
+    if (!question.prompt.trim()) return `${label} needs a question`
+    if (question.type === 'single_choice' && (question.options ?? []).filter(o => o.trim()).length < 2) {
+      return `${label} needs at least two options`
+    }
+    if (
+      question.type === 'number' &&
+      typeof question.knockout?.min === 'number' &&
+      typeof question.knockout?.max === 'number' &&
+      question.knockout.min > question.knockout.max
+    ) {
+      return `${label} has a minimum above its maximum`
+    }
+  }
+
+  return null
+}
+
+/** Strips empty options and knockouts that no longer apply before saving */
+export function normalizeScreeningQuestions(questions: ScreeningQuestion[]): ScreeningQuestion[] {
+  return questions.map(question => {
+    const options =
+      question.type === 'single_choice'
+        ? Array.from(new Set((question.options ?? []).map(o => o.trim()).filter(Boolean)))
+        : undefined
+    const normalized: ScreeningQuestion = {
+      id: question.id,
+      type: question.type,
+      prompt: question.prompt.trim(),
+      required: question.required,
+      options,
+      knockout: null,
+    }
+
+    if (hasKnockout(question)) {
+      const knockout = question.knockout!
+      if (question.type === 'yes_no') normalized.knockout = { expected: knockout.expected }
+      if (question.type === 'single_choice') {
+        const accepted = (knockout.accepted ?? []).filter(option => options?.includes(option))
+        normalized.knockout = accepted.length ? { accepted } : null
+      }
+      if (question.type === 'number') normalized.knockout = { min: knockout.min ?? null, max: knockout.max ?? null }
+    }
+
+    return normalized
+  })
+}
+
+export type ScreeningOutcomeFilter = 'all' | 'passed' | 'knocked_out'
+
+export interface ScreeningFilters {
+  outcome: ScreeningOutcomeFilter
+  /**
+   * Per-question filter values by question id. yes_no and single_choice match
+   * exactly, number matches answers of at least the value, short_text matches
+   * answers containing it.
+   */
+  answers: Record<string, string>
+}
+
+export const EMPTY_SCREENING_FILTERS: ScreeningFilters = { outcome: 'all', answers: {} }
+
+export function matchesScreeningFilters(metadata: Json | null | undefined, filters: ScreeningFilters): boolean {
+  const activeAnswers = Object.entries(filters.answers).filter(([, value]) => value.trim() !== '')
+  if (filters.outcome === 'all' && activeAnswers.length === 0) return true
+
+  const screening = getScreeningResult(metadata)
+  if (!screening) return false
+  if (filters.outcome === 'passed' && screening.knocked_out) return false
+  if (filters.outcome === 'knocked_out' && !screening.knocked_out) return false
+
+  return activeAnswers.every(([questionId, filterValue]) => {
+    const answer = screening.answers.find(item => item.question_id === questionId)
+    if (!answer || answer.value === null) return false
+
+    switch (answer.type) {
+      case 'number':
+        return Number(answer.value) >= Number(filterValue)
+      case 'short_text':
+        return String(answer.value).toLowerCase().includes(filterValue.trim().toLowerCase())
+      default:
+        return String(answer.value) === filterValue
+    }
+  })
+}
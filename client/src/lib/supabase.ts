@@ -34,6 +34,9 @@ export type VacancyUpdate = Database['public']['Tables']['vacancies']['Update']
 export type VacancyApplication = Database['public']['Tables']['vacancy_applications']['Row']
 export type VacancyApplicationInsert = Database['public']['Tables']['vacancy_applications']['Insert']
 export type VacancyApplicationUpdate = Database['public']['Tables']['vacancy_applications']['Update']
+export type ApplicationStatus = Database['public']['Enums']['application_status']
+
+export type ApplicationStatusHistory = Database['public']['Tables']['application_status_history']['Row']
 
 export type GalleryPhoto = Database['public']['Tables']['gallery_photos']['Row']
 export type GalleryPhotoInsert = Database['public']['Tables']['gallery_photos']['Insert']
@@ -55,6 +58,19 @@ export type Conversation = Database['public']['Tables']['conversations']['Row']
 export type ConversationInsert = Database['public']['Tables']['conversations']['Insert']
 export type ConversationUpdate = Database['public']['Tables']['conversations']['Update']
 
+export type MessageTemplate = Database['public']['Tables']['message_templates']['Row']
+
+export type ScoutShortlist = Database['public']['Tables']['scout_shortlists']['Row']
+export type ScoutShortlistPlayer = Database['public']['Tables']['scout_shortlist_players']['Row']
+
+export type SavedSearch = Database['public']['Tables']['saved_searches']['Row']
+export type SavedSearchInsert = Database['public']['Tables']['saved_searches']['Insert']
+export type SavedSearchUpdate = Database['public']['Tables']['saved_searches']['Update']
+
+// Not named Notification to avoid shadowing the browser Notification API
+export type AppNotification = Database['public']['Tables']['notifications']['Row']
+export type NotificationType = Database['public']['Enums']['notification_type']
+
 // Complex joined types
 export type VacancyApplicationWithPlayer = VacancyApplication & {
   player: Pick<
@@ -63,4 +79,13 @@ export type VacancyApplicationWithPlayer = VacancyApplication & {
   >
 }
 
+export type VacancyApplicationWithVacancy = VacancyApplication & {
+  vacancy: Pick<
+    Vacancy,
+    'id' | 'title' | 'opportunity_type' | 'position' | 'location_city' | 'location_country' | 'status' | 'club_id'
+  > & {
+    club: Pick<Profile, 'id' | 'full_name' | 'avatar_url' | 'username'> | null
+  }
+}
+
 export type { Json } from './database.types'
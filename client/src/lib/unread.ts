@@ -3,6 +3,7 @@ import type { RealtimeChannel } from '@supabase/supabase-js'
 import { supabase } from './supabase'
 import { requestCache, generateCacheKey } from './requestCache'
 import { monitor } from './monitor'
+import { markMessagesDelivered } from './messageDelivery'
 
 type RefreshOptions = {
   bypassCache?: boolean
@@ -20,6 +21,7 @@ interface UnreadState {
 }
 
 let refreshTimeout: ReturnType<typeof setTimeout> | null = null
+let deliveredTimeout: ReturnType<typeof setTimeout> | null = null
 
 const fetchUnreadCount = async (userId: string, options?: RefreshOptions): Promise<number> => {
   const cacheKey = generateCacheKey('unread_count', { userId })
@@ -70,6 +72,10 @@ export const useUnreadStore = create<UnreadState>((set, get) => ({
       clearTimeout(refreshTimeout)
       refreshTimeout = null
     }
+    if (deliveredTimeout) {
+      clearTimeout(deliveredTimeout)
+      deliveredTimeout = null
+    }
     set({ count: 0, loading: false, userId: null, channel: null })
   },
 
@@ -109,13 +115,16 @@ export const useUnreadStore = create<UnreadState>((set, get) => ({
     }
 
     if (!get().channel) {
+      // Anything that arrived while the app was closed is delivered now
+      void markMessagesDelivered()
+
       const channel = supabase
         .channel(`unread-messages-${userId}`)
         .on('postgres_changes', {
           event: '*',
           schema: 'public',
           table: 'messages'
-        }, () => {
+        }, payload => {
           if (refreshTimeout) {
             clearTimeout(refreshTimeout)
           }
@@ -123,6 +132,16 @@ export const useUnreadStore = create<UnreadState>((set, get) => ({
           refreshTimeout = setTimeout(() => {
             get().refresh({ bypassCache: true })
           }, 250)
+
+          const incoming = payload.new as { sender_id?: string } | undefined
+          if (payload.eventType === 'INSERT' && incoming?.sender_id !== userId) {
+            if (deliveredTimeout) {
+              clearTimeout(deliveredTimeout)
+            }
+            deliveredTimeout = setTimeout(() => {
+              void markMessagesDelivered()
+            }, 250)
+          }
         })
         .subscribe()
 
@@ -1,10 +1,45 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { useParams, useNavigate } from 'react-router-dom'
-import { ArrowLeft, Users } from 'lucide-react'
+import { ArrowLeft, ArrowUpDown, Users } from 'lucide-react'
 import { supabase } from '@/lib/supabase'
 import { useAuthStore } from '@/lib/auth'
-import type { VacancyApplicationWithPlayer, Vacancy, Json } from '@/lib/supabase'
-import ApplicantCard from '@/components/ApplicantCard'
+import { useToastStore } from '@/lib/toast'
+import { logger } from '@/lib/logger'
+import { APPLICATION_STAGE_META, getClubMoveTargets } from '@/lib/applications'
+import type { VacancyApplicationWithPlayer, VacancyApplication, ApplicationStatus, Vacancy, Json } from '@/lib/supabase'
+import ApplicantPipelineBoard from '@/components/ApplicantPipelineBoard'
+import ApplicantDetailModal from '@/components/ApplicantDetailModal'
+import ApplicantScreeningFilters from '@/components/ApplicantScreeningFilters'
+import {
+  EMPTY_SCREENING_FILTERS,
+  matchesScreeningFilters,
+  parseScreeningQuestions,
+  type ScreeningFilters,
+} from '@/lib/screening'
+import { fetchApplicationMatchScores, type ApplicantSortOrder, type MatchScore } from '@/lib/matchScore'
+
+// Transform the data to match our type
+interface ApplicationWithProfile {
+  id: string
+  vacancy_id: string
+  player_id: string
+  cover_letter: string | null
+  status: string
+  applied_at: string
+  updated_at: string
+  status_changed_at: string
+  metadata: Json
+  player: {
+    id: string
+    full_name: string
+    avatar_url: string | null
+    position: string | null
+    secondary_position: string | null
+    base_location: string
+    nationality: string
+    username: string | null
+  }
+}
 
 export default function ApplicantsList() {
   const { vacancyId } = useParams<{ vacancyId: string }>()
@@ -14,6 +49,75 @@ export default function ApplicantsList() {
   const [applications, setApplications] = useState<VacancyApplicationWithPlayer[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [updatingIds, setUpdatingIds] = useState<Set<string>>(new Set())
+  const [detailApplicationId, setDetailApplicationId] = useState<string | null>(null)
+  const [screeningFilters, setScreeningFilters] = useState<ScreeningFilters>(EMPTY_SCREENING_FILTERS)
+  const [matchScores, setMatchScores] = useState<Record<string, MatchScore>>({})
+  const [sortOrder, setSortOrder] = useState<ApplicantSortOrder>('newest')
+  const { addToast } = useToastStore()
+  const applicationsRef = useRef<VacancyApplicationWithPlayer[]>([])
+
+  useEffect(() => {
+    applicationsRef.current = applications
+  }, [applications])
+
+  const fetchApplications = useCallback(async () => {
+    if (!vacancyId) return
+
+    // Fetch applications with player profiles
+    const { data: applicationsData, error: applicationsError } = await supabase
+      .from('vacancy_applications')
+      .select(`
+        *,
+        player:player_id (
+          id,
+          full_name,
+          avatar_url,
+          position,
+          secondary_position,
+          base_location,
+          nationality,
+          username
+        )
+      `)
+      .eq('vacancy_id', vacancyId)
+      .order('applied_at', { ascending: false })
+
+    if (applicationsError) {
+      throw applicationsError
+    }
+
+    const transformedApplications: VacancyApplicationWithPlayer[] = (applicationsData as ApplicationWithProfile[] || []).map((app) => ({
+      id: app.id,
+      vacancy_id: app.vacancy_id,
+      player_id: app.player_id,
+      cover_letter: app.cover_letter,
+      status: app.status as VacancyApplicationWithPlayer['status'],
+      applied_at: app.applied_at,
+      updated_at: app.updated_at,
+      status_changed_at: app.status_changed_at,
+      metadata: app.metadata as Json,
+      player: {
+        id: app.player.id,
+        full_name: app.player.full_name,
+        avatar_url: app.player.avatar_url,
+        position: app.player.position,
+        secondary_position: app.player.secondary_position,
+        base_location: app.player.base_location,
+        nationality: app.player.nationality,
+        username: app.player.username,
+      },
+    }))
+
+    setApplications(transformedApplications)
+
+    // Scores are a ranking aid, so the board still loads without them
+    try {
+      setMatchScores(await fetchApplicationMatchScores(vacancyId))
+    } catch (scoreError) {
+      logger.error('Error fetching match scores:', scoreError)
+    }
+  }, [vacancyId])
 
   useEffect(() => {
     const fetchData = async () => {
@@ -41,74 +145,7 @@ export default function ApplicantsList() {
         }
 
         setVacancy(vacancyData)
-
-        // Fetch applications with player profiles
-        const { data: applicationsData, error: applicationsError } = await supabase
-          .from('vacancy_applications')
-          .select(`
-            *,
-            player:player_id (
-              id,
-              full_name,
-              avatar_url,
-              position,
-              secondary_position,
-              base_location,
-              nationality,
-              username
-            )
-          `)
-          .eq('vacancy_id', vacancyId)
-          .order('applied_at', { ascending: false })
-
-        if (applicationsError) {
-          throw applicationsError
-        }
-
-        // Transform the data to match our type
-        interface ApplicationWithProfile {
-          id: string
-          vacancy_id: string
-          player_id: string
-          cover_letter: string | null
-          status: string
-          applied_at: string
-          updated_at: string
-          metadata: Json
-          player: {
-            id: string
-            full_name: string
-            avatar_url: string | null
-            position: string | null
-            secondary_position: string | null
-            base_location: string
-            nationality: string
-            username: string | null
-          }
-        }
-
-        const transformedApplications: VacancyApplicationWithPlayer[] = (applicationsData as ApplicationWithProfile[] || []).map((app) => ({
-          id: app.id,
-          vacancy_id: app.vacancy_id,
-          player_id: app.player_id,
-          cover_letter: app.cover_letter,
-          status: app.status as VacancyApplicationWithPlayer['status'],
-          applied_at: app.applied_at,
-          updated_at: app.updated_at,
-          metadata: app.metadata as Json,
-          player: {
-            id: app.player.id,
-            full_name: app.player.full_name,
-            avatar_url: app.player.avatar_url,
-            position: app.player.position,
-            secondary_position: app.player.secondary_position,
-            base_location: app.player.base_location,
-            nationality: app.player.nationality,
-            username: app.player.username,
-          },
-        }))
-
-        setApplications(transformedApplications)
+        await fetchApplications()
       } catch {
         setError('Failed to load applicants. Please try again.')
       } finally {
@@ -117,7 +154,135 @@ export default function ApplicantsList() {
     }
 
     fetchData()
-  }, [vacancyId, user])
+  }, [vacancyId, user, fetchApplications])
+
+  // Keep the board in sync with moves made by other staff on the same vacancy
+  useEffect(() => {
+    if (!vacancyId || !user) return
+
+    const channel = supabase
+      .channel(`vacancy-applications-${vacancyId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'vacancy_applications',
+          filter: `vacancy_id=eq.${vacancyId}`
+        },
+        payload => {
+          const updated = payload.new as VacancyApplication
+          setApplications(prev =>
+            prev.map(app =>
+              app.id === updated.id
+                ? {
+                    ...app,
+                    status: updated.status,
+                    updated_at: updated.updated_at,
+                    status_changed_at: updated.status_changed_at,
+                    metadata: updated.metadata,
+                  }
+                : app
+            )
+          )
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'vacancy_applications',
+          filter: `vacancy_id=eq.${vacancyId}`
+        },
+        () => {
+          // New applicants need their profile joined, so refetch the list
+          fetchApplications().catch(fetchError => {
+            logger.error('Error refreshing applicants after realtime insert:', fetchError)
+          })
+        }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [vacancyId, user, fetchApplications])
+
+  const handleMoveApplication = useCallback(async (applicationId: string, status: ApplicationStatus) => {
+    const previous = applicationsRef.current.find(app => app.id === applicationId)
+    // Don't send moves the database would reject
+    if (!previous || !getClubMoveTargets(previous.status).includes(status)) return
+
+    const optimisticChangedAt = new Date().toISOString()
+    setUpdatingIds(prev => new Set(prev).add(applicationId))
+    setApplications(prev =>
+      prev.map(app =>
+        app.id === applicationId ? { ...app, status, status_changed_at: optimisticChangedAt } : app
+      )
+    )
+
+    try {
+      const { data, error: updateError } = await supabase
+        .from('vacancy_applications')
+        .update({ status })
+        .eq('id', applicationId)
+        .select('status, updated_at, status_changed_at')
+        .single()
+
+      if (updateError) throw updateError
+
+      setApplications(prev =>
+        prev.map(app => (app.id === applicationId ? { ...app, ...data } : app))
+      )
+      addToast(`Moved to ${APPLICATION_STAGE_META[status].label}.`, 'success')
+    } catch (moveError) {
+      logger.error('Error updating application status:', moveError)
+      const isInvalidTransition = (moveError as { code?: string })?.code === '23514'
+      setApplications(prev =>
+        prev.map(app =>
+          app.id === applicationId
+            ? { ...app, status: previous.status, status_changed_at: previous.status_changed_at }
+            : app
+        )
+      )
+      addToast(
+        isInvalidTransition
+          ? `Cannot move from ${APPLICATION_STAGE_META[previous.status].label} to ${APPLICATION_STAGE_META[status].label}.`
+          : 'Failed to update applicant. Please try again.',
+        'error'
+      )
+    } finally {
+      setUpdatingIds(prev => {
+        const next = new Set(prev)
+        next.delete(applicationId)
+        return next
+      })
+    }
+  }, [addToast])
+
+  const screeningQuestions = useMemo(
+    () => parseScreeningQuestions(vacancy?.screening_questions),
+    [vacancy?.screening_questions]
+  )
+
+  const filteredApplications = useMemo(
+    () => applications.filter(app => matchesScreeningFilters(app.metadata, screeningFilters)),
+    [applications, screeningFilters]
+  )
+
+  // Array.prototype.sort is stable, so equal scores stay newest first
+  const sortedApplications = useMemo(
+    () =>
+      sortOrder === 'match'
+        ? [...filteredApplications].sort(
+            (a, b) => (matchScores[b.id]?.score ?? -1) - (matchScores[a.id]?.score ?? -1)
+          )
+        : filteredApplications,
+    [filteredApplications, matchScores, sortOrder]
+  )
+
+  const detailApplication = applications.find(app => app.id === detailApplicationId) ?? null
 
   if (isLoading) {
     return (
@@ -153,7 +318,7 @@ export default function ApplicantsList() {
     <div className="min-h-screen bg-gray-50 pb-16">
       {/* Header */}
       <div className="bg-white/95 backdrop-blur border-b border-gray-100">
-        <div className="mx-auto flex w-full max-w-4xl flex-col gap-6 px-4 py-6 sm:px-6">
+        <div className="mx-auto flex w-full max-w-7xl flex-col gap-6 px-4 py-6 sm:px-6">
           <button
             onClick={() => navigate(-1)}
             className="inline-flex w-fit items-center gap-2 text-sm font-medium text-gray-600 transition-colors hover:text-gray-900"
@@ -170,12 +335,17 @@ export default function ApplicantsList() {
               <Users className="h-4 w-4" />
               {applications.length} applicant{applications.length !== 1 ? 's' : ''}
             </p>
+            {applications.length > 0 && (
+              <p className="mt-1 text-sm text-gray-500">
+                Drag applicants between stages or use the stage menu on each card. Changes are shared live with your staff.
+              </p>
+            )}
           </div>
         </div>
       </div>
 
       {/* Content */}
-      <div className="mx-auto w-full max-w-4xl px-4 py-6 sm:px-6 sm:py-8">
+      <div className="mx-auto w-full max-w-7xl px-4 py-6 sm:px-6 sm:py-8">
         {applications.length === 0 ? (
           <div className="rounded-2xl border border-gray-200 bg-white p-10 text-center">
             <div className="mb-4 text-5xl">📭</div>
@@ -185,13 +355,49 @@ export default function ApplicantsList() {
             </p>
           </div>
         ) : (
-          <div className="space-y-4">
-            {applications.map((application) => (
-              <ApplicantCard key={application.id} application={application} />
-            ))}
-          </div>
+          <>
+            {screeningQuestions.length > 0 && (
+              <ApplicantScreeningFilters
+                questions={screeningQuestions}
+                filters={screeningFilters}
+                onChange={setScreeningFilters}
+                matchCount={filteredApplications.length}
+                totalCount={applications.length}
+              />
+            )}
+            <div className="mb-4 flex items-center justify-end gap-2">
+              <ArrowUpDown className="h-4 w-4 text-gray-500" />
+              <label htmlFor="applicant-sort" className="text-sm text-gray-600">
+                Sort by
+              </label>
+              <select
+                id="applicant-sort"
+                value={sortOrder}
+                onChange={(e) => setSortOrder(e.target.value as ApplicantSortOrder)}
+                className="rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-sm text-gray-700 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-100"
+              >
+                <option value="newest">Newest first</option>
+                <option value="match">Best match</option>
+              </select>
+            </div>
+            <ApplicantPipelineBoard
+              applications={sortedApplications}
+              updatingIds={updatingIds}
+              matchScores={matchScores}
+              onMove={handleMoveApplication}
+              onViewDetails={setDetailApplicationId}
+            />
+          </>
         )}
       </div>
+
+      {detailApplication && (
+        <ApplicantDetailModal
+          application={detailApplication}
+          isOpen={Boolean(detailApplication)}
+          onClose={() => setDetailApplicationId(null)}
+        />
+      )}
     </div>
   )
 }
@@ -1,4 +1,4 @@
-import { useState } from 'react'
+import { useState, type ReactNode } from 'react'
 import { MapPin, Globe, Calendar, Plus, Eye, MessageCircle, Edit, Loader2 } from 'lucide-react'
 import { useAuthStore } from '@/lib/auth'
 import { Avatar, EditProfileModal } from '@/components'
@@ -16,9 +16,11 @@ type TabType = 'overview' | 'media' | 'vacancies' | 'players'
 interface ClubDashboardProps {
   profileData?: Profile
   readOnly?: boolean
+  /** Extra actions next to Message in the public view, e.g. report and block */
+  profileActions?: ReactNode
 }
 
-export default function ClubDashboard({ profileData, readOnly = false }: ClubDashboardProps) {
+export default function ClubDashboard({ profileData, readOnly = false, profileActions }: ClubDashboardProps) {
   const { profile: authProfile, user } = useAuthStore()
   const profile = profileData || authProfile
   const navigate = useNavigate()
@@ -181,6 +183,7 @@ export default function ClubDashboard({ profileData, readOnly = false }: ClubDas
                       )}
                       {sendingMessage ? 'Starting...' : 'Message'}
                     </button>
+                    {profileActions}
                   </div>
                 ) : (
                   <button 
@@ -1,4 +1,4 @@
-import { useState } from 'react'
+import { useState, type ReactNode } from 'react'
 import { MapPin, Globe, Calendar, Edit2, MessageCircle, Award } from 'lucide-react'
 import { useAuthStore } from '@/lib/auth'
 import { Avatar, EditProfileModal } from '@/components'
@@ -14,9 +14,11 @@ type TabType = 'profile' | 'media' | 'experience'
 interface CoachDashboardProps {
   profileData?: Profile
   readOnly?: boolean
+  /** Extra actions next to Message in the public view, e.g. report and block */
+  profileActions?: ReactNode
 }
 
-export default function CoachDashboard({ profileData, readOnly = false }: CoachDashboardProps) {
+export default function CoachDashboard({ profileData, readOnly = false, profileActions }: CoachDashboardProps) {
   const { profile: authProfile, user } = useAuthStore()
   const profile = profileData || authProfile
   const navigate = useNavigate()
@@ -143,14 +145,17 @@ export default function CoachDashboard({ profileData, readOnly = false }: CoachD
                     Edit Profile
                   </button>
                 ) : (
-                  <button
-                    onClick={handleSendMessage}
-                    disabled={sendingMessage}
-                    className="inline-flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-[#6366f1] to-[#8b5cf6] text-white rounded-lg hover:opacity-90 transition-opacity text-sm font-medium disabled:opacity-50"
-                  >
-                    <MessageCircle className="w-4 h-4" />
-                    {sendingMessage ? 'Loading...' : 'Send Message'}
-                  </button>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={handleSendMessage}
+                      disabled={sendingMessage}
+                      className="inline-flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-[#6366f1] to-[#8b5cf6] text-white rounded-lg hover:opacity-90 transition-opacity text-sm font-medium disabled:opacity-50"
+                    >
+                      <MessageCircle className="w-4 h-4" />
+                      {sendingMessage ? 'Loading...' : 'Send Message'}
+                    </button>
+                    {profileActions}
+                  </div>
                 )}
               </div>
 
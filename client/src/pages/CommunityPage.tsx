@@ -1,163 +1,144 @@
-import { useState, useEffect, useMemo, useCallback } from 'react'
-import { Search } from 'lucide-react'
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { Search, SlidersHorizontal } from 'lucide-react'
 import { Header, MemberCard } from '@/components'
 import { ProfileCardSkeleton } from '@/components/Skeleton'
-import { supabase } from '@/lib/supabase'
-import { requestCache } from '@/lib/requestCache'
+import CommunityFacetFilters from '@/components/CommunityFacetFilters'
+import { requestCache, generateCacheKey } from '@/lib/requestCache'
 import { monitor } from '@/lib/monitor'
+import {
+  DEFAULT_COMMUNITY_FILTERS,
+  FACET_FILTER_KEYS,
+  countFacetFilters,
+  emptyFacets,
+  fetchProfileFacets,
+  hasActiveFilters,
+  searchProfiles,
+  type CommunityFacets,
+  type CommunityFilters,
+  type CommunityMember,
+  type CommunityRole,
+  type ListFacet,
+} from '@/lib/community'
 
-interface Profile {
-  id: string
-  avatar_url: string | null
-  full_name: string
-  role: 'player' | 'coach' | 'club'
-  nationality: string | null
-  base_location: string | null
-  position: string | null
-  secondary_position: string | null
-  current_club: string | null
-  created_at: string
-}
+type RoleFilter = 'all' | CommunityRole
 
-type RoleFilter = 'all' | 'player' | 'coach' | 'club'
+const SEARCH_DEBOUNCE_MS = 400
 
 export default function CommunityPage() {
-  const [baseMembers, setBaseMembers] = useState<Profile[]>([])
-  const [allMembers, setAllMembers] = useState<Profile[]>([])
-  const [displayedMembers, setDisplayedMembers] = useState<Profile[]>([])
+  const [members, setMembers] = useState<CommunityMember[]>([])
+  const [total, setTotal] = useState(0)
+  const [facets, setFacets] = useState<CommunityFacets>(emptyFacets)
   const [searchQuery, setSearchQuery] = useState('')
-  const [roleFilter, setRoleFilter] = useState<RoleFilter>('all')
+  const [debouncedQuery, setDebouncedQuery] = useState('')
+  const [filters, setFilters] = useState<CommunityFilters>(DEFAULT_COMMUNITY_FILTERS)
+  const [showFilters, setShowFilters] = useState(false)
   const [isLoading, setIsLoading] = useState(true)
-  const [isSearching, setIsSearching] = useState(false)
-  const [page, setPage] = useState(1)
-  const [hasMore, setHasMore] = useState(true)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  // Responses for superseded searches are dropped
+  const searchIdRef = useRef(0)
 
   // Responsive page size
   const pageSize = typeof window !== 'undefined' && window.innerWidth < 768 ? 12 : 24
 
-  // Fetch members from Supabase
-  const fetchMembers = useCallback(async () => {
-    setIsLoading(true)
-    
-    await monitor.measure('fetch_community_members', async () => {
-      try {
-        const members = await requestCache.dedupe(
-          'community-members',
-          async () => {
-            const { data, error } = await supabase
-              .from('profiles')
-              .select('id, avatar_url, full_name, role, nationality, base_location, position, secondary_position, current_club, created_at')
-              .eq('onboarding_completed', true) // Only show fully onboarded users
-              .order('created_at', { ascending: false })
-              .limit(200) // Load reasonable batch for client-side filtering
+  const isSearching = debouncedQuery.trim() !== '' || hasActiveFilters(filters)
+  const roleFilter: RoleFilter = filters.roles.length === 1 ? filters.roles[0] : 'all'
+  const hasMore = members.length < total
 
-            if (error) throw error
-            return (data || []) as Profile[]
-          },
-          30000 // 30 second cache for community members
-        )
-        
-  setBaseMembers(members)
-  setAllMembers(members)
-        setDisplayedMembers(members.slice(0, pageSize))
-        setHasMore(members.length > pageSize)
-      } catch (error) {
-        console.error('Error fetching members:', error)
-      } finally {
-        setIsLoading(false)
-      }
-    })
-  }, [pageSize])
+  // Debounce free-text input; structured filters apply immediately
+  useEffect(() => {
+    const debounceTimer = setTimeout(() => {
+      setDebouncedQuery(searchQuery.trim())
+    }, SEARCH_DEBOUNCE_MS)
 
-  // Initial load
+    return () => clearTimeout(debounceTimer)
+  }, [searchQuery])
+
+  const fetchPage = useCallback(
+    (offset: number) =>
+      requestCache.dedupe(
+        generateCacheKey('community-search', { query: debouncedQuery, filters, offset, pageSize }),
+        () => searchProfiles(debouncedQuery, filters, offset, pageSize),
+        20000 // 20 second cache for searches
+      ),
+    [debouncedQuery, filters, pageSize]
+  )
+
+  // First page and facet counts whenever the search changes
   useEffect(() => {
-    fetchMembers()
-  }, [fetchMembers])
+    const searchId = ++searchIdRef.current
+    setIsLoading(true)
 
-  // Perform server-side search
-  const performServerSearch = useCallback(async (query: string) => {
-    setIsSearching(true)
-    
-    await monitor.measure('search_community_members', async () => {
-      const cacheKey = `community-search-${query}`
-      
+    monitor.measure('search_community_members', async () => {
       try {
-        const members = await requestCache.dedupe(
-          cacheKey,
-          async () => {
-            const searchTerm = `%${query}%`
-            const { data, error } = await supabase
-              .from('profiles')
-              .select('id, avatar_url, full_name, role, nationality, base_location, position, secondary_position, current_club, created_at')
-              .eq('onboarding_completed', true) // Only show fully onboarded users
-              .or(
-                `full_name.ilike.${searchTerm},nationality.ilike.${searchTerm},base_location.ilike.${searchTerm},position.ilike.${searchTerm},secondary_position.ilike.${searchTerm},current_club.ilike.${searchTerm}`
-              )
-              .order('created_at', { ascending: false })
-              .limit(200)
+        const [page, facetCounts] = await Promise.all([
+          fetchPage(0),
+          requestCache.dedupe(
+            generateCacheKey('community-facets', { query: debouncedQuery, filters }),
+            () => fetchProfileFacets(debouncedQuery, filters),
+            20000
+          ),
+        ])
 
-            if (error) throw error
-            return (data || []) as Profile[]
-          },
-          20000 // 20 second cache for searches
-        )
-        
-        setAllMembers(members)
-        setDisplayedMembers(members.slice(0, pageSize))
-        setPage(1)
-        setHasMore(members.length > pageSize)
+        if (searchId !== searchIdRef.current) return
+        setMembers(page.members)
+        setTotal(page.total)
+        setFacets(facetCounts)
       } catch (error) {
         console.error('Error searching members:', error)
       } finally {
-        setIsSearching(false)
+        if (searchId === searchIdRef.current) {
+          setIsLoading(false)
+        }
       }
-    }, { query })
-  }, [pageSize])
+    }, { query: debouncedQuery })
+  }, [debouncedQuery, filters, fetchPage])
 
-  // Server-side search with debounce
-  useEffect(() => {
-    if (!searchQuery.trim()) {
-      // Reset to initial load
-      setIsSearching(false)
-      setAllMembers(baseMembers)
-      setDisplayedMembers(baseMembers.slice(0, pageSize))
-      setPage(1)
-      setHasMore(baseMembers.length > pageSize)
-      return
-    }
+  // Load more handler
+  const handleLoadMore = async () => {
+    const searchId = searchIdRef.current
+    setIsLoadingMore(true)
 
-    const debounceTimer = setTimeout(() => {
-      performServerSearch(searchQuery)
-    }, 500)
+    try {
+      const page = await fetchPage(members.length)
+      if (searchId !== searchIdRef.current) return
+      setMembers(prev => [...prev, ...page.members])
+      setTotal(page.total)
+    } catch (error) {
+      console.error('Error loading more members:', error)
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }
 
-    return () => clearTimeout(debounceTimer)
-  }, [searchQuery, allMembers, baseMembers, pageSize, performServerSearch])
+  const setRoleFilter = (role: RoleFilter) => {
+    setFilters(prev => ({ ...prev, roles: role === 'all' ? [] : [role] }))
+  }
 
-  // Client-side role filtering
-  const filteredMembers = useMemo(() => {
-    if (roleFilter === 'all') return allMembers
-    return allMembers.filter(member => member.role === roleFilter)
-  }, [allMembers, roleFilter])
+  const toggleFacetValue = (facet: ListFacet, value: string) => {
+    const key = FACET_FILTER_KEYS[facet]
+    setFilters(prev => {
+      const current = prev[key] as string[]
+      const exists = current.some(item => item.toLowerCase() === value.toLowerCase())
+      return {
+        ...prev,
+        [key]: exists ? current.filter(item => item.toLowerCase() !== value.toLowerCase()) : [...current, value],
+      }
+    })
+  }
 
-  // Update displayed members when filter changes
-  useEffect(() => {
-    setDisplayedMembers(filteredMembers.slice(0, pageSize))
-    setPage(1)
-    setHasMore(filteredMembers.length > pageSize)
-  }, [filteredMembers, roleFilter, pageSize])
+  const updateFilters = (patch: Partial<CommunityFilters>) => {
+    setFilters(prev => ({ ...prev, ...patch }))
+  }
 
-  // Load more handler
-  const handleLoadMore = () => {
-    const nextPage = page + 1
-    const startIndex = page * pageSize
-    const endIndex = startIndex + pageSize
-    const newMembers = filteredMembers.slice(0, endIndex)
-    
-    setDisplayedMembers(newMembers)
-    setPage(nextPage)
-    setHasMore(filteredMembers.length > endIndex)
+  const clearFacetFilters = () => {
+    setFilters(prev => ({ ...DEFAULT_COMMUNITY_FILTERS, roles: prev.roles }))
   }
 
+  const roleCount = (role: RoleFilter) =>
+    role === 'all'
+      ? facets.role.reduce((sum, item) => sum + item.count, 0)
+      : facets.role.find(item => item.value === role)?.count ?? 0
+
   // Role filter chips
   const roleFilters: { value: RoleFilter; label: string }[] = [
     { value: 'all', label: 'All' },
@@ -166,10 +147,12 @@ export default function CommunityPage() {
     { value: 'club', label: 'Clubs' },
   ]
 
+  const activeFacetFilterCount = countFacetFilters(filters)
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Header />
-      
+
       <main className="max-w-7xl mx-auto px-4 md:px-6 pt-24 pb-12">
         {/* Hero Section */}
         <div className="text-center mb-8">
@@ -194,7 +177,7 @@ export default function CommunityPage() {
               autoCapitalize="sentences"
               inputMode="search"
             />
-            {isSearching && (
+            {isLoading && !isLoadingMore && members.length > 0 && (
               <div className="absolute right-4 top-1/2 -translate-y-1/2">
                 <div className="w-5 h-5 border-2 border-purple-500 border-t-transparent rounded-full animate-spin" />
               </div>
@@ -203,7 +186,7 @@ export default function CommunityPage() {
         </div>
 
         {/* Role Filter Chips */}
-        <div className="flex flex-wrap justify-center gap-2 mb-8">
+        <div className="flex flex-wrap justify-center gap-2 mb-4">
           {roleFilters.map((filter) => (
             <button
               key={filter.value}
@@ -215,27 +198,62 @@ export default function CommunityPage() {
               }`}
             >
               {filter.label}
+              <span className={`ml-2 ${roleFilter === filter.value ? 'text-white/80' : 'text-gray-400'}`}>
+                {roleCount(filter.value)}
+              </span>
             </button>
           ))}
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className={`flex items-center gap-2 px-6 py-2.5 min-h-[44px] rounded-full text-sm font-medium transition-all border ${
+              showFilters || activeFacetFilterCount > 0
+                ? 'border-purple-300 bg-purple-50 text-purple-700'
+                : 'bg-white text-gray-700 border-gray-300 hover:border-purple-300'
+            }`}
+            aria-expanded={showFilters}
+          >
+            <SlidersHorizontal className="w-4 h-4" />
+            Filters
+            {activeFacetFilterCount > 0 && ` (${activeFacetFilterCount})`}
+          </button>
         </div>
 
-        {/* New Members Section */}
+        {(showFilters || activeFacetFilterCount > 0) && (
+          <div className="mb-8">
+            <CommunityFacetFilters
+              facets={facets}
+              filters={filters}
+              onToggle={toggleFacetValue}
+              onChange={updateFilters}
+              onClear={clearFacetFilters}
+              showFacets={showFilters}
+            />
+          </div>
+        )}
+
+        {/* Members Section */}
         <div className="mb-8">
-          <h2 className="text-2xl font-bold text-gray-900 mb-2">New Members</h2>
-          <p className="text-gray-600 mb-6">See who recently joined PLAYR.</p>
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">
+            {isSearching ? 'Search Results' : 'New Members'}
+          </h2>
+          <p className="text-gray-600 mb-6">
+            {isSearching
+              ? `${total} ${total === 1 ? 'member' : 'members'} found`
+              : 'See who recently joined PLAYR.'}
+          </p>
 
           {/* Loading State */}
-          {isLoading ? (
+          {isLoading && members.length === 0 ? (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
               {[...Array(12)].map((_, i) => (
                 <ProfileCardSkeleton key={i} />
               ))}
             </div>
-          ) : displayedMembers.length === 0 ? (
+          ) : members.length === 0 ? (
             // Empty State
             <div className="text-center py-12 bg-white rounded-xl border border-gray-200">
               <p className="text-gray-500">
-                {searchQuery.trim() || roleFilter !== 'all'
+                {isSearching
                   ? 'No results found. Try a different name or filter.'
                   : 'No members yet.'}
               </p>
@@ -244,7 +262,7 @@ export default function CommunityPage() {
             <>
               {/* Member Grid */}
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-                {displayedMembers.map((member) => (
+                {members.map((member) => (
                   <MemberCard
                     key={member.id}
                     id={member.id}
@@ -256,6 +274,7 @@ export default function CommunityPage() {
                     position={member.position}
                     secondary_position={member.secondary_position}
                     current_team={member.current_club}
+                    availability={member.availability}
                     created_at={member.created_at}
                   />
                 ))}
@@ -266,9 +285,10 @@ export default function CommunityPage() {
                 <div className="flex justify-center">
                   <button
                     onClick={handleLoadMore}
-                    className="px-8 py-3 rounded-lg bg-gradient-to-r from-[#6366f1] to-[#8b5cf6] text-white font-medium hover:opacity-90 transition-opacity"
+                    disabled={isLoadingMore}
+                    className="px-8 py-3 rounded-lg bg-gradient-to-r from-[#6366f1] to-[#8b5cf6] text-white font-medium hover:opacity-90 transition-opacity disabled:opacity-60"
                   >
-                    Load More
+                    {isLoadingMore ? 'Loading...' : 'Load More'}
                   </button>
                 </div>
               )}
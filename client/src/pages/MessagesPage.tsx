@@ -1,24 +1,32 @@
 import { useState, useEffect, useCallback, useMemo } from 'react'
-import { Search, MessageCircle } from 'lucide-react'
+import { Search, MessageCircle, Users, Archive, ArrowLeft } from 'lucide-react'
 import { useAuthStore } from '@/lib/auth'
 import { supabase } from '@/lib/supabase'
 import { useSearchParams } from 'react-router-dom'
 import ConversationList from '@/components/ConversationList'
 import ChatWindow from '@/components/ChatWindow'
+import CreateGroupModal from '@/components/CreateGroupModal'
+import MessageSearchResults from '@/components/MessageSearchResults'
 import Header from '@/components/Header'
 import { ConversationSkeleton } from '@/components/Skeleton'
 import { requestCache } from '@/lib/requestCache'
 import { monitor } from '@/lib/monitor'
 import { logger } from '@/lib/logger'
 import { useMediaQuery } from '@/hooks/useMediaQuery'
+import { useToastStore } from '@/lib/toast'
+import { updateConversationState, type ConversationStateChanges } from '@/lib/conversationState'
+import type { MessageSearchHit } from '@/lib/messageSearch'
 
 interface Conversation {
   id: string
-  participant_one_id: string
-  participant_two_id: string
+  participant_one_id: string | null
+  participant_two_id: string | null
   created_at: string
   updated_at: string
   last_message_at: string | null
+  is_group?: boolean
+  title?: string | null
+  memberCount?: number
   otherParticipant?: {
     id: string
     full_name: string
@@ -30,11 +38,23 @@ interface Conversation {
     content: string
     sent_at: string
     sender_id: string
+    sender_name?: string | null
   }
   unreadCount?: number
+  isArchived?: boolean
+  isPinned?: boolean
+  isMuted?: boolean
+  isMarkedUnread?: boolean
   isPending?: boolean
 }
 
+// Pinned first, then most recent activity, matching get_user_conversations
+const sortConversations = (items: Conversation[]) =>
+  [...items].sort((a, b) => {
+    if (Boolean(a.isPinned) !== Boolean(b.isPinned)) return a.isPinned ? -1 : 1
+    return (b.last_message_at ?? '').localeCompare(a.last_message_at ?? '')
+  })
+
 export default function MessagesPage() {
   const { user } = useAuthStore()
   const [searchParams, setSearchParams] = useSearchParams()
@@ -43,7 +63,12 @@ export default function MessagesPage() {
   const [selectedConversationId, setSelectedConversationId] = useState<string | null>(null)
   const [searchQuery, setSearchQuery] = useState('')
   const [loading, setLoading] = useState(true)
+  const [showCreateGroup, setShowCreateGroup] = useState(false)
+  const [showArchived, setShowArchived] = useState(false)
+  const { addToast } = useToastStore()
   const isMobile = useMediaQuery('(max-width: 767px)')
+  // Message to scroll to and highlight, e.g. from a search result
+  const focusMessageId = searchParams.get('message')
   const messagingMobileV2Enabled = import.meta.env.VITE_MESSAGING_MOBILE_V2 === 'true'
 
   // Set selected conversation from URL parameter
@@ -86,24 +111,34 @@ export default function MessagesPage() {
             // Transform RPC result to expected Conversation format
             return (data || []).map(row => ({
               id: row.conversation_id,
-              participant_one_id: user.id,
-              participant_two_id: row.other_participant_id,
+              // Group chats have no participant pair; members come from conversation_participants
+              participant_one_id: row.is_group ? null : user.id,
+              participant_two_id: row.is_group ? null : row.other_participant_id,
               created_at: row.conversation_created_at,
               updated_at: row.conversation_updated_at,
               last_message_at: row.conversation_last_message_at,
-              otherParticipant: row.other_participant_name ? {
+              is_group: row.is_group,
+              title: row.conversation_title,
+              memberCount: row.member_count,
+              otherParticipant: !row.is_group && row.other_participant_name ? {
                 id: row.other_participant_id,
                 full_name: row.other_participant_name,
                 username: row.other_participant_username,
                 avatar_url: row.other_participant_avatar,
                 role: row.other_participant_role as 'player' | 'coach' | 'club'
               } : undefined,
-              lastMessage: row.last_message_content ? {
-                content: row.last_message_content,
+              lastMessage: row.last_message_sent_at ? {
+                // Attachment-only messages have no text
+                content: row.last_message_content || 'Sent an attachment',
                 sent_at: row.last_message_sent_at,
-                sender_id: row.last_message_sender_id
+                sender_id: row.last_message_sender_id,
+                sender_name: row.last_message_sender_name
               } : undefined,
-              unreadCount: Number(row.unread_count) || 0
+              unreadCount: Number(row.unread_count) || 0,
+              isArchived: row.is_archived,
+              isPinned: row.is_pinned,
+              isMuted: row.is_muted,
+              isMarkedUnread: row.is_marked_unread
             }))
           },
           60000 // Cache for 60 seconds (increased from 15s)
@@ -302,6 +337,17 @@ export default function MessagesPage() {
         },
         handleConversationChange
       )
+      // Added to or removed from a group chat
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'conversation_participants',
+          filter: `user_id=eq.${user.id}`
+        },
+        handleConversationChange
+      )
       .subscribe()
 
     return () => {
@@ -328,13 +374,15 @@ export default function MessagesPage() {
   }, [conversations, pendingConversation])
 
   const normalizedQuery = searchQuery.trim().toLowerCase()
+  const archivedCount = conversations.filter(conv => conv.isArchived).length
 
+  // Search covers archived conversations too
   const filteredConversations = normalizedQuery
     ? combinedConversations.filter((conv) => {
-        const name = conv.otherParticipant?.full_name?.toLowerCase() ?? ''
+        const name = (conv.is_group ? conv.title : conv.otherParticipant?.full_name)?.toLowerCase() ?? ''
         return name.includes(normalizedQuery)
       })
-    : combinedConversations
+    : combinedConversations.filter(conv => Boolean(conv.isArchived) === showArchived)
 
   const selectedConversation = combinedConversations.find((conv) => conv.id === selectedConversationId)
   const hasActiveConversation = Boolean(selectedConversation)
@@ -351,7 +399,8 @@ export default function MessagesPage() {
           conv.id === conversationId
             ? {
                 ...conv,
-                unreadCount: 0
+                unreadCount: 0,
+                isMarkedUnread: false
               }
             : conv
         )
@@ -359,6 +408,17 @@ export default function MessagesPage() {
 
       const selected = combinedConversations.find((conv) => conv.id === conversationId)
 
+      // Opening a conversation reads it, which ends a manual mark-as-unread
+      if (selected?.isMarkedUnread) {
+        updateConversationState(conversationId, { markedUnread: false })
+          .then(() => {
+            if (typeof window !== 'undefined' && window.__refreshUnreadBadge) {
+              window.__refreshUnreadBadge()
+            }
+          })
+          .catch(error => logger.error('Error clearing marked-unread state:', error))
+      }
+
       setSearchParams((prev) => {
         const next = new URLSearchParams(prev)
 
@@ -376,6 +436,7 @@ export default function MessagesPage() {
           next.set('conversation', conversationId)
           next.delete('new')
         }
+        next.delete('message')
 
         return next
       })
@@ -390,10 +451,60 @@ export default function MessagesPage() {
       const next = new URLSearchParams(prev)
       next.delete('conversation')
       next.delete('new')
+      next.delete('message')
       return next
     })
   }, [setSearchParams])
 
+  const handleSelectSearchHit = useCallback(
+    (hit: MessageSearchHit) => {
+      // Older chats may be past the first page of get_user_conversations
+      setConversations(prev =>
+        prev.some(conv => conv.id === hit.conversation_id)
+          ? prev
+          : [
+              ...prev,
+              {
+                id: hit.conversation_id,
+                participant_one_id: hit.is_group ? null : user?.id ?? null,
+                participant_two_id: hit.is_group ? null : hit.other_participant_id,
+                created_at: hit.sent_at,
+                updated_at: hit.sent_at,
+                last_message_at: null,
+                is_group: hit.is_group,
+                title: hit.conversation_title,
+                otherParticipant: !hit.is_group && hit.other_participant_name ? {
+                  id: hit.other_participant_id,
+                  full_name: hit.other_participant_name,
+                  username: null,
+                  avatar_url: hit.other_participant_avatar,
+                  role: hit.other_participant_role as 'player' | 'coach' | 'club'
+                } : undefined,
+                unreadCount: 0
+              }
+            ]
+      )
+      setSelectedConversationId(hit.conversation_id)
+      setSearchParams((prev) => {
+        const next = new URLSearchParams(prev)
+        next.set('conversation', hit.conversation_id)
+        next.set('message', hit.message_id)
+        next.delete('new')
+        return next
+      })
+    },
+    [setSearchParams, user?.id]
+  )
+
+  const handleFocusHandled = useCallback(() => {
+    setSearchParams((prev) => {
+      if (!prev.has('message')) return prev
+      const next = new URLSearchParams(prev)
+      next.delete('message')
+      return next
+    }, { replace: true })
+  }, [setSearchParams])
+
   const handleConversationCreated = useCallback(
     (createdConversation: Conversation) => {
       setPendingConversation(null)
@@ -451,6 +562,91 @@ export default function MessagesPage() {
     [user?.id]
   )
 
+  const handleUpdateConversationState = useCallback(
+    async (conversationId: string, changes: ConversationStateChanges) => {
+      const previous = conversations
+      const applied: Partial<Conversation> = {}
+      if (changes.archived !== undefined) applied.isArchived = changes.archived
+      if (changes.pinned !== undefined) applied.isPinned = changes.pinned
+      if (changes.muted !== undefined) applied.isMuted = changes.muted
+      if (changes.markedUnread !== undefined) {
+        applied.isMarkedUnread = changes.markedUnread
+        // Marking as read clears the real unread count too
+        if (!changes.markedUnread) applied.unreadCount = 0
+      }
+
+      setConversations(prev =>
+        sortConversations(prev.map(conv => (conv.id === conversationId ? { ...conv, ...applied } : conv)))
+      )
+
+      try {
+        await updateConversationState(conversationId, changes)
+        if (changes.markedUnread === false) {
+          const { error } = await supabase.rpc('mark_conversation_read', { p_conversation_id: conversationId })
+          if (error) throw error
+          if (!conversations.find(conv => conv.id === conversationId)?.is_group && user?.id) {
+            const { error: readError } = await supabase
+              .from('messages')
+              .update({ read_at: new Date().toISOString() })
+              .eq('conversation_id', conversationId)
+              .neq('sender_id', user.id)
+              .is('read_at', null)
+            if (readError) throw readError
+          }
+        }
+
+        if (user?.id) {
+          requestCache.invalidate(`conversations-${user.id}`)
+        }
+        if (typeof window !== 'undefined' && window.__refreshUnreadBadge) {
+          window.__refreshUnreadBadge()
+        }
+        if (changes.archived) {
+          addToast('Conversation archived.', 'success')
+        }
+      } catch (error) {
+        logger.error('Error updating conversation state:', error)
+        setConversations(previous)
+        addToast('Failed to update conversation. Please try again.', 'error')
+      }
+    },
+    [addToast, conversations, user?.id]
+  )
+
+  const handleConversationUpdated = useCallback(
+    (conversationId: string, changes: Partial<Conversation>) => {
+      setConversations(prev =>
+        prev.map(conv => (conv.id === conversationId ? { ...conv, ...changes } : conv))
+      )
+    },
+    []
+  )
+
+  const handleLeftConversation = useCallback(
+    (conversationId: string) => {
+      setConversations(prev => prev.filter(conv => conv.id !== conversationId))
+      if (user?.id) {
+        requestCache.invalidate(`conversations-${user.id}`)
+      }
+      handleBackToList()
+    },
+    [handleBackToList, user?.id]
+  )
+
+  const handleGroupCreated = useCallback(
+    (conversationId: string) => {
+      setShowCreateGroup(false)
+      setSearchParams((prev) => {
+        const next = new URLSearchParams(prev)
+        next.set('conversation', conversationId)
+        next.delete('new')
+        return next
+      })
+      void fetchConversations({ force: true })
+    },
+    [fetchConversations, setSearchParams]
+  )
+
   if (shouldUseImmersiveConversation && selectedConversation) {
     return (
       <div className="flex h-screen-dvh min-h-screen-dvh flex-col bg-gray-50">
@@ -462,6 +658,10 @@ export default function MessagesPage() {
             onMessageSent={() => {}}
             onConversationCreated={handleConversationCreated}
             onConversationRead={handleConversationRead}
+            onConversationUpdated={handleConversationUpdated}
+            onLeftConversation={handleLeftConversation}
+            focusMessageId={focusMessageId}
+            onFocusHandled={handleFocusHandled}
           />
         </div>
       </div>
@@ -479,6 +679,10 @@ export default function MessagesPage() {
             onMessageSent={() => {}}
             onConversationCreated={handleConversationCreated}
             onConversationRead={handleConversationRead}
+            onConversationUpdated={handleConversationUpdated}
+            onLeftConversation={handleLeftConversation}
+            focusMessageId={focusMessageId}
+            onFocusHandled={handleFocusHandled}
           />
         </div>
       </div>
@@ -551,14 +755,35 @@ export default function MessagesPage() {
             >
               {/* Header */}
               <div className="p-4 border-b border-gray-200">
-                <h1 className="text-2xl font-bold text-gray-900 mb-4">Messages</h1>
+                <div className="mb-4 flex items-center justify-between gap-3">
+                  <h1 className="text-2xl font-bold text-gray-900">Messages</h1>
+                  <button
+                    type="button"
+                    onClick={() => setShowCreateGroup(true)}
+                    className="inline-flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-sm font-medium text-purple-700 transition-colors hover:bg-purple-50"
+                  >
+                    <Users className="h-4 w-4" />
+                    New group
+                  </button>
+                </div>
                 
+                {showArchived && !normalizedQuery && (
+                  <button
+                    type="button"
+                    onClick={() => setShowArchived(false)}
+                    className="mb-3 inline-flex items-center gap-1.5 text-sm font-medium text-gray-700 hover:text-gray-900"
+                  >
+                    <ArrowLeft className="h-4 w-4" />
+                    Archived conversations
+                  </button>
+                )}
+
                 {/* Search Bar */}
                 <div className="relative">
                   <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
                   <input
                     type="text"
-                    placeholder="Search conversations..."
+                    placeholder="Search conversations and messages..."
                     value={searchQuery}
                     onChange={(e) => setSearchQuery(e.target.value)}
                     className="w-full pl-10 pr-4 py-2 bg-gray-50 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent"
@@ -568,7 +793,20 @@ export default function MessagesPage() {
 
               {/* Conversations List */}
               <div className={`flex-1 min-h-0 overflow-y-auto ${isFullBleedMobileLayout ? 'border-t border-gray-100 bg-white/95' : ''}`}>
-                {filteredConversations.length === 0 ? (
+                {!showArchived && !normalizedQuery && archivedCount > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => setShowArchived(true)}
+                    className="flex w-full items-center gap-3 border-b border-gray-100 px-4 py-3 text-left text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50"
+                  >
+                    <Archive className="h-4 w-4 text-gray-500" />
+                    <span className="flex-1">Archived</span>
+                    <span className="text-xs text-gray-500">{archivedCount}</span>
+                  </button>
+                )}
+                {filteredConversations.length === 0 && showArchived && !normalizedQuery ? (
+                  <p className="px-4 py-8 text-center text-sm text-gray-500">No archived conversations</p>
+                ) : filteredConversations.length === 0 && !normalizedQuery ? (
                   <div className="flex flex-col items-center justify-center h-full p-8 text-center">
                     <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mb-4">
                       <MessageCircle className="w-8 h-8 text-gray-400" />
@@ -579,13 +817,26 @@ export default function MessagesPage() {
                     </p>
                   </div>
                 ) : (
-                  <ConversationList
-                    conversations={filteredConversations}
-                    selectedConversationId={selectedConversationId}
-                    onSelectConversation={handleSelectConversation}
-                    currentUserId={user?.id || ''}
-                    variant={isFullBleedMobileLayout ? 'compact' : 'default'}
-                  />
+                  <>
+                    {filteredConversations.length > 0 ? (
+                      <ConversationList
+                        conversations={filteredConversations}
+                        selectedConversationId={selectedConversationId}
+                        onSelectConversation={handleSelectConversation}
+                        currentUserId={user?.id || ''}
+                        variant={isFullBleedMobileLayout ? 'compact' : 'default'}
+                        onUpdateState={(conversationId, changes) => void handleUpdateConversationState(conversationId, changes)}
+                      />
+                    ) : (
+                      <p className="px-4 py-4 text-sm text-gray-500">No conversations match "{searchQuery.trim()}"</p>
+                    )}
+                    <MessageSearchResults
+                      query={searchQuery}
+                      currentUserId={user?.id || ''}
+                      selectedMessageId={focusMessageId}
+                      onSelectHit={handleSelectSearchHit}
+                    />
+                  </>
                 )}
               </div>
             </div>
@@ -603,6 +854,10 @@ export default function MessagesPage() {
                   }}
                   onConversationCreated={handleConversationCreated}
                   onConversationRead={handleConversationRead}
+                  onConversationUpdated={handleConversationUpdated}
+                  onLeftConversation={handleLeftConversation}
+                  focusMessageId={focusMessageId}
+                  onFocusHandled={handleFocusHandled}
                 />
               ) : (
                 <div className="flex h-full min-h-[320px] flex-col items-center justify-center bg-gray-50 p-8 text-center">
@@ -627,6 +882,13 @@ export default function MessagesPage() {
           </div>
         </div>
       </main>
+
+      <CreateGroupModal
+        isOpen={showCreateGroup}
+        currentUserId={user?.id || ''}
+        onClose={() => setShowCreateGroup(false)}
+        onCreated={handleGroupCreated}
+      />
     </div>
   )
 }
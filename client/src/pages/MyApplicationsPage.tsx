@@ -0,0 +1,296 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Briefcase, XCircle } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import type { ApplicationStatus, VacancyApplication, VacancyApplicationWithVacancy } from '@/lib/supabase'
+import { useAuthStore } from '@/lib/auth'
+import { useToastStore } from '@/lib/toast'
+import { logger } from '@/lib/logger'
+import { requestCache } from '@/lib/requestCache'
+import { monitor } from '@/lib/monitor'
+import { APPLICATION_STAGE_META } from '@/lib/applications'
+import Header from '@/components/Header'
+import MyApplicationCard from '@/components/MyApplicationCard'
+import ConfirmActionModal from '@/components/ConfirmActionModal'
+import Skeleton from '@/components/Skeleton'
+
+type StatusFilter = 'all' | 'active' | 'closed'
+
+const CLOSED_STATUSES: ApplicationStatus[] = ['accepted', 'rejected', 'withdrawn']
+
+const STATUS_FILTERS: { id: StatusFilter; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'active', label: 'In progress' },
+  { id: 'closed', label: 'Closed' },
+]
+
+export default function MyApplicationsPage() {
+  const navigate = useNavigate()
+  const { user, profile } = useAuthStore()
+  const { addToast } = useToastStore()
+  const [applications, setApplications] = useState<VacancyApplicationWithVacancy[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all')
+  const [pendingWithdraw, setPendingWithdraw] = useState<VacancyApplicationWithVacancy | null>(null)
+  const [withdrawingId, setWithdrawingId] = useState<string | null>(null)
+
+  const canApply = profile?.role === 'player' || profile?.role === 'coach'
+
+  const fetchApplications = useCallback(async () => {
+    if (!user || !canApply) {
+      setIsLoading(false)
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    await monitor.measure('fetch_my_applications', async () => {
+      try {
+        const { data, error: applicationsError } = await supabase
+          .from('vacancy_applications')
+          .select(`
+            *,
+            vacancy:vacancy_id (
+              id,
+              title,
+              opportunity_type,
+              position,
+              location_city,
+              location_country,
+              status,
+              club_id,
+              club:profiles!vacancies_club_id_fkey (
+                id,
+                full_name,
+                avatar_url,
+                username
+              )
+            )
+          `)
+          .eq('player_id', user.id)
+          .order('applied_at', { ascending: false })
+
+        if (applicationsError) throw applicationsError
+
+        // Vacancies deleted by their club cascade away, but guard against rows RLS still hides
+        const rows = (data ?? []) as unknown as VacancyApplicationWithVacancy[]
+        setApplications(rows.filter(app => Boolean(app.vacancy)))
+      } catch (fetchError) {
+        logger.error('Error fetching my applications:', fetchError)
+        setError('Failed to load your applications. Please try again.')
+      } finally {
+        setIsLoading(false)
+      }
+    }, { userId: user.id })
+  }, [user, canApply])
+
+  useEffect(() => {
+    fetchApplications()
+  }, [fetchApplications])
+
+  // Reflect clubs moving applications through their pipeline
+  useEffect(() => {
+    if (!user || !canApply) return
+
+    const channel = supabase
+      .channel(`my-applications-${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'vacancy_applications',
+          filter: `player_id=eq.${user.id}`
+        },
+        payload => {
+          const updated = payload.new as VacancyApplication
+          setApplications(prev =>
+            prev.map(app =>
+              app.id === updated.id
+                ? {
+                    ...app,
+                    status: updated.status,
+                    updated_at: updated.updated_at,
+                    status_changed_at: updated.status_changed_at,
+                  }
+                : app
+            )
+          )
+        }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [user, canApply])
+
+  const confirmWithdraw = async () => {
+    if (!pendingWithdraw || !user) return
+
+    const application = pendingWithdraw
+    setWithdrawingId(application.id)
+
+    try {
+      const { data, error: withdrawError } = await supabase
+        .from('vacancy_applications')
+        .update({ status: 'withdrawn' })
+        .eq('id', application.id)
+        .eq('player_id', user.id)
+        .select('status, updated_at, status_changed_at')
+        .single()
+
+      if (withdrawError) throw withdrawError
+
+      setApplications(prev =>
+        prev.map(app => (app.id === application.id ? { ...app, ...data } : app))
+      )
+      // Opportunities keeps its own cached list of applied vacancies
+      requestCache.invalidate(`user-applications-${user.id}`)
+      addToast('Application withdrawn.', 'success')
+      setPendingWithdraw(null)
+    } catch (withdrawError) {
+      logger.error('Error withdrawing application:', withdrawError)
+      const isInvalidTransition = (withdrawError as { code?: string })?.code === '23514'
+      addToast(
+        isInvalidTransition
+          ? `Applications that are ${APPLICATION_STAGE_META[application.status].label.toLowerCase()} can no longer be withdrawn.`
+          : 'Failed to withdraw application. Please try again.',
+        'error'
+      )
+    } finally {
+      setWithdrawingId(null)
+    }
+  }
+
+  const counts = useMemo(() => {
+    const closed = applications.filter(app => CLOSED_STATUSES.includes(app.status)).length
+    return { all: applications.length, active: applications.length - closed, closed }
+  }, [applications])
+
+  const visibleApplications = applications.filter(app => {
+    if (statusFilter === 'active') return !CLOSED_STATUSES.includes(app.status)
+    if (statusFilter === 'closed') return CLOSED_STATUSES.includes(app.status)
+    return true
+  })
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <main className="max-w-4xl mx-auto px-4 md:px-6 pt-24 pb-12">
+        <div className="mb-8">
+          <h1 className="text-3xl md:text-4xl font-bold text-gray-900 mb-2">
+            My Applications
+          </h1>
+          <p className="text-gray-600">
+            Track every opportunity you have applied to and where it stands with the club
+          </p>
+        </div>
+
+        {!canApply ? (
+          <div className="rounded-2xl border border-gray-200 bg-white p-10 text-center">
+            <h2 className="mb-2 text-lg font-semibold text-gray-900">Applications are for players and coaches</h2>
+            <p className="text-sm text-gray-600">Clubs can review their applicants from each vacancy on the dashboard.</p>
+          </div>
+        ) : isLoading ? (
+          <div className="space-y-4">
+            {Array.from({ length: 3 }).map((_, index) => (
+              <div key={index} className="flex gap-4 rounded-2xl border border-gray-200 bg-white p-5">
+                <Skeleton variant="circular" width={40} height={40} />
+                <div className="flex-1 space-y-2">
+                  <Skeleton width="50%" height={18} />
+                  <Skeleton width="30%" height={14} />
+                  <Skeleton width="70%" height={14} />
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : error ? (
+          <div className="rounded-2xl border border-red-200 bg-red-50 p-6 text-center">
+            <p className="mb-4 text-sm text-red-800">{error}</p>
+            <button
+              onClick={fetchApplications}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Try Again
+            </button>
+          </div>
+        ) : applications.length === 0 ? (
+          <div className="rounded-2xl border border-gray-200 bg-white p-10 text-center">
+            <div className="mb-4 text-5xl">📭</div>
+            <h2 className="mb-2 text-lg font-semibold text-gray-900 sm:text-xl">No Applications Yet</h2>
+            <p className="mb-6 text-sm text-gray-600 sm:text-base">
+              When you apply to an opportunity it will show up here so you can follow its progress.
+            </p>
+            <button
+              onClick={() => navigate('/opportunities')}
+              className="inline-flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Briefcase className="w-4 h-4" />
+              Browse Opportunities
+            </button>
+          </div>
+        ) : (
+          <>
+            <div className="mb-6 flex flex-wrap gap-2" role="tablist" aria-label="Filter applications">
+              {STATUS_FILTERS.map(filter => (
+                <button
+                  key={filter.id}
+                  role="tab"
+                  aria-selected={statusFilter === filter.id}
+                  onClick={() => setStatusFilter(filter.id)}
+                  className={`px-4 py-2 rounded-full text-sm font-medium transition-colors ${
+                    statusFilter === filter.id
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+                  }`}
+                >
+                  {filter.label} ({counts[filter.id]})
+                </button>
+              ))}
+            </div>
+
+            {visibleApplications.length === 0 ? (
+              <p className="rounded-2xl border border-gray-200 bg-white p-8 text-center text-sm text-gray-600">
+                No applications in this list.
+              </p>
+            ) : (
+              <div className="space-y-4">
+                {visibleApplications.map(application => (
+                  <MyApplicationCard
+                    key={application.id}
+                    application={application}
+                    isWithdrawing={withdrawingId === application.id}
+                    onWithdraw={() => setPendingWithdraw(application)}
+                  />
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </main>
+
+      <ConfirmActionModal
+        isOpen={Boolean(pendingWithdraw)}
+        onClose={() => setPendingWithdraw(null)}
+        onConfirm={confirmWithdraw}
+        confirmLabel="Withdraw Application"
+        confirmTone="danger"
+        confirmLoading={Boolean(withdrawingId)}
+        loadingLabel="Withdrawing..."
+        title="Withdraw this application?"
+        description="The club will see that you withdrew. You cannot reapply to the same opportunity."
+        icon={<XCircle className="h-6 w-6" />}
+        body={pendingWithdraw ? (
+          <p className="text-sm text-gray-600">
+            <span className="font-medium text-gray-900">{pendingWithdraw.vacancy.title}</span>
+            {pendingWithdraw.vacancy.club?.full_name ? ` at ${pendingWithdraw.vacancy.club.full_name}` : ''}
+          </p>
+        ) : undefined}
+      />
+    </div>
+  )
+}
@@ -1,5 +1,6 @@
-import { useState, useEffect, useCallback } from 'react'
-import { Grid, List, ChevronDown, Filter } from 'lucide-react'
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { Grid, List, ChevronDown, Filter, FileText, Loader2, Sparkles } from 'lucide-react'
 import { supabase } from '../lib/supabase'
 import { useAuthStore } from '../lib/auth'
 import type { Vacancy } from '../lib/supabase'
@@ -7,105 +8,159 @@ import Header from '../components/Header'
 import VacancyCard from '../components/VacancyCard'
 import VacancyDetailView from '../components/VacancyDetailView'
 import ApplyToVacancyModal from '../components/ApplyToVacancyModal'
+import SavedSearchesPanel from '../components/SavedSearchesPanel'
 import Button from '../components/Button'
 import { VacancyCardSkeleton } from '../components/Skeleton'
-import { requestCache } from '@/lib/requestCache'
+import { requestCache, generateCacheKey } from '@/lib/requestCache'
 import { monitor } from '@/lib/monitor'
 import { logger } from '@/lib/logger'
-
-interface FiltersState {
-  opportunityType: 'all' | 'player' | 'coach'
-  position: string[]
-  gender: 'all' | 'Men' | 'Women'
-  location: string
-  startDate: 'all' | 'immediate' | 'specific'
-  benefits: string[]
-  priority: 'all' | 'high' | 'medium' | 'low'
-}
-
-const POSITIONS = ['goalkeeper', 'defender', 'midfielder', 'forward']
-const BENEFITS = ['housing', 'car', 'visa', 'flights', 'meals', 'job', 'insurance', 'education', 'bonuses', 'equipment']
+import {
+  BENEFITS,
+  DEFAULT_FILTERS,
+  POSITIONS,
+  SORT_OPTIONS,
+  canSortByMatch,
+  fetchRecommendedVacancies,
+  parseOpportunityQuery,
+  searchVacancies,
+  serializeOpportunityQuery,
+  type FiltersState,
+  type OpportunitySort,
+  type OpportunityViewMode,
+  type ScoredVacancy,
+  type VacancyWithClub,
+} from '@/lib/opportunities'
+
+// Typing a location or ticking several boxes in a row should run one search
+const FILTER_DEBOUNCE_MS = 300
 
 export default function OpportunitiesPage() {
+  const navigate = useNavigate()
+  const [searchParams, setSearchParams] = useSearchParams()
+  // Filters, sort and view are restored from the URL so links can be shared
+  const [initialQuery] = useState(() => parseOpportunityQuery(searchParams))
   const { user, profile } = useAuthStore()
-  const [vacancies, setVacancies] = useState<Vacancy[]>([])
-  const [filteredVacancies, setFilteredVacancies] = useState<Vacancy[]>([])
+  const [vacancies, setVacancies] = useState<ScoredVacancy[]>([])
+  const [recommended, setRecommended] = useState<ScoredVacancy[]>([])
   const [clubs, setClubs] = useState<Record<string, { id: string; full_name: string; avatar_url: string | null }>>({})
   const [userApplications, setUserApplications] = useState<string[]>([])
   const [selectedVacancy, setSelectedVacancy] = useState<Vacancy | null>(null)
   const [showApplyModal, setShowApplyModal] = useState(false)
   const [showDetailView, setShowDetailView] = useState(false)
   const [isLoading, setIsLoading] = useState(true)
-  const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid')
-  const [sortBy, setSortBy] = useState<'newest'>('newest')
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const [hasMore, setHasMore] = useState(false)
+  const [viewMode, setViewMode] = useState<OpportunityViewMode>(initialQuery.viewMode)
+  const [selectedSort, setSelectedSort] = useState<OpportunitySort>(initialQuery.sortBy)
   const [showFilters, setShowFilters] = useState(false)
+  const canSeeMatches = Boolean(user) && canSortByMatch(profile?.role)
+  // Best match only exists for players and coaches, whatever a shared link says
+  const sortBy: OpportunitySort = selectedSort === 'recommended' && !canSeeMatches ? 'newest' : selectedSort
   
-  const [filters, setFilters] = useState<FiltersState>({
-    opportunityType: 'all',
-    position: [],
-    gender: 'all',
-    location: '',
-    startDate: 'all',
-    benefits: [],
-    priority: 'all',
-  })
+  const [filters, setFilters] = useState<FiltersState>(initialQuery.filters)
+  const [searchFilters, setSearchFilters] = useState<FiltersState>(filters)
+  const loadMoreRef = useRef<HTMLDivElement>(null)
+  // Incremented on every new search so late responses for old filters are dropped
+  const searchIdRef = useRef(0)
+  // Last query string written to or read from the URL, used to avoid sync loops
+  const syncedQueryRef = useRef(serializeOpportunityQuery(initialQuery).toString())
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearchFilters(filters), FILTER_DEBOUNCE_MS)
+    return () => clearTimeout(timeout)
+  }, [filters])
+
+  // State -> URL. Each applied search becomes a history entry so Back restores it
+  useEffect(() => {
+    const query = serializeOpportunityQuery({ filters: searchFilters, sortBy: selectedSort, viewMode }).toString()
+    if (query === syncedQueryRef.current) return
+
+    syncedQueryRef.current = query
+    setSearchParams(query)
+  }, [searchFilters, selectedSort, viewMode, setSearchParams])
+
+  // URL -> state, for Back/Forward and links opened while already on the page
+  useEffect(() => {
+    const parsed = parseOpportunityQuery(searchParams)
+    const query = serializeOpportunityQuery(parsed).toString()
+    if (query === syncedQueryRef.current) return
+
+    syncedQueryRef.current = query
+    setFilters(parsed.filters)
+    setSearchFilters(parsed.filters)
+    setSelectedSort(parsed.sortBy)
+    setViewMode(parsed.viewMode)
+  }, [searchParams])
+
+  const mergeClubs = useCallback((page: VacancyWithClub[]) => {
+    setClubs(prev => {
+      const next = { ...prev }
+      page.forEach(vacancy => {
+        if (vacancy.club && vacancy.club.id) {
+          next[vacancy.club.id] = {
+            id: vacancy.club.id,
+            full_name: vacancy.club.full_name || 'Unknown Club',
+            avatar_url: vacancy.club.avatar_url,
+          }
+        }
+      })
+      return next
+    })
+  }, [])
 
   const fetchVacancies = useCallback(async () => {
+    const searchId = ++searchIdRef.current
     setIsLoading(true)
     
     await monitor.measure('fetch_vacancies', async () => {
       try {
-        const { vacanciesData, clubsMap } = await requestCache.dedupe(
-          'open-vacancies',
-          async () => {
-            // Fetch vacancies with club data in a single query using JOIN
-            const { data: vacanciesData, error: vacanciesError } = await supabase
-              .from('vacancies')
-              .select(`
-                *,
-                club:profiles!vacancies_club_id_fkey(
-                  id,
-                  full_name,
-                  avatar_url
-                )
-              `)
-              .eq('status', 'open')
-              .order('created_at', { ascending: false })
-              .limit(100) // Limit to 100 most recent vacancies
-
-            if (vacanciesError) throw vacanciesError
-
-            logger.debug('Fetched vacancies with clubs:', vacanciesData)
-
-            // Build clubs map from embedded data
-            const clubsMap: Record<string, { id: string; full_name: string; avatar_url: string | null }> = {}
-            
-            vacanciesData?.forEach((vacancy: Vacancy & { club?: { id: string; full_name: string | null; avatar_url: string | null } }) => {
-              if (vacancy.club && vacancy.club.id) {
-                clubsMap[vacancy.club.id] = {
-                  id: vacancy.club.id,
-                  full_name: vacancy.club.full_name || 'Unknown Club',
-                  avatar_url: vacancy.club.avatar_url,
-                }
-              }
-            })
-
-            logger.debug('Clubs map:', clubsMap)
-
-            return { vacanciesData, clubsMap }
-          },
+        const page = await requestCache.dedupe(
+          generateCacheKey('open-vacancies', { filters: searchFilters, sortBy, withScores: canSeeMatches }),
+          () => searchVacancies(searchFilters, sortBy, { withScores: canSeeMatches }),
           5000 // 5 second cache for vacancies (reduced from 20s)
         )
 
-        setVacancies((vacanciesData as Vacancy[]) || [])
-        setClubs(clubsMap)
+        if (searchId !== searchIdRef.current) return
+
+        logger.debug('Fetched vacancies page:', page.vacancies.length)
+        mergeClubs(page.vacancies)
+        setVacancies(page.vacancies)
+        setHasMore(page.hasMore)
       } catch (error) {
         logger.error('Error fetching vacancies:', error)
       } finally {
-        setIsLoading(false)
+        if (searchId === searchIdRef.current) {
+          setIsLoading(false)
+        }
       }
     })
-  }, [])
+  }, [searchFilters, sortBy, canSeeMatches, mergeClubs])
+
+  const loadMoreVacancies = useCallback(async () => {
+    const last = vacancies[vacancies.length - 1]
+    if (!last || !hasMore || isLoading || isLoadingMore) return
+
+    const searchId = searchIdRef.current
+    setIsLoadingMore(true)
+
+    await monitor.measure('fetch_vacancies_page', async () => {
+      try {
+        const page = await searchVacancies(searchFilters, sortBy, { after: last, withScores: canSeeMatches })
+        if (searchId !== searchIdRef.current) return
+
+        mergeClubs(page.vacancies)
+        setVacancies(prev => [
+          ...prev,
+          ...page.vacancies.filter(vacancy => !prev.some(existing => existing.id === vacancy.id)),
+        ])
+        setHasMore(page.hasMore)
+      } catch (error) {
+        logger.error('Error fetching more vacancies:', error)
+      } finally {
+        setIsLoadingMore(false)
+      }
+    }, { loaded: String(vacancies.length) })
+  }, [vacancies, hasMore, isLoading, isLoadingMore, searchFilters, sortBy, canSeeMatches, mergeClubs])
 
   const fetchUserApplications = useCallback(async (options?: { skipCache?: boolean }) => {
     if (!user || (profile?.role !== 'player' && profile?.role !== 'coach')) return
@@ -141,74 +196,50 @@ export default function OpportunitiesPage() {
     }, { userId: user.id })
   }, [user, profile])
 
-  useEffect(() => {
-    fetchVacancies()
-    fetchUserApplications()
-  }, [fetchVacancies, fetchUserApplications])
-
-  // Apply filters
-  useEffect(() => {
-    let filtered = [...vacancies]
-
-    // Opportunity type filter
-    if (filters.opportunityType !== 'all') {
-      filtered = filtered.filter(v => v.opportunity_type === filters.opportunityType)
-    }
-
-    // Position filter
-    if (filters.position.length > 0) {
-      filtered = filtered.filter(v => {
-        if (!v.position) return false
-        const vacancyPosition = v.position.toLowerCase()
-        return filters.position.includes(vacancyPosition)
-      })
+  const fetchRecommended = useCallback(async () => {
+    if (!canSeeMatches) {
+      setRecommended([])
+      return
     }
 
-    // Gender filter
-    if (filters.gender !== 'all') {
-      filtered = filtered.filter(v => v.gender === filters.gender)
+    try {
+      const page = await fetchRecommendedVacancies()
+      mergeClubs(page)
+      setRecommended(page)
+    } catch (error) {
+      logger.error('Error fetching recommended vacancies:', error)
     }
+  }, [canSeeMatches, mergeClubs])
 
-    // Location filter
-    if (filters.location.trim()) {
-      const locationLower = filters.location.toLowerCase()
-      filtered = filtered.filter(v => {
-        const city = v.location_city?.toLowerCase() ?? ''
-        const country = v.location_country?.toLowerCase() ?? ''
-        return city.includes(locationLower) || country.includes(locationLower)
-      })
-    }
+  useEffect(() => {
+    fetchVacancies()
+  }, [fetchVacancies])
 
-    // Start date filter
-    if (filters.startDate === 'immediate') {
-      filtered = filtered.filter(v => !v.start_date)
-    } else if (filters.startDate === 'specific') {
-      filtered = filtered.filter(v => v.start_date)
-    }
+  useEffect(() => {
+    fetchRecommended()
+  }, [fetchRecommended])
 
-    // Benefits filter
-    if (filters.benefits.length > 0) {
-      filtered = filtered.filter(v =>
-        v.benefits && filters.benefits.some(benefit => v.benefits?.includes(benefit))
-      )
-    }
+  useEffect(() => {
+    fetchUserApplications()
+  }, [fetchUserApplications])
 
-    // Priority filter
-    if (filters.priority !== 'all') {
-      filtered = filtered.filter(v => v.priority === filters.priority)
-    }
+  // Infinite scroll: fetch the next page when the sentinel nears the viewport
+  useEffect(() => {
+    const sentinel = loadMoreRef.current
+    if (!sentinel || !hasMore || typeof IntersectionObserver === 'undefined') return
 
-    // Sort
-    if (sortBy === 'newest') {
-      filtered.sort((a, b) => {
-        const dateA = a.created_at ? new Date(a.created_at).getTime() : 0
-        const dateB = b.created_at ? new Date(b.created_at).getTime() : 0
-        return dateB - dateA
-      })
-    }
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries[0]?.isIntersecting) {
+          loadMoreVacancies()
+        }
+      },
+      { rootMargin: '400px 0px' }
+    )
 
-    setFilteredVacancies(filtered)
-  }, [vacancies, filters, sortBy])
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [hasMore, loadMoreVacancies])
 
   const updateFilter = <K extends keyof FiltersState>(key: K, value: FiltersState[K]) => {
     setFilters(prev => {
@@ -240,15 +271,14 @@ export default function OpportunitiesPage() {
   }
 
   const clearFilters = () => {
-    setFilters({
-      opportunityType: 'all',
-      position: [],
-      gender: 'all',
-      location: '',
-      startDate: 'all',
-      benefits: [],
-      priority: 'all',
-    })
+    setFilters(DEFAULT_FILTERS)
+  }
+
+  const applySavedFilters = (saved: FiltersState) => {
+    // Skip the debounce: this is a single deliberate change
+    setFilters(saved)
+    setSearchFilters(saved)
+    setShowFilters(false)
   }
 
   const hasActiveFilters = () => {
@@ -263,19 +293,58 @@ export default function OpportunitiesPage() {
     )
   }
 
+  const renderVacancyCard = (vacancy: ScoredVacancy) => {
+    const club = clubs[vacancy.club_id]
+    const isApplied = userApplications.includes(vacancy.id)
+    return (
+      <VacancyCard
+        key={vacancy.id}
+        vacancy={vacancy}
+        clubName={club?.full_name || 'Unknown Club'}
+        clubLogo={club?.avatar_url || null}
+        clubId={vacancy.club_id}
+        onViewDetails={() => {
+          setSelectedVacancy(vacancy)
+          setShowDetailView(true)
+        }}
+        onApply={
+          user && (profile?.role === 'player' || profile?.role === 'coach') && !isApplied
+            ? () => {
+                setSelectedVacancy(vacancy)
+                setShowApplyModal(true)
+              }
+            : undefined
+        }
+        hasApplied={isApplied}
+        matchScore={vacancy.match_score}
+      />
+    )
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Header />
 
       <main className="max-w-7xl mx-auto px-4 md:px-6 pt-24 pb-12">
         {/* Page Header */}
-        <div className="mb-8">
-          <h1 className="text-3xl md:text-4xl font-bold text-gray-900 mb-2">
-            Opportunities
-          </h1>
-          <p className="text-gray-600">
-            Discover field hockey opportunities from clubs around the world
-          </p>
+        <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl md:text-4xl font-bold text-gray-900 mb-2">
+              Opportunities
+            </h1>
+            <p className="text-gray-600">
+              Discover field hockey opportunities from clubs around the world
+            </p>
+          </div>
+          {userApplications.length > 0 && (
+            <button
+              onClick={() => navigate('/applications')}
+              className="inline-flex w-fit items-center gap-2 px-4 py-2.5 text-sm font-medium text-blue-700 border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors"
+            >
+              <FileText className="w-4 h-4" />
+              My Applications ({userApplications.length})
+            </button>
+          )}
         </div>
 
         {/* Controls Bar */}
@@ -284,7 +353,7 @@ export default function OpportunitiesPage() {
             {/* Results & Filters Toggle */}
             <div className="flex items-center gap-4">
               <p className="text-sm text-gray-600">
-                Showing <span className="font-semibold text-gray-900">{filteredVacancies.length}</span> opportunities
+                Showing <span className="font-semibold text-gray-900">{vacancies.length}{hasMore ? '+' : ''}</span> opportunities
               </p>
               <button
                 onClick={() => setShowFilters(!showFilters)}
@@ -304,11 +373,13 @@ export default function OpportunitiesPage() {
               <div className="relative">
                 <select
                   value={sortBy}
-                  onChange={(e) => setSortBy(e.target.value as 'newest')}
+                  onChange={(e) => setSelectedSort(e.target.value as OpportunitySort)}
                   className="appearance-none pl-4 pr-10 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
                   title="Sort by"
                 >
-                  <option value="newest">Newest</option>
+                  {SORT_OPTIONS.filter(option => option.value !== 'recommended' || canSeeMatches).map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
                 </select>
                 <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500 pointer-events-none" />
               </div>
@@ -350,6 +421,9 @@ export default function OpportunitiesPage() {
                 )}
               </div>
 
+              {/* Saved Searches */}
+              <SavedSearchesPanel filters={filters} onApply={applySavedFilters} />
+
               {/* Opportunity Type */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -494,13 +568,34 @@ export default function OpportunitiesPage() {
 
           {/* Main Content */}
           <div className="flex-1">
+            {/* The Best match sort already puts these first */}
+            {recommended.length > 0 && sortBy !== 'recommended' && (
+              <section className="mb-8" aria-labelledby="recommended-heading">
+                <div className="mb-4 flex items-center gap-2">
+                  <Sparkles className="w-5 h-5 text-purple-600" />
+                  <h2 id="recommended-heading" className="text-lg font-bold text-gray-900">
+                    Recommended for you
+                  </h2>
+                  <button
+                    onClick={() => setSelectedSort('recommended')}
+                    className="ml-auto text-sm text-blue-600 hover:text-blue-700 font-medium"
+                  >
+                    See all by match
+                  </button>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  {recommended.map(renderVacancyCard)}
+                </div>
+              </section>
+            )}
+
             {isLoading ? (
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 {[1, 2, 3, 4, 5, 6].map(i => (
                   <VacancyCardSkeleton key={i} />
                 ))}
               </div>
-            ) : filteredVacancies.length === 0 ? (
+            ) : vacancies.length === 0 ? (
               <div className="bg-white rounded-xl p-12 text-center">
                 <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
                   <span className="text-3xl">🔍</span>
@@ -521,32 +616,26 @@ export default function OpportunitiesPage() {
               </div>
             ) : (
               <div className={viewMode === 'grid' ? 'grid grid-cols-1 md:grid-cols-2 gap-6' : 'space-y-4'}>
-                {filteredVacancies.map((vacancy) => {
-                  const club = clubs[vacancy.club_id]
-                  const isApplied = userApplications.includes(vacancy.id)
-                  return (
-                    <VacancyCard
-                      key={vacancy.id}
-                      vacancy={vacancy}
-                      clubName={club?.full_name || 'Unknown Club'}
-                      clubLogo={club?.avatar_url || null}
-                      clubId={vacancy.club_id}
-                      onViewDetails={() => {
-                        setSelectedVacancy(vacancy)
-                        setShowDetailView(true)
-                      }}
-                      onApply={
-                        user && (profile?.role === 'player' || profile?.role === 'coach') && !isApplied
-                          ? () => {
-                              setSelectedVacancy(vacancy)
-                              setShowApplyModal(true)
-                            }
-                          : undefined
-                      }
-                      hasApplied={isApplied}
-                    />
-                  )
-                })}
+                {vacancies.map(renderVacancyCard)}
+              </div>
+            )}
+
+            {/* Infinite scroll sentinel; the button covers browsers without IntersectionObserver */}
+            {!isLoading && hasMore && (
+              <div ref={loadMoreRef} className="flex justify-center py-8">
+                {isLoadingMore ? (
+                  <div className="flex items-center gap-2 text-sm text-gray-600">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Loading more opportunities...
+                  </div>
+                ) : (
+                  <button
+                    onClick={loadMoreVacancies}
+                    className="px-6 py-2.5 text-sm font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    Load more
+                  </button>
+                )}
               </div>
             )}
           </div>
@@ -587,6 +676,7 @@ export default function OpportunitiesPage() {
           }}
           vacancy={selectedVacancy}
           onSuccess={(vacancyId) => {
+            setRecommended(prev => prev.filter(vacancy => vacancy.id !== vacancyId))
             setUserApplications(prev => {
               if (prev.includes(vacancyId)) {
                 return prev
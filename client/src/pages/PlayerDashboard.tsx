@@ -1,4 +1,4 @@
-import { useState } from 'react'
+import { useState, type ReactNode } from 'react'
 import { MapPin, Globe, Calendar, Edit2, Eye, MessageCircle } from 'lucide-react'
 import { useAuthStore } from '@/lib/auth'
 import { Avatar, EditProfileModal } from '@/components'
@@ -15,9 +15,11 @@ type TabType = 'profile' | 'media' | 'history' | 'achievements' | 'availability'
 interface PlayerDashboardProps {
   profileData?: Profile
   readOnly?: boolean
+  /** Extra actions next to Message in the public view, e.g. report and block */
+  profileActions?: ReactNode
 }
 
-export default function PlayerDashboard({ profileData, readOnly = false }: PlayerDashboardProps) {
+export default function PlayerDashboard({ profileData, readOnly = false, profileActions }: PlayerDashboardProps) {
   const { profile: authProfile, user } = useAuthStore()
   const profile = profileData || authProfile
   const navigate = useNavigate()
@@ -140,6 +142,7 @@ export default function PlayerDashboard({ profileData, readOnly = false }: Playe
                       <MessageCircle className="w-4 h-4" />
                       Message
                     </button>
+                    {profileActions}
                   </div>
                 ) : (
                   <button 
@@ -3,8 +3,10 @@ import { useParams, useNavigate } from 'react-router-dom'
 import { ArrowLeft } from 'lucide-react'
 import { supabase } from '../lib/supabase'
 import type { Profile } from '../lib/supabase'
+import { useAuthStore } from '../lib/auth'
 import PlayerDashboard from './PlayerDashboard'
 import CoachDashboard from './CoachDashboard'
+import UserSafetyMenu from '../components/UserSafetyMenu'
 
 export default function PublicPlayerProfile() {
   const { username, id } = useParams<{ username?: string; id?: string }>()
@@ -12,6 +14,8 @@ export default function PublicPlayerProfile() {
   const [profile, setProfile] = useState<Profile | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const viewerId = useAuthStore(state => state.user?.id ?? null)
+  const viewedProfileId = profile?.id ?? null
 
   useEffect(() => {
     const fetchProfile = async () => {
@@ -71,6 +75,19 @@ export default function PublicPlayerProfile() {
     fetchProfile()
   }, [username, id])
 
+  // Throttled server-side (once per viewer per day); notifies the profile owner
+  useEffect(() => {
+    if (!viewerId || !viewedProfileId || viewerId === viewedProfileId) return
+
+    supabase
+      .rpc('record_profile_view', { p_profile_id: viewedProfileId })
+      .then(({ error: viewError }) => {
+        if (viewError) {
+          console.error('Error recording profile view:', viewError)
+        }
+      })
+  }, [viewerId, viewedProfileId])
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -103,10 +120,18 @@ export default function PublicPlayerProfile() {
     )
   }
 
+  const profileActions = viewerId && viewerId !== profile.id ? (
+    <UserSafetyMenu
+      currentUserId={viewerId}
+      user={{ id: profile.id, full_name: profile.full_name }}
+      buttonClassName="rounded-lg bg-gray-100 p-2 text-gray-700 transition-colors hover:bg-gray-200"
+    />
+  ) : undefined
+
   // Render CoachDashboard for coaches, PlayerDashboard for players
   if (profile.role === 'coach') {
-    return <CoachDashboard profileData={profile} readOnly={true} />
+    return <CoachDashboard profileData={profile} readOnly={true} profileActions={profileActions} />
   }
 
-  return <PlayerDashboard profileData={profile} readOnly={true} />
+  return <PlayerDashboard profileData={profile} readOnly={true} profileActions={profileActions} />
 }
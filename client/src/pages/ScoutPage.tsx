@@ -0,0 +1,388 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Search, SlidersHorizontal } from 'lucide-react'
+import { Header } from '@/components'
+import { ProfileCardSkeleton } from '@/components/Skeleton'
+import ScoutFiltersPanel from '@/components/ScoutFiltersPanel'
+import ScoutPlayerCard from '@/components/ScoutPlayerCard'
+import ShortlistsPanel from '@/components/ShortlistsPanel'
+import { useAuthStore } from '@/lib/auth'
+import { useToastStore } from '@/lib/toast'
+import { logger } from '@/lib/logger'
+import { monitor } from '@/lib/monitor'
+import {
+  DEFAULT_SCOUT_FILTERS,
+  addToShortlist,
+  createShortlist,
+  deleteShortlist,
+  fetchShortlists,
+  removeFromShortlist,
+  renameShortlist,
+  searchScoutPlayers,
+  type ScoutFilters,
+  type ScoutPlayer,
+  type ShortlistWithPlayers,
+} from '@/lib/scouting'
+
+type ScoutTab = 'search' | 'shortlists'
+
+const SEARCH_DEBOUNCE_MS = 400
+
+const sortByName = (lists: ShortlistWithPlayers[]) =>
+  [...lists].sort((a, b) => a.name.localeCompare(b.name))
+
+// Unique (club_id, name) and the name length check
+const shortlistNameError = (error: unknown, name: string) => {
+  const code = (error as { code?: string })?.code
+  if (code === '23505') return `You already have a shortlist called "${name.trim()}".`
+  if (code === '23514') return 'Shortlist names must be 1-60 characters.'
+  return null
+}
+
+export default function ScoutPage() {
+  const navigate = useNavigate()
+  const { user, profile } = useAuthStore()
+  const { addToast } = useToastStore()
+  const [activeTab, setActiveTab] = useState<ScoutTab>('search')
+  const [filters, setFilters] = useState<ScoutFilters>(DEFAULT_SCOUT_FILTERS)
+  const [debouncedFilters, setDebouncedFilters] = useState<ScoutFilters>(DEFAULT_SCOUT_FILTERS)
+  const [showFilters, setShowFilters] = useState(true)
+  const [players, setPlayers] = useState<ScoutPlayer[]>([])
+  const [total, setTotal] = useState(0)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [shortlists, setShortlists] = useState<ShortlistWithPlayers[]>([])
+  // Responses for superseded searches are dropped
+  const searchIdRef = useRef(0)
+
+  const isClub = profile?.role === 'club'
+  const hasMore = players.length < total
+
+  // Typing in any text filter settles before searching
+  useEffect(() => {
+    const debounceTimer = setTimeout(() => {
+      setDebouncedFilters(filters)
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => clearTimeout(debounceTimer)
+  }, [filters])
+
+  const runSearch = useCallback(async () => {
+    if (!isClub) {
+      setIsLoading(false)
+      return
+    }
+
+    const searchId = ++searchIdRef.current
+    setIsLoading(true)
+    setError(null)
+
+    await monitor.measure('search_scout_players', async () => {
+      try {
+        const page = await searchScoutPlayers(debouncedFilters, 0)
+        if (searchId !== searchIdRef.current) return
+        setPlayers(page.players)
+        setTotal(page.total)
+      } catch (searchError) {
+        logger.error('Error searching players:', searchError)
+        if (searchId === searchIdRef.current) {
+          setError('Failed to search players. Please try again.')
+        }
+      } finally {
+        if (searchId === searchIdRef.current) {
+          setIsLoading(false)
+        }
+      }
+    })
+  }, [debouncedFilters, isClub])
+
+  useEffect(() => {
+    runSearch()
+  }, [runSearch])
+
+  useEffect(() => {
+    if (!user || !isClub) return
+
+    fetchShortlists(user.id)
+      .then(setShortlists)
+      .catch(fetchError => logger.error('Error fetching shortlists:', fetchError))
+  }, [user, isClub])
+
+  const handleLoadMore = async () => {
+    const searchId = searchIdRef.current
+    setIsLoadingMore(true)
+
+    try {
+      const page = await searchScoutPlayers(debouncedFilters, players.length)
+      if (searchId !== searchIdRef.current) return
+      setPlayers(prev => [...prev, ...page.players])
+      setTotal(page.total)
+    } catch (loadError) {
+      logger.error('Error loading more players:', loadError)
+      addToast('Failed to load more players. Please try again.', 'error')
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }
+
+  const updateFilters = (patch: Partial<ScoutFilters>) => {
+    setFilters(prev => ({ ...prev, ...patch }))
+  }
+
+  const handleCreateShortlist = async (name: string): Promise<ShortlistWithPlayers | null> => {
+    if (!user) return null
+
+    try {
+      const created = await createShortlist(user.id, name)
+      setShortlists(prev => sortByName([...prev, created]))
+      return created
+    } catch (createError) {
+      logger.error('Error creating shortlist:', createError)
+      addToast(shortlistNameError(createError, name) ?? 'Failed to create shortlist. Please try again.', 'error')
+      return null
+    }
+  }
+
+  const handleRenameShortlist = async (shortlistId: string, name: string) => {
+    try {
+      await renameShortlist(shortlistId, name)
+      setShortlists(prev =>
+        sortByName(prev.map(list => (list.id === shortlistId ? { ...list, name: name.trim() } : list)))
+      )
+      return true
+    } catch (renameError) {
+      logger.error('Error renaming shortlist:', renameError)
+      addToast(shortlistNameError(renameError, name) ?? 'Failed to rename shortlist. Please try again.', 'error')
+      return false
+    }
+  }
+
+  const handleDeleteShortlist = async (shortlistId: string) => {
+    try {
+      await deleteShortlist(shortlistId)
+      setShortlists(prev => prev.filter(list => list.id !== shortlistId))
+      addToast('Shortlist deleted.', 'success')
+      return true
+    } catch (deleteError) {
+      logger.error('Error deleting shortlist:', deleteError)
+      addToast('Failed to delete shortlist. Please try again.', 'error')
+      return false
+    }
+  }
+
+  const setPlayerOnShortlist = (shortlistId: string, playerId: string, onList: boolean) => {
+    setShortlists(prev =>
+      prev.map(list =>
+        list.id === shortlistId
+          ? {
+              ...list,
+              player_ids: onList
+                ? [...list.player_ids, playerId]
+                : list.player_ids.filter(id => id !== playerId),
+            }
+          : list
+      )
+    )
+  }
+
+  const handleAddToShortlist = async (shortlist: ShortlistWithPlayers, playerId: string) => {
+    try {
+      await addToShortlist(shortlist.id, playerId)
+      setPlayerOnShortlist(shortlist.id, playerId, true)
+      addToast(`Saved to ${shortlist.name}.`, 'success')
+      return true
+    } catch (addError) {
+      logger.error('Error adding player to shortlist:', addError)
+      addToast('Failed to save player. Please try again.', 'error')
+      return false
+    }
+  }
+
+  const handleRemoveFromShortlist = async (shortlistId: string, playerId: string) => {
+    try {
+      await removeFromShortlist(shortlistId, playerId)
+      setPlayerOnShortlist(shortlistId, playerId, false)
+      return true
+    } catch (removeError) {
+      logger.error('Error removing player from shortlist:', removeError)
+      addToast('Failed to remove player. Please try again.', 'error')
+      return false
+    }
+  }
+
+  const handleToggleShortlist = async (shortlistId: string, playerId: string) => {
+    const shortlist = shortlists.find(list => list.id === shortlistId)
+    if (!shortlist) return
+
+    if (shortlist.player_ids.includes(playerId)) {
+      await handleRemoveFromShortlist(shortlistId, playerId)
+    } else {
+      await handleAddToShortlist(shortlist, playerId)
+    }
+  }
+
+  const handleCreateAndAdd = async (name: string, playerId: string) => {
+    const created = await handleCreateShortlist(name)
+    return created ? handleAddToShortlist(created, playerId) : false
+  }
+
+  const tabs: { id: ScoutTab; label: string }[] = [
+    { id: 'search', label: 'Find Players' },
+    { id: 'shortlists', label: `Shortlists (${shortlists.length})` },
+  ]
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 md:px-6 pt-24 pb-12">
+        <div className="mb-8">
+          <h1 className="text-3xl md:text-4xl font-bold text-gray-900 mb-2">
+            Scout Players
+          </h1>
+          <p className="text-gray-600">
+            Discover players who fit your squad, keep them on shortlists, and reach out first
+          </p>
+        </div>
+
+        {!isClub ? (
+          <div className="rounded-2xl border border-gray-200 bg-white p-10 text-center">
+            <h2 className="mb-2 text-lg font-semibold text-gray-900">Scouting is for clubs</h2>
+            <p className="mb-6 text-sm text-gray-600">Browse the Community to connect with players, coaches, and clubs.</p>
+            <button
+              onClick={() => navigate('/community')}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Go to Community
+            </button>
+          </div>
+        ) : (
+          <>
+            <div className="mb-6 flex flex-wrap gap-2" role="tablist" aria-label="Scouting">
+              {tabs.map(tab => (
+                <button
+                  key={tab.id}
+                  role="tab"
+                  aria-selected={activeTab === tab.id}
+                  onClick={() => setActiveTab(tab.id)}
+                  className={`px-4 py-2 rounded-full text-sm font-medium transition-colors ${
+                    activeTab === tab.id
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+                  }`}
+                >
+                  {tab.label}
+                </button>
+              ))}
+            </div>
+
+            {activeTab === 'shortlists' ? (
+              <ShortlistsPanel
+                shortlists={shortlists}
+                onCreate={handleCreateShortlist}
+                onRename={handleRenameShortlist}
+                onDelete={handleDeleteShortlist}
+                onRemovePlayer={handleRemoveFromShortlist}
+                onFindPlayers={() => setActiveTab('search')}
+              />
+            ) : (
+              <>
+                <div className="mb-4 flex gap-2">
+                  <div className="relative flex-1">
+                    <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+                    <input
+                      type="text"
+                      value={filters.query}
+                      onChange={(e) => updateFilters({ query: e.target.value })}
+                      placeholder="Search by name or club..."
+                      className="w-full pl-12 pr-4 py-3 rounded-xl border border-gray-300 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      inputMode="search"
+                    />
+                  </div>
+                  <button
+                    onClick={() => setShowFilters(prev => !prev)}
+                    aria-expanded={showFilters}
+                    className={`flex items-center gap-2 px-4 min-h-[44px] rounded-xl border text-sm font-medium transition-colors ${
+                      showFilters
+                        ? 'border-purple-300 bg-purple-50 text-purple-700'
+                        : 'border-gray-300 bg-white text-gray-700 hover:border-purple-300'
+                    }`}
+                  >
+                    <SlidersHorizontal className="w-4 h-4" />
+                    <span className="hidden sm:inline">Filters</span>
+                  </button>
+                </div>
+
+                {showFilters && (
+                  <div className="mb-6">
+                    <ScoutFiltersPanel
+                      filters={filters}
+                      onChange={updateFilters}
+                      onClear={() => setFilters(DEFAULT_SCOUT_FILTERS)}
+                    />
+                  </div>
+                )}
+
+                {!isLoading && !error && (
+                  <p className="mb-4 text-sm text-gray-600">
+                    {total} {total === 1 ? 'player' : 'players'} found
+                  </p>
+                )}
+
+                {isLoading ? (
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {Array.from({ length: 6 }).map((_, index) => (
+                      <ProfileCardSkeleton key={index} />
+                    ))}
+                  </div>
+                ) : error ? (
+                  <div className="rounded-2xl border border-red-200 bg-red-50 p-6 text-center">
+                    <p className="mb-4 text-sm text-red-800">{error}</p>
+                    <button
+                      onClick={runSearch}
+                      className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+                    >
+                      Try Again
+                    </button>
+                  </div>
+                ) : players.length === 0 ? (
+                  <div className="rounded-2xl border border-gray-200 bg-white p-10 text-center">
+                    <h2 className="mb-2 text-lg font-semibold text-gray-900">No players match</h2>
+                    <p className="text-sm text-gray-600">Try widening the age range or removing a filter.</p>
+                  </div>
+                ) : (
+                  <>
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                      {players.map(player => (
+                        <ScoutPlayerCard
+                          key={player.id}
+                          player={player}
+                          shortlists={shortlists}
+                          onToggleShortlist={handleToggleShortlist}
+                          onCreateShortlist={handleCreateAndAdd}
+                        />
+                      ))}
+                    </div>
+
+                    {hasMore && (
+                      <div className="mt-8 flex justify-center">
+                        <button
+                          onClick={handleLoadMore}
+                          disabled={isLoadingMore}
+                          className="px-8 py-3 rounded-lg bg-gradient-to-r from-[#6366f1] to-[#8b5cf6] text-white font-medium hover:opacity-90 transition-opacity disabled:opacity-60"
+                        >
+                          {isLoadingMore ? 'Loading...' : 'Load More'}
+                        </button>
+                      </div>
+                    )}
+                  </>
+                )}
+              </>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
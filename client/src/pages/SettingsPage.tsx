@@ -5,6 +5,10 @@ import { useAuthStore } from '@/lib/auth'
 import { supabase } from '@/lib/supabase'
 import Header from '@/components/Header'
 import DeleteAccountModal from '@/components/DeleteAccountModal'
+import NotificationSettings from '@/components/NotificationSettings'
+import PrivacySettings from '@/components/PrivacySettings'
+import BlockedUsersSettings from '@/components/BlockedUsersSettings'
+import MessageTemplatesSettings from '@/components/MessageTemplatesSettings'
 
 export default function SettingsPage() {
   const navigate = useNavigate()
@@ -213,6 +217,18 @@ export default function SettingsPage() {
             </form>
           </div>
 
+          {/* Message Templates Section */}
+          {profile.role === 'club' && <MessageTemplatesSettings />}
+
+          {/* Notifications Section */}
+          <NotificationSettings />
+
+          {/* Privacy Section */}
+          <PrivacySettings />
+
+          {/* Blocked Members Section */}
+          <BlockedUsersSettings />
+
           {/* Delete Account Section */}
           <div className="bg-white rounded-2xl shadow-sm border border-red-200 p-6">
             <div className="flex items-center gap-3 mb-4">
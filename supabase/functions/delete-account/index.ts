@@ -107,6 +107,45 @@ Deno.serve(async (req) => {
         deletedData.storageFiles += clubMediaFiles.length
         console.log(`[DELETE ACCOUNT] Deleted ${clubMediaFiles.length} club media files`)
       }
+
+      // Delete message attachments. Files live under <conversation_id>/<uploader_id>/.
+      // Direct conversations are deleted below, so clear both participants' files;
+      // group chats live on, so only the user's own uploads go.
+      const { data: userConversations } = await supabase
+        .from('conversation_participants')
+        .select('conversation_id, conversation:conversations(is_group)')
+        .eq('user_id', user.id)
+
+      let attachmentFileCount = 0
+      for (const membership of (userConversations ?? []) as any[]) {
+        const conversationId = membership.conversation_id as string
+        let uploaderFolders: { name: string }[] = [{ name: user.id }]
+
+        if (!membership.conversation?.is_group) {
+          const { data } = await supabase.storage
+            .from('message-attachments')
+            .list(conversationId)
+          uploaderFolders = data ?? []
+        }
+
+        for (const folder of uploaderFolders) {
+          const folderPath = `${conversationId}/${folder.name}`
+          const { data: attachmentFiles } = await supabase.storage
+            .from('message-attachments')
+            .list(folderPath, { limit: 1000 })
+
+          if (attachmentFiles && attachmentFiles.length > 0) {
+            const attachmentPaths = attachmentFiles.map(file => `${folderPath}/${file.name}`)
+            await supabase.storage.from('message-attachments').remove(attachmentPaths)
+            attachmentFileCount += attachmentFiles.length
+          }
+        }
+      }
+
+      if (attachmentFileCount > 0) {
+        deletedData.storageFiles += attachmentFileCount
+        console.log(`[DELETE ACCOUNT] Deleted ${attachmentFileCount} message attachment files`)
+      }
     } catch (storageError) {
       console.error('[DELETE ACCOUNT] Storage deletion error:', storageError)
       // Continue with database deletion even if storage fails
@@ -195,7 +234,8 @@ Deno.serve(async (req) => {
       console.log(`[DELETE ACCOUNT] Deleted ${messagesCount} messages`)
     }
 
-    // Delete conversations where user is a participant
+    // Delete direct conversations where user is a participant. Group chats
+    // stay; the user's membership row is removed with the profile.
     const { error: conversationsError, count: conversationsCount } = await supabase
       .from('conversations')
       .delete({ count: 'exact' })
@@ -0,0 +1,382 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts'
+import { corsHeaders } from '../_shared/cors.ts'
+import {
+  renderApplicationReceived,
+  renderApplicationStatusChanged,
+  renderMessageDigest,
+  renderSavedSearchDigest,
+  type ApplicationPayload,
+  type MessagePayload,
+  type RenderedEmail,
+  type SavedSearchMatch,
+} from './templates.ts'
+
+/**
+ * Drains public.email_outbox and pending saved search email digests.
+ * Meant to be called on a schedule with the service role key (see the
+ * 20251115000000_add_email_outbox migration).
+ *
+ * Environment:
+ *   SMTP_HOST, SMTP_PORT    defaults target the local inbucket sink (smtp_port in config.toml)
+ *   SMTP_USER, SMTP_PASS    optional credentials
+ *   SMTP_TLS, SMTP_STARTTLS 'true' to enable for a real provider
+ *   EMAIL_FROM              sender address
+ *   APP_URL                 base URL used in links
+ */
+
+interface OutboxRow {
+  id: string
+  user_id: string
+  type: string
+  payload: Record<string, unknown>
+  attempts: number
+}
+
+interface Recipient {
+  id: string
+  email: string
+  full_name: string | null
+}
+
+interface SendSummary {
+  sent: number
+  skipped: number
+  failed: number
+  savedSearchDigests: number
+}
+
+const BATCH_SIZE = 100
+const MAX_ATTEMPTS = 5
+const SAVED_SEARCH_BATCH_SIZE = 500
+
+const createMailer = () => {
+  const useTls = Deno.env.get('SMTP_TLS') === 'true'
+  const username = Deno.env.get('SMTP_USER')
+  const password = Deno.env.get('SMTP_PASS')
+
+  return new SMTPClient({
+    connection: {
+      hostname: Deno.env.get('SMTP_HOST') ?? 'host.docker.internal',
+      port: Number(Deno.env.get('SMTP_PORT') ?? '54325'),
+      tls: useTls,
+      ...(username && password ? { auth: { username, password } } : {}),
+    },
+    debug: {
+      // inbucket speaks plain SMTP without STARTTLS
+      allowUnsecure: !useTls,
+      noStartTLS: Deno.env.get('SMTP_STARTTLS') !== 'true',
+    },
+  })
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+  // Only the scheduler (service role) may trigger sends
+  if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+    return new Response(JSON.stringify({ success: false, error: 'Unauthorized' }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 401,
+    })
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  })
+
+  const appUrl = (Deno.env.get('APP_URL') ?? 'http://localhost:5173').replace(/\/$/, '')
+  const from = Deno.env.get('EMAIL_FROM') ?? 'PLAYR <no-reply@playr.local>'
+  const mailer = createMailer()
+  const summary: SendSummary = { sent: 0, skipped: 0, failed: 0, savedSearchDigests: 0 }
+
+  const send = async (recipient: Recipient, email: RenderedEmail) => {
+    await mailer.send({
+      from,
+      to: recipient.full_name ? `${recipient.full_name} <${recipient.email}>` : recipient.email,
+      subject: email.subject,
+      content: email.text,
+      html: email.html,
+    })
+  }
+
+  try {
+    // ========================================
+    // STEP 1: Outbox
+    // ========================================
+    console.log('[EMAIL] Step 1: Claiming outbox rows...')
+
+    const { data: claimed, error: claimError } = await supabase.rpc('claim_email_outbox', { p_limit: BATCH_SIZE })
+    if (claimError) {
+      throw claimError
+    }
+
+    const rows = (claimed ?? []) as OutboxRow[]
+    console.log(`[EMAIL] Claimed ${rows.length} outbox rows`)
+
+    if (rows.length > 0) {
+      const userIds = Array.from(new Set(rows.map(row => row.user_id)))
+      const [recipients, mutedTypes] = await Promise.all([
+        loadRecipients(supabase, userIds),
+        loadEmailMutes(supabase, userIds),
+      ])
+
+      // Messages read before the digest went out don't need an email
+      const unreadMessages = await loadUnreadMessages(
+        supabase,
+        rows.filter(row => row.type === 'new_message')
+      )
+
+      const messageRowsByUser = new Map<string, OutboxRow[]>()
+
+      for (const row of rows) {
+        const recipient = recipients.get(row.user_id)
+
+        if (!recipient?.email || mutedTypes.get(row.user_id)?.has(row.type)) {
+          await markRows(supabase, [row.id], 'skipped')
+          summary.skipped += 1
+          continue
+        }
+
+        if (row.type === 'new_message') {
+          if (!unreadMessages.has(`${row.user_id}:${row.payload.message_id}`)) {
+            await markRows(supabase, [row.id], 'skipped')
+            summary.skipped += 1
+            continue
+          }
+          messageRowsByUser.set(row.user_id, [...(messageRowsByUser.get(row.user_id) ?? []), row])
+          continue
+        }
+
+        const payload = row.payload as unknown as ApplicationPayload
+        const email = row.type === 'application_received'
+          ? renderApplicationReceived(appUrl, payload)
+          : row.type === 'application_status_changed'
+            ? renderApplicationStatusChanged(appUrl, payload)
+            : null
+
+        if (!email) {
+          console.warn(`[EMAIL] No template for type ${row.type}, skipping ${row.id}`)
+          await markRows(supabase, [row.id], 'skipped')
+          summary.skipped += 1
+          continue
+        }
+
+        try {
+          await send(recipient, email)
+          await markRows(supabase, [row.id], 'sent')
+          summary.sent += 1
+        } catch (sendError) {
+          console.error(`[EMAIL] Failed to send ${row.id}:`, sendError)
+          await markFailed(supabase, [row], errorMessage(sendError))
+          summary.failed += 1
+        }
+      }
+
+      // One digest per recipient for all their pending messages
+      for (const [userId, messageRows] of messageRowsByUser) {
+        const recipient = recipients.get(userId)!
+        const messages = messageRows
+          .map(row => row.payload as unknown as MessagePayload)
+          .sort((a, b) => a.sent_at.localeCompare(b.sent_at))
+
+        try {
+          await send(recipient, renderMessageDigest(appUrl, messages))
+          await markRows(supabase, messageRows.map(row => row.id), 'sent')
+          summary.sent += 1
+        } catch (sendError) {
+          console.error(`[EMAIL] Failed to send message digest to ${userId}:`, sendError)
+          await markFailed(supabase, messageRows, errorMessage(sendError))
+          summary.failed += 1
+        }
+      }
+    }
+
+    // ========================================
+    // STEP 2: Saved search digests
+    // ========================================
+    console.log('[EMAIL] Step 2: Sending saved search digests...')
+
+    const { data: matches, error: matchesError } = await supabase
+      .from('saved_search_matches')
+      .select(`
+        id,
+        user_id,
+        saved_search:saved_searches(name),
+        vacancy:vacancies(id, title, location_city, location_country, status)
+      `)
+      .eq('email_queued', true)
+      .is('emailed_at', null)
+      .order('matched_at', { ascending: true })
+      .limit(SAVED_SEARCH_BATCH_SIZE)
+
+    if (matchesError) {
+      throw matchesError
+    }
+
+    if (matches && matches.length > 0) {
+      const userIds = Array.from(new Set(matches.map(match => match.user_id as string)))
+      const [recipients, mutedTypes] = await Promise.all([
+        loadRecipients(supabase, userIds),
+        loadEmailMutes(supabase, userIds),
+      ])
+
+      for (const userId of userIds) {
+        const userMatches = matches.filter(match => match.user_id === userId)
+        const matchIds = userMatches.map(match => match.id as string)
+        const recipient = recipients.get(userId)
+
+        // Vacancies closed since matching aren't worth an email
+        const openMatches: SavedSearchMatch[] = userMatches
+          .map(match => {
+            // deno-lint-ignore no-explicit-any
+            const vacancy = match.vacancy as any
+            // deno-lint-ignore no-explicit-any
+            const savedSearch = match.saved_search as any
+            if (!vacancy || vacancy.status !== 'open') return null
+            return {
+              search_name: savedSearch?.name ?? 'Saved search',
+              vacancy_id: vacancy.id,
+              vacancy_title: vacancy.title,
+              location: `${vacancy.location_city}, ${vacancy.location_country}`,
+            }
+          })
+          .filter((match): match is SavedSearchMatch => match !== null)
+
+        if (recipient?.email && openMatches.length > 0 && !mutedTypes.get(userId)?.has('saved_search_match')) {
+          try {
+            await send(recipient, renderSavedSearchDigest(appUrl, openMatches))
+            summary.savedSearchDigests += 1
+          } catch (sendError) {
+            // Left pending; retried on the next run
+            console.error(`[EMAIL] Failed to send saved search digest to ${userId}:`, sendError)
+            summary.failed += 1
+            continue
+          }
+        }
+
+        const { error: updateError } = await supabase
+          .from('saved_search_matches')
+          .update({ emailed_at: new Date().toISOString() })
+          .in('id', matchIds)
+
+        if (updateError) {
+          console.error('[EMAIL] Error marking saved search matches emailed:', updateError)
+        }
+      }
+    }
+
+    console.log('[EMAIL] Summary:', summary)
+
+    return new Response(JSON.stringify({ success: true, ...summary }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200,
+    })
+  } catch (error) {
+    console.error('[EMAIL] Error:', error)
+
+    return new Response(JSON.stringify({ success: false, error: errorMessage(error), ...summary }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 500,
+    })
+  } finally {
+    await mailer.close().catch(() => {})
+  }
+})
+
+async function loadRecipients(supabase: SupabaseClient, userIds: string[]) {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, email, full_name')
+    .in('id', userIds)
+
+  if (error) {
+    throw error
+  }
+
+  return new Map((data ?? []).map((profile: Recipient) => [profile.id, profile]))
+}
+
+async function loadEmailMutes(supabase: SupabaseClient, userIds: string[]) {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('user_id, email_muted_types')
+    .in('user_id', userIds)
+
+  if (error) {
+    throw error
+  }
+
+  return new Map(
+    (data ?? []).map((preference: { user_id: string; email_muted_types: string[] }) => [
+      preference.user_id,
+      new Set(preference.email_muted_types),
+    ])
+  )
+}
+
+// Keys are `${user_id}:${message_id}`; group messages are read per member
+async function loadUnreadMessages(supabase: SupabaseClient, messageRows: OutboxRow[]) {
+  if (messageRows.length === 0) {
+    return new Set<string>()
+  }
+
+  const { data, error } = await supabase.rpc('get_unread_message_recipients', {
+    p_user_ids: messageRows.map(row => row.user_id),
+    p_message_ids: messageRows.map(row => String(row.payload.message_id)),
+  })
+
+  if (error) {
+    throw error
+  }
+
+  return new Set(
+    (data ?? []).map((pair: { user_id: string; message_id: string }) => `${pair.user_id}:${pair.message_id}`)
+  )
+}
+
+async function markRows(supabase: SupabaseClient, ids: string[], status: 'sent' | 'skipped') {
+  const { error } = await supabase
+    .from('email_outbox')
+    .update({
+      status,
+      locked_at: null,
+      sent_at: status === 'sent' ? new Date().toISOString() : null,
+    })
+    .in('id', ids)
+
+  if (error) {
+    console.error(`[EMAIL] Error marking outbox rows ${status}:`, error)
+  }
+}
+
+// Retries with a linear backoff until MAX_ATTEMPTS, then gives up
+async function markFailed(supabase: SupabaseClient, rows: OutboxRow[], lastError: string) {
+  for (const row of rows) {
+    const giveUp = row.attempts >= MAX_ATTEMPTS
+    const { error } = await supabase
+      .from('email_outbox')
+      .update({
+        status: giveUp ? 'failed' : 'pending',
+        locked_at: null,
+        last_error: lastError,
+        send_after: new Date(Date.now() + row.attempts * 5 * 60 * 1000).toISOString(),
+      })
+      .eq('id', row.id)
+
+    if (error) {
+      console.error('[EMAIL] Error marking outbox row failed:', error)
+    }
+  }
+}
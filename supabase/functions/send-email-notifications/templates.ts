@@ -0,0 +1,176 @@
+// Email templates for send-email-notifications.
+// Every template returns a subject plus HTML and plain-text bodies.
+
+export interface RenderedEmail {
+  subject: string
+  html: string
+  text: string
+}
+
+export interface ApplicationPayload {
+  application_id: string
+  vacancy_id: string
+  vacancy_title: string
+  club_name: string | null
+  applicant_name: string | null
+  status: string
+  status_label: string
+}
+
+export interface MessagePayload {
+  message_id: string
+  conversation_id: string
+  /** Set for group chats */
+  conversation_title?: string | null
+  sender_id: string
+  sender_name: string | null
+  preview: string
+  sent_at: string
+}
+
+export interface SavedSearchMatch {
+  search_name: string
+  vacancy_id: string
+  vacancy_title: string
+  location: string
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+
+const layout = (appUrl: string, heading: string, bodyHtml: string, action: { label: string; url: string }) => `<!doctype html>
+<html>
+  <body style="margin:0;padding:24px;background:#f9fafb;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;color:#111827;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;margin:0 auto;background:#ffffff;border:1px solid #e5e7eb;border-radius:16px;">
+      <tr>
+        <td style="padding:32px;">
+          <p style="margin:0 0 24px;font-size:20px;font-weight:700;">PLAYR</p>
+          <h1 style="margin:0 0 16px;font-size:20px;">${escapeHtml(heading)}</h1>
+          ${bodyHtml}
+          <p style="margin:24px 0 0;">
+            <a href="${action.url}" style="display:inline-block;padding:12px 20px;border-radius:8px;background:#6366f1;color:#ffffff;text-decoration:none;font-weight:600;">${escapeHtml(action.label)}</a>
+          </p>
+        </td>
+      </tr>
+    </table>
+    <p style="max-width:560px;margin:16px auto 0;font-size:12px;color:#6b7280;text-align:center;">
+      You can choose which emails you get in <a href="${appUrl}/settings" style="color:#6366f1;">Settings</a>.
+    </p>
+  </body>
+</html>`
+
+const footerText = (appUrl: string) => `\n\nManage email preferences: ${appUrl}/settings`
+
+const orFallback = (value: string | null | undefined, fallback: string) => value?.trim() || fallback
+
+const senderLabel = (message: MessagePayload) => {
+  const sender = orFallback(message.sender_name, 'PLAYR member')
+  return message.conversation_title ? `${sender} in ${message.conversation_title}` : sender
+}
+
+export function renderApplicationReceived(appUrl: string, payload: ApplicationPayload): RenderedEmail {
+  const applicant = orFallback(payload.applicant_name, 'A new applicant')
+  const url = `${appUrl}/dashboard/club/vacancies/${payload.vacancy_id}/applicants`
+
+  return {
+    subject: `New application for ${payload.vacancy_title}`,
+    html: layout(
+      appUrl,
+      `New application for ${payload.vacancy_title}`,
+      `<p style="margin:0;line-height:1.5;">${escapeHtml(applicant)} applied to your vacancy.</p>`,
+      { label: 'Review applicants', url }
+    ),
+    text: `${applicant} applied to your vacancy "${payload.vacancy_title}".\n\nReview applicants: ${url}${footerText(appUrl)}`,
+  }
+}
+
+export function renderApplicationStatusChanged(appUrl: string, payload: ApplicationPayload): RenderedEmail {
+  // Withdrawals go to the club, every other change to the applicant
+  if (payload.status === 'withdrawn') {
+    const applicant = orFallback(payload.applicant_name, 'An applicant')
+    const url = `${appUrl}/dashboard/club/vacancies/${payload.vacancy_id}/applicants`
+
+    return {
+      subject: `Application withdrawn for ${payload.vacancy_title}`,
+      html: layout(
+        appUrl,
+        `Application withdrawn for ${payload.vacancy_title}`,
+        `<p style="margin:0;line-height:1.5;">${escapeHtml(applicant)} withdrew their application.</p>`,
+        { label: 'View applicants', url }
+      ),
+      text: `${applicant} withdrew their application for "${payload.vacancy_title}".\n\nView applicants: ${url}${footerText(appUrl)}`,
+    }
+  }
+
+  const club = orFallback(payload.club_name, 'The club')
+  const url = `${appUrl}/applications`
+
+  return {
+    subject: `Application update: ${payload.vacancy_title}`,
+    html: layout(
+      appUrl,
+      `Your application moved to ${payload.status_label}`,
+      `<p style="margin:0;line-height:1.5;">${escapeHtml(club)} updated your application for <strong>${escapeHtml(payload.vacancy_title)}</strong>.</p>`,
+      { label: 'View my applications', url }
+    ),
+    text: `${club} moved your application for "${payload.vacancy_title}" to ${payload.status_label}.\n\nView my applications: ${url}${footerText(appUrl)}`,
+  }
+}
+
+export function renderMessageDigest(appUrl: string, messages: MessagePayload[]): RenderedEmail {
+  const senders = Array.from(new Set(messages.map(message => orFallback(message.sender_name, 'PLAYR member'))))
+  const conversationCount = new Set(messages.map(message => message.conversation_id)).size
+  const subject = messages.length === 1
+    ? `New message from ${senders[0]}`
+    : `${messages.length} new messages from ${senders.slice(0, 2).join(', ')}${senders.length > 2 ? ` and ${senders.length - 2} more` : ''}`
+  const url = conversationCount === 1
+    ? `${appUrl}/messages?conversation=${messages[0].conversation_id}`
+    : `${appUrl}/messages`
+
+  const itemsHtml = messages
+    .map(message => `
+          <div style="margin:0 0 12px;padding:12px 16px;border-radius:8px;background:#f3f4f6;">
+            <p style="margin:0 0 4px;font-size:13px;font-weight:600;">${escapeHtml(senderLabel(message))}</p>
+            <p style="margin:0;font-size:14px;line-height:1.5;color:#374151;">${escapeHtml(message.preview)}</p>
+          </div>`)
+    .join('')
+
+  const itemsText = messages
+    .map(message => `${senderLabel(message)}: ${message.preview}`)
+    .join('\n')
+
+  return {
+    subject,
+    html: layout(appUrl, 'You have unread messages', itemsHtml, { label: 'Open messages', url }),
+    text: `You have unread messages:\n\n${itemsText}\n\nOpen messages: ${url}${footerText(appUrl)}`,
+  }
+}
+
+export function renderSavedSearchDigest(appUrl: string, matches: SavedSearchMatch[]): RenderedEmail {
+  const url = `${appUrl}/opportunities`
+
+  const itemsHtml = matches
+    .map(match => `
+          <div style="margin:0 0 12px;padding:12px 16px;border-radius:8px;background:#f3f4f6;">
+            <a href="${appUrl}/opportunities/${match.vacancy_id}" style="font-size:14px;font-weight:600;color:#111827;">${escapeHtml(match.vacancy_title)}</a>
+            <p style="margin:4px 0 0;font-size:13px;color:#6b7280;">${escapeHtml(match.location)} · matched "${escapeHtml(match.search_name)}"</p>
+          </div>`)
+    .join('')
+
+  const itemsText = matches
+    .map(match => `${match.vacancy_title} (${match.location}) - ${appUrl}/opportunities/${match.vacancy_id}`)
+    .join('\n')
+
+  return {
+    subject: matches.length === 1
+      ? `New opportunity: ${matches[0].vacancy_title}`
+      : `${matches.length} new opportunities match your saved searches`,
+    html: layout(appUrl, 'New opportunities for you', itemsHtml, { label: 'Browse opportunities', url }),
+    text: `New opportunities match your saved searches:\n\n${itemsText}${footerText(appUrl)}`,
+  }
+}
@@ -0,0 +1,52 @@
+-- Application Pipeline: stage timestamps + realtime delivery for club staff
+-- Enables the kanban-style applicant board on ApplicantsList
+
+-- Track when an application last moved between pipeline stages
+ALTER TABLE public.vacancy_applications
+ADD COLUMN IF NOT EXISTS status_changed_at timestamptz NOT NULL DEFAULT now();
+
+-- Backfill existing rows so the board shows a sensible "in stage since" date
+UPDATE public.vacancy_applications
+SET status_changed_at = COALESCE(updated_at, applied_at)
+WHERE status_changed_at IS DISTINCT FROM COALESCE(updated_at, applied_at);
+
+-- Function to stamp status_changed_at whenever the status column changes
+CREATE OR REPLACE FUNCTION public.set_application_status_changed_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.status_changed_at = now();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_application_status_changed_at ON public.vacancy_applications;
+
+CREATE TRIGGER set_application_status_changed_at
+  BEFORE UPDATE OF status ON public.vacancy_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_application_status_changed_at();
+
+-- Supports: WHERE vacancy_id = X ORDER BY status, status_changed_at (board columns)
+CREATE INDEX IF NOT EXISTS idx_vacancy_apps_vacancy_stage
+ON public.vacancy_applications(vacancy_id, status, status_changed_at DESC);
+
+-- Broadcast application changes so every staff member viewing a vacancy sees moves live
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = 'vacancy_applications'
+    ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.vacancy_applications;
+  END IF;
+END $$;
+
+COMMENT ON COLUMN public.vacancy_applications.status_changed_at IS
+  'Timestamp of the most recent pipeline stage change (set automatically on status update)';
+COMMENT ON INDEX idx_vacancy_apps_vacancy_stage IS
+  'Optimizes the applicant pipeline board grouped by stage';
@@ -0,0 +1,200 @@
+-- Application Status History: audit trail + enforced state machine
+-- Records who moved an application between stages, when, and from what,
+-- and rejects transitions that make no sense (e.g. withdrawn -> interview)
+
+-- ============================================================================
+-- HISTORY TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.application_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid NOT NULL REFERENCES public.vacancy_applications(id) ON DELETE CASCADE,
+  from_status application_status,
+  to_status application_status NOT NULL,
+  changed_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_application_status_history_application
+ON public.application_status_history(application_id, changed_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_application_status_history_changed_by
+ON public.application_status_history(changed_by);
+
+-- ============================================================================
+-- STATE MACHINE
+-- ============================================================================
+
+-- Allowed transitions:
+--   pending     -> reviewed, shortlisted, interview, accepted, rejected, withdrawn
+--   reviewed    -> shortlisted, interview, accepted, rejected, withdrawn
+--   shortlisted -> reviewed, interview, accepted, rejected, withdrawn
+--   interview   -> reviewed, shortlisted, accepted, rejected, withdrawn
+--   accepted    -> interview, rejected, withdrawn
+--   rejected    -> reviewed, shortlisted, interview
+--   withdrawn   -> (final)
+-- Only the applicant can withdraw, so clubs never move applications into or
+-- out of withdrawn.
+CREATE OR REPLACE FUNCTION public.is_valid_application_transition(
+  p_from application_status,
+  p_to application_status
+)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_from
+    WHEN 'pending' THEN p_to IN ('reviewed', 'shortlisted', 'interview', 'accepted', 'rejected', 'withdrawn')
+    WHEN 'reviewed' THEN p_to IN ('shortlisted', 'interview', 'accepted', 'rejected', 'withdrawn')
+    WHEN 'shortlisted' THEN p_to IN ('reviewed', 'interview', 'accepted', 'rejected', 'withdrawn')
+    WHEN 'interview' THEN p_to IN ('reviewed', 'shortlisted', 'accepted', 'rejected', 'withdrawn')
+    WHEN 'accepted' THEN p_to IN ('interview', 'rejected', 'withdrawn')
+    WHEN 'rejected' THEN p_to IN ('reviewed', 'shortlisted', 'interview')
+    ELSE false
+  END;
+$$;
+
+-- Reject invalid transitions before the row is written
+-- New applications must always enter the pipeline as 'pending'
+CREATE OR REPLACE FUNCTION public.enforce_application_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending' THEN
+      RAISE EXCEPTION 'New applications must start as pending (got %)', NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND NOT public.is_valid_application_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Invalid application status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND 'withdrawn' IN (OLD.status, NEW.status)
+    AND auth.uid() IS DISTINCT FROM OLD.player_id THEN
+    RAISE EXCEPTION 'Only the applicant can withdraw an application'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_application_initial_status ON public.vacancy_applications;
+DROP TRIGGER IF EXISTS enforce_application_status_transition ON public.vacancy_applications;
+
+CREATE TRIGGER enforce_application_initial_status
+  BEFORE INSERT ON public.vacancy_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_application_status_transition();
+
+CREATE TRIGGER enforce_application_status_transition
+  BEFORE UPDATE OF status ON public.vacancy_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_application_status_transition();
+
+-- ============================================================================
+-- AUDIT TRIGGERS
+-- ============================================================================
+
+-- SECURITY DEFINER so the trail is written even though users cannot insert directly
+CREATE OR REPLACE FUNCTION public.log_application_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO application_status_history (application_id, from_status, to_status, changed_by, changed_at)
+    VALUES (NEW.id, NULL, NEW.status, auth.uid(), NEW.applied_at);
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO application_status_history (application_id, from_status, to_status, changed_by, changed_at)
+    VALUES (NEW.id, OLD.status, NEW.status, auth.uid(), NEW.status_changed_at);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_application_status_insert ON public.vacancy_applications;
+DROP TRIGGER IF EXISTS log_application_status_update ON public.vacancy_applications;
+
+CREATE TRIGGER log_application_status_insert
+  AFTER INSERT ON public.vacancy_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_application_status_change();
+
+CREATE TRIGGER log_application_status_update
+  AFTER UPDATE OF status ON public.vacancy_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_application_status_change();
+
+-- ============================================================================
+-- BACKFILL
+-- ============================================================================
+
+-- Seed the trail for applications created before this migration
+INSERT INTO public.application_status_history (application_id, from_status, to_status, changed_by, changed_at)
+SELECT va.id, NULL, 'pending', va.player_id, va.applied_at
+FROM public.vacancy_applications va
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.application_status_history h WHERE h.application_id = va.id
+);
+
+INSERT INTO public.application_status_history (application_id, from_status, to_status, changed_by, changed_at)
+SELECT va.id, 'pending', va.status, NULL, va.status_changed_at
+FROM public.vacancy_applications va
+WHERE va.status <> 'pending'
+  AND NOT EXISTS (
+    SELECT 1 FROM public.application_status_history h
+    WHERE h.application_id = va.id AND h.from_status IS NOT NULL
+  );
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.application_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Clubs can read the history of applications to their vacancies
+CREATE POLICY "Clubs can view status history for their vacancies"
+  ON public.application_status_history
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.vacancy_applications va
+      JOIN public.vacancies v ON v.id = va.vacancy_id
+      WHERE va.id = application_status_history.application_id
+        AND v.club_id = auth.uid()
+    )
+  );
+
+-- Applicants can read the history of their own applications
+CREATE POLICY "Applicants can view their own status history"
+  ON public.application_status_history
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.vacancy_applications va
+      WHERE va.id = application_status_history.application_id
+        AND va.player_id = auth.uid()
+    )
+  );
+
+-- No INSERT/UPDATE/DELETE policies: the trail is append-only and written by triggers
+
+GRANT SELECT ON public.application_status_history TO authenticated;
+
+ANALYZE public.application_status_history;
+
+COMMENT ON TABLE public.application_status_history IS
+  'Append-only audit trail of vacancy application status changes';
+COMMENT ON COLUMN public.application_status_history.changed_by IS
+  'Profile that made the change (NULL for system or backfilled entries)';
+COMMENT ON FUNCTION public.is_valid_application_transition IS
+  'Application pipeline state machine. Withdrawn is final and only set by the applicant; rejected/accepted can be reopened by the club.';
@@ -0,0 +1,45 @@
+-- My Applications: keep applied vacancies visible to their applicants
+-- "Public can view open vacancies" hides a vacancy as soon as the club closes
+-- it, which left applicants with an application pointing at nothing
+
+-- ============================================================================
+-- HELPER FUNCTION
+-- ============================================================================
+
+-- SECURITY DEFINER so the vacancies policy can look at vacancy_applications
+-- without re-entering its RLS (whose club policy reads vacancies again).
+-- Only ever answers for the caller, so it can't be used over RPC to probe
+-- whether someone else applied.
+CREATE OR REPLACE FUNCTION public.user_applied_to_vacancy(p_vacancy_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM vacancy_applications
+    WHERE vacancy_id = p_vacancy_id
+      AND player_id = auth.uid()
+  );
+$$;
+
+-- Applicant tracker lists applications newest first per player
+CREATE INDEX IF NOT EXISTS idx_vap_player_applied_at
+ON public.vacancy_applications(player_id, applied_at DESC);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Applicants can view vacancies they applied to" ON public.vacancies;
+CREATE POLICY "Applicants can view vacancies they applied to"
+  ON public.vacancies
+  FOR SELECT
+  USING (public.user_applied_to_vacancy(id));
+
+COMMENT ON FUNCTION public.user_applied_to_vacancy IS
+  'Checks whether the signed-in user has applied to a vacancy. Used by RLS policies.';
+COMMENT ON POLICY "Applicants can view vacancies they applied to" ON public.vacancies IS
+  'Lets players and coaches keep tracking applications after a vacancy is closed';
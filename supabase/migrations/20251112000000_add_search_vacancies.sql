@@ -0,0 +1,131 @@
+-- Opportunities search: server-side filtering, sorting and keyset pagination
+-- Replaces fetching the 100 most recent open vacancies and filtering in the
+-- browser, which hid everything older than the 100th vacancy
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+-- Default "newest" ordering and the tie-breaker used by every sort
+CREATE INDEX IF NOT EXISTS idx_vacancies_open_created_id
+ON public.vacancies(created_at DESC, id DESC)
+WHERE status = 'open';
+
+CREATE INDEX IF NOT EXISTS idx_vacancies_open_deadline
+ON public.vacancies(application_deadline)
+WHERE status = 'open';
+
+CREATE INDEX IF NOT EXISTS idx_vacancies_open_start_date
+ON public.vacancies(start_date)
+WHERE status = 'open';
+
+CREATE INDEX IF NOT EXISTS idx_vacancies_benefits
+ON public.vacancies USING GIN (benefits);
+
+-- ============================================================================
+-- SEARCH FUNCTION
+-- ============================================================================
+
+-- Sort keys (ties are always broken by created_at DESC, id DESC):
+--   newest     -> created_at DESC
+--   deadline   -> application_deadline ASC, vacancies without a deadline last
+--   start_date -> start_date ASC, immediate starts (no date) first
+--   priority   -> high, medium, low
+--
+-- Keyset pagination: pass the sort columns of the last row received as the
+-- p_cursor_* arguments (p_cursor_id is required, the others may be NULL when
+-- the row had NULL in that column) to fetch the next page.
+--
+-- SECURITY INVOKER so the regular vacancies RLS policies still apply.
+CREATE OR REPLACE FUNCTION public.search_vacancies(
+  p_opportunity_type opportunity_type DEFAULT NULL,
+  p_positions text[] DEFAULT NULL,
+  p_gender vacancy_gender DEFAULT NULL,
+  p_location text DEFAULT NULL,
+  p_start_date text DEFAULT NULL,
+  p_benefits text[] DEFAULT NULL,
+  p_priority vacancy_priority DEFAULT NULL,
+  p_sort text DEFAULT 'newest',
+  p_cursor_id uuid DEFAULT NULL,
+  p_cursor_created_at timestamptz DEFAULT NULL,
+  p_cursor_deadline date DEFAULT NULL,
+  p_cursor_start_date date DEFAULT NULL,
+  p_cursor_priority vacancy_priority DEFAULT NULL,
+  p_limit integer DEFAULT 20
+)
+RETURNS SETOF public.vacancies
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT v.*
+  FROM vacancies v
+  CROSS JOIN LATERAL (
+    SELECT
+      COALESCE(v.created_at, '-infinity'::timestamptz) AS created_key,
+      COALESCE(v.application_deadline, 'infinity'::date) AS deadline_key,
+      COALESCE(v.start_date, '-infinity'::date) AS start_key,
+      CASE v.priority WHEN 'high' THEN 3 WHEN 'medium' THEN 2 WHEN 'low' THEN 1 ELSE 0 END AS priority_key
+  ) k
+  CROSS JOIN (
+    SELECT
+      COALESCE(p_cursor_created_at, '-infinity'::timestamptz) AS created_key,
+      COALESCE(p_cursor_deadline, 'infinity'::date) AS deadline_key,
+      COALESCE(p_cursor_start_date, '-infinity'::date) AS start_key,
+      CASE p_cursor_priority WHEN 'high' THEN 3 WHEN 'medium' THEN 2 WHEN 'low' THEN 1 ELSE 0 END AS priority_key
+  ) c
+  WHERE v.status = 'open'
+    AND (p_opportunity_type IS NULL OR v.opportunity_type = p_opportunity_type)
+    AND (
+      p_positions IS NULL
+      OR cardinality(p_positions) = 0
+      OR v.position::text = ANY(p_positions)
+    )
+    AND (p_gender IS NULL OR v.gender = p_gender)
+    AND (
+      p_location IS NULL
+      OR btrim(p_location) = ''
+      OR v.location_city ILIKE '%' || btrim(p_location) || '%'
+      OR v.location_country ILIKE '%' || btrim(p_location) || '%'
+    )
+    AND (
+      p_start_date IS NULL
+      OR p_start_date NOT IN ('immediate', 'specific')
+      OR (p_start_date = 'immediate' AND v.start_date IS NULL)
+      OR (p_start_date = 'specific' AND v.start_date IS NOT NULL)
+    )
+    AND (
+      p_benefits IS NULL
+      OR cardinality(p_benefits) = 0
+      OR v.benefits && p_benefits
+    )
+    AND (p_priority IS NULL OR v.priority = p_priority)
+    AND (
+      p_cursor_id IS NULL
+      OR CASE p_sort
+        WHEN 'deadline' THEN
+          k.deadline_key > c.deadline_key
+          OR (k.deadline_key = c.deadline_key AND (k.created_key, v.id) < (c.created_key, p_cursor_id))
+        WHEN 'start_date' THEN
+          k.start_key > c.start_key
+          OR (k.start_key = c.start_key AND (k.created_key, v.id) < (c.created_key, p_cursor_id))
+        WHEN 'priority' THEN
+          k.priority_key < c.priority_key
+          OR (k.priority_key = c.priority_key AND (k.created_key, v.id) < (c.created_key, p_cursor_id))
+        ELSE
+          (k.created_key, v.id) < (c.created_key, p_cursor_id)
+      END
+    )
+  ORDER BY
+    CASE WHEN p_sort = 'deadline' THEN k.deadline_key END ASC,
+    CASE WHEN p_sort = 'start_date' THEN k.start_key END ASC,
+    CASE WHEN p_sort = 'priority' THEN k.priority_key END DESC,
+    k.created_key DESC,
+    v.id DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_vacancies TO anon, authenticated;
+
+COMMENT ON FUNCTION public.search_vacancies IS
+  'Filtered, sorted, keyset-paginated search over open vacancies for the Opportunities page';
@@ -0,0 +1,266 @@
+-- Saved opportunity searches with alerts
+-- Users save a FiltersState combination from the Opportunities page under a
+-- name. When a club publishes a vacancy matching it, the saver gets an in-app
+-- notification and, if they opted in, the match is queued for an email digest.
+
+-- ============================================================================
+-- NOTIFICATIONS
+-- ============================================================================
+
+CREATE TYPE notification_type AS ENUM ('saved_search_match');
+
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  type notification_type NOT NULL,
+  title text NOT NULL,
+  body text,
+  link text,
+  data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  read_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created
+ON public.notifications(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread
+ON public.notifications(user_id)
+WHERE read_at IS NULL;
+
+-- ============================================================================
+-- SAVED SEARCHES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.saved_searches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  -- Same shape as FiltersState on the Opportunities page
+  filters jsonb NOT NULL DEFAULT '{}'::jsonb,
+  email_digest boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT saved_searches_name_length CHECK (char_length(btrim(name)) BETWEEN 1 AND 80),
+  CONSTRAINT saved_searches_unique_name UNIQUE (user_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user
+ON public.saved_searches(user_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS update_saved_searches_updated_at ON public.saved_searches;
+
+CREATE TRIGGER update_saved_searches_updated_at
+  BEFORE UPDATE ON public.saved_searches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One row per (saved search, vacancy) match. Doubles as the email digest
+-- queue: rows with email_queued = true and emailed_at IS NULL are pending.
+CREATE TABLE IF NOT EXISTS public.saved_search_matches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  saved_search_id uuid NOT NULL REFERENCES public.saved_searches(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  vacancy_id uuid NOT NULL REFERENCES public.vacancies(id) ON DELETE CASCADE,
+  email_queued boolean NOT NULL DEFAULT false,
+  emailed_at timestamptz,
+  matched_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT saved_search_matches_unique UNIQUE (saved_search_id, vacancy_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_search_matches_pending_email
+ON public.saved_search_matches(user_id, matched_at)
+WHERE email_queued AND emailed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_saved_search_matches_vacancy
+ON public.saved_search_matches(vacancy_id);
+
+-- ============================================================================
+-- MATCHING
+-- ============================================================================
+
+-- Mirrors the filter half of search_vacancies so an alert fires for exactly
+-- the vacancies the saved search would show on the Opportunities page
+CREATE OR REPLACE FUNCTION public.vacancy_matches_filters(
+  p_vacancy public.vacancies,
+  p_filters jsonb
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    (
+      COALESCE(p_filters->>'opportunityType', 'all') = 'all'
+      OR p_vacancy.opportunity_type::text = p_filters->>'opportunityType'
+    )
+    AND (
+      jsonb_array_length(COALESCE(p_filters->'position', '[]'::jsonb)) = 0
+      OR p_vacancy.position::text IN (SELECT jsonb_array_elements_text(p_filters->'position'))
+    )
+    AND (
+      COALESCE(p_filters->>'gender', 'all') = 'all'
+      OR p_vacancy.gender::text = p_filters->>'gender'
+    )
+    AND (
+      btrim(COALESCE(p_filters->>'location', '')) = ''
+      OR p_vacancy.location_city ILIKE '%' || btrim(p_filters->>'location') || '%'
+      OR p_vacancy.location_country ILIKE '%' || btrim(p_filters->>'location') || '%'
+    )
+    AND (
+      COALESCE(p_filters->>'startDate', 'all') NOT IN ('immediate', 'specific')
+      OR (p_filters->>'startDate' = 'immediate' AND p_vacancy.start_date IS NULL)
+      OR (p_filters->>'startDate' = 'specific' AND p_vacancy.start_date IS NOT NULL)
+    )
+    AND (
+      jsonb_array_length(COALESCE(p_filters->'benefits', '[]'::jsonb)) = 0
+      OR COALESCE(p_vacancy.benefits, '{}') && ARRAY(SELECT jsonb_array_elements_text(p_filters->'benefits'))
+    )
+    AND (
+      COALESCE(p_filters->>'priority', 'all') = 'all'
+      OR p_vacancy.priority::text = p_filters->>'priority'
+    );
+$$;
+
+-- Runs when a vacancy becomes open (published, or reopened after closing).
+-- SECURITY DEFINER because it reads every user's saved searches.
+CREATE OR REPLACE FUNCTION public.notify_saved_search_matches()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM 'open' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status = 'open' THEN
+    RETURN NEW;
+  END IF;
+
+  -- The unique constraint keeps a reopened vacancy from alerting twice
+  WITH new_matches AS (
+    INSERT INTO saved_search_matches (saved_search_id, user_id, vacancy_id, email_queued)
+    SELECT s.id, s.user_id, NEW.id, s.email_digest
+    FROM saved_searches s
+    WHERE s.user_id <> NEW.club_id
+      AND vacancy_matches_filters(NEW, s.filters)
+    ON CONFLICT (saved_search_id, vacancy_id) DO NOTHING
+    RETURNING saved_search_id, user_id
+  )
+  -- One notification per user even if several of their searches match
+  INSERT INTO notifications (user_id, type, title, body, link, data)
+  SELECT DISTINCT ON (m.user_id)
+    m.user_id,
+    'saved_search_match',
+    format('New opportunity for "%s"', s.name),
+    format('%s · %s, %s', NEW.title, NEW.location_city, NEW.location_country),
+    '/opportunities/' || NEW.id,
+    jsonb_build_object('vacancy_id', NEW.id, 'saved_search_id', m.saved_search_id)
+  FROM new_matches m
+  JOIN saved_searches s ON s.id = m.saved_search_id
+  ORDER BY m.user_id, s.created_at;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_saved_search_matches_insert ON public.vacancies;
+DROP TRIGGER IF EXISTS notify_saved_search_matches_update ON public.vacancies;
+
+CREATE TRIGGER notify_saved_search_matches_insert
+  AFTER INSERT ON public.vacancies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_saved_search_matches();
+
+CREATE TRIGGER notify_saved_search_matches_update
+  AFTER UPDATE OF status ON public.vacancies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_saved_search_matches();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.saved_searches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.saved_search_matches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications"
+  ON public.notifications
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+-- Only read_at is writable (see column GRANT below)
+CREATE POLICY "Users can mark their own notifications read"
+  ON public.notifications
+  FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own notifications"
+  ON public.notifications
+  FOR DELETE
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can view their own saved searches"
+  ON public.saved_searches
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their own saved searches"
+  ON public.saved_searches
+  FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own saved searches"
+  ON public.saved_searches
+  FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own saved searches"
+  ON public.saved_searches
+  FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Matches are written by the trigger and drained by the email job
+CREATE POLICY "Users can view their own saved search matches"
+  ON public.saved_search_matches
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+GRANT SELECT, DELETE ON public.notifications TO authenticated;
+-- Drop the default table-wide UPDATE so the column grant is all that's left
+REVOKE UPDATE ON public.notifications FROM authenticated, anon;
+GRANT UPDATE (read_at) ON public.notifications TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.saved_searches TO authenticated;
+GRANT SELECT ON public.saved_search_matches TO authenticated;
+
+-- ============================================================================
+-- REALTIME
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = 'notifications'
+    ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+  END IF;
+END $$;
+
+COMMENT ON TABLE public.notifications IS
+  'In-app notifications, written by database triggers';
+COMMENT ON TABLE public.saved_searches IS
+  'Named Opportunities page filter combinations that alert their owner on new matching vacancies';
+COMMENT ON TABLE public.saved_search_matches IS
+  'Vacancies matched by saved searches; pending email digest rows have email_queued and no emailed_at';
+COMMENT ON FUNCTION public.vacancy_matches_filters IS
+  'Whether a vacancy satisfies an Opportunities page FiltersState (jsonb). Mirrors search_vacancies.';
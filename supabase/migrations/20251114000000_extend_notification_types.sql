@@ -0,0 +1,9 @@
+-- Notification center: additional notification types
+-- Kept in its own migration because new enum values cannot be used in the
+-- same transaction that adds them
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'application_received';
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'application_status_changed';
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'vacancy_closing_soon';
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'new_message';
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'profile_viewed';
@@ -0,0 +1,506 @@
+-- Notification center
+-- Triggers that fill public.notifications for application received, application
+-- status changed, vacancy closing soon, new message and profile viewed, plus
+-- per-type mute preferences honoured by every producer
+
+-- ============================================================================
+-- PREFERENCES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+  user_id uuid PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  muted_types notification_type[] NOT NULL DEFAULT '{}',
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS update_notification_preferences_updated_at ON public.notification_preferences;
+
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON public.notification_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.is_notification_muted(
+  p_user_id uuid,
+  p_type notification_type
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM notification_preferences
+    WHERE user_id = p_user_id
+      AND p_type = ANY(muted_types)
+  );
+$$;
+
+-- ============================================================================
+-- PRODUCER HELPER
+-- ============================================================================
+
+-- Single entry point for triggers and jobs. Returns NULL when the recipient
+-- has muted the type.
+CREATE OR REPLACE FUNCTION public.create_notification(
+  p_user_id uuid,
+  p_type notification_type,
+  p_title text,
+  p_body text DEFAULT NULL,
+  p_link text DEFAULT NULL,
+  p_data jsonb DEFAULT '{}'::jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  IF p_user_id IS NULL OR is_notification_muted(p_user_id, p_type) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, body, link, data)
+  VALUES (p_user_id, p_type, p_title, p_body, p_link, COALESCE(p_data, '{}'::jsonb))
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Internal only: clients must not be able to notify arbitrary users
+REVOKE ALL ON FUNCTION public.create_notification FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- SAVED SEARCH MATCHES (honour mutes)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.notify_saved_search_matches()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM 'open' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status = 'open' THEN
+    RETURN NEW;
+  END IF;
+
+  -- The unique constraint keeps a reopened vacancy from alerting twice.
+  -- Matches are recorded even when in-app alerts are muted so the email
+  -- digest still works.
+  WITH new_matches AS (
+    INSERT INTO saved_search_matches (saved_search_id, user_id, vacancy_id, email_queued)
+    SELECT s.id, s.user_id, NEW.id, s.email_digest
+    FROM saved_searches s
+    WHERE s.user_id <> NEW.club_id
+      AND vacancy_matches_filters(NEW, s.filters)
+    ON CONFLICT (saved_search_id, vacancy_id) DO NOTHING
+    RETURNING saved_search_id, user_id
+  )
+  -- One notification per user even if several of their searches match
+  INSERT INTO notifications (user_id, type, title, body, link, data)
+  SELECT DISTINCT ON (m.user_id)
+    m.user_id,
+    'saved_search_match',
+    format('New opportunity for "%s"', s.name),
+    format('%s · %s, %s', NEW.title, NEW.location_city, NEW.location_country),
+    '/opportunities/' || NEW.id,
+    jsonb_build_object('vacancy_id', NEW.id, 'saved_search_id', m.saved_search_id)
+  FROM new_matches m
+  JOIN saved_searches s ON s.id = m.saved_search_id
+  WHERE NOT is_notification_muted(m.user_id, 'saved_search_match')
+  ORDER BY m.user_id, s.created_at;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- APPLICATIONS
+-- ============================================================================
+
+-- Human label for a pipeline stage (matches APPLICATION_STAGE_META on the client)
+CREATE OR REPLACE FUNCTION public.application_status_label(p_status application_status)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_status
+    WHEN 'pending' THEN 'New'
+    ELSE initcap(p_status::text)
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_application_received()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vacancy RECORD;
+  v_applicant_name text;
+BEGIN
+  SELECT id, club_id, title INTO v_vacancy
+  FROM vacancies
+  WHERE id = NEW.vacancy_id;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT full_name INTO v_applicant_name
+  FROM profiles
+  WHERE id = NEW.player_id;
+
+  PERFORM create_notification(
+    v_vacancy.club_id,
+    'application_received',
+    format('New application for %s', v_vacancy.title),
+    format('%s applied', COALESCE(NULLIF(btrim(v_applicant_name), ''), 'A new applicant')),
+    format('/dashboard/club/vacancies/%s/applicants', v_vacancy.id),
+    jsonb_build_object('application_id', NEW.id, 'vacancy_id', v_vacancy.id, 'applicant_id', NEW.player_id)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Applicants hear about every stage change; clubs hear about withdrawals
+CREATE OR REPLACE FUNCTION public.notify_application_status_changed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vacancy RECORD;
+  v_applicant_name text;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id, club_id, title INTO v_vacancy
+  FROM vacancies
+  WHERE id = NEW.vacancy_id;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'withdrawn' THEN
+    SELECT full_name INTO v_applicant_name
+    FROM profiles
+    WHERE id = NEW.player_id;
+
+    PERFORM create_notification(
+      v_vacancy.club_id,
+      'application_status_changed',
+      format('Application withdrawn for %s', v_vacancy.title),
+      format('%s withdrew their application', COALESCE(NULLIF(btrim(v_applicant_name), ''), 'An applicant')),
+      format('/dashboard/club/vacancies/%s/applicants', v_vacancy.id),
+      jsonb_build_object('application_id', NEW.id, 'vacancy_id', v_vacancy.id, 'status', NEW.status)
+    );
+  ELSE
+    PERFORM create_notification(
+      NEW.player_id,
+      'application_status_changed',
+      format('Application update: %s', v_vacancy.title),
+      format('Your application moved to %s', application_status_label(NEW.status)),
+      '/applications',
+      jsonb_build_object('application_id', NEW.id, 'vacancy_id', v_vacancy.id, 'status', NEW.status)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_application_received ON public.vacancy_applications;
+DROP TRIGGER IF EXISTS notify_application_status_changed ON public.vacancy_applications;
+
+CREATE TRIGGER notify_application_received
+  AFTER INSERT ON public.vacancy_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_application_received();
+
+CREATE TRIGGER notify_application_status_changed
+  AFTER UPDATE OF status ON public.vacancy_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_application_status_changed();
+
+-- ============================================================================
+-- MESSAGES
+-- ============================================================================
+
+-- Unread message notifications are collapsed per conversation so a burst of
+-- messages shows up as one entry with the latest preview
+CREATE OR REPLACE FUNCTION public.notify_new_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_recipient_id uuid;
+  v_sender_name text;
+  v_preview text;
+BEGIN
+  SELECT CASE
+    WHEN participant_one_id = NEW.sender_id THEN participant_two_id
+    ELSE participant_one_id
+  END INTO v_recipient_id
+  FROM conversations
+  WHERE id = NEW.conversation_id;
+
+  IF v_recipient_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT full_name INTO v_sender_name
+  FROM profiles
+  WHERE id = NEW.sender_id;
+
+  v_preview := left(NEW.content, 140);
+
+  UPDATE notifications
+  SET body = v_preview,
+      created_at = now(),
+      data = data || jsonb_build_object(
+        'message_id', NEW.id,
+        'message_count', COALESCE((data->>'message_count')::int, 1) + 1
+      )
+  WHERE user_id = v_recipient_id
+    AND type = 'new_message'
+    AND read_at IS NULL
+    AND data->>'conversation_id' = NEW.conversation_id::text;
+
+  IF NOT FOUND THEN
+    PERFORM create_notification(
+      v_recipient_id,
+      'new_message',
+      format('New message from %s', COALESCE(NULLIF(btrim(v_sender_name), ''), 'PLAYR member')),
+      v_preview,
+      format('/messages?conversation=%s', NEW.conversation_id),
+      jsonb_build_object(
+        'conversation_id', NEW.conversation_id,
+        'message_id', NEW.id,
+        'sender_id', NEW.sender_id,
+        'message_count', 1
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_new_message ON public.messages;
+
+CREATE TRIGGER notify_new_message
+  AFTER INSERT ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_new_message();
+
+-- ============================================================================
+-- PROFILE VIEWS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.profile_views (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  viewer_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  viewed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_profile_views_profile
+ON public.profile_views(profile_id, viewed_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_profile_views_viewer_profile
+ON public.profile_views(viewer_id, profile_id, viewed_at DESC);
+
+-- Records a view of someone else's profile and notifies its owner.
+-- Repeat views by the same person within 24 hours are ignored.
+CREATE OR REPLACE FUNCTION public.record_profile_view(p_profile_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_viewer_id uuid := auth.uid();
+  v_viewer RECORD;
+BEGIN
+  IF v_viewer_id IS NULL OR v_viewer_id = p_profile_id THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM profile_views
+    WHERE viewer_id = v_viewer_id
+      AND profile_id = p_profile_id
+      AND viewed_at > now() - interval '24 hours'
+  ) THEN
+    RETURN false;
+  END IF;
+
+  SELECT id, full_name, role INTO v_viewer
+  FROM profiles
+  WHERE id = v_viewer_id;
+
+  IF NOT FOUND OR NOT EXISTS (SELECT 1 FROM profiles WHERE id = p_profile_id) THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO profile_views (profile_id, viewer_id)
+  VALUES (p_profile_id, v_viewer_id);
+
+  PERFORM create_notification(
+    p_profile_id,
+    'profile_viewed',
+    format('%s viewed your profile', COALESCE(NULLIF(btrim(v_viewer.full_name), ''), 'Someone')),
+    NULL,
+    CASE WHEN v_viewer.role = 'club' THEN '/clubs/id/' ELSE '/players/id/' END || v_viewer_id,
+    jsonb_build_object('viewer_id', v_viewer_id, 'viewer_role', v_viewer.role)
+  );
+
+  RETURN true;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_profile_view TO authenticated;
+
+-- ============================================================================
+-- VACANCY CLOSING SOON (scheduled)
+-- ============================================================================
+
+-- Warns the club, and players whose saved searches matched but who have not
+-- applied, that a vacancy's application deadline is near. Safe to run
+-- repeatedly: each recipient is notified once per vacancy.
+CREATE OR REPLACE FUNCTION public.notify_vacancies_closing_soon(p_days integer DEFAULT 3)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vacancy RECORD;
+  v_user_id uuid;
+  v_sent integer := 0;
+BEGIN
+  FOR v_vacancy IN
+    SELECT id, club_id, title, application_deadline
+    FROM vacancies
+    WHERE status = 'open'
+      AND application_deadline BETWEEN current_date AND current_date + p_days
+  LOOP
+    FOR v_user_id IN
+      SELECT v_vacancy.club_id
+      UNION
+      SELECT m.user_id
+      FROM saved_search_matches m
+      WHERE m.vacancy_id = v_vacancy.id
+        AND NOT EXISTS (
+          SELECT 1 FROM vacancy_applications va
+          WHERE va.vacancy_id = v_vacancy.id AND va.player_id = m.user_id
+        )
+    LOOP
+      CONTINUE WHEN EXISTS (
+        SELECT 1 FROM notifications
+        WHERE user_id = v_user_id
+          AND type = 'vacancy_closing_soon'
+          AND data->>'vacancy_id' = v_vacancy.id::text
+      );
+
+      IF create_notification(
+        v_user_id,
+        'vacancy_closing_soon',
+        format('%s closes soon', v_vacancy.title),
+        CASE
+          WHEN v_user_id = v_vacancy.club_id
+            THEN format('Applications close on %s. Extend the deadline if you need more time.', to_char(v_vacancy.application_deadline, 'Mon DD'))
+          ELSE format('Applications close on %s. Apply before it''s too late.', to_char(v_vacancy.application_deadline, 'Mon DD'))
+        END,
+        CASE
+          WHEN v_user_id = v_vacancy.club_id THEN format('/dashboard/club/vacancies/%s/applicants', v_vacancy.id)
+          ELSE '/opportunities/' || v_vacancy.id
+        END,
+        jsonb_build_object('vacancy_id', v_vacancy.id, 'deadline', v_vacancy.application_deadline)
+      ) IS NOT NULL THEN
+        v_sent := v_sent + 1;
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_sent;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.notify_vacancies_closing_soon FROM PUBLIC, anon, authenticated;
+
+-- Run daily. pg_cron is enabled wherever the database ships it (hosted
+-- projects); without it, call SELECT public.notify_vacancies_closing_soon(); by hand
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+    PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'notify-vacancies-closing-soon';
+    PERFORM cron.schedule(
+      'notify-vacancies-closing-soon',
+      '0 8 * * *',
+      'SELECT public.notify_vacancies_closing_soon();'
+    );
+  END IF;
+END $$;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.profile_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notification preferences"
+  ON public.notification_preferences
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their own notification preferences"
+  ON public.notification_preferences
+  FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own notification preferences"
+  ON public.notification_preferences
+  FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Views are recorded through record_profile_view only
+CREATE POLICY "Users can see who viewed their profile"
+  ON public.profile_views
+  FOR SELECT
+  USING (profile_id = auth.uid());
+
+GRANT SELECT, INSERT, UPDATE ON public.notification_preferences TO authenticated;
+GRANT SELECT ON public.profile_views TO authenticated;
+
+COMMENT ON TABLE public.notification_preferences IS
+  'Per-user notification settings; muted_types suppresses in-app notifications of those types';
+COMMENT ON TABLE public.profile_views IS
+  'Profile view log used for profile_viewed notifications (one per viewer per 24h)';
+COMMENT ON FUNCTION public.create_notification IS
+  'Creates an in-app notification unless the recipient muted the type. Internal; used by triggers and jobs.';
+COMMENT ON FUNCTION public.notify_vacancies_closing_soon IS
+  'Daily job: notifies clubs and matched non-applicants about vacancies whose deadline is within p_days';
@@ -0,0 +1,323 @@
+-- Email notification pipeline
+-- Triggers on vacancy_applications and messages queue rows in email_outbox.
+-- The send-email-notifications edge function claims due rows, renders the
+-- templates and sends them over SMTP (inbucket locally). New messages are
+-- held back for the recipient's digest window and sent as one email.
+
+-- ============================================================================
+-- PREFERENCES
+-- ============================================================================
+
+ALTER TABLE public.notification_preferences
+  ADD COLUMN IF NOT EXISTS email_muted_types notification_type[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS message_digest_interval text NOT NULL DEFAULT 'hourly';
+
+ALTER TABLE public.notification_preferences
+  DROP CONSTRAINT IF EXISTS notification_preferences_message_digest_interval_check;
+
+ALTER TABLE public.notification_preferences
+  ADD CONSTRAINT notification_preferences_message_digest_interval_check
+  CHECK (message_digest_interval IN ('hourly', 'daily'));
+
+CREATE OR REPLACE FUNCTION public.is_email_muted(
+  p_user_id uuid,
+  p_type notification_type
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM notification_preferences
+    WHERE user_id = p_user_id
+      AND p_type = ANY(email_muted_types)
+  );
+$$;
+
+-- ============================================================================
+-- OUTBOX
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.email_outbox (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  type notification_type NOT NULL,
+  -- Template variables; shape depends on type (see send-email-notifications/templates.ts)
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  status text NOT NULL DEFAULT 'pending',
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text,
+  send_after timestamptz NOT NULL DEFAULT now(),
+  locked_at timestamptz,
+  sent_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT email_outbox_status_check
+    CHECK (status IN ('pending', 'processing', 'sent', 'skipped', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_pending
+ON public.email_outbox(send_after)
+WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_user_pending
+ON public.email_outbox(user_id, type)
+WHERE status = 'pending';
+
+-- Queue an email unless the recipient opted out of this type. Preferences
+-- are checked again when sending in case they change in between.
+CREATE OR REPLACE FUNCTION public.enqueue_email(
+  p_user_id uuid,
+  p_type notification_type,
+  p_payload jsonb,
+  p_send_after timestamptz DEFAULT now()
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  IF p_user_id IS NULL OR is_email_muted(p_user_id, p_type) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO email_outbox (user_id, type, payload, send_after)
+  VALUES (p_user_id, p_type, COALESCE(p_payload, '{}'::jsonb), COALESCE(p_send_after, now()))
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.enqueue_email FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- PRODUCERS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.enqueue_application_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vacancy RECORD;
+  v_applicant_name text;
+  v_payload jsonb;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT v.id, v.title, v.club_id, c.full_name AS club_name INTO v_vacancy
+  FROM vacancies v
+  LEFT JOIN profiles c ON c.id = v.club_id
+  WHERE v.id = NEW.vacancy_id;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT full_name INTO v_applicant_name
+  FROM profiles
+  WHERE id = NEW.player_id;
+
+  v_payload := jsonb_build_object(
+    'application_id', NEW.id,
+    'vacancy_id', v_vacancy.id,
+    'vacancy_title', v_vacancy.title,
+    'club_name', v_vacancy.club_name,
+    'applicant_name', v_applicant_name,
+    'status', NEW.status,
+    'status_label', application_status_label(NEW.status)
+  );
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM enqueue_email(v_vacancy.club_id, 'application_received', v_payload);
+  ELSIF NEW.status = 'withdrawn' THEN
+    PERFORM enqueue_email(v_vacancy.club_id, 'application_status_changed', v_payload);
+  ELSE
+    PERFORM enqueue_email(NEW.player_id, 'application_status_changed', v_payload);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enqueue_application_email_insert ON public.vacancy_applications;
+DROP TRIGGER IF EXISTS enqueue_application_email_status ON public.vacancy_applications;
+
+CREATE TRIGGER enqueue_application_email_insert
+  AFTER INSERT ON public.vacancy_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enqueue_application_email();
+
+CREATE TRIGGER enqueue_application_email_status
+  AFTER UPDATE OF status ON public.vacancy_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enqueue_application_email();
+
+-- Each message gets its own row, but all pending rows for a recipient share
+-- the send time of the first one so the worker sends them as a single digest
+CREATE OR REPLACE FUNCTION public.enqueue_message_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_recipient_id uuid;
+  v_sender_name text;
+  v_send_after timestamptz;
+BEGIN
+  SELECT CASE
+    WHEN participant_one_id = NEW.sender_id THEN participant_two_id
+    ELSE participant_one_id
+  END INTO v_recipient_id
+  FROM conversations
+  WHERE id = NEW.conversation_id;
+
+  IF v_recipient_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT min(send_after) INTO v_send_after
+  FROM email_outbox
+  WHERE user_id = v_recipient_id
+    AND type = 'new_message'
+    AND status = 'pending';
+
+  IF v_send_after IS NULL THEN
+    SELECT now() + CASE WHEN message_digest_interval = 'daily' THEN interval '24 hours' ELSE interval '1 hour' END
+    INTO v_send_after
+    FROM notification_preferences
+    WHERE user_id = v_recipient_id;
+
+    v_send_after := COALESCE(v_send_after, now() + interval '1 hour');
+  END IF;
+
+  SELECT full_name INTO v_sender_name
+  FROM profiles
+  WHERE id = NEW.sender_id;
+
+  PERFORM enqueue_email(
+    v_recipient_id,
+    'new_message',
+    jsonb_build_object(
+      'message_id', NEW.id,
+      'conversation_id', NEW.conversation_id,
+      'sender_id', NEW.sender_id,
+      'sender_name', v_sender_name,
+      'preview', left(NEW.content, 280),
+      'sent_at', NEW.sent_at
+    ),
+    v_send_after
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enqueue_message_email ON public.messages;
+
+CREATE TRIGGER enqueue_message_email
+  AFTER INSERT ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enqueue_message_email();
+
+-- ============================================================================
+-- WORKER SUPPORT
+-- ============================================================================
+
+-- Claims due rows for the email worker. Pending message rows of a recipient
+-- whose digest is due are claimed together even if queued later. Rows stuck
+-- in processing (worker crashed) are released after 15 minutes.
+CREATE OR REPLACE FUNCTION public.claim_email_outbox(p_limit integer DEFAULT 100)
+RETURNS SETOF public.email_outbox
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE email_outbox
+  SET status = 'pending',
+      locked_at = NULL
+  WHERE status = 'processing'
+    AND locked_at < now() - interval '15 minutes';
+
+  RETURN QUERY
+  UPDATE email_outbox o
+  SET status = 'processing',
+      attempts = o.attempts + 1,
+      locked_at = now()
+  WHERE o.id IN (
+    SELECT e.id
+    FROM email_outbox e
+    WHERE e.status = 'pending'
+      AND (
+        e.send_after <= now()
+        OR (
+          e.type = 'new_message'
+          AND EXISTS (
+            SELECT 1 FROM email_outbox due
+            WHERE due.user_id = e.user_id
+              AND due.type = 'new_message'
+              AND due.status = 'pending'
+              AND due.send_after <= now()
+          )
+        )
+      )
+    ORDER BY e.created_at
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 100), 1), 500)
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.*;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_email_outbox FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_email_outbox TO service_role;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+-- No policies: only the service role (edge function) reads or writes the outbox
+ALTER TABLE public.email_outbox ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.email_outbox TO service_role;
+
+-- ============================================================================
+-- SCHEDULING
+-- ============================================================================
+
+-- The worker is invoked over HTTP. On hosted projects schedule it with
+-- pg_cron + pg_net (Dashboard > Integrations > Cron), e.g. every 5 minutes:
+--
+--   SELECT cron.schedule(
+--     'send-email-notifications',
+--     '*/5 * * * *',
+--     $$SELECT net.http_post(
+--         url := 'https://<project-ref>.supabase.co/functions/v1/send-email-notifications',
+--         headers := jsonb_build_object('Authorization', 'Bearer <service-role-key>')
+--       )$$
+--   );
+--
+-- Locally: supabase functions serve, then POST to
+-- http://localhost:54321/functions/v1/send-email-notifications with the
+-- service role key and open inbucket at http://localhost:54324.
+
+COMMENT ON TABLE public.email_outbox IS
+  'Queued notification emails drained by the send-email-notifications edge function';
+COMMENT ON COLUMN public.notification_preferences.email_muted_types IS
+  'Notification types the user does not want emailed';
+COMMENT ON COLUMN public.notification_preferences.message_digest_interval IS
+  'How long new message emails are batched before a digest is sent: hourly or daily';
+COMMENT ON FUNCTION public.claim_email_outbox IS
+  'Marks due outbox rows as processing and returns them. Service role only.';
@@ -0,0 +1,313 @@
+-- Community member search
+-- Full-text (tsvector) plus trigram matching over profiles with relevance
+-- ranking, offset paging and facet counts, replacing the client-side ilike
+-- search on the Community page.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- ============================================================================
+-- SEARCH DOCUMENT
+-- ============================================================================
+
+-- 'simple' config: names, clubs and places shouldn't be stemmed as English.
+-- Weights: A name/username, B club and positions, C location, D bios.
+CREATE OR REPLACE FUNCTION public.profile_search_document(
+  p_full_name text,
+  p_username text,
+  p_current_club text,
+  p_position text,
+  p_secondary_position text,
+  p_base_location text,
+  p_nationality text,
+  p_bio text,
+  p_club_bio text
+)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    setweight(to_tsvector('simple', COALESCE(p_full_name, '') || ' ' || COALESCE(p_username, '')), 'A')
+    || setweight(to_tsvector('simple', concat_ws(' ', p_current_club, p_position, p_secondary_position)), 'B')
+    || setweight(to_tsvector('simple', concat_ws(' ', p_base_location, p_nationality)), 'C')
+    || setweight(to_tsvector('simple', concat_ws(' ', p_bio, p_club_bio)), 'D');
+$$;
+
+-- Short fields only; trigram matching is for typos in names and places
+CREATE OR REPLACE FUNCTION public.profile_search_text(
+  p_full_name text,
+  p_username text,
+  p_current_club text,
+  p_base_location text,
+  p_nationality text
+)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT lower(concat_ws(' ', p_full_name, p_username, p_current_club, p_base_location, p_nationality));
+$$;
+
+-- Every word of the query becomes a prefix term ("mart ams" -> mart:* & ams:*).
+-- Returns NULL when the query has no searchable characters.
+CREATE OR REPLACE FUNCTION public.profile_search_query(p_query text)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_tsquery('simple', string_agg(term || ':*', ' & '))
+  FROM unnest(regexp_split_to_array(lower(btrim(COALESCE(p_query, ''))), '[^[:alnum:]]+')) AS term
+  WHERE term <> ''
+  HAVING count(*) > 0;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_profiles_search_document
+ON public.profiles
+USING gin (
+  public.profile_search_document(
+    full_name, username, current_club, position, secondary_position,
+    base_location, nationality, bio, club_bio
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_profiles_search_text_trgm
+ON public.profiles
+USING gin (
+  public.profile_search_text(full_name, username, current_club, base_location, nationality)
+  extensions.gin_trgm_ops
+);
+
+-- ============================================================================
+-- FILTERS
+-- ============================================================================
+
+-- Lower-cased, trimmed values of one filter key; empty array when unset
+CREATE OR REPLACE FUNCTION public.profile_filter_values(p_filters jsonb, p_key text)
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT lower(btrim(value))), '{}')
+  FROM jsonb_array_elements_text(
+    CASE WHEN jsonb_typeof(p_filters->p_key) = 'array' THEN p_filters->p_key ELSE '[]'::jsonb END
+  ) AS value
+  WHERE btrim(value) <> '';
+$$;
+
+-- Structured Community filters (same keys as CommunityFilters on the client).
+-- Values within a key are ORed, keys are ANDed.
+CREATE OR REPLACE FUNCTION public.profile_matches_filters(
+  p_profile public.profiles,
+  p_filters jsonb
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    (
+      cardinality(profile_filter_values(p_filters, 'roles')) = 0
+      OR lower(p_profile.role) = ANY(profile_filter_values(p_filters, 'roles'))
+    )
+    AND (
+      cardinality(profile_filter_values(p_filters, 'positions')) = 0
+      OR lower(btrim(p_profile.position)) = ANY(profile_filter_values(p_filters, 'positions'))
+      OR lower(btrim(p_profile.secondary_position)) = ANY(profile_filter_values(p_filters, 'positions'))
+    )
+    AND (
+      cardinality(profile_filter_values(p_filters, 'nationalities')) = 0
+      OR lower(btrim(p_profile.nationality)) = ANY(profile_filter_values(p_filters, 'nationalities'))
+    )
+    AND (
+      cardinality(profile_filter_values(p_filters, 'passports')) = 0
+      OR lower(btrim(p_profile.passport_1)) = ANY(profile_filter_values(p_filters, 'passports'))
+      OR lower(btrim(p_profile.passport_2)) = ANY(profile_filter_values(p_filters, 'passports'))
+    )
+    AND (
+      cardinality(profile_filter_values(p_filters, 'locations')) = 0
+      OR lower(btrim(p_profile.base_location)) = ANY(profile_filter_values(p_filters, 'locations'))
+    );
+$$;
+
+-- ============================================================================
+-- SEARCH
+-- ============================================================================
+
+-- Ranked page of onboarded members. Without a query, newest members first.
+-- total_count is the number of matches across all pages.
+CREATE OR REPLACE FUNCTION public.search_profiles(
+  p_query text DEFAULT NULL,
+  p_filters jsonb DEFAULT '{}'::jsonb,
+  p_limit integer DEFAULT 24,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  avatar_url text,
+  full_name text,
+  username text,
+  role text,
+  nationality text,
+  base_location text,
+  "position" text,
+  secondary_position text,
+  current_club text,
+  created_at timestamptz,
+  rank real,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+SET pg_trgm.word_similarity_threshold = 0.4
+AS $$
+  WITH params AS (
+    SELECT
+      lower(NULLIF(btrim(COALESCE(p_query, '')), '')) AS q,
+      profile_search_query(p_query) AS tsq
+  ),
+  matched AS (
+    SELECT
+      p.*,
+      CASE
+        WHEN params.q IS NULL THEN 0
+        ELSE
+          -- Full-text relevance dominates; trigram similarity orders typos
+          COALESCE(ts_rank_cd(
+            profile_search_document(
+              p.full_name, p.username, p.current_club, p.position, p.secondary_position,
+              p.base_location, p.nationality, p.bio, p.club_bio
+            ),
+            params.tsq
+          ), 0) * 2
+          + word_similarity(params.q, profile_search_text(p.full_name, p.username, p.current_club, p.base_location, p.nationality))
+      END AS search_rank
+    FROM profiles p
+    CROSS JOIN params
+    WHERE p.onboarding_completed = true
+      AND profile_matches_filters(p, COALESCE(p_filters, '{}'::jsonb))
+      AND (
+        params.q IS NULL
+        OR profile_search_document(
+          p.full_name, p.username, p.current_club, p.position, p.secondary_position,
+          p.base_location, p.nationality, p.bio, p.club_bio
+        ) @@ params.tsq
+        OR params.q <% profile_search_text(p.full_name, p.username, p.current_club, p.base_location, p.nationality)
+      )
+  )
+  SELECT
+    m.id,
+    m.avatar_url,
+    m.full_name,
+    m.username,
+    m.role,
+    m.nationality,
+    m.base_location,
+    m.position,
+    m.secondary_position,
+    m.current_club,
+    m.created_at,
+    m.search_rank::real,
+    count(*) OVER () AS total_count
+  FROM matched m
+  ORDER BY m.search_rank DESC, m.created_at DESC, m.id
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 24), 1), 100)
+  OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+$$;
+
+-- Facet counts for the current query. Each facet ignores its own filter so
+-- picking one value still shows counts for the alternatives.
+CREATE OR REPLACE FUNCTION public.search_profile_facets(
+  p_query text DEFAULT NULL,
+  p_filters jsonb DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (
+  facet text,
+  value text,
+  count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+SET pg_trgm.word_similarity_threshold = 0.4
+AS $$
+  WITH params AS (
+    SELECT
+      lower(NULLIF(btrim(COALESCE(p_query, '')), '')) AS q,
+      profile_search_query(p_query) AS tsq,
+      COALESCE(p_filters, '{}'::jsonb) AS filters
+  ),
+  matched AS (
+    SELECT p AS profile
+    FROM profiles p
+    CROSS JOIN params
+    WHERE p.onboarding_completed = true
+      AND (
+        params.q IS NULL
+        OR profile_search_document(
+          p.full_name, p.username, p.current_club, p.position, p.secondary_position,
+          p.base_location, p.nationality, p.bio, p.club_bio
+        ) @@ params.tsq
+        OR params.q <% profile_search_text(p.full_name, p.username, p.current_club, p.base_location, p.nationality)
+      )
+  ),
+  facets AS (
+    SELECT 'role'::text AS facet, (m.profile).role AS value, count(*) AS count
+    FROM matched m, params
+    WHERE profile_matches_filters(m.profile, params.filters - 'roles')
+    GROUP BY (m.profile).role
+
+    UNION ALL
+
+    SELECT 'position', min(btrim(position_value)), count(DISTINCT (m.profile).id)
+    FROM matched m
+    CROSS JOIN params
+    CROSS JOIN LATERAL unnest(ARRAY[(m.profile).position, (m.profile).secondary_position]) AS position_value
+    WHERE btrim(position_value) <> ''
+      AND profile_matches_filters(m.profile, params.filters - 'positions')
+    GROUP BY lower(btrim(position_value))
+
+    UNION ALL
+
+    SELECT 'nationality', min(btrim((m.profile).nationality)), count(*)
+    FROM matched m, params
+    WHERE btrim((m.profile).nationality) <> ''
+      AND profile_matches_filters(m.profile, params.filters - 'nationalities')
+    GROUP BY lower(btrim((m.profile).nationality))
+
+    UNION ALL
+
+    SELECT 'passport', min(btrim(passport_value)), count(DISTINCT (m.profile).id)
+    FROM matched m
+    CROSS JOIN params
+    CROSS JOIN LATERAL unnest(ARRAY[(m.profile).passport_1, (m.profile).passport_2]) AS passport_value
+    WHERE btrim(passport_value) <> ''
+      AND profile_matches_filters(m.profile, params.filters - 'passports')
+    GROUP BY lower(btrim(passport_value))
+
+    UNION ALL
+
+    SELECT 'location', min(btrim((m.profile).base_location)), count(*)
+    FROM matched m, params
+    WHERE btrim((m.profile).base_location) <> ''
+      AND profile_matches_filters(m.profile, params.filters - 'locations')
+    GROUP BY lower(btrim((m.profile).base_location))
+  )
+  -- Free-text facets can have hundreds of values; keep the most common
+  SELECT ranked.facet, ranked.value, ranked.count
+  FROM (
+    SELECT f.*, row_number() OVER (PARTITION BY f.facet ORDER BY f.count DESC, f.value) AS position_in_facet
+    FROM facets f
+  ) ranked
+  WHERE ranked.position_in_facet <= 20
+  ORDER BY ranked.facet, ranked.count DESC, ranked.value;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_profiles TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_profile_facets TO anon, authenticated;
+
+COMMENT ON FUNCTION public.search_profiles IS
+  'Community search: ranked, paged onboarded profiles matching a free-text query and structured filters (jsonb)';
+COMMENT ON FUNCTION public.search_profile_facets IS
+  'Facet value counts (role, position, nationality, passport, location) for a Community search';
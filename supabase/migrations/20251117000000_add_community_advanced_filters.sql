@@ -0,0 +1,420 @@
+-- Advanced Community filters
+-- Adds player/coach availability and extends the Community search filters and
+-- facets with primary-only positions, gender, age range (from date_of_birth),
+-- EU passport holders, current league level and availability.
+
+-- ============================================================================
+-- AVAILABILITY
+-- ============================================================================
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS availability TEXT;
+
+ALTER TABLE public.profiles
+DROP CONSTRAINT IF EXISTS profiles_availability_check;
+
+ALTER TABLE public.profiles
+ADD CONSTRAINT profiles_availability_check
+CHECK (availability IN ('available', 'open_to_offers', 'not_available') OR availability IS NULL);
+
+CREATE INDEX IF NOT EXISTS idx_profiles_availability
+ON public.profiles (availability)
+WHERE availability IS NOT NULL;
+
+COMMENT ON COLUMN public.profiles.availability IS
+  'Whether a player or coach is looking for a club: available, open_to_offers or not_available';
+
+-- ============================================================================
+-- HELPERS
+-- ============================================================================
+
+-- Players store 'Men'/'Women', coaches 'male'/'female'/'other'
+CREATE OR REPLACE FUNCTION public.profile_gender_group(p_gender text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE lower(btrim(COALESCE(p_gender, '')))
+    WHEN 'men' THEN 'men'
+    WHEN 'male' THEN 'men'
+    WHEN 'women' THEN 'women'
+    WHEN 'female' THEN 'women'
+    WHEN 'other' THEN 'other'
+    ELSE NULL
+  END;
+$$;
+
+-- Whole years; NULL without a date of birth
+CREATE OR REPLACE FUNCTION public.profile_age(p_date_of_birth date)
+RETURNS integer
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT date_part('year', age(current_date, p_date_of_birth))::integer;
+$$;
+
+-- Age bucket keys shared with AGE_BUCKETS on the client
+CREATE OR REPLACE FUNCTION public.profile_age_bucket(p_age integer)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_age IS NULL THEN NULL
+    WHEN p_age < 21 THEN 'under_21'
+    WHEN p_age <= 25 THEN '21_25'
+    WHEN p_age <= 30 THEN '26_30'
+    WHEN p_age <= 35 THEN '31_35'
+    ELSE '36_plus'
+  END;
+$$;
+
+-- Passports are free text ("Dutch", "Netherlands Passport", "Irish passport"),
+-- so match EU member country names and nationality adjectives.
+CREATE OR REPLACE FUNCTION public.is_eu_passport(p_passport text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT regexp_replace(lower(btrim(COALESCE(p_passport, ''))), '\s*passport\s*$', '') = ANY(ARRAY[
+    'eu', 'european union',
+    'austria', 'austrian',
+    'belgium', 'belgian',
+    'bulgaria', 'bulgarian',
+    'croatia', 'croatian',
+    'cyprus', 'cypriot',
+    'czech republic', 'czechia', 'czech',
+    'denmark', 'danish',
+    'estonia', 'estonian',
+    'finland', 'finnish',
+    'france', 'french',
+    'germany', 'german',
+    'greece', 'greek',
+    'hungary', 'hungarian',
+    'ireland', 'irish',
+    'italy', 'italian',
+    'latvia', 'latvian',
+    'lithuania', 'lithuanian',
+    'luxembourg', 'luxembourgish',
+    'malta', 'maltese',
+    'netherlands', 'the netherlands', 'holland', 'dutch',
+    'poland', 'polish',
+    'portugal', 'portuguese',
+    'romania', 'romanian',
+    'slovakia', 'slovak',
+    'slovenia', 'slovenian',
+    'spain', 'spanish',
+    'sweden', 'swedish'
+  ]);
+$$;
+
+-- Integer value of one filter key; NULL when unset or not a number
+CREATE OR REPLACE FUNCTION public.profile_filter_int(p_filters jsonb, p_key text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(p_filters->p_key) = 'number' THEN floor((p_filters->>p_key)::numeric)::integer
+    ELSE NULL
+  END;
+$$;
+
+-- ============================================================================
+-- FILTERS
+-- ============================================================================
+
+-- Structured Community filters (same keys as CommunityFilters on the client).
+-- Values within a key are ORed, keys are ANDed.
+CREATE OR REPLACE FUNCTION public.profile_matches_filters(
+  p_profile public.profiles,
+  p_filters jsonb
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    (
+      cardinality(profile_filter_values(p_filters, 'roles')) = 0
+      OR lower(p_profile.role) = ANY(profile_filter_values(p_filters, 'roles'))
+    )
+    AND (
+      cardinality(profile_filter_values(p_filters, 'positions')) = 0
+      OR lower(btrim(p_profile.position)) = ANY(profile_filter_values(p_filters, 'positions'))
+      OR (
+        COALESCE(p_filters->'primaryPositionOnly', 'false'::jsonb) <> 'true'::jsonb
+        AND lower(btrim(p_profile.secondary_position)) = ANY(profile_filter_values(p_filters, 'positions'))
+      )
+    )
+    AND (
+      cardinality(profile_filter_values(p_filters, 'genders')) = 0
+      OR profile_gender_group(p_profile.gender) = ANY(profile_filter_values(p_filters, 'genders'))
+    )
+    AND (
+      profile_filter_int(p_filters, 'ageMin') IS NULL
+      OR profile_age(p_profile.date_of_birth) >= profile_filter_int(p_filters, 'ageMin')
+    )
+    AND (
+      profile_filter_int(p_filters, 'ageMax') IS NULL
+      OR profile_age(p_profile.date_of_birth) <= profile_filter_int(p_filters, 'ageMax')
+    )
+    AND (
+      cardinality(profile_filter_values(p_filters, 'nationalities')) = 0
+      OR lower(btrim(p_profile.nationality)) = ANY(profile_filter_values(p_filters, 'nationalities'))
+    )
+    AND (
+      cardinality(profile_filter_values(p_filters, 'passports')) = 0
+      OR lower(btrim(p_profile.passport_1)) = ANY(profile_filter_values(p_filters, 'passports'))
+      OR lower(btrim(p_profile.passport_2)) = ANY(profile_filter_values(p_filters, 'passports'))
+    )
+    AND (
+      COALESCE(p_filters->'euPassport', 'false'::jsonb) <> 'true'::jsonb
+      OR is_eu_passport(p_profile.passport_1)
+      OR is_eu_passport(p_profile.passport_2)
+    )
+    AND (
+      cardinality(profile_filter_values(p_filters, 'leagues')) = 0
+      OR lower(btrim(p_profile.league_division)) = ANY(profile_filter_values(p_filters, 'leagues'))
+    )
+    AND (
+      cardinality(profile_filter_values(p_filters, 'availability')) = 0
+      OR p_profile.availability = ANY(profile_filter_values(p_filters, 'availability'))
+    )
+    AND (
+      cardinality(profile_filter_values(p_filters, 'locations')) = 0
+      OR lower(btrim(p_profile.base_location)) = ANY(profile_filter_values(p_filters, 'locations'))
+    );
+$$;
+
+-- ============================================================================
+-- SEARCH
+-- ============================================================================
+
+-- Return type gains availability, so the function has to be recreated
+DROP FUNCTION IF EXISTS public.search_profiles(text, jsonb, integer, integer);
+
+-- Ranked page of onboarded members. Without a query, newest members first.
+-- total_count is the number of matches across all pages.
+CREATE OR REPLACE FUNCTION public.search_profiles(
+  p_query text DEFAULT NULL,
+  p_filters jsonb DEFAULT '{}'::jsonb,
+  p_limit integer DEFAULT 24,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  avatar_url text,
+  full_name text,
+  username text,
+  role text,
+  nationality text,
+  base_location text,
+  "position" text,
+  secondary_position text,
+  current_club text,
+  availability text,
+  created_at timestamptz,
+  rank real,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+SET pg_trgm.word_similarity_threshold = 0.4
+AS $$
+  WITH params AS (
+    SELECT
+      lower(NULLIF(btrim(COALESCE(p_query, '')), '')) AS q,
+      profile_search_query(p_query) AS tsq
+  ),
+  matched AS (
+    SELECT
+      p.*,
+      CASE
+        WHEN params.q IS NULL THEN 0
+        ELSE
+          -- Full-text relevance dominates; trigram similarity orders typos
+          COALESCE(ts_rank_cd(
+            profile_search_document(
+              p.full_name, p.username, p.current_club, p.position, p.secondary_position,
+              p.base_location, p.nationality, p.bio, p.club_bio
+            ),
+            params.tsq
+          ), 0) * 2
+          + word_similarity(params.q, profile_search_text(p.full_name, p.username, p.current_club, p.base_location, p.nationality))
+      END AS search_rank
+    FROM profiles p
+    CROSS JOIN params
+    WHERE p.onboarding_completed = true
+      AND profile_matches_filters(p, COALESCE(p_filters, '{}'::jsonb))
+      AND (
+        params.q IS NULL
+        OR profile_search_document(
+          p.full_name, p.username, p.current_club, p.position, p.secondary_position,
+          p.base_location, p.nationality, p.bio, p.club_bio
+        ) @@ params.tsq
+        OR params.q <% profile_search_text(p.full_name, p.username, p.current_club, p.base_location, p.nationality)
+      )
+  )
+  SELECT
+    m.id,
+    m.avatar_url,
+    m.full_name,
+    m.username,
+    m.role,
+    m.nationality,
+    m.base_location,
+    m.position,
+    m.secondary_position,
+    m.current_club,
+    m.availability,
+    m.created_at,
+    m.search_rank::real,
+    count(*) OVER () AS total_count
+  FROM matched m
+  ORDER BY m.search_rank DESC, m.created_at DESC, m.id
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 24), 1), 100)
+  OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+$$;
+
+-- Facet counts for the current query. Each facet ignores its own filter so
+-- picking one value still shows counts for the alternatives.
+CREATE OR REPLACE FUNCTION public.search_profile_facets(
+  p_query text DEFAULT NULL,
+  p_filters jsonb DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (
+  facet text,
+  value text,
+  count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+SET pg_trgm.word_similarity_threshold = 0.4
+AS $$
+  WITH params AS (
+    SELECT
+      lower(NULLIF(btrim(COALESCE(p_query, '')), '')) AS q,
+      profile_search_query(p_query) AS tsq,
+      COALESCE(p_filters, '{}'::jsonb) AS filters,
+      COALESCE(p_filters->'primaryPositionOnly', 'false'::jsonb) = 'true'::jsonb AS primary_position_only
+  ),
+  matched AS (
+    SELECT p AS profile
+    FROM profiles p
+    CROSS JOIN params
+    WHERE p.onboarding_completed = true
+      AND (
+        params.q IS NULL
+        OR profile_search_document(
+          p.full_name, p.username, p.current_club, p.position, p.secondary_position,
+          p.base_location, p.nationality, p.bio, p.club_bio
+        ) @@ params.tsq
+        OR params.q <% profile_search_text(p.full_name, p.username, p.current_club, p.base_location, p.nationality)
+      )
+  ),
+  facets AS (
+    SELECT 'role'::text AS facet, (m.profile).role AS value, count(*) AS count
+    FROM matched m, params
+    WHERE profile_matches_filters(m.profile, params.filters - 'roles')
+    GROUP BY (m.profile).role
+
+    UNION ALL
+
+    SELECT 'position', min(btrim(position_value)), count(DISTINCT (m.profile).id)
+    FROM matched m
+    CROSS JOIN params
+    CROSS JOIN LATERAL unnest(ARRAY[
+      (m.profile).position,
+      CASE WHEN params.primary_position_only THEN NULL ELSE (m.profile).secondary_position END
+    ]) AS position_value
+    WHERE btrim(position_value) <> ''
+      AND profile_matches_filters(m.profile, params.filters - 'positions')
+    GROUP BY lower(btrim(position_value))
+
+    UNION ALL
+
+    SELECT 'gender', profile_gender_group((m.profile).gender), count(*)
+    FROM matched m, params
+    WHERE profile_gender_group((m.profile).gender) IS NOT NULL
+      AND profile_matches_filters(m.profile, params.filters - 'genders')
+    GROUP BY profile_gender_group((m.profile).gender)
+
+    UNION ALL
+
+    SELECT 'age', profile_age_bucket(profile_age((m.profile).date_of_birth)), count(*)
+    FROM matched m, params
+    WHERE (m.profile).date_of_birth IS NOT NULL
+      AND profile_matches_filters(m.profile, params.filters - 'ageMin' - 'ageMax')
+    GROUP BY profile_age_bucket(profile_age((m.profile).date_of_birth))
+
+    UNION ALL
+
+    SELECT 'nationality', min(btrim((m.profile).nationality)), count(*)
+    FROM matched m, params
+    WHERE btrim((m.profile).nationality) <> ''
+      AND profile_matches_filters(m.profile, params.filters - 'nationalities')
+    GROUP BY lower(btrim((m.profile).nationality))
+
+    UNION ALL
+
+    SELECT 'passport', min(btrim(passport_value)), count(DISTINCT (m.profile).id)
+    FROM matched m
+    CROSS JOIN params
+    CROSS JOIN LATERAL unnest(ARRAY[(m.profile).passport_1, (m.profile).passport_2]) AS passport_value
+    WHERE btrim(passport_value) <> ''
+      AND profile_matches_filters(m.profile, params.filters - 'passports')
+    GROUP BY lower(btrim(passport_value))
+
+    UNION ALL
+
+    SELECT 'eu_passport', 'eu', count(*)
+    FROM matched m, params
+    WHERE (is_eu_passport((m.profile).passport_1) OR is_eu_passport((m.profile).passport_2))
+      AND profile_matches_filters(m.profile, params.filters - 'euPassport')
+    HAVING count(*) > 0
+
+    UNION ALL
+
+    SELECT 'league', min(btrim((m.profile).league_division)), count(*)
+    FROM matched m, params
+    WHERE btrim((m.profile).league_division) <> ''
+      AND profile_matches_filters(m.profile, params.filters - 'leagues')
+    GROUP BY lower(btrim((m.profile).league_division))
+
+    UNION ALL
+
+    SELECT 'availability', (m.profile).availability, count(*)
+    FROM matched m, params
+    WHERE (m.profile).availability IS NOT NULL
+      AND profile_matches_filters(m.profile, params.filters - 'availability')
+    GROUP BY (m.profile).availability
+
+    UNION ALL
+
+    SELECT 'location', min(btrim((m.profile).base_location)), count(*)
+    FROM matched m, params
+    WHERE btrim((m.profile).base_location) <> ''
+      AND profile_matches_filters(m.profile, params.filters - 'locations')
+    GROUP BY lower(btrim((m.profile).base_location))
+  )
+  -- Free-text facets can have hundreds of values; keep the most common
+  SELECT ranked.facet, ranked.value, ranked.count
+  FROM (
+    SELECT f.*, row_number() OVER (PARTITION BY f.facet ORDER BY f.count DESC, f.value) AS position_in_facet
+    FROM facets f
+  ) ranked
+  WHERE ranked.position_in_facet <= 20
+  ORDER BY ranked.facet, ranked.count DESC, ranked.value;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_profiles TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_profile_facets TO anon, authenticated;
+
+COMMENT ON FUNCTION public.search_profiles IS
+  'Community search: ranked, paged onboarded profiles matching a free-text query and structured filters (jsonb)';
+COMMENT ON FUNCTION public.search_profile_facets IS
+  'Facet value counts (role, position, gender, age, nationality, passport, eu_passport, league, availability, location) for a Community search';
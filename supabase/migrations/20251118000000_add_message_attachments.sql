@@ -0,0 +1,235 @@
+-- Message attachments
+-- Files and images on direct messages. Objects live in a private
+-- message-attachments bucket under <conversation_id>/<uploader_id>/ and are
+-- readable by conversation participants only. Message rows carry the
+-- attachment metadata so realtime payloads can render them directly.
+
+-- ============================================================================
+-- MESSAGES
+-- ============================================================================
+
+ALTER TABLE public.messages
+ADD COLUMN IF NOT EXISTS attachments jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.messages
+DROP CONSTRAINT IF EXISTS messages_attachments_check;
+
+ALTER TABLE public.messages
+ADD CONSTRAINT messages_attachments_check
+CHECK (jsonb_typeof(attachments) = 'array' AND jsonb_array_length(attachments) <= 5);
+
+-- Text is optional when the message has attachments
+ALTER TABLE public.messages
+DROP CONSTRAINT IF EXISTS content_length;
+
+ALTER TABLE public.messages
+ADD CONSTRAINT content_length
+CHECK (
+  char_length(content) <= 1000
+  AND (char_length(content) > 0 OR jsonb_array_length(attachments) > 0)
+);
+
+COMMENT ON COLUMN public.messages.content IS
+  'Message content limited to 1000 characters; may be empty when the message has attachments';
+COMMENT ON COLUMN public.messages.attachments IS
+  'Attachment metadata: [{path, thumbnail_path, name, mime_type, size, width, height}] in the message-attachments bucket';
+
+-- Notification/email preview text for a message
+CREATE OR REPLACE FUNCTION public.message_preview(
+  p_content text,
+  p_attachments jsonb,
+  p_length integer
+)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN btrim(COALESCE(p_content, '')) <> '' THEN left(p_content, p_length)
+    WHEN jsonb_array_length(COALESCE(p_attachments, '[]'::jsonb)) = 1 THEN 'Sent an attachment'
+    ELSE format('Sent %s attachments', jsonb_array_length(COALESCE(p_attachments, '[]'::jsonb)))
+  END;
+$$;
+
+-- ============================================================================
+-- STORAGE
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('message-attachments', 'message-attachments', false, 26214400)
+ON CONFLICT (id) DO NOTHING;
+
+-- Object names are <conversation_id>/<uploader_id>/<file>. Checks the
+-- conversation folder without casting arbitrary names to uuid.
+CREATE OR REPLACE FUNCTION public.can_access_message_attachment(
+  p_object_name text,
+  p_user_id uuid
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_user_id IS NULL THEN false
+    WHEN split_part(p_object_name, '/', 1) ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      THEN user_in_conversation(split_part(p_object_name, '/', 1)::uuid, p_user_id)
+    ELSE false
+  END;
+$$;
+
+DROP POLICY IF EXISTS "Participants can view message attachments" ON storage.objects;
+CREATE POLICY "Participants can view message attachments"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'message-attachments'
+  AND public.can_access_message_attachment(name, auth.uid())
+);
+
+DROP POLICY IF EXISTS "Participants can upload message attachments" ON storage.objects;
+CREATE POLICY "Participants can upload message attachments"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'message-attachments'
+  AND split_part(name, '/', 2) = auth.uid()::text
+  AND public.can_access_message_attachment(name, auth.uid())
+);
+
+DROP POLICY IF EXISTS "Uploaders can delete their message attachments" ON storage.objects;
+CREATE POLICY "Uploaders can delete their message attachments"
+ON storage.objects FOR DELETE
+USING (
+  bucket_id = 'message-attachments'
+  AND split_part(name, '/', 2) = auth.uid()::text
+);
+
+-- ============================================================================
+-- NOTIFICATIONS
+-- ============================================================================
+
+-- Same as before, with an attachment-aware preview
+CREATE OR REPLACE FUNCTION public.notify_new_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_recipient_id uuid;
+  v_sender_name text;
+  v_preview text;
+BEGIN
+  SELECT CASE
+    WHEN participant_one_id = NEW.sender_id THEN participant_two_id
+    ELSE participant_one_id
+  END INTO v_recipient_id
+  FROM conversations
+  WHERE id = NEW.conversation_id;
+
+  IF v_recipient_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT full_name INTO v_sender_name
+  FROM profiles
+  WHERE id = NEW.sender_id;
+
+  v_preview := message_preview(NEW.content, NEW.attachments, 140);
+
+  UPDATE notifications
+  SET body = v_preview,
+      created_at = now(),
+      data = data || jsonb_build_object(
+        'message_id', NEW.id,
+        'message_count', COALESCE((data->>'message_count')::int, 1) + 1
+      )
+  WHERE user_id = v_recipient_id
+    AND type = 'new_message'
+    AND read_at IS NULL
+    AND data->>'conversation_id' = NEW.conversation_id::text;
+
+  IF NOT FOUND THEN
+    PERFORM create_notification(
+      v_recipient_id,
+      'new_message',
+      format('New message from %s', COALESCE(NULLIF(btrim(v_sender_name), ''), 'PLAYR member')),
+      v_preview,
+      format('/messages?conversation=%s', NEW.conversation_id),
+      jsonb_build_object(
+        'conversation_id', NEW.conversation_id,
+        'message_id', NEW.id,
+        'sender_id', NEW.sender_id,
+        'message_count', 1
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enqueue_message_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_recipient_id uuid;
+  v_sender_name text;
+  v_send_after timestamptz;
+BEGIN
+  SELECT CASE
+    WHEN participant_one_id = NEW.sender_id THEN participant_two_id
+    ELSE participant_one_id
+  END INTO v_recipient_id
+  FROM conversations
+  WHERE id = NEW.conversation_id;
+
+  IF v_recipient_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT min(send_after) INTO v_send_after
+  FROM email_outbox
+  WHERE user_id = v_recipient_id
+    AND type = 'new_message'
+    AND status = 'pending';
+
+  IF v_send_after IS NULL THEN
+    SELECT now() + CASE WHEN message_digest_interval = 'daily' THEN interval '24 hours' ELSE interval '1 hour' END
+    INTO v_send_after
+    FROM notification_preferences
+    WHERE user_id = v_recipient_id;
+
+    v_send_after := COALESCE(v_send_after, now() + interval '1 hour');
+  END IF;
+
+  SELECT full_name INTO v_sender_name
+  FROM profiles
+  WHERE id = NEW.sender_id;
+
+  PERFORM enqueue_email(
+    v_recipient_id,
+    'new_message',
+    jsonb_build_object(
+      'message_id', NEW.id,
+      'conversation_id', NEW.conversation_id,
+      'sender_id', NEW.sender_id,
+      'sender_name', v_sender_name,
+      'preview', message_preview(NEW.content, NEW.attachments, 280),
+      'sent_at', NEW.sent_at
+    ),
+    v_send_after
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.can_access_message_attachment(text, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.can_access_message_attachment(text, uuid) TO authenticated;
+
+COMMENT ON FUNCTION public.can_access_message_attachment IS
+  'Storage RLS helper: true when the user participates in the conversation that owns a message-attachments object';
@@ -0,0 +1,94 @@
+-- Chat presence
+-- Online status and typing indicators are realtime-only (presence/broadcast).
+-- This table keeps what has to survive a session: when a member was last
+-- active and whether they hide their online status from others.
+
+-- ============================================================================
+-- USER PRESENCE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.user_presence (
+  user_id uuid PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  last_seen_at timestamptz,
+  hide_presence boolean NOT NULL DEFAULT false,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS set_user_presence_updated_at ON public.user_presence;
+CREATE TRIGGER set_user_presence_updated_at
+  BEFORE UPDATE ON public.user_presence
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.user_presence ENABLE ROW LEVEL SECURITY;
+
+-- Others read last seen through get_last_seen, which honours hide_presence
+DROP POLICY IF EXISTS "Users can view their own presence settings" ON public.user_presence;
+CREATE POLICY "Users can view their own presence settings"
+  ON public.user_presence
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can create their own presence settings" ON public.user_presence;
+CREATE POLICY "Users can create their own presence settings"
+  ON public.user_presence
+  FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update their own presence settings" ON public.user_presence;
+CREATE POLICY "Users can update their own presence settings"
+  ON public.user_presence
+  FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Heartbeat from the client while the app is open
+CREATE OR REPLACE FUNCTION public.touch_last_seen()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO user_presence (user_id, last_seen_at)
+  SELECT auth.uid(), now()
+  WHERE auth.uid() IS NOT NULL
+  ON CONFLICT (user_id) DO UPDATE
+  SET last_seen_at = EXCLUDED.last_seen_at;
+$$;
+
+-- Last seen times of the caller's conversation partners. Members who hide
+-- their presence, or have never been seen, are left out.
+CREATE OR REPLACE FUNCTION public.get_last_seen(p_user_ids uuid[])
+RETURNS TABLE (
+  user_id uuid,
+  last_seen_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT up.user_id, up.last_seen_at
+  FROM user_presence up
+  WHERE up.user_id = ANY(p_user_ids)
+    AND up.hide_presence = false
+    AND up.last_seen_at IS NOT NULL
+    AND EXISTS (
+      SELECT 1
+      FROM conversations c
+      WHERE (c.participant_one_id = auth.uid() AND c.participant_two_id = up.user_id)
+         OR (c.participant_two_id = auth.uid() AND c.participant_one_id = up.user_id)
+    );
+$$;
+
+GRANT SELECT, INSERT, UPDATE ON public.user_presence TO authenticated;
+GRANT EXECUTE ON FUNCTION public.touch_last_seen() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_last_seen(uuid[]) TO authenticated;
+
+COMMENT ON TABLE public.user_presence IS 'Last activity time and online-status privacy setting per member';
+COMMENT ON COLUMN public.user_presence.hide_presence IS 'When true the member is never shown as online and their last seen time is hidden';
+COMMENT ON FUNCTION public.get_last_seen IS 'Last seen times for conversation partners who share their presence';
@@ -0,0 +1,781 @@
+-- Group conversations
+-- Conversations were hard-wired to exactly two people. Membership now lives in
+-- conversation_participants for every conversation. Direct chats keep
+-- participant_one_id/participant_two_id so the unique pair constraint (and the
+-- normalize trigger) still prevent duplicates; group chats leave both NULL and
+-- carry a title instead.
+--
+-- Read state: direct chats keep using messages.read_at. In a group one message
+-- has many readers, so each member's last_read_at marks what they have seen.
+--
+-- Everything that assumed two participants is redefined on top of the join
+-- table: user_in_conversation (and with it messages RLS and attachment
+-- storage RLS), the unread views, get_user_conversations, get_last_seen and
+-- the new-message notification/email triggers.
+
+-- ============================================================================
+-- CONVERSATIONS
+-- ============================================================================
+
+ALTER TABLE public.conversations
+  ADD COLUMN IF NOT EXISTS is_group boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS title text,
+  ADD COLUMN IF NOT EXISTS created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.conversations
+  ALTER COLUMN participant_one_id DROP NOT NULL,
+  ALTER COLUMN participant_two_id DROP NOT NULL;
+
+ALTER TABLE public.conversations DROP CONSTRAINT IF EXISTS conversation_kind;
+ALTER TABLE public.conversations
+  ADD CONSTRAINT conversation_kind CHECK (
+    (
+      is_group
+      AND participant_one_id IS NULL
+      AND participant_two_id IS NULL
+      AND title IS NOT NULL
+      AND char_length(btrim(title)) BETWEEN 1 AND 80
+    )
+    OR (
+      NOT is_group
+      AND participant_one_id IS NOT NULL
+      AND participant_two_id IS NOT NULL
+    )
+  );
+
+COMMENT ON COLUMN public.conversations.is_group IS 'Group chats have a title and members in conversation_participants only';
+COMMENT ON COLUMN public.conversations.title IS 'Group chat name (NULL for direct conversations)';
+
+-- ============================================================================
+-- PARTICIPANTS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.conversation_participants (
+  conversation_id uuid NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'member',
+  added_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  joined_at timestamptz NOT NULL DEFAULT now(),
+  last_read_at timestamptz,
+  PRIMARY KEY (conversation_id, user_id),
+  CONSTRAINT conversation_participant_role CHECK (role IN ('admin', 'member'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_participants_user
+  ON public.conversation_participants(user_id, conversation_id);
+
+-- Existing direct conversations
+INSERT INTO public.conversation_participants (conversation_id, user_id, joined_at)
+SELECT id, participant_one_id, created_at
+FROM public.conversations
+WHERE participant_one_id IS NOT NULL
+UNION ALL
+SELECT id, participant_two_id, created_at
+FROM public.conversations
+WHERE participant_two_id IS NOT NULL
+ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+-- Direct conversations are still created with a plain insert; mirror the pair
+CREATE OR REPLACE FUNCTION public.add_direct_conversation_participants()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_group THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO conversation_participants (conversation_id, user_id, joined_at)
+  VALUES
+    (NEW.id, NEW.participant_one_id, NEW.created_at),
+    (NEW.id, NEW.participant_two_id, NEW.created_at)
+  ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS add_direct_conversation_participants ON public.conversations;
+CREATE TRIGGER add_direct_conversation_participants
+  AFTER INSERT ON public.conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.add_direct_conversation_participants();
+
+-- Groups are capped so notification fan-out stays bounded
+CREATE OR REPLACE FUNCTION public.enforce_group_member_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (SELECT count(*) FROM conversation_participants WHERE conversation_id = NEW.conversation_id) >= 50 THEN
+    RAISE EXCEPTION 'Group conversations are limited to 50 members'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_group_member_limit ON public.conversation_participants;
+CREATE TRIGGER enforce_group_member_limit
+  BEFORE INSERT ON public.conversation_participants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_group_member_limit();
+
+-- When members leave a group: hand admin to the longest-standing member if
+-- none is left, and remove the group once it is empty
+CREATE OR REPLACE FUNCTION public.handle_group_member_removed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM conversations WHERE id = OLD.conversation_id AND is_group
+  ) THEN
+    RETURN OLD;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM conversation_participants WHERE conversation_id = OLD.conversation_id
+  ) THEN
+    DELETE FROM conversations WHERE id = OLD.conversation_id;
+    RETURN OLD;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM conversation_participants
+    WHERE conversation_id = OLD.conversation_id AND role = 'admin'
+  ) THEN
+    UPDATE conversation_participants
+    SET role = 'admin'
+    WHERE conversation_id = OLD.conversation_id
+      AND user_id = (
+        SELECT user_id FROM conversation_participants
+        WHERE conversation_id = OLD.conversation_id
+        ORDER BY joined_at, user_id
+        LIMIT 1
+      );
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS handle_group_member_removed ON public.conversation_participants;
+CREATE TRIGGER handle_group_member_removed
+  AFTER DELETE ON public.conversation_participants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_group_member_removed();
+
+-- ============================================================================
+-- ACCESS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.user_in_conversation(
+  p_conversation_id uuid,
+  p_user_id uuid
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM conversation_participants
+    WHERE conversation_id = p_conversation_id
+      AND user_id = p_user_id
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_conversation_admin(
+  p_conversation_id uuid,
+  p_user_id uuid
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM conversation_participants
+    WHERE conversation_id = p_conversation_id
+      AND user_id = p_user_id
+      AND role = 'admin'
+  );
+$$;
+
+ALTER TABLE public.conversation_participants ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through the functions below
+DROP POLICY IF EXISTS "Participants can view conversation members" ON public.conversation_participants;
+CREATE POLICY "Participants can view conversation members"
+  ON public.conversation_participants
+  FOR SELECT
+  USING (public.user_in_conversation(conversation_id, auth.uid()));
+
+-- The pair check comes first: on INSERT ... RETURNING the participant rows
+-- have not been written yet
+DROP POLICY IF EXISTS "Users can view their own conversations" ON public.conversations;
+CREATE POLICY "Users can view their own conversations"
+  ON public.conversations
+  FOR SELECT
+  USING (
+    participant_one_id = auth.uid()
+    OR participant_two_id = auth.uid()
+    OR public.user_in_conversation(id, auth.uid())
+  );
+
+-- Groups are created through create_group_conversation
+DROP POLICY IF EXISTS "Users can create conversations" ON public.conversations;
+CREATE POLICY "Users can create conversations"
+  ON public.conversations
+  FOR INSERT
+  WITH CHECK (
+    NOT is_group
+    AND (participant_one_id = auth.uid() OR participant_two_id = auth.uid())
+  );
+
+-- ============================================================================
+-- GROUP MANAGEMENT
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.create_group_conversation(
+  p_title text,
+  p_member_ids uuid[]
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_conversation_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = ANY(p_member_ids) AND id <> v_user_id
+  ) THEN
+    RAISE EXCEPTION 'A group needs at least one other member' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  INSERT INTO conversations (is_group, title, created_by)
+  VALUES (true, btrim(p_title), v_user_id)
+  RETURNING id INTO v_conversation_id;
+
+  INSERT INTO conversation_participants (conversation_id, user_id, role, added_by)
+  VALUES (v_conversation_id, v_user_id, 'admin', v_user_id);
+
+  INSERT INTO conversation_participants (conversation_id, user_id, added_by)
+  SELECT v_conversation_id, p.id, v_user_id
+  FROM profiles p
+  WHERE p.id = ANY(p_member_ids)
+    AND p.id <> v_user_id
+  ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+  RETURN v_conversation_id;
+END;
+$$;
+
+-- Returns how many members were actually added
+CREATE OR REPLACE FUNCTION public.add_conversation_members(
+  p_conversation_id uuid,
+  p_user_ids uuid[]
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_added integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM conversations WHERE id = p_conversation_id AND is_group
+  ) OR NOT public.is_conversation_admin(p_conversation_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only group admins can add members' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO conversation_participants (conversation_id, user_id, added_by)
+  SELECT p_conversation_id, p.id, auth.uid()
+  FROM profiles p
+  WHERE p.id = ANY(p_user_ids)
+  ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+  GET DIAGNOSTICS v_added = ROW_COUNT;
+  RETURN v_added;
+END;
+$$;
+
+-- Admins can remove anyone; every member can remove themselves (leave)
+CREATE OR REPLACE FUNCTION public.remove_conversation_member(
+  p_conversation_id uuid,
+  p_user_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM conversations WHERE id = p_conversation_id AND is_group
+  ) OR NOT (
+    p_user_id = auth.uid()
+    OR public.is_conversation_admin(p_conversation_id, auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Only group admins can remove members' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  DELETE FROM conversation_participants
+  WHERE conversation_id = p_conversation_id
+    AND user_id = p_user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.rename_group_conversation(
+  p_conversation_id uuid,
+  p_title text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_conversation_admin(p_conversation_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only group admins can rename the group' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE conversations
+  SET title = btrim(p_title)
+  WHERE id = p_conversation_id
+    AND is_group;
+END;
+$$;
+
+-- Group read receipts; direct chats still set messages.read_at
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(p_conversation_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE conversation_participants
+  SET last_read_at = now()
+  WHERE conversation_id = p_conversation_id
+    AND user_id = auth.uid();
+$$;
+
+-- ============================================================================
+-- UNREAD COUNTS
+-- ============================================================================
+
+-- Column type changes (SUM -> COUNT), so the views are recreated
+DROP VIEW IF EXISTS public.user_unread_counts CASCADE;
+
+CREATE VIEW public.user_unread_counts AS
+SELECT
+  cp.user_id,
+  COUNT(m.id) AS unread_count
+FROM conversation_participants cp
+INNER JOIN conversations c ON c.id = cp.conversation_id
+INNER JOIN messages m ON m.conversation_id = cp.conversation_id
+WHERE m.sender_id != cp.user_id
+  AND CASE
+    WHEN c.is_group THEN m.sent_at > COALESCE(cp.last_read_at, cp.joined_at)
+    ELSE m.read_at IS NULL
+  END
+GROUP BY cp.user_id;
+
+CREATE VIEW public.user_unread_counts_secure AS
+SELECT user_id, unread_count
+FROM user_unread_counts
+WHERE user_id = auth.uid();
+
+GRANT SELECT ON user_unread_counts TO authenticated;
+GRANT SELECT ON user_unread_counts_secure TO authenticated;
+
+COMMENT ON VIEW user_unread_counts IS
+  'Real-time unread message counts per user across direct and group conversations';
+COMMENT ON VIEW user_unread_counts_secure IS
+  'RLS-protected view of unread counts for current user only';
+
+-- ============================================================================
+-- CONVERSATION LIST
+-- ============================================================================
+
+-- Return shape changes, so drop first
+DROP FUNCTION IF EXISTS public.get_user_conversations(uuid, int);
+
+CREATE OR REPLACE FUNCTION public.get_user_conversations(
+  p_user_id uuid,
+  p_limit int DEFAULT 50
+)
+RETURNS TABLE (
+  conversation_id uuid,
+  other_participant_id uuid,
+  other_participant_name text,
+  other_participant_username text,
+  other_participant_avatar text,
+  other_participant_role text,
+  last_message_content text,
+  last_message_sent_at timestamptz,
+  last_message_sender_id uuid,
+  unread_count bigint,
+  conversation_created_at timestamptz,
+  conversation_updated_at timestamptz,
+  conversation_last_message_at timestamptz,
+  is_group boolean,
+  conversation_title text,
+  member_count integer,
+  last_message_sender_name text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Users can only list their own conversations'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  WITH user_conversations AS (
+    SELECT
+      c.id AS conv_id,
+      c.is_group AS conv_is_group,
+      c.title AS conv_title,
+      CASE
+        WHEN c.is_group THEN NULL
+        WHEN c.participant_one_id = p_user_id THEN c.participant_two_id
+        ELSE c.participant_one_id
+      END AS other_user_id,
+      cp.joined_at,
+      cp.last_read_at,
+      c.created_at,
+      c.updated_at,
+      c.last_message_at
+    FROM conversation_participants cp
+    INNER JOIN conversations c ON c.id = cp.conversation_id
+    WHERE cp.user_id = p_user_id
+    ORDER BY c.last_message_at DESC NULLS LAST
+    LIMIT p_limit
+  ),
+  last_messages AS (
+    SELECT DISTINCT ON (m.conversation_id)
+      m.conversation_id,
+      m.content,
+      m.sent_at,
+      m.sender_id
+    FROM messages m
+    INNER JOIN user_conversations uc ON uc.conv_id = m.conversation_id
+    ORDER BY m.conversation_id, m.sent_at DESC
+  ),
+  unread_counts AS (
+    SELECT
+      m.conversation_id,
+      COUNT(*) AS unread_count
+    FROM messages m
+    INNER JOIN user_conversations uc ON uc.conv_id = m.conversation_id
+    WHERE m.sender_id != p_user_id
+      AND CASE
+        WHEN uc.conv_is_group THEN m.sent_at > COALESCE(uc.last_read_at, uc.joined_at)
+        ELSE m.read_at IS NULL
+      END
+    GROUP BY m.conversation_id
+  ),
+  member_counts AS (
+    SELECT
+      cp.conversation_id,
+      COUNT(*)::int AS member_count
+    FROM conversation_participants cp
+    INNER JOIN user_conversations uc ON uc.conv_id = cp.conversation_id
+    GROUP BY cp.conversation_id
+  )
+  SELECT
+    uc.conv_id,
+    uc.other_user_id,
+    p.full_name,
+    p.username,
+    p.avatar_url,
+    p.role::text,
+    lm.content,
+    lm.sent_at,
+    lm.sender_id,
+    COALESCE(ur.unread_count, 0),
+    uc.created_at,
+    uc.updated_at,
+    uc.last_message_at,
+    uc.conv_is_group,
+    uc.conv_title,
+    COALESCE(mc.member_count, 0),
+    sender.full_name
+  FROM user_conversations uc
+  LEFT JOIN profiles p ON p.id = uc.other_user_id
+  LEFT JOIN last_messages lm ON lm.conversation_id = uc.conv_id
+  LEFT JOIN profiles sender ON sender.id = lm.sender_id
+  LEFT JOIN unread_counts ur ON ur.conversation_id = uc.conv_id
+  LEFT JOIN member_counts mc ON mc.conversation_id = uc.conv_id
+  ORDER BY uc.last_message_at DESC NULLS LAST;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_user_conversations(uuid, int) TO authenticated;
+
+COMMENT ON FUNCTION public.get_user_conversations IS
+  'Fetches the conversation list (direct and group) with profiles, last messages, member counts and unread counts in a single query.';
+
+-- ============================================================================
+-- PRESENCE
+-- ============================================================================
+
+-- Anyone the caller shares a conversation with, direct or group
+CREATE OR REPLACE FUNCTION public.get_last_seen(p_user_ids uuid[])
+RETURNS TABLE (
+  user_id uuid,
+  last_seen_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT up.user_id, up.last_seen_at
+  FROM user_presence up
+  WHERE up.user_id = ANY(p_user_ids)
+    AND up.hide_presence = false
+    AND up.last_seen_at IS NOT NULL
+    AND EXISTS (
+      SELECT 1
+      FROM conversation_participants mine
+      INNER JOIN conversation_participants theirs
+        ON theirs.conversation_id = mine.conversation_id
+      WHERE mine.user_id = auth.uid()
+        AND theirs.user_id = up.user_id
+    );
+$$;
+
+-- ============================================================================
+-- NOTIFICATIONS
+-- ============================================================================
+
+-- One notification per recipient, collapsed per conversation while unread
+CREATE OR REPLACE FUNCTION public.notify_new_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_recipient_id uuid;
+  v_sender_name text;
+  v_group_title text;
+  v_preview text;
+  v_title text;
+BEGIN
+  SELECT CASE WHEN is_group THEN title END INTO v_group_title
+  FROM conversations
+  WHERE id = NEW.conversation_id;
+
+  SELECT COALESCE(NULLIF(btrim(full_name), ''), 'PLAYR member') INTO v_sender_name
+  FROM profiles
+  WHERE id = NEW.sender_id;
+
+  v_sender_name := COALESCE(v_sender_name, 'PLAYR member');
+  v_preview := message_preview(NEW.content, NEW.attachments, 140);
+
+  IF v_group_title IS NOT NULL THEN
+    v_title := format('New message in %s', v_group_title);
+    v_preview := format('%s: %s', v_sender_name, v_preview);
+  ELSE
+    v_title := format('New message from %s', v_sender_name);
+  END IF;
+
+  FOR v_recipient_id IN
+    SELECT user_id
+    FROM conversation_participants
+    WHERE conversation_id = NEW.conversation_id
+      AND user_id <> NEW.sender_id
+  LOOP
+    UPDATE notifications
+    SET title = v_title,
+        body = v_preview,
+        created_at = now(),
+        data = data || jsonb_build_object(
+          'message_id', NEW.id,
+          'sender_id', NEW.sender_id,
+          'message_count', COALESCE((data->>'message_count')::int, 1) + 1
+        )
+    WHERE user_id = v_recipient_id
+      AND type = 'new_message'
+      AND read_at IS NULL
+      AND data->>'conversation_id' = NEW.conversation_id::text;
+
+    IF NOT FOUND THEN
+      PERFORM create_notification(
+        v_recipient_id,
+        'new_message',
+        v_title,
+        v_preview,
+        format('/messages?conversation=%s', NEW.conversation_id),
+        jsonb_build_object(
+          'conversation_id', NEW.conversation_id,
+          'message_id', NEW.id,
+          'sender_id', NEW.sender_id,
+          'message_count', 1
+        )
+      );
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enqueue_message_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_recipient_id uuid;
+  v_sender_name text;
+  v_group_title text;
+  v_send_after timestamptz;
+BEGIN
+  SELECT CASE WHEN is_group THEN title END INTO v_group_title
+  FROM conversations
+  WHERE id = NEW.conversation_id;
+
+  SELECT full_name INTO v_sender_name
+  FROM profiles
+  WHERE id = NEW.sender_id;
+
+  FOR v_recipient_id IN
+    SELECT user_id
+    FROM conversation_participants
+    WHERE conversation_id = NEW.conversation_id
+      AND user_id <> NEW.sender_id
+  LOOP
+    v_send_after := NULL;
+
+    SELECT min(send_after) INTO v_send_after
+    FROM email_outbox
+    WHERE user_id = v_recipient_id
+      AND type = 'new_message'
+      AND status = 'pending';
+
+    IF v_send_after IS NULL THEN
+      SELECT now() + CASE WHEN message_digest_interval = 'daily' THEN interval '24 hours' ELSE interval '1 hour' END
+      INTO v_send_after
+      FROM notification_preferences
+      WHERE user_id = v_recipient_id;
+
+      v_send_after := COALESCE(v_send_after, now() + interval '1 hour');
+    END IF;
+
+    PERFORM enqueue_email(
+      v_recipient_id,
+      'new_message',
+      jsonb_build_object(
+        'message_id', NEW.id,
+        'conversation_id', NEW.conversation_id,
+        'conversation_title', v_group_title,
+        'sender_id', NEW.sender_id,
+        'sender_name', v_sender_name,
+        'preview', message_preview(NEW.content, NEW.attachments, 280),
+        'sent_at', NEW.sent_at
+      ),
+      v_send_after
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Which (recipient, message) pairs are still unread; used by the email worker
+-- to drop digests for messages read in the meantime
+CREATE OR REPLACE FUNCTION public.get_unread_message_recipients(
+  p_user_ids uuid[],
+  p_message_ids uuid[]
+)
+RETURNS TABLE (
+  user_id uuid,
+  message_id uuid
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT pair.user_id, pair.message_id
+  FROM unnest(p_user_ids, p_message_ids) AS pair(user_id, message_id)
+  INNER JOIN messages m ON m.id = pair.message_id
+  INNER JOIN conversations c ON c.id = m.conversation_id
+  INNER JOIN conversation_participants cp
+    ON cp.conversation_id = m.conversation_id
+   AND cp.user_id = pair.user_id
+  WHERE CASE
+    WHEN c.is_group THEN m.sent_at > COALESCE(cp.last_read_at, cp.joined_at)
+    ELSE m.read_at IS NULL
+  END;
+$$;
+
+-- ============================================================================
+-- REALTIME
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = 'conversation_participants'
+    ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.conversation_participants;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- GRANTS
+-- ============================================================================
+
+GRANT SELECT ON public.conversation_participants TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_conversation_admin(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.create_group_conversation(text, uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.add_conversation_members(uuid, uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.remove_conversation_member(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rename_group_conversation(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_conversation_read(uuid) TO authenticated;
+
+REVOKE ALL ON FUNCTION public.get_unread_message_recipients FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_unread_message_recipients TO service_role;
+
+COMMENT ON TABLE public.conversation_participants IS
+  'Members of every conversation; the only membership source for group chats';
+COMMENT ON COLUMN public.conversation_participants.last_read_at IS
+  'Group read marker: messages sent after this (or after joined_at) are unread';
+COMMENT ON FUNCTION public.user_in_conversation IS
+  'True when the user is a member of the conversation. Used by messages and attachment storage RLS.';
+COMMENT ON FUNCTION public.create_group_conversation IS
+  'Creates a named group chat with the caller as admin and returns its id';
@@ -0,0 +1,428 @@
+-- Message editing, deletion and reactions
+-- Senders can edit a message's text within 15 minutes (marked with edited_at)
+-- and soft-delete their own messages, which clears the content but keeps the
+-- row so conversations keep their shape. Reactions live in message_reactions;
+-- a trigger mirrors them into messages.reactions so every change reaches
+-- clients through the existing UPDATE events on messages.
+--
+-- Deleted messages never count as unread, and their text is scrubbed from
+-- notifications and queued emails. Edits or reactions leave read state
+-- untouched.
+
+-- ============================================================================
+-- MESSAGES
+-- ============================================================================
+
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS edited_at timestamptz,
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz,
+  ADD COLUMN IF NOT EXISTS reactions jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+-- Deleted messages have no content or attachments
+ALTER TABLE public.messages
+DROP CONSTRAINT IF EXISTS content_length;
+
+ALTER TABLE public.messages
+ADD CONSTRAINT content_length
+CHECK (
+  char_length(content) <= 1000
+  AND (
+    char_length(content) > 0
+    OR jsonb_array_length(attachments) > 0
+    OR deleted_at IS NOT NULL
+  )
+);
+
+COMMENT ON COLUMN public.messages.edited_at IS 'Set when the sender last changed the text (NULL = never edited)';
+COMMENT ON COLUMN public.messages.deleted_at IS 'Soft delete marker; content and attachments are cleared';
+COMMENT ON COLUMN public.messages.reactions IS
+  'Reaction summary {emoji: [user_id, ...]} maintained from message_reactions';
+
+-- Senders may change their own messages; the guard below decides what changes
+DROP POLICY IF EXISTS "Senders can edit their own messages" ON public.messages;
+CREATE POLICY "Senders can edit their own messages"
+  ON public.messages
+  FOR UPDATE
+  USING (
+    sender_id = auth.uid()
+    AND public.user_in_conversation(conversation_id, auth.uid())
+  )
+  WITH CHECK (
+    sender_id = auth.uid()
+    AND public.user_in_conversation(conversation_id, auth.uid())
+  );
+
+-- Edits: text only, by the sender, within the edit window.
+-- Deletes: by the sender, any time; content and attachments are cleared.
+-- Recipients can still only set read_at.
+CREATE OR REPLACE FUNCTION public.guard_message_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Only sync_message_reactions (running as a nested trigger) writes this
+  IF NEW.reactions IS DISTINCT FROM OLD.reactions AND pg_trigger_depth() < 2 THEN
+    RAISE EXCEPTION 'Reactions are changed through message_reactions'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.sender_id IS DISTINCT FROM OLD.sender_id
+    OR NEW.conversation_id IS DISTINCT FROM OLD.conversation_id
+    OR NEW.sent_at IS DISTINCT FROM OLD.sent_at THEN
+    RAISE EXCEPTION 'Message sender, conversation and time cannot be changed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.content IS NOT DISTINCT FROM OLD.content
+    AND NEW.attachments IS NOT DISTINCT FROM OLD.attachments
+    AND NEW.edited_at IS NOT DISTINCT FROM OLD.edited_at
+    AND NEW.deleted_at IS NOT DISTINCT FROM OLD.deleted_at THEN
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM OLD.sender_id THEN
+    RAISE EXCEPTION 'Only the sender can change a message'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted messages cannot be changed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    NEW.deleted_at := now();
+    NEW.content := '';
+    NEW.attachments := '[]'::jsonb;
+    NEW.edited_at := OLD.edited_at;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.attachments IS DISTINCT FROM OLD.attachments THEN
+    RAISE EXCEPTION 'Attachments cannot be edited'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.content IS NOT DISTINCT FROM OLD.content THEN
+    NEW.edited_at := OLD.edited_at;
+    RETURN NEW;
+  END IF;
+
+  IF now() - OLD.sent_at > interval '15 minutes' THEN
+    RAISE EXCEPTION 'Messages can only be edited within 15 minutes of sending'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.edited_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_message_changes ON public.messages;
+CREATE TRIGGER guard_message_changes
+  BEFORE UPDATE ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_message_changes();
+
+-- A deleted message's text must not live on elsewhere: unsent message emails
+-- are dropped, and notifications and sent emails showing it are scrubbed
+CREATE OR REPLACE FUNCTION public.scrub_deleted_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.deleted_at IS NULL OR OLD.deleted_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  DELETE FROM email_outbox
+  WHERE type = 'new_message'
+    AND status = 'pending'
+    AND payload->>'message_id' = NEW.id::text;
+
+  UPDATE email_outbox
+  SET payload = payload || jsonb_build_object('preview', 'Message deleted')
+  WHERE type = 'new_message'
+    AND payload->>'message_id' = NEW.id::text;
+
+  -- Notifications are collapsed per conversation and show the latest message
+  DELETE FROM notifications
+  WHERE type = 'new_message'
+    AND data->>'message_id' = NEW.id::text
+    AND COALESCE((data->>'message_count')::int, 1) <= 1;
+
+  UPDATE notifications
+  SET body = 'Message deleted'
+  WHERE type = 'new_message'
+    AND data->>'message_id' = NEW.id::text;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS scrub_deleted_message ON public.messages;
+CREATE TRIGGER scrub_deleted_message
+  AFTER UPDATE OF deleted_at ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.scrub_deleted_message();
+
+-- ============================================================================
+-- REACTIONS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.message_reactions (
+  message_id uuid NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  emoji text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (message_id, user_id, emoji),
+  CONSTRAINT message_reaction_emoji CHECK (char_length(emoji) BETWEEN 1 AND 16)
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_reactions_user
+  ON public.message_reactions(user_id);
+
+ALTER TABLE public.message_reactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Participants can view reactions" ON public.message_reactions;
+CREATE POLICY "Participants can view reactions"
+  ON public.message_reactions
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.messages m
+      WHERE m.id = message_reactions.message_id
+        AND public.user_in_conversation(m.conversation_id, auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Participants can react to messages" ON public.message_reactions;
+CREATE POLICY "Participants can react to messages"
+  ON public.message_reactions
+  FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.messages m
+      WHERE m.id = message_reactions.message_id
+        AND m.deleted_at IS NULL
+        AND public.user_in_conversation(m.conversation_id, auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can remove their own reactions" ON public.message_reactions;
+CREATE POLICY "Users can remove their own reactions"
+  ON public.message_reactions
+  FOR DELETE
+  USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION public.sync_message_reactions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_message_id uuid := COALESCE(NEW.message_id, OLD.message_id);
+BEGIN
+  UPDATE messages
+  SET reactions = COALESCE((
+    SELECT jsonb_object_agg(grouped.emoji, grouped.user_ids)
+    FROM (
+      SELECT emoji, jsonb_agg(user_id ORDER BY created_at) AS user_ids
+      FROM message_reactions
+      WHERE message_id = v_message_id
+      GROUP BY emoji
+    ) grouped
+  ), '{}'::jsonb)
+  WHERE id = v_message_id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_message_reactions ON public.message_reactions;
+CREATE TRIGGER sync_message_reactions
+  AFTER INSERT OR DELETE ON public.message_reactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_message_reactions();
+
+GRANT SELECT, INSERT, DELETE ON public.message_reactions TO authenticated;
+
+COMMENT ON TABLE public.message_reactions IS 'Emoji reactions on messages, one row per user and emoji';
+
+-- ============================================================================
+-- UNREAD COUNTS
+-- ============================================================================
+
+CREATE OR REPLACE VIEW public.user_unread_counts AS
+SELECT
+  cp.user_id,
+  COUNT(m.id) AS unread_count
+FROM conversation_participants cp
+INNER JOIN conversations c ON c.id = cp.conversation_id
+INNER JOIN messages m ON m.conversation_id = cp.conversation_id
+WHERE m.sender_id != cp.user_id
+  AND m.deleted_at IS NULL
+  AND CASE
+    WHEN c.is_group THEN m.sent_at > COALESCE(cp.last_read_at, cp.joined_at)
+    ELSE m.read_at IS NULL
+  END
+GROUP BY cp.user_id;
+
+-- ============================================================================
+-- CONVERSATION LIST
+-- ============================================================================
+
+-- Deleted last messages show as 'Message deleted'
+CREATE OR REPLACE FUNCTION public.get_user_conversations(
+  p_user_id uuid,
+  p_limit int DEFAULT 50
+)
+RETURNS TABLE (
+  conversation_id uuid,
+  other_participant_id uuid,
+  other_participant_name text,
+  other_participant_username text,
+  other_participant_avatar text,
+  other_participant_role text,
+  last_message_content text,
+  last_message_sent_at timestamptz,
+  last_message_sender_id uuid,
+  unread_count bigint,
+  conversation_created_at timestamptz,
+  conversation_updated_at timestamptz,
+  conversation_last_message_at timestamptz,
+  is_group boolean,
+  conversation_title text,
+  member_count integer,
+  last_message_sender_name text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Users can only list their own conversations'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  WITH user_conversations AS (
+    SELECT
+      c.id AS conv_id,
+      c.is_group AS conv_is_group,
+      c.title AS conv_title,
+      CASE
+        WHEN c.is_group THEN NULL
+        WHEN c.participant_one_id = p_user_id THEN c.participant_two_id
+        ELSE c.participant_one_id
+      END AS other_user_id,
+      cp.joined_at,
+      cp.last_read_at,
+      c.created_at,
+      c.updated_at,
+      c.last_message_at
+    FROM conversation_participants cp
+    INNER JOIN conversations c ON c.id = cp.conversation_id
+    WHERE cp.user_id = p_user_id
+    ORDER BY c.last_message_at DESC NULLS LAST
+    LIMIT p_limit
+  ),
+  last_messages AS (
+    SELECT DISTINCT ON (m.conversation_id)
+      m.conversation_id,
+      CASE WHEN m.deleted_at IS NOT NULL THEN 'Message deleted' ELSE m.content END AS content,
+      m.sent_at,
+      m.sender_id
+    FROM messages m
+    INNER JOIN user_conversations uc ON uc.conv_id = m.conversation_id
+    ORDER BY m.conversation_id, m.sent_at DESC
+  ),
+  unread_counts AS (
+    SELECT
+      m.conversation_id,
+      COUNT(*) AS unread_count
+    FROM messages m
+    INNER JOIN user_conversations uc ON uc.conv_id = m.conversation_id
+    WHERE m.sender_id != p_user_id
+      AND m.deleted_at IS NULL
+      AND CASE
+        WHEN uc.conv_is_group THEN m.sent_at > COALESCE(uc.last_read_at, uc.joined_at)
+        ELSE m.read_at IS NULL
+      END
+    GROUP BY m.conversation_id
+  ),
+  member_counts AS (
+    SELECT
+      cp.conversation_id,
+      COUNT(*)::int AS member_count
+    FROM conversation_participants cp
+    INNER JOIN user_conversations uc ON uc.conv_id = cp.conversation_id
+    GROUP BY cp.conversation_id
+  )
+  SELECT
+    uc.conv_id,
+    uc.other_user_id,
+    p.full_name,
+    p.username,
+    p.avatar_url,
+    p.role::text,
+    lm.content,
+    lm.sent_at,
+    lm.sender_id,
+    COALESCE(ur.unread_count, 0),
+    uc.created_at,
+    uc.updated_at,
+    uc.last_message_at,
+    uc.conv_is_group,
+    uc.conv_title,
+    COALESCE(mc.member_count, 0),
+    sender.full_name
+  FROM user_conversations uc
+  LEFT JOIN profiles p ON p.id = uc.other_user_id
+  LEFT JOIN last_messages lm ON lm.conversation_id = uc.conv_id
+  LEFT JOIN profiles sender ON sender.id = lm.sender_id
+  LEFT JOIN unread_counts ur ON ur.conversation_id = uc.conv_id
+  LEFT JOIN member_counts mc ON mc.conversation_id = uc.conv_id
+  ORDER BY uc.last_message_at DESC NULLS LAST;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_user_conversations(uuid, int) TO authenticated;
+
+-- ============================================================================
+-- EMAIL
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_unread_message_recipients(
+  p_user_ids uuid[],
+  p_message_ids uuid[]
+)
+RETURNS TABLE (
+  user_id uuid,
+  message_id uuid
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT pair.user_id, pair.message_id
+  FROM unnest(p_user_ids, p_message_ids) AS pair(user_id, message_id)
+  INNER JOIN messages m ON m.id = pair.message_id
+  INNER JOIN conversations c ON c.id = m.conversation_id
+  INNER JOIN conversation_participants cp
+    ON cp.conversation_id = m.conversation_id
+   AND cp.user_id = pair.user_id
+  WHERE m.deleted_at IS NULL
+    AND CASE
+      WHEN c.is_group THEN m.sent_at > COALESCE(cp.last_read_at, cp.joined_at)
+      ELSE m.read_at IS NULL
+    END;
+$$;
@@ -0,0 +1,503 @@
+-- Blocking and reporting users
+-- A block stops direct messages in both directions: neither side can start a
+-- conversation or send into an existing one, the blocker no longer sees the
+-- conversation and messages from blocked users stop counting as unread.
+-- Blocked pairs can't add each other to group chats.
+--
+-- Reports go into user_reports, which doubles as the moderation queue. They
+-- are filed through report_user so message excerpts are copied from the
+-- conversation rather than typed in by the reporter.
+
+-- ============================================================================
+-- BLOCKS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.user_blocks (
+  blocker_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  blocked_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (blocker_id, blocked_id),
+  CONSTRAINT user_blocks_not_self CHECK (blocker_id <> blocked_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_blocks_blocked
+  ON public.user_blocks(blocked_id);
+
+ALTER TABLE public.user_blocks ENABLE ROW LEVEL SECURITY;
+
+-- Blocks are private to the blocker
+DROP POLICY IF EXISTS "Users can view their blocks" ON public.user_blocks;
+CREATE POLICY "Users can view their blocks"
+  ON public.user_blocks
+  FOR SELECT
+  USING (blocker_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can block others" ON public.user_blocks;
+CREATE POLICY "Users can block others"
+  ON public.user_blocks
+  FOR INSERT
+  WITH CHECK (blocker_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can unblock others" ON public.user_blocks;
+CREATE POLICY "Users can unblock others"
+  ON public.user_blocks
+  FOR DELETE
+  USING (blocker_id = auth.uid());
+
+-- Whether the current user and p_user_id have blocked each other (either way).
+-- Internal to triggers: clients must not be able to ask whether someone has
+-- blocked them.
+CREATE OR REPLACE FUNCTION public.is_blocked_with(p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_blocks
+    WHERE (blocker_id = auth.uid() AND blocked_id = p_user_id)
+       OR (blocker_id = p_user_id AND blocked_id = auth.uid())
+  );
+$$;
+
+-- Whether the caller's direct conversation is between blocked users.
+-- Internal to triggers, and only answers for conversations the caller is in.
+CREATE OR REPLACE FUNCTION public.is_direct_conversation_blocked(p_conversation_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.user_in_conversation(p_conversation_id, auth.uid())
+    AND EXISTS (
+      SELECT 1
+      FROM conversations c
+      INNER JOIN user_blocks b
+        ON (b.blocker_id = c.participant_one_id AND b.blocked_id = c.participant_two_id)
+        OR (b.blocker_id = c.participant_two_id AND b.blocked_id = c.participant_one_id)
+      WHERE c.id = p_conversation_id
+        AND NOT c.is_group
+    );
+$$;
+
+-- Blocks are enforced by triggers rather than in the INSERT policies, which
+-- would need the helpers above to be executable by clients. Both raise the
+-- same insufficient_privilege error an RLS rejection does.
+CREATE OR REPLACE FUNCTION public.enforce_conversation_blocks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT NEW.is_group AND public.is_blocked_with(
+    CASE WHEN NEW.participant_one_id = auth.uid() THEN NEW.participant_two_id ELSE NEW.participant_one_id END
+  ) THEN
+    RAISE EXCEPTION 'You can''t message this member'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_conversation_blocks ON public.conversations;
+CREATE TRIGGER enforce_conversation_blocks
+  BEFORE INSERT ON public.conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_conversation_blocks();
+
+CREATE OR REPLACE FUNCTION public.enforce_message_blocks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.is_direct_conversation_blocked(NEW.conversation_id) THEN
+    RAISE EXCEPTION 'You can''t message this member'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_message_blocks ON public.messages;
+CREATE TRIGGER enforce_message_blocks
+  BEFORE INSERT ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_message_blocks();
+
+-- Group invites between blocked pairs are skipped rather than rejected, so
+-- the inviter can't tell who has blocked them
+CREATE OR REPLACE FUNCTION public.skip_blocked_group_members()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.added_by IS NULL OR NEW.added_by = NEW.user_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM user_blocks
+    WHERE (blocker_id = NEW.added_by AND blocked_id = NEW.user_id)
+       OR (blocker_id = NEW.user_id AND blocked_id = NEW.added_by)
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS skip_blocked_group_members ON public.conversation_participants;
+CREATE TRIGGER skip_blocked_group_members
+  BEFORE INSERT ON public.conversation_participants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.skip_blocked_group_members();
+
+-- ============================================================================
+-- REPORTS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.user_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  reporter_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  reported_user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  conversation_id uuid REFERENCES public.conversations(id) ON DELETE SET NULL,
+  reason text NOT NULL,
+  details text,
+  message_excerpts jsonb NOT NULL DEFAULT '[]'::jsonb,
+  status text NOT NULL DEFAULT 'pending',
+  reviewed_at timestamptz,
+  resolution_note text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT user_reports_not_self CHECK (reporter_id <> reported_user_id),
+  CONSTRAINT user_reports_reason CHECK (
+    reason IN ('spam', 'harassment', 'inappropriate', 'impersonation', 'scam', 'other')
+  ),
+  CONSTRAINT user_reports_details_length CHECK (details IS NULL OR char_length(details) <= 1000),
+  CONSTRAINT user_reports_status CHECK (status IN ('pending', 'reviewing', 'actioned', 'dismissed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_reports_queue
+  ON public.user_reports(status, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_user_reports_reported_user
+  ON public.user_reports(reported_user_id);
+
+CREATE INDEX IF NOT EXISTS idx_user_reports_reporter
+  ON public.user_reports(reporter_id, created_at DESC);
+
+ALTER TABLE public.user_reports ENABLE ROW LEVEL SECURITY;
+
+-- Reporters can see what they filed; moderators work from the service role
+DROP POLICY IF EXISTS "Reporters can view their reports" ON public.user_reports;
+CREATE POLICY "Reporters can view their reports"
+  ON public.user_reports
+  FOR SELECT
+  USING (reporter_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION public.report_user(
+  p_reported_user_id uuid,
+  p_reason text,
+  p_details text DEFAULT NULL,
+  p_conversation_id uuid DEFAULT NULL,
+  p_message_ids uuid[] DEFAULT '{}'
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_excerpts jsonb := '[]'::jsonb;
+  v_report_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_reported_user_id = v_user_id THEN
+    RAISE EXCEPTION 'You cannot report yourself' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = p_reported_user_id) THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM user_reports
+    WHERE reporter_id = v_user_id
+      AND created_at > now() - interval '1 day'
+  ) >= 20 THEN
+    RAISE EXCEPTION 'Too many reports today. Please try again later.'
+      USING ERRCODE = 'program_limit_exceeded';
+  END IF;
+
+  IF p_conversation_id IS NOT NULL
+    AND NOT public.user_in_conversation(p_conversation_id, v_user_id) THEN
+    RAISE EXCEPTION 'Conversation not found' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF COALESCE(array_length(p_message_ids, 1), 0) > 10 THEN
+    RAISE EXCEPTION 'Attach at most 10 messages' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Only messages the reported user sent in this conversation are copied
+  IF p_conversation_id IS NOT NULL AND COALESCE(array_length(p_message_ids, 1), 0) > 0 THEN
+    SELECT COALESCE(
+      jsonb_agg(
+        jsonb_build_object(
+          'message_id', m.id,
+          'content', m.content,
+          'attachment_count', jsonb_array_length(m.attachments),
+          'sent_at', m.sent_at
+        )
+        ORDER BY m.sent_at
+      ),
+      '[]'::jsonb
+    )
+    INTO v_excerpts
+    FROM messages m
+    WHERE m.id = ANY(p_message_ids)
+      AND m.conversation_id = p_conversation_id
+      AND m.sender_id = p_reported_user_id
+      AND m.deleted_at IS NULL;
+  END IF;
+
+  INSERT INTO user_reports (
+    reporter_id,
+    reported_user_id,
+    conversation_id,
+    reason,
+    details,
+    message_excerpts
+  )
+  VALUES (
+    v_user_id,
+    p_reported_user_id,
+    p_conversation_id,
+    p_reason,
+    NULLIF(btrim(p_details), ''),
+    v_excerpts
+  )
+  RETURNING id INTO v_report_id;
+
+  RETURN v_report_id;
+END;
+$$;
+
+-- Open reports, oldest first, with how often each user has been reported
+CREATE OR REPLACE VIEW public.moderation_queue AS
+SELECT
+  r.id AS report_id,
+  r.status,
+  r.reason,
+  r.details,
+  r.message_excerpts,
+  r.conversation_id,
+  r.created_at,
+  r.reporter_id,
+  reporter.full_name AS reporter_name,
+  r.reported_user_id,
+  reported.full_name AS reported_user_name,
+  reported.role AS reported_user_role,
+  (
+    SELECT COUNT(*)
+    FROM user_reports other
+    WHERE other.reported_user_id = r.reported_user_id
+      AND other.status IN ('pending', 'reviewing', 'actioned')
+  ) AS open_report_count
+FROM user_reports r
+INNER JOIN profiles reporter ON reporter.id = r.reporter_id
+INNER JOIN profiles reported ON reported.id = r.reported_user_id
+WHERE r.status IN ('pending', 'reviewing')
+ORDER BY r.created_at;
+
+-- ============================================================================
+-- UNREAD COUNTS
+-- ============================================================================
+
+-- Messages from blocked users don't count
+CREATE OR REPLACE VIEW public.user_unread_counts AS
+SELECT
+  cp.user_id,
+  COUNT(m.id) AS unread_count
+FROM conversation_participants cp
+INNER JOIN conversations c ON c.id = cp.conversation_id
+INNER JOIN messages m ON m.conversation_id = cp.conversation_id
+WHERE m.sender_id != cp.user_id
+  AND m.deleted_at IS NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM user_blocks b
+    WHERE b.blocker_id = cp.user_id
+      AND b.blocked_id = m.sender_id
+  )
+  AND CASE
+    WHEN c.is_group THEN m.sent_at > COALESCE(cp.last_read_at, cp.joined_at)
+    ELSE m.read_at IS NULL
+  END
+GROUP BY cp.user_id;
+
+-- ============================================================================
+-- CONVERSATION LIST
+-- ============================================================================
+
+-- Direct chats with blocked users are hidden from the blocker
+CREATE OR REPLACE FUNCTION public.get_user_conversations(
+  p_user_id uuid,
+  p_limit int DEFAULT 50
+)
+RETURNS TABLE (
+  conversation_id uuid,
+  other_participant_id uuid,
+  other_participant_name text,
+  other_participant_username text,
+  other_participant_avatar text,
+  other_participant_role text,
+  last_message_content text,
+  last_message_sent_at timestamptz,
+  last_message_sender_id uuid,
+  unread_count bigint,
+  conversation_created_at timestamptz,
+  conversation_updated_at timestamptz,
+  conversation_last_message_at timestamptz,
+  is_group boolean,
+  conversation_title text,
+  member_count integer,
+  last_message_sender_name text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Users can only list their own conversations'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  WITH user_conversations AS (
+    SELECT
+      c.id AS conv_id,
+      c.is_group AS conv_is_group,
+      c.title AS conv_title,
+      CASE
+        WHEN c.is_group THEN NULL
+        WHEN c.participant_one_id = p_user_id THEN c.participant_two_id
+        ELSE c.participant_one_id
+      END AS other_user_id,
+      cp.joined_at,
+      cp.last_read_at,
+      c.created_at,
+      c.updated_at,
+      c.last_message_at
+    FROM conversation_participants cp
+    INNER JOIN conversations c ON c.id = cp.conversation_id
+    WHERE cp.user_id = p_user_id
+      AND NOT EXISTS (
+        SELECT 1 FROM user_blocks b
+        WHERE b.blocker_id = p_user_id
+          AND b.blocked_id IN (c.participant_one_id, c.participant_two_id)
+          AND NOT c.is_group
+      )
+    ORDER BY c.last_message_at DESC NULLS LAST
+    LIMIT p_limit
+  ),
+  last_messages AS (
+    SELECT DISTINCT ON (m.conversation_id)
+      m.conversation_id,
+      CASE WHEN m.deleted_at IS NOT NULL THEN 'Message deleted' ELSE m.content END AS content,
+      m.sent_at,
+      m.sender_id
+    FROM messages m
+    INNER JOIN user_conversations uc ON uc.conv_id = m.conversation_id
+    ORDER BY m.conversation_id, m.sent_at DESC
+  ),
+  unread_counts AS (
+    SELECT
+      m.conversation_id,
+      COUNT(*) AS unread_count
+    FROM messages m
+    INNER JOIN user_conversations uc ON uc.conv_id = m.conversation_id
+    WHERE m.sender_id != p_user_id
+      AND m.deleted_at IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM user_blocks b
+        WHERE b.blocker_id = p_user_id
+          AND b.blocked_id = m.sender_id
+      )
+      AND CASE
+        WHEN uc.conv_is_group THEN m.sent_at > COALESCE(uc.last_read_at, uc.joined_at)
+        ELSE m.read_at IS NULL
+      END
+    GROUP BY m.conversation_id
+  ),
+  member_counts AS (
+    SELECT
+      cp.conversation_id,
+      COUNT(*)::int AS member_count
+    FROM conversation_participants cp
+    INNER JOIN user_conversations uc ON uc.conv_id = cp.conversation_id
+    GROUP BY cp.conversation_id
+  )
+  SELECT
+    uc.conv_id,
+    uc.other_user_id,
+    p.full_name,
+    p.username,
+    p.avatar_url,
+    p.role::text,
+    lm.content,
+    lm.sent_at,
+    lm.sender_id,
+    COALESCE(ur.unread_count, 0),
+    uc.created_at,
+    uc.updated_at,
+    uc.last_message_at,
+    uc.conv_is_group,
+    uc.conv_title,
+    COALESCE(mc.member_count, 0),
+    sender.full_name
+  FROM user_conversations uc
+  LEFT JOIN profiles p ON p.id = uc.other_user_id
+  LEFT JOIN last_messages lm ON lm.conversation_id = uc.conv_id
+  LEFT JOIN profiles sender ON sender.id = lm.sender_id
+  LEFT JOIN unread_counts ur ON ur.conversation_id = uc.conv_id
+  LEFT JOIN member_counts mc ON mc.conversation_id = uc.conv_id
+  ORDER BY uc.last_message_at DESC NULLS LAST;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_user_conversations(uuid, int) TO authenticated;
+
+-- ============================================================================
+-- GRANTS
+-- ============================================================================
+
+GRANT SELECT, INSERT, DELETE ON public.user_blocks TO authenticated;
+GRANT SELECT ON public.user_reports TO authenticated;
+REVOKE ALL ON FUNCTION public.is_blocked_with(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.is_direct_conversation_blocked(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.report_user(uuid, text, text, uuid, uuid[]) TO authenticated;
+
+REVOKE ALL ON public.moderation_queue FROM PUBLIC, anon, authenticated;
+GRANT SELECT ON public.moderation_queue TO service_role;
+
+COMMENT ON TABLE public.user_blocks IS 'Users who have blocked each other; blocks direct messages in both directions';
+COMMENT ON TABLE public.user_reports IS 'Reports filed against users; open rows form the moderation queue';
+COMMENT ON COLUMN public.user_reports.message_excerpts IS
+  'Copies of reported messages taken when the report was filed [{message_id, content, attachment_count, sent_at}]';
+COMMENT ON FUNCTION public.report_user IS
+  'Files a report, copying up to 10 of the reported user''s messages from the given conversation';
+COMMENT ON VIEW public.moderation_queue IS 'Pending and in-review reports, oldest first (service role only)';
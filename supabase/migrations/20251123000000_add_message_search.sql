@@ -0,0 +1,129 @@
+-- Message search
+-- Full-text search over the messages a user can read, across all of their
+-- conversations, returning a highlighted snippet per hit so the client can
+-- jump straight to the message.
+--
+-- Uses the 'simple' config and prefix matching from profile_search_query, so
+-- partial words and names match the same way they do in Community search.
+
+-- ============================================================================
+-- INDEX
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_messages_content_search
+ON public.messages
+USING gin (to_tsvector('simple', content))
+WHERE deleted_at IS NULL;
+
+-- ============================================================================
+-- SEARCH
+-- ============================================================================
+
+-- Newest matches first, ranked within the same day. Snippets wrap matched
+-- terms in <mark></mark>; the client renders them as text, never as HTML.
+-- Direct chats hidden by a block are left out, as in get_user_conversations.
+CREATE OR REPLACE FUNCTION public.search_messages(
+  p_query text,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  message_id uuid,
+  conversation_id uuid,
+  sender_id uuid,
+  sender_name text,
+  sent_at timestamptz,
+  snippet text,
+  rank real,
+  is_group boolean,
+  conversation_title text,
+  other_participant_id uuid,
+  other_participant_name text,
+  other_participant_avatar text,
+  other_participant_role text,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_query tsquery := public.profile_search_query(p_query);
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_query IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH matched AS (
+    SELECT
+      m.id,
+      m.conversation_id,
+      m.sender_id,
+      m.sent_at,
+      m.content,
+      ts_rank_cd(to_tsvector('simple', m.content), v_query) AS search_rank,
+      c.is_group,
+      c.title,
+      CASE
+        WHEN c.is_group THEN NULL
+        WHEN c.participant_one_id = v_user_id THEN c.participant_two_id
+        ELSE c.participant_one_id
+      END AS other_user_id
+    FROM conversation_participants cp
+    INNER JOIN conversations c ON c.id = cp.conversation_id
+    INNER JOIN messages m ON m.conversation_id = cp.conversation_id
+    WHERE cp.user_id = v_user_id
+      AND m.deleted_at IS NULL
+      AND to_tsvector('simple', m.content) @@ v_query
+      AND NOT EXISTS (
+        SELECT 1 FROM user_blocks b
+        WHERE b.blocker_id = v_user_id
+          AND b.blocked_id IN (c.participant_one_id, c.participant_two_id)
+          AND NOT c.is_group
+      )
+  ),
+  counted AS (
+    SELECT matched.*, COUNT(*) OVER () AS total
+    FROM matched
+    ORDER BY date_trunc('day', matched.sent_at) DESC, matched.search_rank DESC, matched.sent_at DESC
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 50)
+    OFFSET GREATEST(COALESCE(p_offset, 0), 0)
+  )
+  SELECT
+    counted.id,
+    counted.conversation_id,
+    counted.sender_id,
+    sender.full_name,
+    counted.sent_at,
+    ts_headline(
+      'simple',
+      counted.content,
+      v_query,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=24, MinWords=8, ShortWord=2, MaxFragments=1'
+    ),
+    counted.search_rank,
+    counted.is_group,
+    counted.title,
+    counted.other_user_id,
+    other.full_name,
+    other.avatar_url,
+    other.role::text,
+    counted.total
+  FROM counted
+  LEFT JOIN profiles sender ON sender.id = counted.sender_id
+  LEFT JOIN profiles other ON other.id = counted.other_user_id
+  ORDER BY date_trunc('day', counted.sent_at) DESC, counted.search_rank DESC, counted.sent_at DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_messages(text, integer, integer) TO authenticated;
+
+COMMENT ON FUNCTION public.search_messages IS
+  'Full-text search over messages in the caller''s conversations, with highlighted snippets';
@@ -0,0 +1,58 @@
+-- Message delivery receipts
+-- Outgoing messages now move through sent -> delivered -> read. delivered_at
+-- is stamped the first time a recipient's client receives the message; read
+-- receipts keep using read_at (direct chats) and last_read_at (groups).
+
+-- ============================================================================
+-- COLUMN
+-- ============================================================================
+
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS delivered_at timestamptz;
+
+COMMENT ON COLUMN public.messages.delivered_at IS
+  'When a recipient''s client first received the message';
+
+CREATE INDEX IF NOT EXISTS idx_messages_undelivered
+  ON public.messages(conversation_id)
+  WHERE delivered_at IS NULL;
+
+-- ============================================================================
+-- MARK DELIVERED
+-- ============================================================================
+
+-- Called by the recipient's client on load and whenever a message arrives.
+-- Limits to one conversation when p_conversation_id is given.
+CREATE OR REPLACE FUNCTION public.mark_messages_delivered(p_conversation_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_count integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE messages m
+  SET delivered_at = now()
+  FROM conversation_participants cp
+  WHERE cp.user_id = v_user_id
+    AND cp.conversation_id = m.conversation_id
+    AND (p_conversation_id IS NULL OR m.conversation_id = p_conversation_id)
+    AND m.delivered_at IS NULL
+    AND m.sender_id <> v_user_id
+    AND m.deleted_at IS NULL;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.mark_messages_delivered(uuid) TO authenticated;
+
+COMMENT ON FUNCTION public.mark_messages_delivered IS
+  'Stamps delivered_at on messages the caller has received';
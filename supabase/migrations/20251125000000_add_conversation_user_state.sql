@@ -0,0 +1,423 @@
+-- Conversation organisation
+-- Each member can archive, pin, mute or mark a conversation as unread. The
+-- state lives on their conversation_participants row, so it goes away with
+-- their membership.
+--
+-- Muted conversations still show their unread count in the list, but leave
+-- the unread badge, the notification bell and unread email alone. A
+-- marked-unread conversation counts as one unread until it is opened again.
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+ALTER TABLE public.conversation_participants
+  ADD COLUMN IF NOT EXISTS archived_at timestamptz,
+  ADD COLUMN IF NOT EXISTS pinned_at timestamptz,
+  ADD COLUMN IF NOT EXISTS muted_at timestamptz,
+  ADD COLUMN IF NOT EXISTS marked_unread boolean NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.conversation_participants.archived_at IS
+  'Hidden from the member''s inbox until unarchived or a new message arrives';
+COMMENT ON COLUMN public.conversation_participants.pinned_at IS
+  'Pinned to the top of the member''s inbox';
+COMMENT ON COLUMN public.conversation_participants.muted_at IS
+  'Muted: excluded from the member''s unread badge and unread email';
+COMMENT ON COLUMN public.conversation_participants.marked_unread IS
+  'Marked as unread by the member; cleared when they read the conversation';
+
+-- ============================================================================
+-- UPDATE STATE
+-- ============================================================================
+
+-- Null arguments leave that part of the state unchanged
+CREATE OR REPLACE FUNCTION public.set_conversation_state(
+  p_conversation_id uuid,
+  p_archived boolean DEFAULT NULL,
+  p_pinned boolean DEFAULT NULL,
+  p_muted boolean DEFAULT NULL,
+  p_marked_unread boolean DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE conversation_participants
+  SET
+    archived_at = CASE
+      WHEN p_archived IS NULL THEN archived_at
+      WHEN p_archived THEN COALESCE(archived_at, now())
+      ELSE NULL
+    END,
+    pinned_at = CASE
+      WHEN p_pinned IS NULL THEN pinned_at
+      WHEN p_pinned THEN COALESCE(pinned_at, now())
+      ELSE NULL
+    END,
+    muted_at = CASE
+      WHEN p_muted IS NULL THEN muted_at
+      WHEN p_muted THEN COALESCE(muted_at, now())
+      ELSE NULL
+    END,
+    marked_unread = COALESCE(p_marked_unread, marked_unread)
+  WHERE conversation_id = p_conversation_id
+    AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not a member of this conversation' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+END;
+$$;
+
+-- Reading a group conversation also clears marked-unread
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(p_conversation_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE conversation_participants
+  SET last_read_at = now(),
+      marked_unread = false
+  WHERE conversation_id = p_conversation_id
+    AND user_id = auth.uid();
+$$;
+
+-- A new message brings an archived conversation back to the inbox, unless
+-- the member muted it
+CREATE OR REPLACE FUNCTION public.unarchive_on_new_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE conversation_participants
+  SET archived_at = NULL
+  WHERE conversation_id = NEW.conversation_id
+    AND user_id <> NEW.sender_id
+    AND archived_at IS NOT NULL
+    AND muted_at IS NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS unarchive_on_new_message ON public.messages;
+CREATE TRIGGER unarchive_on_new_message
+  AFTER INSERT ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.unarchive_on_new_message();
+
+-- ============================================================================
+-- UNREAD COUNTS
+-- ============================================================================
+
+-- Muted conversations are left out; marked-unread ones count as one when
+-- they have no unread messages of their own
+CREATE OR REPLACE VIEW public.user_unread_counts AS
+SELECT
+  cp.user_id,
+  SUM(
+    CASE
+      WHEN unread.message_count > 0 THEN unread.message_count
+      WHEN cp.marked_unread THEN 1
+      ELSE 0
+    END
+  )::bigint AS unread_count
+FROM conversation_participants cp
+INNER JOIN conversations c ON c.id = cp.conversation_id
+CROSS JOIN LATERAL (
+  SELECT COUNT(m.id) AS message_count
+  FROM messages m
+  WHERE m.conversation_id = cp.conversation_id
+    AND m.sender_id != cp.user_id
+    AND m.deleted_at IS NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM user_blocks b
+      WHERE b.blocker_id = cp.user_id
+        AND b.blocked_id = m.sender_id
+    )
+    AND CASE
+      WHEN c.is_group THEN m.sent_at > COALESCE(cp.last_read_at, cp.joined_at)
+      ELSE m.read_at IS NULL
+    END
+) unread
+WHERE cp.muted_at IS NULL
+GROUP BY cp.user_id;
+
+-- ============================================================================
+-- CONVERSATION LIST
+-- ============================================================================
+
+-- Return type gains the member's state, so the function is recreated.
+-- Pinned conversations come first, most recently pinned on top.
+DROP FUNCTION IF EXISTS public.get_user_conversations(uuid, int);
+
+CREATE OR REPLACE FUNCTION public.get_user_conversations(
+  p_user_id uuid,
+  p_limit int DEFAULT 50
+)
+RETURNS TABLE (
+  conversation_id uuid,
+  other_participant_id uuid,
+  other_participant_name text,
+  other_participant_username text,
+  other_participant_avatar text,
+  other_participant_role text,
+  last_message_content text,
+  last_message_sent_at timestamptz,
+  last_message_sender_id uuid,
+  unread_count bigint,
+  conversation_created_at timestamptz,
+  conversation_updated_at timestamptz,
+  conversation_last_message_at timestamptz,
+  is_group boolean,
+  conversation_title text,
+  member_count integer,
+  last_message_sender_name text,
+  is_archived boolean,
+  is_pinned boolean,
+  is_muted boolean,
+  is_marked_unread boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Users can only list their own conversations'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  WITH user_conversations AS (
+    SELECT
+      c.id AS conv_id,
+      c.is_group AS conv_is_group,
+      c.title AS conv_title,
+      CASE
+        WHEN c.is_group THEN NULL
+        WHEN c.participant_one_id = p_user_id THEN c.participant_two_id
+        ELSE c.participant_one_id
+      END AS other_user_id,
+      cp.joined_at,
+      cp.last_read_at,
+      cp.archived_at,
+      cp.pinned_at,
+      cp.muted_at,
+      cp.marked_unread,
+      c.created_at,
+      c.updated_at,
+      c.last_message_at
+    FROM conversation_participants cp
+    INNER JOIN conversations c ON c.id = cp.conversation_id
+    WHERE cp.user_id = p_user_id
+      AND NOT EXISTS (
+        SELECT 1 FROM user_blocks b
+        WHERE b.blocker_id = p_user_id
+          AND b.blocked_id IN (c.participant_one_id, c.participant_two_id)
+          AND NOT c.is_group
+      )
+    ORDER BY cp.pinned_at DESC NULLS LAST, c.last_message_at DESC NULLS LAST
+    LIMIT p_limit
+  ),
+  last_messages AS (
+    SELECT DISTINCT ON (m.conversation_id)
+      m.conversation_id,
+      CASE WHEN m.deleted_at IS NOT NULL THEN 'Message deleted' ELSE m.content END AS content,
+      m.sent_at,
+      m.sender_id
+    FROM messages m
+    INNER JOIN user_conversations uc ON uc.conv_id = m.conversation_id
+    ORDER BY m.conversation_id, m.sent_at DESC
+  ),
+  unread_counts AS (
+    SELECT
+      m.conversation_id,
+      COUNT(*) AS unread_count
+    FROM messages m
+    INNER JOIN user_conversations uc ON uc.conv_id = m.conversation_id
+    WHERE m.sender_id != p_user_id
+      AND m.deleted_at IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM user_blocks b
+        WHERE b.blocker_id = p_user_id
+          AND b.blocked_id = m.sender_id
+      )
+      AND CASE
+        WHEN uc.conv_is_group THEN m.sent_at > COALESCE(uc.last_read_at, uc.joined_at)
+        ELSE m.read_at IS NULL
+      END
+    GROUP BY m.conversation_id
+  ),
+  member_counts AS (
+    SELECT
+      cp.conversation_id,
+      COUNT(*)::int AS member_count
+    FROM conversation_participants cp
+    INNER JOIN user_conversations uc ON uc.conv_id = cp.conversation_id
+    GROUP BY cp.conversation_id
+  )
+  SELECT
+    uc.conv_id,
+    uc.other_user_id,
+    p.full_name,
+    p.username,
+    p.avatar_url,
+    p.role::text,
+    lm.content,
+    lm.sent_at,
+    lm.sender_id,
+    COALESCE(ur.unread_count, 0),
+    uc.created_at,
+    uc.updated_at,
+    uc.last_message_at,
+    uc.conv_is_group,
+    uc.conv_title,
+    COALESCE(mc.member_count, 0),
+    sender.full_name,
+    uc.archived_at IS NOT NULL,
+    uc.pinned_at IS NOT NULL,
+    uc.muted_at IS NOT NULL,
+    uc.marked_unread
+  FROM user_conversations uc
+  LEFT JOIN profiles p ON p.id = uc.other_user_id
+  LEFT JOIN last_messages lm ON lm.conversation_id = uc.conv_id
+  LEFT JOIN profiles sender ON sender.id = lm.sender_id
+  LEFT JOIN unread_counts ur ON ur.conversation_id = uc.conv_id
+  LEFT JOIN member_counts mc ON mc.conversation_id = uc.conv_id
+  ORDER BY uc.pinned_at DESC NULLS LAST, uc.last_message_at DESC NULLS LAST;
+END;
+$$;
+
+-- ============================================================================
+-- NOTIFICATIONS
+-- ============================================================================
+
+-- Muted members get no "New message" notification
+CREATE OR REPLACE FUNCTION public.notify_new_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_recipient_id uuid;
+  v_sender_name text;
+  v_group_title text;
+  v_preview text;
+  v_title text;
+BEGIN
+  SELECT CASE WHEN is_group THEN title END INTO v_group_title
+  FROM conversations
+  WHERE id = NEW.conversation_id;
+
+  SELECT COALESCE(NULLIF(btrim(full_name), ''), 'PLAYR member') INTO v_sender_name
+  FROM profiles
+  WHERE id = NEW.sender_id;
+
+  v_sender_name := COALESCE(v_sender_name, 'PLAYR member');
+  v_preview := message_preview(NEW.content, NEW.attachments, 140);
+
+  IF v_group_title IS NOT NULL THEN
+    v_title := format('New message in %s', v_group_title);
+    v_preview := format('%s: %s', v_sender_name, v_preview);
+  ELSE
+    v_title := format('New message from %s', v_sender_name);
+  END IF;
+
+  FOR v_recipient_id IN
+    SELECT user_id
+    FROM conversation_participants
+    WHERE conversation_id = NEW.conversation_id
+      AND user_id <> NEW.sender_id
+      AND muted_at IS NULL
+  LOOP
+    UPDATE notifications
+    SET title = v_title,
+        body = v_preview,
+        created_at = now(),
+        data = data || jsonb_build_object(
+          'message_id', NEW.id,
+          'sender_id', NEW.sender_id,
+          'message_count', COALESCE((data->>'message_count')::int, 1) + 1
+        )
+    WHERE user_id = v_recipient_id
+      AND type = 'new_message'
+      AND read_at IS NULL
+      AND data->>'conversation_id' = NEW.conversation_id::text;
+
+    IF NOT FOUND THEN
+      PERFORM create_notification(
+        v_recipient_id,
+        'new_message',
+        v_title,
+        v_preview,
+        format('/messages?conversation=%s', NEW.conversation_id),
+        jsonb_build_object(
+          'conversation_id', NEW.conversation_id,
+          'message_id', NEW.id,
+          'sender_id', NEW.sender_id,
+          'message_count', 1
+        )
+      );
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- EMAIL
+-- ============================================================================
+
+-- No unread email for muted conversations
+CREATE OR REPLACE FUNCTION public.get_unread_message_recipients(
+  p_user_ids uuid[],
+  p_message_ids uuid[]
+)
+RETURNS TABLE (
+  user_id uuid,
+  message_id uuid
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT pair.user_id, pair.message_id
+  FROM unnest(p_user_ids, p_message_ids) AS pair(user_id, message_id)
+  INNER JOIN messages m ON m.id = pair.message_id
+  INNER JOIN conversations c ON c.id = m.conversation_id
+  INNER JOIN conversation_participants cp
+    ON cp.conversation_id = m.conversation_id
+   AND cp.user_id = pair.user_id
+  WHERE m.deleted_at IS NULL
+    AND cp.muted_at IS NULL
+    AND CASE
+      WHEN c.is_group THEN m.sent_at > COALESCE(cp.last_read_at, cp.joined_at)
+      ELSE m.read_at IS NULL
+    END;
+$$;
+
+-- ============================================================================
+-- GRANTS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.get_user_conversations(uuid, int) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_conversation_state(uuid, boolean, boolean, boolean, boolean) TO authenticated;
+
+COMMENT ON FUNCTION public.get_user_conversations IS
+  'Fetches the conversation list (direct and group) with profiles, last messages, member counts, unread counts and the caller''s archive, pin, mute and unread state in a single query.';
+COMMENT ON FUNCTION public.set_conversation_state IS
+  'Archives, pins, mutes or marks a conversation unread for the caller';
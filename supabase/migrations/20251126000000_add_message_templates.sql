@@ -0,0 +1,63 @@
+-- Message templates
+-- Saved replies a user can drop into the chat composer. Content may contain
+-- {{first_name}}, {{vacancy_title}} and {{club_name}}, which the client fills
+-- in from the conversation before inserting the text.
+
+-- ============================================================================
+-- TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.message_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  content text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT message_templates_title_length CHECK (char_length(btrim(title)) BETWEEN 1 AND 80),
+  -- Same limit as a message
+  CONSTRAINT message_templates_content_length CHECK (char_length(btrim(content)) BETWEEN 1 AND 1000),
+  CONSTRAINT message_templates_unique_title UNIQUE (user_id, title)
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_templates_user
+ON public.message_templates(user_id, title);
+
+DROP TRIGGER IF EXISTS update_message_templates_updated_at ON public.message_templates;
+
+CREATE TRIGGER update_message_templates_updated_at
+  BEFORE UPDATE ON public.message_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.message_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own message templates"
+  ON public.message_templates
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their own message templates"
+  ON public.message_templates
+  FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own message templates"
+  ON public.message_templates
+  FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own message templates"
+  ON public.message_templates
+  FOR DELETE
+  USING (user_id = auth.uid());
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.message_templates TO authenticated;
+
+COMMENT ON TABLE public.message_templates IS
+  'Saved chat replies with {{first_name}}, {{vacancy_title}} and {{club_name}} placeholders';
@@ -0,0 +1,5 @@
+-- Vacancy scheduling: notification type for vacancies closed at their deadline
+-- Kept in its own migration because new enum values cannot be used in the
+-- same transaction that adds them
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'vacancy_closed';
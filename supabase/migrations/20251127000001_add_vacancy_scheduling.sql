@@ -0,0 +1,151 @@
+-- Vacancy scheduling
+-- Clubs can schedule a draft to publish at a given time instead of publishing
+-- it by hand, and open vacancies now close by themselves once their
+-- application deadline has passed. Both happen in
+-- process_vacancy_schedule(), run every 15 minutes by pg_cron.
+--
+-- Closing a vacancy this way notifies the club and every applicant still
+-- waiting on a decision (status 'pending').
+
+-- ============================================================================
+-- COLUMN
+-- ============================================================================
+
+ALTER TABLE public.vacancies
+  ADD COLUMN IF NOT EXISTS scheduled_publish_at timestamptz;
+
+COMMENT ON COLUMN public.vacancies.scheduled_publish_at IS
+  'When a draft is published automatically; cleared once the vacancy leaves draft';
+
+CREATE INDEX IF NOT EXISTS idx_vacancies_scheduled_publish
+ON public.vacancies(scheduled_publish_at)
+WHERE status = 'draft' AND scheduled_publish_at IS NOT NULL;
+
+-- Publishing by hand or closing a draft drops any pending schedule
+CREATE OR REPLACE FUNCTION public.set_vacancy_published_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'open' AND OLD.status != 'open' AND NEW.published_at IS NULL THEN
+    NEW.published_at = now();
+  END IF;
+
+  IF NEW.status = 'closed' AND OLD.status != 'closed' AND NEW.closed_at IS NULL THEN
+    NEW.closed_at = now();
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM 'draft' THEN
+    NEW.scheduled_publish_at = NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- SCHEDULED JOB
+-- ============================================================================
+
+-- Publishes drafts whose scheduled time has come, then closes open vacancies
+-- whose deadline day is over. Drafts whose deadline has already passed are
+-- left alone rather than published only to close straight away. Safe to run
+-- repeatedly.
+CREATE OR REPLACE FUNCTION public.process_vacancy_schedule()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_published integer;
+  v_closed integer := 0;
+  v_notified integer := 0;
+  v_vacancy RECORD;
+  v_application RECORD;
+  v_pending integer;
+BEGIN
+  -- published_at is set and saved search alerts fire through the existing
+  -- vacancy triggers
+  UPDATE vacancies
+  SET status = 'open'
+  WHERE status = 'draft'
+    AND scheduled_publish_at <= now()
+    AND (application_deadline IS NULL OR application_deadline >= current_date);
+
+  GET DIAGNOSTICS v_published = ROW_COUNT;
+
+  FOR v_vacancy IN
+    UPDATE vacancies
+    SET status = 'closed',
+        closed_at = now()
+    WHERE status = 'open'
+      AND application_deadline < current_date
+    RETURNING id, club_id, title
+  LOOP
+    v_closed := v_closed + 1;
+    v_pending := 0;
+
+    FOR v_application IN
+      SELECT id, player_id
+      FROM vacancy_applications
+      WHERE vacancy_id = v_vacancy.id
+        AND status = 'pending'
+    LOOP
+      v_pending := v_pending + 1;
+
+      IF create_notification(
+        v_application.player_id,
+        'vacancy_closed',
+        format('Applications closed for %s', v_vacancy.title),
+        'The deadline has passed and the club is reviewing applications. We''ll let you know when yours moves forward.',
+        '/applications',
+        jsonb_build_object('vacancy_id', v_vacancy.id, 'application_id', v_application.id)
+      ) IS NOT NULL THEN
+        v_notified := v_notified + 1;
+      END IF;
+    END LOOP;
+
+    IF create_notification(
+      v_vacancy.club_id,
+      'vacancy_closed',
+      format('%s closed automatically', v_vacancy.title),
+      CASE
+        WHEN v_pending = 0 THEN 'The application deadline has passed.'
+        WHEN v_pending = 1 THEN 'The application deadline has passed. 1 applicant is waiting for a decision.'
+        ELSE format('The application deadline has passed. %s applicants are waiting for a decision.', v_pending)
+      END,
+      format('/dashboard/club/vacancies/%s/applicants', v_vacancy.id),
+      jsonb_build_object('vacancy_id', v_vacancy.id, 'pending_count', v_pending)
+    ) IS NOT NULL THEN
+      v_notified := v_notified + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'published', v_published,
+    'closed', v_closed,
+    'notified', v_notified
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.process_vacancy_schedule FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.process_vacancy_schedule IS
+  'Publishes scheduled drafts and closes vacancies past their application deadline';
+
+-- Run every 15 minutes. pg_cron is enabled wherever the database ships it
+-- (hosted projects); without it, call SELECT public.process_vacancy_schedule(); by hand
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+    PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'process-vacancy-schedule';
+    PERFORM cron.schedule(
+      'process-vacancy-schedule',
+      '*/15 * * * *',
+      'SELECT public.process_vacancy_schedule();'
+    );
+  END IF;
+END $$;
@@ -0,0 +1,195 @@
+-- Vacancy screening questions
+-- Clubs can attach up to 10 structured questions to a vacancy (yes/no,
+-- single choice, number, short text), optionally with a knockout rule.
+-- Applicants answer them when applying; the answers are checked here and
+-- stored in vacancy_applications.metadata->'screening':
+--
+--   { "answers": [{question_id, prompt, type, value, passed}], "knocked_out": bool }
+--
+-- The prompt is copied onto each answer so later edits to the vacancy don't
+-- change what an applicant appears to have answered. Knocked-out applications
+-- are still submitted; the club decides what to do with them.
+
+-- ============================================================================
+-- QUESTIONS
+-- ============================================================================
+
+-- Shape check used by the table constraint (see ScreeningQuestion on the client)
+CREATE OR REPLACE FUNCTION public.is_valid_screening_questions(p_questions jsonb)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_typeof(p_questions) = 'array'
+    AND jsonb_array_length(p_questions) <= 10
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(p_questions) q
+      WHERE CASE
+        WHEN jsonb_typeof(q) <> 'object' THEN true
+        WHEN COALESCE(q->>'id', '') = '' THEN true
+        WHEN COALESCE(q->>'type', '') NOT IN ('yes_no', 'single_choice', 'number', 'short_text') THEN true
+        WHEN char_length(btrim(COALESCE(q->>'prompt', ''))) NOT BETWEEN 1 AND 200 THEN true
+        -- required and the knockout values are cast when answers are checked
+        WHEN COALESCE(jsonb_typeof(q->'required'), 'null') NOT IN ('boolean', 'null') THEN true
+        WHEN COALESCE(jsonb_typeof(q->'knockout'), 'null') NOT IN ('object', 'null') THEN true
+        WHEN q->>'type' = 'yes_no' THEN
+          COALESCE(jsonb_typeof(q->'knockout'->'expected'), 'null') NOT IN ('boolean', 'null')
+        WHEN q->>'type' = 'single_choice' THEN
+          jsonb_typeof(q->'options') IS DISTINCT FROM 'array'
+          OR jsonb_array_length(q->'options') NOT BETWEEN 2 AND 10
+          OR COALESCE(jsonb_typeof(q->'knockout'->'accepted'), 'null') NOT IN ('array', 'null')
+        WHEN q->>'type' = 'number' THEN
+          COALESCE(jsonb_typeof(q->'knockout'->'min'), 'null') NOT IN ('number', 'null')
+          OR COALESCE(jsonb_typeof(q->'knockout'->'max'), 'null') NOT IN ('number', 'null')
+        ELSE false
+      END
+    )
+    AND (
+      SELECT count(DISTINCT q->>'id')
+      FROM jsonb_array_elements(p_questions) q
+    ) = jsonb_array_length(p_questions);
+$$;
+
+ALTER TABLE public.vacancies
+  ADD COLUMN IF NOT EXISTS screening_questions jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.vacancies
+  DROP CONSTRAINT IF EXISTS vacancies_screening_questions;
+
+ALTER TABLE public.vacancies
+  ADD CONSTRAINT vacancies_screening_questions
+  CHECK (public.is_valid_screening_questions(screening_questions));
+
+COMMENT ON COLUMN public.vacancies.screening_questions IS
+  'Screening questions: [{id, type, prompt, required, options?, knockout?}]';
+
+-- ============================================================================
+-- ANSWERS
+-- ============================================================================
+
+-- Turns the submitted metadata->'screening'->'answers' map ({question_id:
+-- value}) into the stored answer list. Answers of the wrong type count as
+-- missing; a missing required answer rejects the application.
+CREATE OR REPLACE FUNCTION public.apply_screening_answers()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_questions jsonb;
+  v_submitted jsonb;
+  v_question jsonb;
+  v_knockout jsonb;
+  v_value jsonb;
+  v_passed boolean;
+  v_answers jsonb := '[]'::jsonb;
+  v_knocked_out boolean := false;
+BEGIN
+  SELECT screening_questions INTO v_questions
+  FROM vacancies
+  WHERE id = NEW.vacancy_id;
+
+  NEW.metadata := COALESCE(NEW.metadata, '{}'::jsonb);
+
+  IF v_questions IS NULL OR jsonb_array_length(v_questions) = 0 THEN
+    NEW.metadata := NEW.metadata - 'screening';
+    RETURN NEW;
+  END IF;
+
+  v_submitted := NEW.metadata->'screening'->'answers';
+  IF jsonb_typeof(v_submitted) IS DISTINCT FROM 'object' THEN
+    v_submitted := '{}'::jsonb;
+  END IF;
+
+  FOR v_question IN SELECT * FROM jsonb_array_elements(v_questions)
+  LOOP
+    v_value := v_submitted->(v_question->>'id');
+    v_knockout := COALESCE(v_question->'knockout', 'null'::jsonb);
+
+    IF v_value IS NOT NULL AND NOT (
+      CASE v_question->>'type'
+        WHEN 'yes_no' THEN jsonb_typeof(v_value) = 'boolean'
+        WHEN 'number' THEN jsonb_typeof(v_value) = 'number'
+        WHEN 'single_choice' THEN jsonb_typeof(v_value) = 'string' AND (v_question->'options') ? (v_value #>> '{}')
+        ELSE jsonb_typeof(v_value) = 'string' AND btrim(v_value #>> '{}') <> ''
+      END
+    ) THEN
+      v_value := NULL;
+    END IF;
+
+    IF v_value IS NOT NULL AND v_question->>'type' = 'short_text' THEN
+      v_value := to_jsonb(left(btrim(v_value #>> '{}'), 300));
+    END IF;
+
+    IF v_value IS NULL AND COALESCE((v_question->>'required')::boolean, true) THEN
+      RAISE EXCEPTION 'Please answer: %', v_question->>'prompt' USING ERRCODE = 'check_violation';
+    END IF;
+
+    v_passed := v_value IS NULL OR (
+      CASE v_question->>'type'
+        WHEN 'yes_no' THEN
+          v_knockout->>'expected' IS NULL
+          OR (v_value #>> '{}')::boolean = (v_knockout->>'expected')::boolean
+        WHEN 'single_choice' THEN
+          jsonb_typeof(v_knockout->'accepted') IS DISTINCT FROM 'array'
+          OR jsonb_array_length(v_knockout->'accepted') = 0
+          OR (v_knockout->'accepted') ? (v_value #>> '{}')
+        WHEN 'number' THEN
+          (v_knockout->>'min' IS NULL OR (v_value #>> '{}')::numeric >= (v_knockout->>'min')::numeric)
+          AND (v_knockout->>'max' IS NULL OR (v_value #>> '{}')::numeric <= (v_knockout->>'max')::numeric)
+        ELSE true
+      END
+    );
+
+    v_knocked_out := v_knocked_out OR NOT v_passed;
+    v_answers := v_answers || jsonb_build_array(jsonb_build_object(
+      'question_id', v_question->>'id',
+      'prompt', v_question->>'prompt',
+      'type', v_question->>'type',
+      'value', COALESCE(v_value, 'null'::jsonb),
+      'passed', v_passed
+    ));
+  END LOOP;
+
+  NEW.metadata := NEW.metadata || jsonb_build_object(
+    'screening',
+    jsonb_build_object('answers', v_answers, 'knocked_out', v_knocked_out)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Answers are fixed once submitted
+CREATE OR REPLACE FUNCTION public.protect_screening_answers()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.metadata->'screening' IS DISTINCT FROM OLD.metadata->'screening' THEN
+    NEW.metadata := CASE
+      WHEN OLD.metadata ? 'screening'
+        THEN jsonb_set(COALESCE(NEW.metadata, '{}'::jsonb), '{screening}', OLD.metadata->'screening')
+      ELSE COALESCE(NEW.metadata, '{}'::jsonb) - 'screening'
+    END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_screening_answers ON public.vacancy_applications;
+DROP TRIGGER IF EXISTS protect_screening_answers ON public.vacancy_applications;
+
+CREATE TRIGGER apply_screening_answers
+  BEFORE INSERT ON public.vacancy_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_screening_answers();
+
+CREATE TRIGGER protect_screening_answers
+  BEFORE UPDATE OF metadata ON public.vacancy_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_screening_answers();
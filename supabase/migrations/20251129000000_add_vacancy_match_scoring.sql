@@ -0,0 +1,269 @@
+-- Candidate-to-vacancy match scoring
+-- Scores how well a player profile fits a vacancy so clubs can rank their
+-- applicants. Each factor only counts when the vacancy specifies it, and the
+-- score is the share of available points earned (0-100):
+--
+--   position      35  primary position match, or 20 for the secondary position
+--   eligibility   20  passport / nationality for the vacancy country (EU passports
+--                     count for EU countries), or 10 when only based there
+--   gender        15  profile gender matches the vacancy's team
+--   experience    15  highest league level in playing_history
+--   requirements  15  share of requirements whose keywords appear on the profile
+--
+-- The breakdown is returned as
+--   { "score": int, "factors": [{key, label, points, max, detail}] }
+
+-- ============================================================================
+-- HELPERS
+-- ============================================================================
+
+-- Rough tier of a free-text league name: 4 international, 3 top flight,
+-- 2 second tier, 1 anything else
+CREATE OR REPLACE FUNCTION public.league_level(p_division text)
+RETURNS smallint
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_division IS NULL OR btrim(p_division) = '' THEN NULL
+    WHEN p_division ~* '(international|national team|olympic|world cup|pro league)' THEN 4
+    WHEN p_division ~* '(second|2nd|\m2\.? ?bundesliga|division (2|two)\M|overgangsklasse|championship|regionalliga)' THEN 2
+    WHEN p_division ~* '(premier|first division|1st division|division (1|one)\M|top flight|hoofdklasse|bundesliga|super ?league|elite|honou?r)' THEN 3
+    ELSE 1
+  END::smallint;
+$$;
+
+-- Whether a free-text passport / nationality refers to the given country,
+-- e.g. 'Australian Passport' for 'Australia'
+CREATE OR REPLACE FUNCTION public.mentions_country(p_text text, p_country text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(btrim(p_text), '') <> ''
+    AND COALESCE(btrim(p_country), '') <> ''
+    AND (
+      p_text ILIKE '%' || btrim(p_country) || '%'
+      -- Demonyms often drop a trailing a/y ('Australia' / 'Australian', 'Germany' / 'German')
+      OR (
+        btrim(p_country) ~* '[ay]$'
+        AND char_length(btrim(p_country)) >= 5
+        AND p_text ILIKE '%' || left(btrim(p_country), -1) || '%'
+      )
+    );
+$$;
+
+-- ============================================================================
+-- SCORING
+-- ============================================================================
+
+-- The factors one player earns on each of the given vacancies, in breakdown
+-- order. Set-based so the player's profile, league level and profile text
+-- are loaded once however many vacancies are scored; everything that scores
+-- a player against a vacancy goes through here.
+CREATE OR REPLACE FUNCTION public.vacancy_match_factors(
+  p_player_id uuid,
+  p_vacancy_ids uuid[]
+)
+RETURNS TABLE (vacancy_id uuid, key text, label text, points integer, max integer, detail text)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH player AS (
+    SELECT
+      p.position,
+      p.secondary_position,
+      p.gender,
+      p.nationality,
+      p.passport_1,
+      p.passport_2,
+      p.base_location,
+      league.level AS league_level,
+      league.source AS league_source,
+      -- What requirement keywords are looked up in
+      lower(concat_ws(' ',
+        p.bio, p.position, p.secondary_position, p.nationality,
+        p.passport_1, p.passport_2, p.base_location, p.current_club,
+        p.league_division,
+        CASE WHEN p.highlight_video_url IS NOT NULL THEN 'highlight video' END,
+        (
+          SELECT string_agg(concat_ws(' ', ph.club_name, ph.division_league, ph.position_role, array_to_string(ph.achievements, ' ')), ' ')
+          FROM playing_history ph
+          WHERE ph.user_id = p.id
+        )
+      )) AS profile_text
+    FROM profiles p
+    -- Best league level across playing history and the current league
+    LEFT JOIN LATERAL (
+      SELECT levels.level, levels.source
+      FROM (
+        SELECT public.league_level(ph.division_league) AS level, ph.division_league AS source
+        FROM playing_history ph
+        WHERE ph.user_id = p.id
+        UNION ALL
+        SELECT public.league_level(p.league_division), p.league_division
+      ) levels
+      WHERE levels.level IS NOT NULL
+      ORDER BY levels.level DESC
+      LIMIT 1
+    ) league ON true
+    WHERE p.id = p_player_id
+  )
+  SELECT v.id, f.key, f.label, f.points, f.max, f.detail
+  FROM player
+  JOIN vacancies v ON v.id = ANY(p_vacancy_ids)
+  -- A requirement is met when at least half of its keywords appear somewhere
+  -- on the profile or playing history
+  CROSS JOIN LATERAL (
+    SELECT
+      count(*)::integer AS total,
+      count(*) FILTER (WHERE kw.matched * 2 >= kw.words)::integer AS met
+    FROM unnest(v.requirements) AS req (requirement)
+    CROSS JOIN LATERAL (
+      SELECT
+        count(*) AS words,
+        count(*) FILTER (WHERE position(keywords.word IN player.profile_text) > 0) AS matched
+      FROM (
+        SELECT DISTINCT word
+        FROM regexp_split_to_table(lower(req.requirement), '[^[:alnum:]]+') AS word
+        WHERE char_length(word) >= 4
+          AND word NOT IN (
+            'with', 'have', 'must', 'able', 'good', 'strong', 'should', 'will', 'that', 'this',
+            'from', 'years', 'year', 'experience', 'player', 'players', 'level', 'team', 'required'
+          )
+      ) keywords
+    ) kw
+    WHERE kw.words > 0
+  ) r
+  CROSS JOIN LATERAL (
+    VALUES
+      (
+        1, 'position', 'Position', v.position IS NOT NULL,
+        CASE
+          WHEN lower(player.position) = v.position::text THEN 35
+          WHEN lower(player.secondary_position) = v.position::text THEN 20
+          ELSE 0
+        END,
+        35,
+        CASE
+          WHEN lower(player.position) = v.position::text THEN 'Plays ' || player.position
+          WHEN lower(player.secondary_position) = v.position::text THEN 'Secondary position is ' || player.secondary_position
+          ELSE COALESCE('Plays ' || player.position, 'No position on profile')
+        END
+      ),
+      -- Eligibility to play in the vacancy country
+      (
+        2, 'eligibility', 'Eligibility', COALESCE(btrim(v.location_country), '') <> '',
+        CASE
+          WHEN public.mentions_country(player.passport_1, v.location_country)
+            OR public.mentions_country(player.passport_2, v.location_country)
+            OR public.mentions_country(player.nationality, v.location_country) THEN 20
+          -- is_eu_passport also recognises plain country names
+          WHEN public.is_eu_passport(v.location_country)
+            AND (public.is_eu_passport(player.passport_1) OR public.is_eu_passport(player.passport_2)) THEN 20
+          WHEN public.mentions_country(player.base_location, v.location_country) THEN 10
+          ELSE 0
+        END,
+        20,
+        CASE
+          WHEN public.mentions_country(player.passport_1, v.location_country)
+            OR public.mentions_country(player.passport_2, v.location_country) THEN 'Holds a passport for ' || v.location_country
+          WHEN public.mentions_country(player.nationality, v.location_country) THEN 'Nationality: ' || player.nationality
+          WHEN public.is_eu_passport(v.location_country)
+            AND (public.is_eu_passport(player.passport_1) OR public.is_eu_passport(player.passport_2)) THEN 'Holds an EU passport'
+          WHEN public.mentions_country(player.base_location, v.location_country) THEN 'Based in ' || v.location_country || ', no matching passport'
+          ELSE 'No passport for ' || v.location_country
+        END
+      ),
+      (
+        3, 'gender', 'Gender', v.gender IS NOT NULL,
+        CASE WHEN player.gender = v.gender::text THEN 15 ELSE 0 END,
+        15,
+        CASE
+          WHEN player.gender = v.gender::text THEN 'Plays in ' || v.gender || '''s hockey'
+          WHEN player.gender IS NULL THEN 'No gender on profile'
+          ELSE 'Vacancy is for ' || v.gender || '''s team'
+        END
+      ),
+      (
+        4, 'experience', 'League level', true,
+        CASE player.league_level WHEN 4 THEN 15 WHEN 3 THEN 12 WHEN 2 THEN 8 WHEN 1 THEN 4 ELSE 0 END,
+        15,
+        COALESCE('Highest: ' || player.league_source, 'No playing history')
+      ),
+      (
+        5, 'requirements', 'Requirements', r.total > 0,
+        CASE WHEN r.total > 0 THEN round(15.0 * r.met / r.total)::integer ELSE 0 END,
+        15,
+        r.met || ' of ' || r.total || ' mentioned on profile'
+      )
+  ) f (ordinal, key, label, applies, points, max, detail)
+  WHERE f.applies
+  ORDER BY v.id, f.ordinal;
+$$;
+
+REVOKE ALL ON FUNCTION public.vacancy_match_factors(uuid, uuid[]) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.vacancy_match_breakdown(
+  p_vacancy public.vacancies,
+  p_player_id uuid
+)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'score', round(100.0 * sum(f.points) / sum(f.max))::integer,
+    'factors', jsonb_agg(
+      jsonb_build_object('key', f.key, 'label', f.label, 'points', f.points, 'max', f.max, 'detail', f.detail)
+      ORDER BY f.ordinality
+    )
+  )
+  FROM public.vacancy_match_factors(p_player_id, ARRAY[p_vacancy.id]) WITH ORDINALITY f
+  -- No profile, no score
+  HAVING count(*) > 0;
+$$;
+
+REVOKE ALL ON FUNCTION public.vacancy_match_breakdown(public.vacancies, uuid) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.vacancy_match_breakdown IS
+  'Scores a player profile against a vacancy: {score, factors: [{key, label, points, max, detail}]}';
+
+-- ============================================================================
+-- CLUB RPC
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_application_match_scores(p_vacancy_id uuid)
+RETURNS TABLE (application_id uuid, score integer, breakdown jsonb)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vacancy vacancies%ROWTYPE;
+BEGIN
+  SELECT * INTO v_vacancy FROM vacancies WHERE id = p_vacancy_id;
+
+  IF NOT FOUND OR v_vacancy.club_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the club that posted this vacancy can score its applicants'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT va.id, (m.breakdown->>'score')::integer, m.breakdown
+  FROM vacancy_applications va
+  CROSS JOIN LATERAL (
+    SELECT public.vacancy_match_breakdown(v_vacancy, va.player_id) AS breakdown
+  ) m
+  WHERE va.vacancy_id = p_vacancy_id
+    AND m.breakdown IS NOT NULL;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_application_match_scores(uuid) TO authenticated;
+
+COMMENT ON FUNCTION public.get_application_match_scores IS
+  'Match score and breakdown for every application to one of the caller''s vacancies';
@@ -0,0 +1,209 @@
+-- Recommended opportunities
+-- Ranks open vacancies by fit to the signed-in player or coach, using the
+-- factors of the applicant match scoring (vacancy_match_factors) plus their
+-- location:
+--
+--   * only vacancies for the viewer's role (player / coach) are scored
+--   * coaches aren't scored on position or gender, which describe the squad
+--   * a 10-point location factor for vacancies in the city or country they are based in
+--
+-- Clients fetch the scores of the page they show in one
+-- vacancy_recommendation_scores call; the 'recommended' sort of
+-- search_vacancies ranks by the same scores and also hides vacancies the
+-- viewer has already applied to.
+
+-- ============================================================================
+-- SCORING
+-- ============================================================================
+
+-- Scores open vacancies for the caller with one vacancy_match_factors call,
+-- so the recommended sort can rank every open vacancy on each page and the
+-- factors always match what clubs see for the same profile.
+-- SECURITY DEFINER so the scoring can read playing_history, but it only ever
+-- scores the caller's own profile.
+CREATE OR REPLACE FUNCTION public.vacancy_recommendation_scores(p_vacancy_ids uuid[] DEFAULT NULL)
+RETURNS TABLE (vacancy_id uuid, score integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH viewer AS (
+    SELECT p.id, p.role, p.base_location
+    FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role IN ('player', 'coach')
+  ),
+  candidates AS (
+    SELECT v.id, v.location_city, v.location_country
+    FROM viewer
+    JOIN vacancies v
+      ON v.opportunity_type::text = viewer.role
+      AND v.status = 'open'
+      AND (p_vacancy_ids IS NULL OR v.id = ANY(p_vacancy_ids))
+  ),
+  factors AS (
+    SELECT f.vacancy_id, sum(f.points) AS points, sum(f.max) AS max
+    FROM viewer
+    CROSS JOIN public.vacancy_match_factors(viewer.id, ARRAY(SELECT c.id FROM candidates c)) f
+    -- Position and gender describe the squad, so coaches aren't scored on them
+    WHERE viewer.role = 'player' OR f.key NOT IN ('position', 'gender')
+    GROUP BY f.vacancy_id
+  )
+  SELECT
+    c.id,
+    round(
+      100.0
+      * (
+        f.points
+        + CASE
+          WHEN public.mentions_country(viewer.base_location, c.location_country)
+            OR (btrim(c.location_city) <> '' AND viewer.base_location ILIKE '%' || btrim(c.location_city) || '%') THEN 10
+          ELSE 0
+        END
+      )
+      / (f.max + 10)
+    )::integer
+  FROM viewer
+  CROSS JOIN candidates c
+  JOIN factors f ON f.vacancy_id = c.id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.vacancy_recommendation_scores(uuid[]) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.vacancy_recommendation_scores IS
+  'Fit (0-100) of open vacancies for the signed-in player or coach, optionally limited to the given ids';
+
+-- ============================================================================
+-- SEARCH FUNCTION
+-- ============================================================================
+
+-- Signature gains p_cursor_score, so the function has to be recreated
+DROP FUNCTION IF EXISTS public.search_vacancies(
+  opportunity_type, text[], vacancy_gender, text, text, text[], vacancy_priority, text,
+  uuid, timestamptz, date, date, vacancy_priority, integer
+);
+
+-- Sort keys (ties are always broken by created_at DESC, id DESC):
+--   newest      -> created_at DESC
+--   deadline    -> application_deadline ASC, vacancies without a deadline last
+--   start_date  -> start_date ASC, immediate starts (no date) first
+--   priority    -> high, medium, low
+--   recommended -> recommendation score DESC, unscored vacancies last; excludes
+--                  vacancies the caller has applied to
+--
+-- Keyset pagination: pass the sort columns of the last row received as the
+-- p_cursor_* arguments (p_cursor_id is required, the others may be NULL when
+-- the row had NULL in that column) to fetch the next page.
+--
+-- SECURITY INVOKER so the regular vacancies RLS policies still apply.
+CREATE OR REPLACE FUNCTION public.search_vacancies(
+  p_opportunity_type opportunity_type DEFAULT NULL,
+  p_positions text[] DEFAULT NULL,
+  p_gender vacancy_gender DEFAULT NULL,
+  p_location text DEFAULT NULL,
+  p_start_date text DEFAULT NULL,
+  p_benefits text[] DEFAULT NULL,
+  p_priority vacancy_priority DEFAULT NULL,
+  p_sort text DEFAULT 'newest',
+  p_cursor_id uuid DEFAULT NULL,
+  p_cursor_created_at timestamptz DEFAULT NULL,
+  p_cursor_deadline date DEFAULT NULL,
+  p_cursor_start_date date DEFAULT NULL,
+  p_cursor_priority vacancy_priority DEFAULT NULL,
+  p_cursor_score integer DEFAULT NULL,
+  p_limit integer DEFAULT 20
+)
+RETURNS SETOF public.vacancies
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT v.*
+  FROM vacancies v
+  -- Every open vacancy is scored in one pass, and only for the recommended sort
+  LEFT JOIN (
+    SELECT scores.vacancy_id, scores.score
+    FROM public.vacancy_recommendation_scores() scores
+    WHERE p_sort = 'recommended'
+  ) s ON s.vacancy_id = v.id
+  CROSS JOIN LATERAL (
+    SELECT
+      COALESCE(v.created_at, '-infinity'::timestamptz) AS created_key,
+      COALESCE(v.application_deadline, 'infinity'::date) AS deadline_key,
+      COALESCE(v.start_date, '-infinity'::date) AS start_key,
+      CASE v.priority WHEN 'high' THEN 3 WHEN 'medium' THEN 2 WHEN 'low' THEN 1 ELSE 0 END AS priority_key,
+      CASE WHEN p_sort = 'recommended' THEN COALESCE(s.score, -1) ELSE 0 END AS score_key
+  ) k
+  CROSS JOIN (
+    SELECT
+      COALESCE(p_cursor_created_at, '-infinity'::timestamptz) AS created_key,
+      COALESCE(p_cursor_deadline, 'infinity'::date) AS deadline_key,
+      COALESCE(p_cursor_start_date, '-infinity'::date) AS start_key,
+      CASE p_cursor_priority WHEN 'high' THEN 3 WHEN 'medium' THEN 2 WHEN 'low' THEN 1 ELSE 0 END AS priority_key,
+      COALESCE(p_cursor_score, -1) AS score_key
+  ) c
+  WHERE v.status = 'open'
+    AND (p_opportunity_type IS NULL OR v.opportunity_type = p_opportunity_type)
+    AND (
+      p_positions IS NULL
+      OR cardinality(p_positions) = 0
+      OR v.position::text = ANY(p_positions)
+    )
+    AND (p_gender IS NULL OR v.gender = p_gender)
+    AND (
+      p_location IS NULL
+      OR btrim(p_location) = ''
+      OR v.location_city ILIKE '%' || btrim(p_location) || '%'
+      OR v.location_country ILIKE '%' || btrim(p_location) || '%'
+    )
+    AND (
+      p_start_date IS NULL
+      OR p_start_date NOT IN ('immediate', 'specific')
+      OR (p_start_date = 'immediate' AND v.start_date IS NULL)
+      OR (p_start_date = 'specific' AND v.start_date IS NOT NULL)
+    )
+    AND (
+      p_benefits IS NULL
+      OR cardinality(p_benefits) = 0
+      OR v.benefits && p_benefits
+    )
+    AND (p_priority IS NULL OR v.priority = p_priority)
+    AND (
+      p_sort IS DISTINCT FROM 'recommended'
+      OR auth.uid() IS NULL
+      OR NOT public.user_applied_to_vacancy(v.id)
+    )
+    AND (
+      p_cursor_id IS NULL
+      OR CASE p_sort
+        WHEN 'deadline' THEN
+          k.deadline_key > c.deadline_key
+          OR (k.deadline_key = c.deadline_key AND (k.created_key, v.id) < (c.created_key, p_cursor_id))
+        WHEN 'start_date' THEN
+          k.start_key > c.start_key
+          OR (k.start_key = c.start_key AND (k.created_key, v.id) < (c.created_key, p_cursor_id))
+        WHEN 'priority' THEN
+          k.priority_key < c.priority_key
+          OR (k.priority_key = c.priority_key AND (k.created_key, v.id) < (c.created_key, p_cursor_id))
+        WHEN 'recommended' THEN
+          k.score_key < c.score_key
+          OR (k.score_key = c.score_key AND (k.created_key, v.id) < (c.created_key, p_cursor_id))
+        ELSE
+          (k.created_key, v.id) < (c.created_key, p_cursor_id)
+      END
+    )
+  ORDER BY
+    CASE WHEN p_sort = 'deadline' THEN k.deadline_key END ASC,
+    CASE WHEN p_sort = 'start_date' THEN k.start_key END ASC,
+    CASE WHEN p_sort = 'priority' THEN k.priority_key END DESC,
+    CASE WHEN p_sort = 'recommended' THEN k.score_key END DESC,
+    k.created_key DESC,
+    v.id DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_vacancies TO anon, authenticated;
+
+COMMENT ON FUNCTION public.search_vacancies IS
+  'Filtered, sorted, keyset-paginated search over open vacancies for the Opportunities page';
@@ -0,0 +1,306 @@
+-- Scout search and shortlists
+-- Lets clubs look for players who haven't applied to them: a player search
+-- with scouting filters (including league history from playing_history and
+-- whether a highlight video is linked), plus named shortlists where each
+-- player can carry a private note. Shortlists and notes are only ever visible
+-- to the club that owns them.
+
+-- ============================================================================
+-- SHORTLISTS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.scout_shortlists (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  club_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT scout_shortlists_name_length CHECK (char_length(btrim(name)) BETWEEN 1 AND 60),
+  CONSTRAINT scout_shortlists_unique_name UNIQUE (club_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_scout_shortlists_club
+ON public.scout_shortlists(club_id, name);
+
+CREATE TABLE IF NOT EXISTS public.scout_shortlist_players (
+  shortlist_id uuid NOT NULL REFERENCES public.scout_shortlists(id) ON DELETE CASCADE,
+  player_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  note text,
+  added_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (shortlist_id, player_id),
+  CONSTRAINT scout_shortlist_players_note_length CHECK (note IS NULL OR char_length(note) <= 2000)
+);
+
+CREATE INDEX IF NOT EXISTS idx_scout_shortlist_players_player
+ON public.scout_shortlist_players(player_id);
+
+DROP TRIGGER IF EXISTS update_scout_shortlists_updated_at ON public.scout_shortlists;
+
+CREATE TRIGGER update_scout_shortlists_updated_at
+  BEFORE UPDATE ON public.scout_shortlists
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_scout_shortlist_players_updated_at ON public.scout_shortlist_players;
+
+CREATE TRIGGER update_scout_shortlist_players_updated_at
+  BEFORE UPDATE ON public.scout_shortlist_players
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Only player profiles can be shortlisted
+CREATE OR REPLACE FUNCTION public.check_shortlist_player()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = NEW.player_id AND role = 'player') THEN
+    RAISE EXCEPTION 'Only players can be added to a shortlist'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_shortlist_player ON public.scout_shortlist_players;
+
+CREATE TRIGGER check_shortlist_player
+  BEFORE INSERT OR UPDATE OF player_id ON public.scout_shortlist_players
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_shortlist_player();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.scout_shortlists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.scout_shortlist_players ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clubs can view their own shortlists"
+  ON public.scout_shortlists
+  FOR SELECT
+  USING (club_id = auth.uid());
+
+CREATE POLICY "Clubs can create their own shortlists"
+  ON public.scout_shortlists
+  FOR INSERT
+  WITH CHECK (
+    club_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'club')
+  );
+
+CREATE POLICY "Clubs can update their own shortlists"
+  ON public.scout_shortlists
+  FOR UPDATE
+  USING (club_id = auth.uid())
+  WITH CHECK (club_id = auth.uid());
+
+CREATE POLICY "Clubs can delete their own shortlists"
+  ON public.scout_shortlists
+  FOR DELETE
+  USING (club_id = auth.uid());
+
+CREATE POLICY "Clubs can view players on their own shortlists"
+  ON public.scout_shortlist_players
+  FOR SELECT
+  USING (
+    EXISTS (SELECT 1 FROM public.scout_shortlists s WHERE s.id = shortlist_id AND s.club_id = auth.uid())
+  );
+
+CREATE POLICY "Clubs can add players to their own shortlists"
+  ON public.scout_shortlist_players
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM public.scout_shortlists s WHERE s.id = shortlist_id AND s.club_id = auth.uid())
+  );
+
+CREATE POLICY "Clubs can update players on their own shortlists"
+  ON public.scout_shortlist_players
+  FOR UPDATE
+  USING (
+    EXISTS (SELECT 1 FROM public.scout_shortlists s WHERE s.id = shortlist_id AND s.club_id = auth.uid())
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM public.scout_shortlists s WHERE s.id = shortlist_id AND s.club_id = auth.uid())
+  );
+
+CREATE POLICY "Clubs can remove players from their own shortlists"
+  ON public.scout_shortlist_players
+  FOR DELETE
+  USING (
+    EXISTS (SELECT 1 FROM public.scout_shortlists s WHERE s.id = shortlist_id AND s.club_id = auth.uid())
+  );
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.scout_shortlists TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.scout_shortlist_players TO authenticated;
+
+COMMENT ON TABLE public.scout_shortlists IS
+  'Named lists of players a club is tracking; private to the club';
+COMMENT ON COLUMN public.scout_shortlist_players.note IS
+  'Private scouting note, only visible to the club that owns the shortlist';
+
+-- ============================================================================
+-- SEARCH
+-- ============================================================================
+
+-- Scout filters (same keys as ScoutFilters on the client). Text filters match
+-- anywhere in the free-text profile fields; league also searches every
+-- playing_history entry, and minLeagueLevel uses league_level().
+CREATE OR REPLACE FUNCTION public.player_matches_scout_filters(
+  p_profile public.profiles,
+  p_filters jsonb
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    (
+      btrim(COALESCE(p_filters->>'query', '')) = ''
+      OR p_profile.full_name ILIKE '%' || btrim(p_filters->>'query') || '%'
+      OR p_profile.username ILIKE '%' || btrim(p_filters->>'query') || '%'
+      OR p_profile.current_club ILIKE '%' || btrim(p_filters->>'query') || '%'
+    )
+    AND (
+      cardinality(profile_filter_values(p_filters, 'positions')) = 0
+      OR lower(btrim(p_profile.position)) = ANY(profile_filter_values(p_filters, 'positions'))
+      OR lower(btrim(p_profile.secondary_position)) = ANY(profile_filter_values(p_filters, 'positions'))
+    )
+    AND (
+      profile_filter_int(p_filters, 'ageMin') IS NULL
+      OR profile_age(p_profile.date_of_birth) >= profile_filter_int(p_filters, 'ageMin')
+    )
+    AND (
+      profile_filter_int(p_filters, 'ageMax') IS NULL
+      OR profile_age(p_profile.date_of_birth) <= profile_filter_int(p_filters, 'ageMax')
+    )
+    AND (
+      btrim(COALESCE(p_filters->>'nationality', '')) = ''
+      OR p_profile.nationality ILIKE '%' || btrim(p_filters->>'nationality') || '%'
+    )
+    AND (
+      btrim(COALESCE(p_filters->>'passport', '')) = ''
+      OR p_profile.passport_1 ILIKE '%' || btrim(p_filters->>'passport') || '%'
+      OR p_profile.passport_2 ILIKE '%' || btrim(p_filters->>'passport') || '%'
+    )
+    AND (
+      COALESCE(p_filters->'euPassport', 'false'::jsonb) <> 'true'::jsonb
+      OR is_eu_passport(p_profile.passport_1)
+      OR is_eu_passport(p_profile.passport_2)
+    )
+    AND (
+      btrim(COALESCE(p_filters->>'league', '')) = ''
+      OR p_profile.league_division ILIKE '%' || btrim(p_filters->>'league') || '%'
+      OR EXISTS (
+        SELECT 1 FROM playing_history ph
+        WHERE ph.user_id = p_profile.id
+          AND ph.division_league ILIKE '%' || btrim(p_filters->>'league') || '%'
+      )
+    )
+    AND (
+      profile_filter_int(p_filters, 'minLeagueLevel') IS NULL
+      OR league_level(p_profile.league_division) >= profile_filter_int(p_filters, 'minLeagueLevel')
+      OR EXISTS (
+        SELECT 1 FROM playing_history ph
+        WHERE ph.user_id = p_profile.id
+          AND league_level(ph.division_league) >= profile_filter_int(p_filters, 'minLeagueLevel')
+      )
+    )
+    AND (
+      COALESCE(p_filters->'hasHighlightVideo', 'false'::jsonb) <> 'true'::jsonb
+      OR btrim(COALESCE(p_profile.highlight_video_url, '')) <> ''
+    );
+$$;
+
+-- Page of onboarded players for club scouting, strongest league history
+-- first. total_count is the number of matches across all pages.
+CREATE OR REPLACE FUNCTION public.search_scout_players(
+  p_filters jsonb DEFAULT '{}'::jsonb,
+  p_limit integer DEFAULT 24,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  avatar_url text,
+  full_name text,
+  username text,
+  nationality text,
+  passport_1 text,
+  passport_2 text,
+  base_location text,
+  "position" text,
+  secondary_position text,
+  current_club text,
+  availability text,
+  age integer,
+  has_highlight_video boolean,
+  top_league text,
+  top_league_level smallint,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND role = 'club') THEN
+    RAISE EXCEPTION 'Only clubs can scout players' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.avatar_url,
+    p.full_name,
+    p.username,
+    p.nationality,
+    p.passport_1,
+    p.passport_2,
+    p.base_location,
+    p.position,
+    p.secondary_position,
+    p.current_club,
+    p.availability,
+    profile_age(p.date_of_birth),
+    btrim(COALESCE(p.highlight_video_url, '')) <> '',
+    league.source,
+    league.level,
+    count(*) OVER ()
+  FROM profiles p
+  LEFT JOIN LATERAL (
+    SELECT levels.level, levels.source
+    FROM (
+      SELECT league_level(ph.division_league) AS level, ph.division_league AS source
+      FROM playing_history ph
+      WHERE ph.user_id = p.id
+      UNION ALL
+      SELECT league_level(p.league_division), p.league_division
+    ) levels
+    WHERE levels.level IS NOT NULL
+    ORDER BY levels.level DESC
+    LIMIT 1
+  ) league ON true
+  WHERE p.role = 'player'
+    AND p.onboarding_completed = true
+    -- Players the club blocked; players who blocked the club stay listed so the block isn't revealed
+    AND NOT EXISTS (
+      SELECT 1 FROM user_blocks b
+      WHERE b.blocker_id = auth.uid()
+        AND b.blocked_id = p.id
+    )
+    AND player_matches_scout_filters(p, COALESCE(p_filters, '{}'::jsonb))
+  ORDER BY league.level DESC NULLS LAST, p.created_at DESC, p.id
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 24), 1), 100)
+  OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_scout_players(jsonb, integer, integer) TO authenticated;
+
+COMMENT ON FUNCTION public.search_scout_players IS
+  'Club talent search over player profiles and playing history';